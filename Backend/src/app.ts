@@ -10,6 +10,8 @@ import cors from 'cors';
 import config from '@config/env';
 import * as security from '@config/security';
 import * as apiSecurity from '@middlewares/apiSecurity';
+import { maintenanceMode } from '@middlewares/maintenance';
+import AppError from '@utils/appError';
 
 const app: Application = express();
 
@@ -37,6 +39,7 @@ app.use(express.urlencoded(security.requestSizeLimits.urlencoded));
 app.use(cookieParser(config.cookie.secret));
 
 // ============= SECURITY LAYER 5: Data Sanitization =============
+app.use(security.writableQuery);
 app.use(security.mongoSanitizeConfig);
 app.use(security.hppConfig);
 app.use(apiSecurity.sanitizeInput);
@@ -46,7 +49,10 @@ app.use(apiSecurity.validateUserAgent);
 // ============= SECURITY LAYER 6: Content-Type Validation =============
 app.use(apiSecurity.validateContentType(['application/json', 'multipart/form-data']));
 
-// ============= SECURITY LAYER 7: Compression =============
+// ============= SECURITY LAYER 7: CSRF (cookie auth mode) =============
+app.use('/api', apiSecurity.verifyCSRFToken);
+
+// ============= SECURITY LAYER 8: Compression =============
 app.use(security.compressionConfig);
 
 // ============= Static Files - Serve Uploads =============
@@ -65,6 +71,9 @@ app.get('/health', (_req: Request, res: Response) => {
     });
 });
 
+// Maintenance mode - staff and sign-in keep working
+app.use('/api', maintenanceMode);
+
 // Mount API routes with rate limiting
 app.use('/api', routes);
 
@@ -149,6 +158,17 @@ app.use((err: CustomError, req: Request, res: Response, _next: NextFunction) =>
         return;
     }
 
+    // Operational errors raised by services
+    if (err instanceof AppError) {
+        res.status(err.statusCode).json({
+            success: false,
+            message: err.message,
+            ...(err.errors && { errors: err.errors }),
+            requestId: req.id,
+        });
+        return;
+    }
+
     // Payload too large
     if (err.type === 'entity.too.large') {
         res.status(413).json({
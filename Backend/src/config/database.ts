@@ -0,0 +1,61 @@
+/**
+ * Database Configuration - TypeScript
+ * Select the persistence adapter from DATABASE_URL
+ */
+
+import config from './env';
+import logger from '@utils/logger';
+import MemoryAdapter from '@models/adapters/memoryAdapter';
+import MongoAdapter from '@models/adapters/mongoAdapter';
+import { IDatabaseAdapter } from '@types';
+
+/**
+ * Collection names shared by every adapter
+ */
+export const COLLECTIONS = {
+    USERS: 'users',
+    ROLES: 'roles',
+    ONE_TIME_TOKENS: 'one_time_tokens',
+    SESSIONS: 'sessions',
+    API_KEYS: 'api_keys',
+    PRODUCTS: 'products',
+    CATEGORIES: 'categories',
+    INVENTORY_MOVEMENTS: 'inventory_movements',
+    ORDERS: 'orders',
+    NEWS: 'news',
+    NEWS_REVISIONS: 'news_revisions',
+    SETTINGS: 'settings',
+} as const;
+
+/**
+ * mongodb:// and mongodb+srv:// use MongoDB; empty or memory:// stays in memory
+ */
+const createAdapter = (url: string): IDatabaseAdapter => {
+    if (/^mongodb(\+srv)?:\/\//.test(url)) {
+        return new MongoAdapter(url);
+    }
+    if (url && !url.startsWith('memory://')) {
+        throw new Error(`Unsupported DATABASE_URL scheme: ${url.split(':')[0]}`);
+    }
+    return new MemoryAdapter();
+};
+
+export const database: IDatabaseAdapter = createAdapter(config.database.url);
+
+/**
+ * Connect the selected adapter
+ */
+export const connectDatabase = async (): Promise<void> => {
+    await database.connect();
+    logger.info('Database connected', { adapter: database.name });
+};
+
+/**
+ * Close the adapter connection
+ */
+export const disconnectDatabase = async (): Promise<void> => {
+    await database.disconnect();
+    logger.info('Database disconnected', { adapter: database.name });
+};
+
+export default database;
@@ -42,6 +42,47 @@ const config: IEnvConfig = {
         secret: process.env.COOKIE_SECRET || '',
         maxAge: parseInt(process.env.COOKIE_MAX_AGE || '604800000', 10),
     },
+
+    // Auth flows
+    auth: {
+        // cookie: refresh token in an httpOnly cookie; header: both tokens in the JSON body
+        tokenTransport: process.env.AUTH_TOKEN_TRANSPORT === 'header' ? 'header' : 'cookie',
+        requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+        verificationTokenTtlMs: parseInt(process.env.VERIFICATION_TOKEN_TTL_MS || '86400000', 10),
+        passwordResetTokenTtlMs: parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MS || '3600000', 10),
+        mfaIssuer: process.env.MFA_ISSUER || 'MERN Admin',
+        mfaChallengeExpire: process.env.MFA_CHALLENGE_EXPIRE || '5m',
+    },
+
+    // Email
+    email: {
+        from: process.env.EMAIL_FROM || 'no-reply@localhost',
+        outputDir: process.env.EMAIL_OUTPUT_DIR || 'mail',
+    },
+
+    // Frontend URL used in emailed links
+    appUrl: process.env.APP_URL || 'http://localhost:5173',
+
+    // Order totals; amounts in whole VND, tax applies after discounts
+    orders: {
+        taxRate: parseFloat(process.env.ORDER_TAX_RATE || '0.1'),
+        shippingFee: parseInt(process.env.ORDER_SHIPPING_FEE || '30000', 10),
+        freeShippingThreshold: parseInt(process.env.ORDER_FREE_SHIPPING_THRESHOLD || '500000', 10),
+    },
+
+    // Store defaults for the admin settings
+    store: {
+        name: process.env.STORE_NAME || 'MERN Store',
+        currency: process.env.STORE_CURRENCY || 'VND',
+        locale: process.env.STORE_LOCALE || 'vi-VN',
+    },
+
+    // Initial admin account (seeded on startup when set)
+    admin: {
+        email: process.env.ADMIN_EMAIL || '',
+        password: process.env.ADMIN_PASSWORD || '',
+        name: process.env.ADMIN_NAME || 'Administrator',
+    },
 };
 
 /**
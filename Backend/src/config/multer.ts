@@ -3,11 +3,11 @@
  * Secure file upload handling with validation
  */
 
-import multer, { StorageEngine, FileFilterCallback } from 'multer';
+import multer, { Field, FileFilterCallback, Options, StorageEngine } from 'multer';
 import path from 'path';
 import fs from 'fs';
 import crypto from 'crypto';
-import { Request } from 'express';
+import { Request, RequestHandler } from 'express';
 
 // Upload directories
 const UPLOAD_DIRS = {
@@ -17,14 +17,17 @@ const UPLOAD_DIRS = {
     TEMP: 'uploads/temp',
 } as const;
 
-// File size limits (in bytes)
-const FILE_SIZE_LIMITS = {
+// Default file size limits (in bytes)
+const DEFAULT_FILE_SIZE_LIMITS = {
     AVATAR: 5 * 1024 * 1024, // 5MB
     IMAGE: 10 * 1024 * 1024, // 10MB
     DOCUMENT: 20 * 1024 * 1024, // 20MB
     VIDEO: 100 * 1024 * 1024, // 100MB
 } as const;
 
+// Limits in effect; admin settings replace them at runtime
+const FILE_SIZE_LIMITS: Record<keyof typeof DEFAULT_FILE_SIZE_LIMITS, number> = { ...DEFAULT_FILE_SIZE_LIMITS };
+
 // Allowed MIME types
 const ALLOWED_MIME_TYPES = {
     IMAGES: ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'] as string[],
@@ -89,63 +92,88 @@ const videoFileFilter = (_req: Request, file: Express.Multer.File, cb: FileFilte
     }
 };
 
-// Avatar upload (single image, max 5MB)
-export const uploadAvatar = multer({
-    storage: createStorage(UPLOAD_DIRS.AVATARS),
+/**
+ * Multer builds its limits into each middleware, so the uploaders below
+ * build a fresh one per request and new limits apply to the next upload
+ */
+const reloadable = (options: () => Options) => ({
+    single: (field: string): RequestHandler => (req, res, next) => multer(options()).single(field)(req, res, next),
+    array: (field: string, maxCount?: number): RequestHandler => (req, res, next) =>
+        multer(options()).array(field, maxCount)(req, res, next),
+    fields: (fields: readonly Field[]): RequestHandler => (req, res, next) =>
+        multer(options()).fields(fields)(req, res, next),
+});
+
+const avatarStorage = createStorage(UPLOAD_DIRS.AVATARS);
+const imageStorage = createStorage(UPLOAD_DIRS.IMAGES);
+const documentStorage = createStorage(UPLOAD_DIRS.DOCUMENTS);
+const tempStorage = createStorage(UPLOAD_DIRS.TEMP);
+const memoryStorage = multer.memoryStorage();
+
+// Avatar upload (single image, max 5MB by default)
+export const uploadAvatar = reloadable(() => ({
+    storage: avatarStorage,
     fileFilter: imageFileFilter,
     limits: {
         fileSize: FILE_SIZE_LIMITS.AVATAR,
         files: 1,
     },
-});
+}));
 
-// Image upload (multiple images, max 10MB each)
-export const uploadImages = multer({
-    storage: createStorage(UPLOAD_DIRS.IMAGES),
+// Image upload (multiple images, max 10MB each by default)
+export const uploadImages = reloadable(() => ({
+    storage: imageStorage,
     fileFilter: imageFileFilter,
     limits: {
         fileSize: FILE_SIZE_LIMITS.IMAGE,
         files: 10,
     },
-});
+}));
 
-// Document upload (single or multiple, max 20MB each)
-export const uploadDocuments = multer({
-    storage: createStorage(UPLOAD_DIRS.DOCUMENTS),
+// Document upload (single or multiple, max 20MB each by default)
+export const uploadDocuments = reloadable(() => ({
+    storage: documentStorage,
     fileFilter: documentFileFilter,
     limits: {
         fileSize: FILE_SIZE_LIMITS.DOCUMENT,
         files: 5,
     },
-});
+}));
 
 // Generic file upload with memory storage (for processing before saving)
-export const uploadToMemory = multer({
-    storage: multer.memoryStorage(),
+export const uploadToMemory = reloadable(() => ({
+    storage: memoryStorage,
     limits: {
         fileSize: FILE_SIZE_LIMITS.DOCUMENT,
         files: 1,
     },
-});
+}));
 
 // Temporary upload (will be moved or deleted later)
-export const uploadTemp = multer({
-    storage: createStorage(UPLOAD_DIRS.TEMP),
+export const uploadTemp = reloadable(() => ({
+    storage: tempStorage,
     limits: {
         fileSize: FILE_SIZE_LIMITS.DOCUMENT,
         files: 5,
     },
-});
+}));
 
-// Video upload (single video, max 100MB)
-export const uploadVideo = multer({
-    storage: createStorage(UPLOAD_DIRS.IMAGES), // Store in images for now
+// Video upload (single video, max 100MB by default)
+export const uploadVideo = reloadable(() => ({
+    storage: imageStorage, // Store in images for now
     fileFilter: videoFileFilter,
     limits: {
         fileSize: FILE_SIZE_LIMITS.VIDEO,
         files: 1,
     },
-});
+}));
+
+/**
+ * Replace the size limits for subsequent uploads
+ */
+export const setFileSizeLimits = (limits: Partial<typeof FILE_SIZE_LIMITS>): void => {
+    Object.assign(FILE_SIZE_LIMITS, limits);
+};
 
 // Utility: Delete uploaded file
 export const deleteFile = (filePath: string): void => {
@@ -184,4 +212,4 @@ export const getReadableFileSize = (bytes: number): string => {
 };
 
 // Export constants for use in controllers
-export { UPLOAD_DIRS, FILE_SIZE_LIMITS, ALLOWED_MIME_TYPES };
+export { UPLOAD_DIRS, DEFAULT_FILE_SIZE_LIMITS, FILE_SIZE_LIMITS, ALLOWED_MIME_TYPES };
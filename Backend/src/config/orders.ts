@@ -0,0 +1,53 @@
+/**
+ * Order Workflow - TypeScript
+ * Order statuses and the transitions allowed between them
+ */
+
+import { OrderStatus, Permission } from '@types';
+
+export const ORDER_STATUSES: OrderStatus[] = [
+    'pending',
+    'paid',
+    'fulfilled',
+    'shipped',
+    'delivered',
+    'cancelled',
+    'refunded',
+];
+
+/**
+ * Checked on every status change; cancelled and refunded are final
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ['paid', 'cancelled'],
+    paid: ['fulfilled', 'cancelled', 'refunded'],
+    fulfilled: ['shipped', 'cancelled', 'refunded'],
+    shipped: ['delivered', 'refunded'],
+    delivered: ['refunded'],
+    cancelled: [],
+    refunded: [],
+};
+
+/**
+ * Moving into these statuses needs a permission beyond orders:write
+ */
+export const ORDER_TRANSITION_PERMISSIONS: Partial<Record<OrderStatus, Permission>> = {
+    refunded: 'orders:refund',
+};
+
+// A reason is recorded in the audit trail for these
+export const ORDER_STATUSES_REQUIRING_REASON: OrderStatus[] = ['cancelled', 'refunded'];
+
+/**
+ * Stock reserved at creation goes back on the shelf when an order is
+ * cancelled or refunded before it ships; returns after shipping are
+ * adjusted by hand
+ */
+export const ORDER_STATUSES_HOLDING_STOCK: OrderStatus[] = ['pending', 'paid', 'fulfilled'];
+export const ORDER_STATUSES_RELEASING_STOCK: OrderStatus[] = ['cancelled', 'refunded'];
+
+// Counted as revenue in stats: paid for and neither cancelled nor refunded
+export const ORDER_STATUSES_COUNTED_AS_REVENUE: OrderStatus[] = ['paid', 'fulfilled', 'shipped', 'delivered'];
+
+export const isOrderStatus = (value: unknown): value is OrderStatus =>
+    ORDER_STATUSES.includes(value as OrderStatus);
@@ -0,0 +1,70 @@
+/**
+ * Permission Catalogue - TypeScript
+ * Every permission the API checks, and the default role mapping
+ */
+
+import { Permission, UserRole } from '@types';
+
+export const PERMISSIONS = [
+    'admin:access',
+    'users:read',
+    'users:write',
+    'users:delete',
+    'roles:manage',
+    'api-keys:manage',
+    'products:read',
+    'products:write',
+    'products:delete',
+    'inventory:adjust',
+    'orders:read',
+    'orders:write',
+    'orders:refund',
+    'stats:read',
+    'news:write',
+    'news:publish',
+    'settings:read',
+    'settings:write',
+    'uploads:write',
+    'uploads:delete',
+] as const;
+
+export const USER_ROLES = ['admin', 'editor', 'support', 'warehouse', 'user', 'guest'] as const;
+
+/**
+ * Seeded into the roles collection on first start; edit through /api/roles afterwards.
+ * The admin role always holds every permission so it cannot be locked out.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    admin: [...PERMISSIONS],
+    editor: [
+        'admin:access',
+        'products:read',
+        'products:write',
+        'news:write',
+        'news:publish',
+        'uploads:write',
+    ],
+    support: [
+        'admin:access',
+        'users:read',
+        'orders:read',
+        'orders:write',
+        'orders:refund',
+        'stats:read',
+    ],
+    warehouse: [
+        'admin:access',
+        'products:read',
+        'inventory:adjust',
+        'orders:read',
+        'orders:write',
+    ],
+    user: ['uploads:write'],
+    guest: [],
+};
+
+export const isPermission = (value: unknown): value is Permission =>
+    typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value);
+
+export const isUserRole = (value: unknown): value is UserRole =>
+    typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
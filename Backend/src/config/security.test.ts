@@ -0,0 +1,35 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createUser, signIn, startServer, TestServer } from '../test/helpers';
+import { DEFAULT_ROLE_PERMISSIONS } from '@config/permissions';
+
+describe('write rate limits', () => {
+    let server: TestServer;
+    let first: string;
+    let second: string;
+
+    const editRole = (token: string) =>
+        server.request('PUT', '/roles/editor', { token, body: { permissions: DEFAULT_ROLE_PERMISSIONS.editor } });
+
+    before(async () => {
+        server = await startServer();
+        first = (await signIn(await createUser('admin'))).accessToken;
+        second = (await signIn(await createUser('admin'))).accessToken;
+    });
+
+    after(async () => {
+        await server.close();
+    });
+
+    it('counts each route group per user', async () => {
+        for (let request = 0; request < 10; request++) {
+            assert.equal((await editRole(first)).status, 200);
+        }
+        assert.equal((await editRole(first)).status, 429);
+
+        // The same user still has budget elsewhere, and another user behind the same address here
+        const category = await server.request('POST', '/categories', { token: first, body: { name: 'Mugs' } });
+        assert.equal(category.status, 201);
+        assert.equal((await editRole(second)).status, 200);
+    });
+});
@@ -5,7 +5,7 @@
 
 import { HelmetOptions } from 'helmet';
 import { CorsOptions } from 'cors';
-import rateLimit, { Options as RateLimitOptions } from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator, Options as RateLimitOptions } from 'express-rate-limit';
 import mongoSanitize from 'express-mongo-sanitize';
 // @ts-ignore - hpp module lacks proper TypeScript definitions
 import hpp from 'hpp';
@@ -75,6 +75,8 @@ export const corsOptions: CorsOptions = {
         'X-Requested-With',
         'X-CSRF-Token',
         'X-Request-ID',
+        'X-Request-Timestamp',
+        'X-Refresh-Request',
     ],
     exposedHeaders: ['X-Total-Count', 'X-Page', 'X-Per-Page'],
     maxAge: 86400, // 24 hours
@@ -82,9 +84,9 @@ export const corsOptions: CorsOptions = {
 
 // ============= Rate Limiting Configurations =============
 
-export const generalLimiter = rateLimit({
-    windowMs: config.security.rateLimitWindowMs,
-    max: config.security.rateLimitMaxRequests,
+const createGeneralLimiter = (windowMs: number, max: number) => rateLimit({
+    windowMs,
+    max,
     message: {
         success: false,
         message: 'Too many requests from this IP, please try again later.',
@@ -93,8 +95,29 @@ export const generalLimiter = rateLimit({
     legacyHeaders: false,
     skipSuccessfulRequests: false,
     skipFailedRequests: false,
+    // Rebuilt on purpose when the settings change, which happens inside a request
+    validate: { creationStack: false },
 } as Partial<RateLimitOptions>);
 
+let generalLimits = {
+    windowMs: config.security.rateLimitWindowMs,
+    max: config.security.rateLimitMaxRequests,
+};
+let generalLimiterInstance = createGeneralLimiter(generalLimits.windowMs, generalLimits.max);
+
+/**
+ * Apply new thresholds to generalLimiter; counting starts over when they differ
+ */
+export const configureGeneralLimiter = (windowMs: number, max: number): void => {
+    if (windowMs === generalLimits.windowMs && max === generalLimits.max) return;
+
+    generalLimits = { windowMs, max };
+    generalLimiterInstance = createGeneralLimiter(windowMs, max);
+};
+
+export const generalLimiter = (req: Request, res: Response, next: NextFunction) =>
+    generalLimiterInstance(req, res, next);
+
 export const authLimiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
     max: 5, // 5 requests per windowMs
@@ -115,15 +138,59 @@ export const apiLimiter = rateLimit({
     },
 } as Partial<RateLimitOptions>);
 
-export const modifyLimiter = rateLimit({
+// Verifying an API key costs a pbkdf2 run, so cap rejected keys per IP before reaching it
+export const apiKeyLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 10, // 10 rejected keys per windowMs
+    message: {
+        success: false,
+        message: 'Too many invalid API keys, please try again after 15 minutes.',
+    },
+    skipSuccessfulRequests: true,
+    // Only a rejected key counts; scope and not-found answers still mean the key was valid
+    requestWasSuccessful: (_req: Request, res: Response) => res.statusCode !== 401,
+} as Partial<RateLimitOptions>);
+
+/**
+ * Write limit for one route group, counted per signed-in user and per IP
+ * otherwise. Each call makes a separate budget, so a burst of product edits
+ * does not hold up order updates or another admin behind the same address.
+ */
+export const createModifyLimiter = () => rateLimit({
     windowMs: 1 * 60 * 1000, // 1 minute
     max: 10, // 10 requests per minute
     message: {
         success: false,
         message: 'Too many modification requests, please slow down.',
     },
+    keyGenerator: (req: Request) => (req.user ? `user:${req.user.id}` : ipKeyGenerator(req.ip || '')),
+} as Partial<RateLimitOptions>);
+
+export const emailLimiter = rateLimit({
+    windowMs: 60 * 60 * 1000, // 1 hour
+    max: 3, // 3 emails per hour
+    message: {
+        success: false,
+        message: 'Too many email requests, please try again later.',
+    },
 } as Partial<RateLimitOptions>);
 
+// ============= Writable Query (Express 5) =============
+
+/**
+ * Express 5 exposes req.query as a re-parsing getter, so sanitizers that
+ * reassign it throw. Pin the parsed query as a plain writable property.
+ */
+export const writableQuery = (req: Request, _res: Response, next: NextFunction): void => {
+    Object.defineProperty(req, 'query', {
+        value: req.query,
+        writable: true,
+        configurable: true,
+        enumerable: true,
+    });
+    next();
+};
+
 // ============= MongoDB Sanitization =============
 
 export const mongoSanitizeConfig = mongoSanitize({
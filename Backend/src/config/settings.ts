@@ -0,0 +1,63 @@
+/**
+ * Settings Schema - TypeScript
+ * Every admin-editable setting with its type, bounds and default
+ */
+
+import config from './env';
+import { DEFAULT_FILE_SIZE_LIMITS } from './multer';
+import { IAppSettings, ISettingDefinition, SettingKey } from '@types';
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+const validCurrency = (value: string): string | undefined => {
+    try {
+        new Intl.NumberFormat('en', { style: 'currency', currency: value });
+        return /^[A-Z]{3}$/.test(value) ? undefined : 'must be an upper-case ISO 4217 code';
+    } catch {
+        return 'must be an ISO 4217 currency code';
+    }
+};
+
+const validLocale = (value: string): string | undefined => {
+    try {
+        const [canonical] = Intl.getCanonicalLocales(value);
+        return canonical === value ? undefined : `must be written ${canonical}`;
+    } catch {
+        return 'must be a BCP 47 locale such as vi-VN';
+    }
+};
+
+/**
+ * Defaults come from the environment; stored values override them
+ */
+export const SETTINGS_SCHEMA: { [K in SettingKey]: ISettingDefinition<IAppSettings[K]> } = {
+    storeName: { type: 'string', default: config.store.name, min: 1, max: 100 },
+    currency: { type: 'string', default: config.store.currency, validate: validCurrency },
+    locale: { type: 'string', default: config.store.locale, validate: validLocale },
+    rateLimitWindowMs: { type: 'number', default: config.security.rateLimitWindowMs, min: 1000, max: 24 * 60 * 60 * 1000 },
+    rateLimitMaxRequests: { type: 'number', default: config.security.rateLimitMaxRequests, min: 1, max: 100_000 },
+    avatarMaxBytes: { type: 'number', default: DEFAULT_FILE_SIZE_LIMITS.AVATAR, min: 64 * KB, max: 20 * MB },
+    imageMaxBytes: { type: 'number', default: DEFAULT_FILE_SIZE_LIMITS.IMAGE, min: 64 * KB, max: 50 * MB },
+    documentMaxBytes: { type: 'number', default: DEFAULT_FILE_SIZE_LIMITS.DOCUMENT, min: 64 * KB, max: 100 * MB },
+    videoMaxBytes: { type: 'number', default: DEFAULT_FILE_SIZE_LIMITS.VIDEO, min: 1 * MB, max: 1024 * MB },
+    maintenanceMode: { type: 'boolean', default: false },
+    maintenanceMessage: {
+        type: 'string',
+        default: 'We are performing scheduled maintenance. Please check back soon.',
+        min: 1,
+        max: 500,
+    },
+};
+
+export const SETTING_KEYS = Object.keys(SETTINGS_SCHEMA) as SettingKey[];
+
+// Readable without signing in, e.g. by the storefront
+export const PUBLIC_SETTING_KEYS = ['storeName', 'currency', 'locale', 'maintenanceMode', 'maintenanceMessage'] as const;
+
+export const DEFAULT_SETTINGS = Object.fromEntries(
+    SETTING_KEYS.map(key => [key, SETTINGS_SCHEMA[key].default])
+) as unknown as IAppSettings;
+
+export const isSettingKey = (value: unknown): value is SettingKey =>
+    typeof value === 'string' && (SETTING_KEYS as string[]).includes(value);
@@ -0,0 +1,44 @@
+/**
+ * API Key Controller - TypeScript
+ * Request handlers for /api/api-keys
+ */
+
+import { Request, Response } from 'express';
+import apiKeyService from '@services/apiKeyService';
+import response from '@utils/response';
+
+/**
+ * List API keys
+ * GET /api/api-keys
+ */
+export const listApiKeys = async (_req: Request, res: Response): Promise<void> => {
+    const apiKeys = await apiKeyService.list();
+    response.success(res, { apiKeys });
+};
+
+/**
+ * Create an API key (the full key is only returned here)
+ * POST /api/api-keys
+ */
+export const createApiKey = async (req: Request, res: Response): Promise<void> => {
+    const result = await apiKeyService.create(req.body || {}, req.user!);
+    response.created(res, result, 'API key created. Copy it now, it will not be shown again');
+};
+
+/**
+ * Replace the key material of an API key
+ * POST /api/api-keys/:id/rotate
+ */
+export const rotateApiKey = async (req: Request, res: Response): Promise<void> => {
+    const result = await apiKeyService.rotate(String(req.params.id));
+    response.success(res, result, 'API key rotated. Copy it now, it will not be shown again');
+};
+
+/**
+ * Revoke an API key
+ * DELETE /api/api-keys/:id
+ */
+export const revokeApiKey = async (req: Request, res: Response): Promise<void> => {
+    await apiKeyService.revoke(String(req.params.id));
+    response.success(res, null, 'API key revoked');
+};
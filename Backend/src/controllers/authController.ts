@@ -0,0 +1,225 @@
+/**
+ * Auth Controller - TypeScript
+ * Request handlers for /api/auth
+ */
+
+import { Request, Response } from 'express';
+import authService from '@services/authService';
+import mfaService from '@services/mfaService';
+import response from '@utils/response';
+import sessionService from '@services/sessionService';
+import JWTHelper from '@utils/jwt';
+import config from '@config/env';
+import { AUTH_COOKIES } from '@middlewares/auth';
+import { IAuthResponse, ISessionContext } from '@types';
+
+const REFRESH_COOKIE_OPTIONS = {
+    httpOnly: true,
+    signed: true,
+    sameSite: 'strict',
+    secure: config.env === 'production',
+    path: '/api/auth',
+} as const;
+
+const useCookies = (): boolean => config.auth.tokenTransport === 'cookie';
+
+/**
+ * Device details recorded with a new or rotated session
+ */
+const sessionContext = (req: Request): ISessionContext => ({
+    ip: req.ip,
+    userAgent: req.get('user-agent'),
+});
+
+/**
+ * In cookie mode move the refresh token out of the body into an httpOnly cookie
+ */
+const withTokenTransport = <T extends object>(res: Response, result: T): T => {
+    if (!useCookies() || !('refreshToken' in result)) return result;
+
+    const { refreshToken, ...body } = result as T & Pick<IAuthResponse, 'refreshToken'>;
+    if (refreshToken) {
+        const exp = JWTHelper.decode(refreshToken)?.exp || 0;
+        res.cookie(AUTH_COOKIES.REFRESH_TOKEN, refreshToken, {
+            ...REFRESH_COOKIE_OPTIONS,
+            maxAge: Math.max(exp * 1000 - Date.now(), 0),
+        });
+    }
+    return body as T;
+};
+
+/**
+ * Refresh token from the signed cookie (cookie mode) or the request body
+ */
+const readRefreshToken = (req: Request): string => {
+    const cookieToken = useCookies() ? req.signedCookies?.[AUTH_COOKIES.REFRESH_TOKEN] : undefined;
+    return typeof cookieToken === 'string' ? cookieToken : req.body?.refreshToken;
+};
+
+const clearRefreshCookie = (res: Response): void => {
+    if (useCookies()) {
+        res.clearCookie(AUTH_COOKIES.REFRESH_TOKEN, REFRESH_COOKIE_OPTIONS);
+    }
+};
+
+/**
+ * Register a new account
+ * POST /api/auth/register
+ */
+export const register = async (req: Request, res: Response): Promise<void> => {
+    const result = await authService.register(req.body, sessionContext(req));
+    response.created(res, withTokenTransport(res, result), 'Registration successful');
+};
+
+/**
+ * Login with email and password
+ * POST /api/auth/login
+ */
+export const login = async (req: Request, res: Response): Promise<void> => {
+    const result = await authService.login(req.body, sessionContext(req));
+    response.success(
+        res,
+        withTokenTransport(res, result),
+        'mfaRequired' in result ? 'Two-factor authentication required' : 'Login successful'
+    );
+};
+
+/**
+ * Complete login with a TOTP or recovery code
+ * POST /api/auth/mfa/verify
+ */
+export const verifyMfa = async (req: Request, res: Response): Promise<void> => {
+    const result = await authService.verifyMfa(req.body?.mfaToken, req.body?.code, sessionContext(req));
+    response.success(res, withTokenTransport(res, result), 'Login successful');
+};
+
+/**
+ * Start TOTP enrolment
+ * POST /api/auth/mfa/setup
+ */
+export const setupMfa = async (req: Request, res: Response): Promise<void> => {
+    const result = await mfaService.setup(req.user!.id);
+    response.success(res, result, 'Scan the QR code with your authenticator app');
+};
+
+/**
+ * Confirm TOTP enrolment
+ * POST /api/auth/mfa/enable
+ */
+export const enableMfa = async (req: Request, res: Response): Promise<void> => {
+    const recoveryCodes = await mfaService.enable(req.user!.id, req.body?.code);
+    response.success(res, { recoveryCodes }, 'Two-factor authentication enabled');
+};
+
+/**
+ * Turn off two-factor authentication
+ * POST /api/auth/mfa/disable
+ */
+export const disableMfa = async (req: Request, res: Response): Promise<void> => {
+    await mfaService.disable(req.user!.id, req.body?.password, req.body?.code);
+    response.success(res, null, 'Two-factor authentication disabled');
+};
+
+/**
+ * Exchange refresh token for a new token pair
+ * POST /api/auth/refresh
+ */
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+    const result = await authService.refresh(readRefreshToken(req), sessionContext(req));
+    response.success(res, withTokenTransport(res, result), 'Token refreshed');
+};
+
+/**
+ * Logout current session
+ * POST /api/auth/logout
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+    try {
+        await authService.logout(readRefreshToken(req));
+    } finally {
+        clearRefreshCookie(res);
+    }
+    response.success(res, null, 'Logout successful');
+};
+
+/**
+ * Logout from every device
+ * POST /api/auth/logout-all
+ */
+export const logoutAll = async (req: Request, res: Response): Promise<void> => {
+    await authService.logoutAll(req.user!.id);
+    clearRefreshCookie(res);
+    response.success(res, null, 'Logged out from all devices');
+};
+
+/**
+ * Confirm an email address
+ * POST /api/auth/verify-email
+ */
+export const verifyEmail = async (req: Request, res: Response): Promise<void> => {
+    const user = await authService.verifyEmail(req.body?.token);
+    response.success(res, { user }, 'Email verified');
+};
+
+/**
+ * Send a new verification email
+ * POST /api/auth/resend-verification
+ */
+export const resendVerification = async (req: Request, res: Response): Promise<void> => {
+    await authService.resendVerification(req.body?.email);
+    response.success(res, null, 'If the account exists and is unverified, a verification email has been sent');
+};
+
+/**
+ * Request a password reset email
+ * POST /api/auth/forgot-password
+ */
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+    await authService.forgotPassword(req.body?.email);
+    response.success(res, null, 'If an account exists for this email, a password reset link has been sent');
+};
+
+/**
+ * Set a new password with a reset token
+ * POST /api/auth/reset-password
+ */
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+    await authService.resetPassword(req.body?.token, req.body?.password);
+    response.success(res, null, 'Password has been reset, please log in again');
+};
+
+/**
+ * List active sessions of the current user
+ * GET /api/auth/sessions
+ */
+export const listSessions = async (req: Request, res: Response): Promise<void> => {
+    const sessions = await sessionService.list(req.user!.id, req.user!.sessionId);
+    response.success(res, { sessions });
+};
+
+/**
+ * Revoke one session
+ * DELETE /api/auth/sessions/:id
+ */
+export const revokeSession = async (req: Request, res: Response): Promise<void> => {
+    await sessionService.revoke(req.user!.id, String(req.params.id));
+    response.success(res, null, 'Session revoked');
+};
+
+/**
+ * Revoke every session except the current one
+ * DELETE /api/auth/sessions
+ */
+export const revokeOtherSessions = async (req: Request, res: Response): Promise<void> => {
+    const revoked = await sessionService.revokeAll(req.user!.id, req.user!.sessionId);
+    response.success(res, { revoked }, 'Other sessions revoked');
+};
+
+/**
+ * Get current user profile
+ * GET /api/auth/profile
+ */
+export const getProfile = async (req: Request, res: Response): Promise<void> => {
+    const user = await authService.getProfile(req.user!.id);
+    response.success(res, { user });
+};
@@ -0,0 +1,44 @@
+/**
+ * Category Controller - TypeScript
+ * Request handlers for /api/categories and /api/catalog/categories
+ */
+
+import { Request, Response } from 'express';
+import categoryService from '@services/categoryService';
+import response from '@utils/response';
+
+/**
+ * List categories
+ * GET /api/categories, GET /api/catalog/categories
+ */
+export const listCategories = async (_req: Request, res: Response): Promise<void> => {
+    const categories = await categoryService.list();
+    response.success(res, { categories });
+};
+
+/**
+ * Create a category
+ * POST /api/categories
+ */
+export const createCategory = async (req: Request, res: Response): Promise<void> => {
+    const category = await categoryService.create(req.body || {});
+    response.created(res, { category }, 'Category created successfully');
+};
+
+/**
+ * Update a category
+ * PUT /api/categories/:id
+ */
+export const updateCategory = async (req: Request, res: Response): Promise<void> => {
+    const category = await categoryService.update(String(req.params.id), req.body || {});
+    response.success(res, { category }, 'Category updated successfully');
+};
+
+/**
+ * Delete an empty category
+ * DELETE /api/categories/:id
+ */
+export const deleteCategory = async (req: Request, res: Response): Promise<void> => {
+    await categoryService.delete(String(req.params.id));
+    response.success(res, null, 'Category deleted successfully');
+};
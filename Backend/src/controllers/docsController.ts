@@ -0,0 +1,74 @@
+/**
+ * Docs Controller - TypeScript
+ * Serves the OpenAPI document and the Swagger UI page for it
+ */
+
+import { Request, Response } from 'express';
+import path from 'path';
+import { buildOpenApiDocument } from '@/docs/openapi';
+import AppError from '@utils/appError';
+
+// swagger-ui-dist has no typings; only its folder is needed
+const SWAGGER_UI_DIR = path.dirname(require.resolve('swagger-ui-dist/package.json'));
+
+// The files the docs page loads; the rest of the package (its demo page included) stays private
+const SWAGGER_UI_ASSETS = ['swagger-ui.css', 'swagger-ui-bundle.js', 'favicon-32x32.png'];
+
+/**
+ * OpenAPI 3.1 document for the API
+ * GET /api/openapi.json
+ */
+export const getOpenApiDocument = async (_req: Request, res: Response): Promise<void> => {
+    res.status(200).json(buildOpenApiDocument());
+};
+
+/**
+ * Swagger UI page; its scripts are files so the CSP needs no inline script
+ * GET /api/docs
+ */
+export const getDocsPage = async (req: Request, res: Response): Promise<void> => {
+    const base = req.baseUrl;
+    res.status(200).type('html').send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>API Documentation</title>
+    <link rel="stylesheet" href="${base}/swagger-ui.css" />
+    <link rel="icon" type="image/png" href="${base}/favicon-32x32.png" />
+</head>
+<body>
+    <div id="swagger-ui"></div>
+    <script src="${base}/swagger-ui-bundle.js"></script>
+    <script src="${base}/init.js"></script>
+</body>
+</html>
+`);
+};
+
+/**
+ * Starts Swagger UI against the OpenAPI document
+ * GET /api/docs/init.js
+ */
+export const getDocsInitializer = async (req: Request, res: Response): Promise<void> => {
+    const documentUrl = `${req.baseUrl.replace(/\/docs$/, '')}/openapi.json`;
+    res.status(200).type('text/javascript').send(`window.ui = SwaggerUIBundle({
+    url: ${JSON.stringify(documentUrl)},
+    dom_id: '#swagger-ui',
+    deepLinking: true,
+    persistAuthorization: true,
+});
+`);
+};
+
+/**
+ * Bundled Swagger UI stylesheet, script and icon
+ * GET /api/docs/:asset
+ */
+export const getDocsAsset = async (req: Request, res: Response): Promise<void> => {
+    const asset = String(req.params.asset);
+    if (!SWAGGER_UI_ASSETS.includes(asset)) {
+        throw AppError.notFound('Asset not found');
+    }
+    res.sendFile(path.join(SWAGGER_UI_DIR, asset), { maxAge: '1d' });
+};
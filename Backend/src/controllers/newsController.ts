@@ -0,0 +1,117 @@
+/**
+ * News Controller - TypeScript
+ * Request handlers for /api/news and the public /api/articles
+ */
+
+import { Request, Response } from 'express';
+import newsService from '@services/newsService';
+import response from '@utils/response';
+import { INewsFilterQuery } from '@types';
+
+/**
+ * List articles with filters
+ * GET /api/news
+ */
+export const listArticles = async (req: Request, res: Response): Promise<void> => {
+    const { articles, page, limit, total } = await newsService.list(req.query as INewsFilterQuery);
+    response.paginated(res, articles, page, limit, total);
+};
+
+/**
+ * Sanitize a body the way saving does
+ * POST /api/news/preview
+ */
+export const previewArticle = async (req: Request, res: Response): Promise<void> => {
+    const html = newsService.preview(req.body?.body);
+    response.success(res, { html });
+};
+
+/**
+ * Get an article
+ * GET /api/news/:id
+ */
+export const getArticle = async (req: Request, res: Response): Promise<void> => {
+    const article = await newsService.get(String(req.params.id));
+    response.success(res, { article });
+};
+
+/**
+ * Create an article
+ * POST /api/news
+ */
+export const createArticle = async (req: Request, res: Response): Promise<void> => {
+    const article = await newsService.create(req.body || {}, req.user!);
+    response.created(res, { article }, 'Article created successfully');
+};
+
+/**
+ * Update an article
+ * PUT /api/news/:id
+ */
+export const updateArticle = async (req: Request, res: Response): Promise<void> => {
+    const article = await newsService.update(String(req.params.id), req.body || {}, req.user!);
+    response.success(res, { article }, 'Article updated successfully');
+};
+
+/**
+ * Delete an article and its revisions
+ * DELETE /api/news/:id
+ */
+export const deleteArticle = async (req: Request, res: Response): Promise<void> => {
+    await newsService.delete(String(req.params.id), req.user!);
+    response.success(res, null, 'Article deleted successfully');
+};
+
+/**
+ * Revision history of an article
+ * GET /api/news/:id/revisions
+ */
+export const listRevisions = async (req: Request, res: Response): Promise<void> => {
+    const revisions = await newsService.listRevisions(String(req.params.id));
+    response.success(res, { revisions });
+};
+
+/**
+ * Get a revision
+ * GET /api/news/:id/revisions/:revision
+ */
+export const getRevision = async (req: Request, res: Response): Promise<void> => {
+    const revision = await newsService.getRevision(String(req.params.id), req.params.revision);
+    response.success(res, { revision });
+};
+
+/**
+ * Compare a revision with another one (the latest unless ?against is given)
+ * GET /api/news/:id/revisions/:revision/diff
+ */
+export const diffRevision = async (req: Request, res: Response): Promise<void> => {
+    const diff = await newsService.diffRevisions(String(req.params.id), req.params.revision, req.query.against);
+    response.success(res, { diff });
+};
+
+/**
+ * Restore the content of a revision
+ * POST /api/news/:id/revisions/:revision/restore
+ */
+export const restoreRevision = async (req: Request, res: Response): Promise<void> => {
+    const article = await newsService.restoreRevision(String(req.params.id), req.params.revision, req.user!);
+    response.success(res, { article }, `Revision ${req.params.revision} restored`);
+};
+
+/**
+ * List published articles
+ * GET /api/articles
+ */
+export const listPublishedArticles = async (req: Request, res: Response): Promise<void> => {
+    const { articles, page, limit, total } = await newsService.list(req.query as INewsFilterQuery, true);
+    response.paginated(res, articles.map(article => newsService.toPublic(article)), page, limit, total);
+};
+
+/**
+ * Get a published article by slug
+ * GET /api/articles/:slug
+ */
+export const getPublishedArticle = async (req: Request, res: Response): Promise<void> => {
+    const article = await newsService.getPublished(String(req.params.slug));
+    response.success(res, { article });
+};
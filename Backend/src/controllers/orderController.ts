@@ -0,0 +1,68 @@
+/**
+ * Order Controller - TypeScript
+ * Request handlers for /api/orders
+ */
+
+import { Request, Response } from 'express';
+import orderService from '@services/orderService';
+import response from '@utils/response';
+import { IOrderFilterQuery } from '@types';
+
+/**
+ * List orders with filters
+ * GET /api/orders
+ */
+export const listOrders = async (req: Request, res: Response): Promise<void> => {
+    const { orders, page, limit, total } = await orderService.list(req.query as IOrderFilterQuery);
+    response.paginated(res, orders, page, limit, total);
+};
+
+/**
+ * Export orders matching the list filters as CSV
+ * GET /api/orders/export
+ */
+export const exportOrders = async (req: Request, res: Response): Promise<void> => {
+    const csv = await orderService.exportCsv(req.query as IOrderFilterQuery);
+    response.csv(res, `orders-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+};
+
+/**
+ * Get an order with its status history and the statuses the caller may move it to
+ * GET /api/orders/:id
+ */
+export const getOrder = async (req: Request, res: Response): Promise<void> => {
+    const order = await orderService.get(String(req.params.id));
+    const transitions = await orderService.allowedTransitions(order, req.user!);
+    response.success(res, { order, transitions });
+};
+
+/**
+ * Place an order and reserve its stock
+ * POST /api/orders
+ */
+export const createOrder = async (req: Request, res: Response): Promise<void> => {
+    const order = await orderService.create(req.body || {}, req.user!);
+    response.created(res, { order }, 'Order created successfully');
+};
+
+/**
+ * Change the status of an order
+ * POST /api/orders/:id/status
+ */
+export const changeOrderStatus = async (req: Request, res: Response): Promise<void> => {
+    const { status, reason } = req.body || {};
+    const order = await orderService.transition(String(req.params.id), status, reason, req.user!);
+    const transitions = await orderService.allowedTransitions(order, req.user!);
+    response.success(res, { order, transitions }, `Order marked ${order.status}`);
+};
+
+/**
+ * Change the status of several orders; results are reported per order
+ * POST /api/orders/bulk-status
+ */
+export const bulkChangeOrderStatus = async (req: Request, res: Response): Promise<void> => {
+    const { ids, status, reason } = req.body || {};
+    const results = await orderService.bulkTransition(ids, status, reason, req.user!);
+    const updated = results.filter(result => result.success).length;
+    response.success(res, { results }, `${updated} of ${results.length} orders updated`);
+};
@@ -0,0 +1,90 @@
+/**
+ * Product Controller - TypeScript
+ * Request handlers for /api/products and the public /api/catalog
+ */
+
+import { Request, Response } from 'express';
+import productService from '@services/productService';
+import response from '@utils/response';
+import { IProductFilterQuery } from '@types';
+
+/**
+ * List products with filters, any status
+ * GET /api/products
+ */
+export const listProducts = async (req: Request, res: Response): Promise<void> => {
+    const { products, page, limit, total } = await productService.list(req.query as IProductFilterQuery);
+    response.paginated(res, products.map(product => productService.toInfo(product)), page, limit, total);
+};
+
+/**
+ * Get a product
+ * GET /api/products/:id
+ */
+export const getProduct = async (req: Request, res: Response): Promise<void> => {
+    const product = await productService.get(String(req.params.id));
+    response.success(res, { product });
+};
+
+/**
+ * Create a product
+ * POST /api/products
+ */
+export const createProduct = async (req: Request, res: Response): Promise<void> => {
+    const product = await productService.create(req.body || {}, req.user!);
+    response.created(res, { product }, 'Product created successfully');
+};
+
+/**
+ * Update a product
+ * PUT /api/products/:id
+ */
+export const updateProduct = async (req: Request, res: Response): Promise<void> => {
+    const product = await productService.update(String(req.params.id), req.body || {}, req.user!);
+    response.success(res, { product }, 'Product updated successfully');
+};
+
+/**
+ * Delete a product
+ * DELETE /api/products/:id
+ */
+export const deleteProduct = async (req: Request, res: Response): Promise<void> => {
+    await productService.delete(String(req.params.id), req.user!);
+    response.success(res, null, 'Product deleted successfully');
+};
+
+/**
+ * Stock movement history of a product
+ * GET /api/products/:id/inventory
+ */
+export const listInventoryMovements = async (req: Request, res: Response): Promise<void> => {
+    const movements = await productService.listMovements(String(req.params.id));
+    response.success(res, { movements });
+};
+
+/**
+ * Adjust the stock of a variant
+ * POST /api/products/:id/inventory
+ */
+export const adjustInventory = async (req: Request, res: Response): Promise<void> => {
+    const product = await productService.adjustInventory(String(req.params.id), req.body || {}, req.user!);
+    response.success(res, { product }, 'Inventory updated');
+};
+
+/**
+ * List published products
+ * GET /api/catalog/products
+ */
+export const listPublishedProducts = async (req: Request, res: Response): Promise<void> => {
+    const { products, page, limit, total } = await productService.list(req.query as IProductFilterQuery, true);
+    response.paginated(res, products.map(product => productService.toPublic(product)), page, limit, total);
+};
+
+/**
+ * Get a published product by slug
+ * GET /api/catalog/products/:slug
+ */
+export const getPublishedProduct = async (req: Request, res: Response): Promise<void> => {
+    const product = await productService.getPublished(String(req.params.slug));
+    response.success(res, { product });
+};
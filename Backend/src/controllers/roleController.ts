@@ -0,0 +1,27 @@
+/**
+ * Role Controller - TypeScript
+ * Request handlers for /api/roles
+ */
+
+import { Request, Response } from 'express';
+import permissionService from '@services/permissionService';
+import { PERMISSIONS } from '@config/permissions';
+import response from '@utils/response';
+
+/**
+ * List roles and their permissions
+ * GET /api/roles
+ */
+export const listRoles = async (_req: Request, res: Response): Promise<void> => {
+    const roles = await permissionService.listRoles();
+    response.success(res, { roles, permissions: PERMISSIONS });
+};
+
+/**
+ * Replace the permissions of a role
+ * PUT /api/roles/:name
+ */
+export const updateRole = async (req: Request, res: Response): Promise<void> => {
+    const role = await permissionService.updateRole(req.params.name as string, req.body?.permissions);
+    response.success(res, role, 'Role updated successfully');
+};
@@ -0,0 +1,43 @@
+/**
+ * Settings Controller - TypeScript
+ * Request handlers for /api/settings
+ */
+
+import { Request, Response } from 'express';
+import settingsService from '@services/settingsService';
+import response from '@utils/response';
+import { IPaginationQuery } from '@types';
+
+/**
+ * Get all settings with the current version
+ * GET /api/settings
+ */
+export const getSettings = async (_req: Request, res: Response): Promise<void> => {
+    response.success(res, settingsService.get());
+};
+
+/**
+ * Get the settings the storefront needs
+ * GET /api/settings/public
+ */
+export const getPublicSettings = async (_req: Request, res: Response): Promise<void> => {
+    response.success(res, { settings: settingsService.getPublic() });
+};
+
+/**
+ * Change some settings
+ * PATCH /api/settings
+ */
+export const updateSettings = async (req: Request, res: Response): Promise<void> => {
+    const state = await settingsService.update(req.body || {}, req.user!);
+    response.success(res, state, 'Settings updated successfully');
+};
+
+/**
+ * List stored versions and what changed in each
+ * GET /api/settings/history
+ */
+export const getSettingsHistory = async (req: Request, res: Response): Promise<void> => {
+    const { versions, page, limit, total } = await settingsService.history(req.query as IPaginationQuery);
+    response.paginated(res, versions, page, limit, total);
+};
@@ -0,0 +1,18 @@
+/**
+ * Stats Controller - TypeScript
+ * Request handlers for /api/admin/stats
+ */
+
+import { Request, Response } from 'express';
+import statsService from '@services/statsService';
+import response from '@utils/response';
+import { IStatsQuery } from '@types';
+
+/**
+ * Dashboard figures for a date range
+ * GET /api/admin/stats
+ */
+export const getDashboardStats = async (req: Request, res: Response): Promise<void> => {
+    const stats = await statsService.getDashboard(req.query as IStatsQuery);
+    response.success(res, { stats });
+};
@@ -0,0 +1,108 @@
+/**
+ * User Controller - TypeScript
+ * Request handlers for /api/users
+ */
+
+import { Request, Response } from 'express';
+import userService from '@services/userService';
+import response from '@utils/response';
+import { IFilterQuery } from '@types';
+
+/**
+ * List users with pagination, filters and search
+ * GET /api/users
+ */
+export const listUsers = async (req: Request, res: Response): Promise<void> => {
+    const { users, page, limit, total } = await userService.list(req.query as IFilterQuery);
+    response.paginated(res, users, page, limit, total);
+};
+
+/**
+ * Get a single user
+ * GET /api/users/:id
+ */
+export const getUser = async (req: Request, res: Response): Promise<void> => {
+    const user = await userService.get(String(req.params.id));
+    response.success(res, { user });
+};
+
+/**
+ * List a user's active sessions
+ * GET /api/users/:id/sessions
+ */
+export const listUserSessions = async (req: Request, res: Response): Promise<void> => {
+    const sessions = await userService.sessions(String(req.params.id));
+    response.success(res, { sessions });
+};
+
+/**
+ * Sign a user out of every device
+ * DELETE /api/users/:id/sessions
+ */
+export const revokeUserSessions = async (req: Request, res: Response): Promise<void> => {
+    const revoked = await userService.revokeSessions(String(req.params.id), req.user!);
+    response.success(res, { revoked }, 'Sessions revoked');
+};
+
+/**
+ * Recent activity of a user
+ * GET /api/users/:id/activity
+ */
+export const getUserActivity = async (req: Request, res: Response): Promise<void> => {
+    const activity = await userService.activity(String(req.params.id));
+    response.success(res, { activity });
+};
+
+/**
+ * Create a user
+ * POST /api/users
+ */
+export const createUser = async (req: Request, res: Response): Promise<void> => {
+    const user = await userService.create(req.body || {}, req.user!);
+    response.created(res, { user }, 'User created successfully');
+};
+
+/**
+ * Update a user's profile fields
+ * PUT /api/users/:id
+ */
+export const updateUser = async (req: Request, res: Response): Promise<void> => {
+    const user = await userService.update(String(req.params.id), req.body || {}, req.user!);
+    response.success(res, { user }, 'User updated successfully');
+};
+
+/**
+ * Change a user's role
+ * PUT /api/users/:id/role
+ */
+export const changeUserRole = async (req: Request, res: Response): Promise<void> => {
+    const user = await userService.changeRole(String(req.params.id), req.body?.role, req.user!);
+    response.success(res, { user }, 'Role updated successfully');
+};
+
+/**
+ * Suspend a user
+ * POST /api/users/:id/ban
+ */
+export const banUser = async (req: Request, res: Response): Promise<void> => {
+    const user = await userService.ban(String(req.params.id), req.body?.reason, req.user!);
+    response.success(res, { user }, 'User banned');
+};
+
+/**
+ * Lift a user's suspension
+ * POST /api/users/:id/unban
+ */
+export const unbanUser = async (req: Request, res: Response): Promise<void> => {
+    const user = await userService.unban(String(req.params.id), req.user!);
+    response.success(res, { user }, 'User unbanned');
+};
+
+/**
+ * Delete a user
+ * DELETE /api/users/:id
+ */
+export const deleteUser = async (req: Request, res: Response): Promise<void> => {
+    await userService.delete(String(req.params.id), req.user!);
+    response.success(res, null, 'User deleted successfully');
+};
@@ -0,0 +1,24 @@
+/**
+ * API Docs Check - TypeScript
+ * Fails when the mounted routes and the OpenAPI route docs disagree,
+ * or when the committed openapi.json is older than the docs
+ */
+
+import fs from 'fs';
+import routes from '@routes';
+import { OPENAPI_FILE, findRouteDocGaps, serializeOpenApiDocument } from './openapi';
+
+const gaps = findRouteDocGaps(routes);
+
+const committed = fs.existsSync(OPENAPI_FILE) ? fs.readFileSync(OPENAPI_FILE, 'utf8') : null;
+if (committed !== serializeOpenApiDocument()) {
+    gaps.push('openapi.json is out of date; run `npm run docs:export` and regenerate the frontend API types');
+}
+
+if (gaps.length > 0) {
+    console.error(`API docs are out of date (${gaps.length}):`);
+    gaps.forEach((gap) => console.error(`  - ${gap}`));
+    process.exit(1);
+}
+
+console.log('Every mounted route is documented and openapi.json is current');
@@ -0,0 +1,10 @@
+/**
+ * API Docs Export - TypeScript
+ * Writes the OpenAPI document to openapi.json for the frontend type generator
+ */
+
+import fs from 'fs';
+import { OPENAPI_FILE, serializeOpenApiDocument } from './openapi';
+
+fs.writeFileSync(OPENAPI_FILE, serializeOpenApiDocument());
+console.log(`Wrote ${OPENAPI_FILE}`);
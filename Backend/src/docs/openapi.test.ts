@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import routes from '@routes';
+import { buildOpenApiDocument, findResponseMismatches, findRouteDocGaps } from './openapi';
+
+describe('API docs', () => {
+    it('match the mounted routes and their validated bodies', () => {
+        assert.deepEqual(findRouteDocGaps(routes), []);
+    });
+
+    it('take request bodies from the validators', () => {
+        const paths = buildOpenApiDocument().paths as Record<string, Record<string, { requestBody?: unknown }>>;
+        assert.deepEqual(paths['/auth/reset-password']?.post?.requestBody, {
+            required: true,
+            content: {
+                'application/json': {
+                    schema: {
+                        type: 'object',
+                        properties: { token: { type: 'string' }, password: { type: 'string' } },
+                        required: ['token', 'password'],
+                    },
+                },
+            },
+        });
+    });
+
+    it('report responses that drift from the documented shape', () => {
+        const challenge = { success: true, message: 'Verify', data: { mfaRequired: true, mfaToken: 'token' } };
+        assert.deepEqual(findResponseMismatches('POST', '/auth/login', 200, challenge), []);
+
+        assert.deepEqual(findResponseMismatches('DELETE', '/auth/sessions', 200, { success: true, data: { revoked: '2' } }), [
+            'DELETE /api/auth/sessions: body.data.revoked should be integer, got "2"',
+        ]);
+        assert.deepEqual(findResponseMismatches('DELETE', '/auth/sessions/abc', 201, { success: true, data: null }), [
+            'DELETE /api/auth/sessions/{id} answered 201 instead of 200',
+        ]);
+        assert.deepEqual(
+            findResponseMismatches('GET', '/auth/profile', 401, { success: false, message: 'No token', token: 'x' }),
+            ['GET /api/auth/profile: body.token is not documented']
+        );
+    });
+});
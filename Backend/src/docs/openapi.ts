@@ -0,0 +1,419 @@
+/**
+ * OpenAPI Document - TypeScript
+ * Builds the OpenAPI 3.1 document from the route docs and checks it against the mounted routers
+ */
+
+import { Router } from 'express';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { AUTH_COOKIES } from '@middlewares/auth';
+import { IOpenApiSchema, IOperationDoc, OpenApiType, IRouteGroupDoc, RequestSchema } from '@types';
+import { API_ROUTE_GROUPS } from './paths';
+import { SCHEMAS, SchemaName, fieldSchema, ref, validatedBody } from './schemas';
+
+// Reused by every operation that can fail the same way
+const ERROR_RESPONSES = {
+    Unauthorized: 'Missing, invalid or expired credentials',
+    Forbidden: 'Signed in without the required permission',
+    NotFound: 'No resource with this id',
+    ValidationError: 'Invalid input; `errors` lists each problem',
+    TooManyRequests: 'Rate limit exceeded',
+    ServerError: 'Unexpected error',
+} as const;
+
+type ErrorResponseName = keyof typeof ERROR_RESPONSES;
+
+// The parts of Express router layers the route check reads
+interface IRouterLayer {
+    route?: {
+        path: string | string[];
+        methods: Record<string, boolean>;
+        // validate() middlewares carry their schema
+        stack: { handle: { requestSchema?: RequestSchema } }[];
+    };
+    handle: { stack?: IRouterLayer[] };
+    match(path: string): boolean;
+}
+
+// Committed copy of the document; the frontend generates its API types from it
+export const OPENAPI_FILE = path.resolve(__dirname, '../../openapi.json');
+
+let cachedDocument: Record<string, unknown> | null = null;
+
+const fullPath = (group: IRouteGroupDoc, path: string): string =>
+    `${group.mount}${path === '/' && group.mount ? '' : path}`.replace(/:(\w+)/g, '{$1}');
+
+const pathParams = (path: string): string[] => [...path.matchAll(/\{(\w+)\}/g)].map((match) => match[1]!);
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+// get /news/{id}/revisions -> getNewsByIdRevisions
+const operationId = (method: string, path: string): string =>
+    method +
+    path
+        .split('/')
+        .filter(Boolean)
+        .map((segment) => {
+            const param = segment.match(/^\{(\w+)\}$/);
+            if (param) return `By${capitalize(param[1]!)}`;
+            return segment.split(/[^a-zA-Z0-9]+/).filter(Boolean).map(capitalize).join('');
+        })
+        .join('');
+
+const errorResponse = (name: ErrorResponseName) => ({ $ref: `#/components/responses/${name}` });
+
+// The envelope a JSON success response is documented with
+const successSchema = (operation: IOperationDoc): IOpenApiSchema => {
+    if (operation.page) {
+        return {
+            allOf: [
+                ref('PaginatedResponse'),
+                { type: 'object', properties: { data: { type: 'array', items: operation.page } }, required: ['data'] },
+            ],
+        };
+    }
+    if (operation.data !== undefined) {
+        const data: IOpenApiSchema = operation.data ?? { type: 'null' };
+        return { allOf: [ref('ApiResponse'), { type: 'object', properties: { data }, required: ['data'] }] };
+    }
+    return ref('ApiResponse');
+};
+
+const successResponse = (operation: IOperationDoc) => {
+    if (operation.content) {
+        return {
+            description: operation.summary,
+            content: { [operation.content.type]: { schema: operation.content.schema } },
+        };
+    }
+    return { description: operation.summary, content: { 'application/json': { schema: successSchema(operation) } } };
+};
+
+const buildOperation = (group: IRouteGroupDoc, method: string, path: string, operation: IOperationDoc) => {
+    const { params = {}, query = {} } = operation.request || {};
+    const parameters = [
+        ...pathParams(path).map((name) => ({
+            name,
+            in: 'path',
+            required: true,
+            schema: params[name] ? fieldSchema(params[name]) : { type: 'string' },
+        })),
+        ...Object.entries(query).map(([name, field]) => ({
+            name,
+            in: 'query',
+            ...(field.required && { required: true }),
+            schema: fieldSchema(field),
+        })),
+    ];
+
+    const permissions = operation.permissions || [];
+    const scopes = operation.scopes || [];
+    const list = (names: string[]) => names.map((name) => `\`${name}\``).join(' and ');
+    const description = [
+        operation.description,
+        permissions.length > 0 && `Requires ${list(permissions)}.`,
+        scopes.length > 0 && `Requires an API key with ${list(scopes)}.`,
+    ]
+        .filter(Boolean)
+        .join('\n\n');
+
+    // A validated body documents itself; `body` names it or covers routes that check it in the service
+    const body = operation.body || (operation.request?.body && validatedBody(operation.request.body));
+    let requestBody;
+    if (body) {
+        requestBody = { required: true, content: { 'application/json': { schema: body } } };
+    } else if (operation.form) {
+        requestBody = { required: true, content: { 'multipart/form-data': { schema: operation.form } } };
+    }
+
+    const responses: Record<string, unknown> = { [operation.status || 200]: successResponse(operation) };
+    if (!operation.public) responses[401] = errorResponse('Unauthorized');
+    if (permissions.length > 0 || scopes.length > 0) responses[403] = errorResponse('Forbidden');
+    if (pathParams(path).length > 0) responses[404] = errorResponse('NotFound');
+    if (requestBody || parameters.length > 0) responses[422] = errorResponse('ValidationError');
+    responses[429] = errorResponse('TooManyRequests');
+    responses[500] = errorResponse('ServerError');
+
+    return {
+        tags: [group.tag],
+        operationId: operationId(method, path),
+        summary: operation.summary,
+        ...(description && { description }),
+        ...(operation.public && { security: [] }),
+        ...(scopes.length > 0 && { security: [{ apiKeyAuth: [] }] }),
+        ...(permissions.length > 0 && { 'x-permissions': permissions }),
+        ...(scopes.length > 0 && { 'x-scopes': scopes }),
+        ...(parameters.length > 0 && { parameters }),
+        ...(requestBody && { requestBody }),
+        responses,
+    };
+};
+
+/**
+ * The OpenAPI document for every documented route; built once per process
+ */
+export const buildOpenApiDocument = (): Record<string, unknown> => {
+    if (cachedDocument) return cachedDocument;
+
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const group of API_ROUTE_GROUPS) {
+        for (const [key, operation] of Object.entries(group.operations)) {
+            const [method = '', routePath = ''] = key.split(' ');
+            const path = fullPath(group, routePath);
+            paths[path] = {
+                ...paths[path],
+                [method.toLowerCase()]: buildOperation(group, method.toLowerCase(), path, operation),
+            };
+        }
+    }
+
+    const tags = new Map<string, string | undefined>();
+    for (const group of API_ROUTE_GROUPS) {
+        if (!tags.has(group.tag) || group.description) tags.set(group.tag, group.description);
+    }
+
+    cachedDocument = {
+        openapi: '3.1.0',
+        info: {
+            title: 'Backend API',
+            version: '1.0.0',
+            description:
+                'Every response uses the `{ success, message, data }` envelope. ' +
+                'Send the access token as a Bearer header, or use the auth cookies with an `X-CSRF-Token` header on writes.',
+        },
+        servers: [{ url: '/api' }],
+        tags: [...tags].map(([name, description]) => ({ name, ...(description && { description }) })),
+        security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+        paths,
+        components: {
+            schemas: SCHEMAS,
+            responses: Object.fromEntries(
+                Object.entries(ERROR_RESPONSES).map(([name, description]) => [
+                    name,
+                    { description, content: { 'application/json': { schema: ref('ApiError') } } },
+                ])
+            ),
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+                cookieAuth: { type: 'apiKey', in: 'cookie', name: AUTH_COOKIES.ACCESS_TOKEN },
+                apiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+            },
+        },
+    };
+    return cachedDocument;
+};
+
+/**
+ * The document as written to OPENAPI_FILE
+ */
+export const serializeOpenApiDocument = (): string => `${JSON.stringify(buildOpenApiDocument(), null, 2)}\n`;
+
+// "METHOD /path" keys of a route with the schema its validate() middleware checks
+const routeEntries = (layer: IRouterLayer): [string, RequestSchema | undefined][] => {
+    const route = layer.route!;
+    const paths = Array.isArray(route.path) ? route.path : [route.path];
+    const methods = Object.keys(route.methods).filter((method) => route.methods[method]);
+    const schema = route.stack.find(({ handle }) => handle.requestSchema)?.handle.requestSchema;
+    return paths.flatMap((path) =>
+        methods.map((method): [string, RequestSchema | undefined] => [
+            `${method === '_all' ? 'ALL' : method.toUpperCase()} ${path}`,
+            schema,
+        ])
+    );
+};
+
+const collectRefs = (value: unknown, refs: Set<string>): void => {
+    if (Array.isArray(value)) {
+        value.forEach((item) => collectRefs(item, refs));
+    } else if (value && typeof value === 'object') {
+        for (const [key, item] of Object.entries(value)) {
+            if (key === '$ref' && typeof item === 'string') refs.add(item);
+            else collectRefs(item, refs);
+        }
+    }
+};
+
+const resolveSchema = (schema: IOpenApiSchema): IOpenApiSchema | undefined => {
+    if (!schema.$ref) return schema;
+    const name = schema.$ref.replace('#/components/schemas/', '');
+    return name in SCHEMAS ? SCHEMAS[name as SchemaName] : undefined;
+};
+
+// A named body on a validated route must be the validator's own
+const documentsValidatedBody = (operation: IOperationDoc): boolean => {
+    if (!operation.body || !operation.request?.body) return true;
+    const { properties, required } = resolveSchema(operation.body) || {};
+    const validated = validatedBody(operation.request.body);
+    return isDeepStrictEqual({ properties, required }, { properties: validated.properties, required: validated.required });
+};
+
+/**
+ * Compare the documented operations with the routes mounted on the API router.
+ * Returns one message per problem: undocumented routes, documented routes that
+ * no longer exist, routes validating a schema other than their documented `request`,
+ * routers mounted outside any documented group and dangling $refs.
+ */
+export const findRouteDocGaps = (apiRouter: Router): string[] => {
+    const gaps: string[] = [];
+    const mounted = new Map<IRouteGroupDoc, Map<string, RequestSchema | undefined>>(
+        API_ROUTE_GROUPS.map((group) => [group, new Map()])
+    );
+    const rootGroup = API_ROUTE_GROUPS.find((group) => group.mount === '');
+
+    const record = (group: IRouteGroupDoc | undefined, entries: [string, RequestSchema | undefined][]) => {
+        for (const [key, schema] of entries) {
+            if (group) mounted.get(group)!.set(key, schema);
+            else gaps.push(`${key} is mounted on the API router but no group has mount ''`);
+        }
+    };
+
+    for (const layer of (apiRouter as unknown as { stack: IRouterLayer[] }).stack) {
+        if (layer.route) {
+            record(rootGroup, routeEntries(layer));
+            continue;
+        }
+        if (!layer.handle.stack) continue;
+
+        // Express keeps only a matcher for mount paths, so ask each group's mount
+        const group = API_ROUTE_GROUPS.find(({ mount }) => mount !== '' && layer.match(mount));
+        if (!group) {
+            gaps.push('A router is mounted at a path with no documented group');
+            continue;
+        }
+        for (const child of layer.handle.stack) {
+            if (child.route) record(group, routeEntries(child));
+            else if (child.handle.stack) gaps.push(`${group.mount} mounts a nested router, which the docs check cannot read`);
+        }
+    }
+
+    for (const [group, routes] of mounted) {
+        const label = (key: string) => key.replace(' ', ` /api${group.mount}`);
+        for (const [key, schema] of routes) {
+            const operation = group.operations[key];
+            if (!operation) gaps.push(`${label(key)} is not documented`);
+            else if (operation.request !== schema) gaps.push(`${label(key)} validates a different schema than its docs`);
+            else if (!documentsValidatedBody(operation)) gaps.push(`${label(key)} documents a body other than the one it validates`);
+        }
+        for (const key of Object.keys(group.operations)) {
+            if (!routes.has(key)) gaps.push(`${label(key)} is documented but not mounted`);
+        }
+    }
+
+    const refs = new Set<string>();
+    collectRefs(buildOpenApiDocument(), refs);
+    for (const target of refs) {
+        const [, kind, name = ''] = target.match(/^#\/components\/(\w+)\/(\w+)$/) || [];
+        const known = kind === 'schemas' ? name in SCHEMAS : kind === 'responses' && name in ERROR_RESPONSES;
+        if (!known) gaps.push(`${target} does not exist`);
+    }
+
+    return gaps;
+};
+
+const typeMatches = (type: OpenApiType, value: unknown): boolean => {
+    switch (type) {
+        case 'null':
+            return value === null;
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'integer':
+            return Number.isInteger(value);
+        default:
+            return typeof value === type;
+    }
+};
+
+// Property names an object schema lists, or null when it allows others
+const knownProperties = (schema: IOpenApiSchema): Set<string> | null => {
+    const resolved = resolveSchema(schema);
+    if (!resolved) return null;
+    if (resolved.allOf) {
+        const parts = resolved.allOf.map(knownProperties);
+        return parts.every((part) => part !== null) ? new Set(parts.flatMap((part) => [...part!])) : null;
+    }
+    if (!resolved.properties || resolved.additionalProperties) return null;
+    return new Set(Object.keys(resolved.properties));
+};
+
+/**
+ * Where a value breaks a schema, one message per problem. Covers the keywords
+ * the route docs use; formats and bounds are left to the request validators
+ */
+const schemaMismatches = (schema: IOpenApiSchema, value: unknown, at: string, ownProperties = true): string[] => {
+    const resolved = resolveSchema(schema);
+    if (!resolved) return [`${at}: ${schema.$ref} does not exist`];
+    if (resolved !== schema) return schemaMismatches(resolved, value, at, ownProperties);
+
+    const problems: string[] = [];
+    if (schema.allOf) {
+        problems.push(...schema.allOf.flatMap((part) => schemaMismatches(part, value, at, false)));
+    }
+    if (schema.oneOf && schema.oneOf.every((option) => schemaMismatches(option, value, at).length > 0)) {
+        return [...problems, `${at} matches none of ${schema.oneOf.length} documented shapes`];
+    }
+
+    const types = schema.type === undefined ? [] : [schema.type].flat();
+    if (types.length > 0 && !types.some((type) => typeMatches(type, value))) {
+        return [...problems, `${at} should be ${types.join(' or ')}, got ${JSON.stringify(value)}`];
+    }
+    if (schema.enum && !schema.enum.includes(value as string)) problems.push(`${at} is not one of ${schema.enum.join(', ')}`);
+    if (schema.const !== undefined && value !== schema.const) problems.push(`${at} should be ${schema.const}`);
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, index) => problems.push(...schemaMismatches(schema.items!, item, `${at}[${index}]`)));
+    }
+    if (!typeMatches('object', value)) return problems;
+
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+        if (!(key in record)) problems.push(`${at}.${key} is missing`);
+    }
+    const extra = typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined;
+    for (const [key, item] of Object.entries(record)) {
+        const property = schema.properties?.[key] || extra;
+        if (property) problems.push(...schemaMismatches(property, item, `${at}.${key}`));
+    }
+    // allOf parts only see their own properties, so the whole list is checked once at the top
+    const known = ownProperties ? knownProperties(schema) : null;
+    if (known) {
+        problems.push(...Object.keys(record).filter((key) => !known.has(key)).map((key) => `${at}.${key} is not documented`));
+    }
+    return problems;
+};
+
+// The documented operation serving a request path, preferring literal segments over parameters
+const findOperation = (method: string, requestPath: string): [string, IOperationDoc] | undefined => {
+    let best: [string, IOperationDoc, number] | undefined;
+    for (const group of API_ROUTE_GROUPS) {
+        for (const [key, operation] of Object.entries(group.operations)) {
+            const [operationMethod = '', routePath = ''] = key.split(' ');
+            const path = fullPath(group, routePath);
+            const pattern = new RegExp(`^${path.replace(/\{\w+\}/g, '[^/]+')}$`);
+            const params = pathParams(path).length;
+            if (operationMethod === method.toUpperCase() && pattern.test(requestPath) && (!best || params < best[2])) {
+                best = [path, operation, params];
+            }
+        }
+    }
+    return best && [best[0], best[1]];
+};
+
+/**
+ * Compare a JSON response with the docs of the route that sent it. Errors are
+ * checked against ApiError; undocumented routes are left to findRouteDocGaps
+ */
+export const findResponseMismatches = (method: string, url: string, status: number, body: unknown): string[] => {
+    const requestPath = url.split('?')[0]!;
+    const match = findOperation(method, requestPath);
+    if (!match) return [];
+
+    const [path, operation] = match;
+    const label = `${method.toUpperCase()} /api${path}`;
+    const expected = operation.status || 200;
+    if (status >= 400) return schemaMismatches(ref('ApiError'), body, 'body').map((problem) => `${label}: ${problem}`);
+    if (status !== expected) return [`${label} answered ${status} instead of ${expected}`];
+    if (operation.content) return [];
+    return schemaMismatches(successSchema(operation), body, 'body').map((problem) => `${label}: ${problem}`);
+};
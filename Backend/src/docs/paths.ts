@@ -0,0 +1,653 @@
+/**
+ * API Route Docs - TypeScript
+ * Every mounted route with its summary, permissions, parameters and payloads.
+ * Keys are "METHOD /path" exactly as declared on the router; `npm run docs:check`
+ * fails when a mounted route has no entry here, an entry has no route, or a route
+ * validates with a schema other than the `request` documented for it.
+ */
+
+import { ORDER_STATUSES } from '@config/orders';
+import { USER_ROLES } from '@config/permissions';
+import { IOpenApiSchema, IRouteGroupDoc } from '@types';
+import * as authValidator from '@validators/authValidator';
+import * as newsValidator from '@validators/newsValidator';
+import * as orderValidator from '@validators/orderValidator';
+import * as productValidator from '@validators/productValidator';
+import * as settingsValidator from '@validators/settingsValidator';
+import * as statsValidator from '@validators/statsValidator';
+import * as uploadValidator from '@validators/uploadValidator';
+import * as userValidator from '@validators/userValidator';
+import { ref } from './schemas';
+
+const STRING: IOpenApiSchema = { type: 'string' };
+const DATE_TIME: IOpenApiSchema = { type: 'string', format: 'date-time' };
+const CODE: IOpenApiSchema = { type: 'string', description: 'Authenticator or recovery code' };
+
+// Every property is required unless the caller lists the required ones
+const object = (
+    properties: Record<string, IOpenApiSchema>,
+    required: string[] = Object.keys(properties)
+): IOpenApiSchema => ({
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+});
+
+const arrayOf = (items: IOpenApiSchema): IOpenApiSchema => ({ type: 'array', items });
+
+const uploadForm = (field: string, max: number): IOpenApiSchema =>
+    object({ [field]: { ...arrayOf({ type: 'string', format: 'binary' }), description: `Up to ${max} files` } });
+
+const uploadResult = object({ count: { type: 'integer' }, files: arrayOf(ref('UploadedFile')) });
+
+export const API_ROUTE_GROUPS: IRouteGroupDoc[] = [
+    {
+        mount: '',
+        tag: 'Meta',
+        description: 'API information and CSRF tokens',
+        operations: {
+            'GET /': {
+                summary: 'API status',
+                public: true,
+                content: {
+                    type: 'application/json',
+                    schema: object({
+                        success: { type: 'boolean' },
+                        message: STRING,
+                        version: STRING,
+                        documentation: STRING,
+                        timestamp: DATE_TIME,
+                    }),
+                },
+            },
+            'GET /csrf': {
+                summary: 'Issue a CSRF token',
+                description: 'Cookie auth mode only: echo the token in the X-CSRF-Token header on writes.',
+                public: true,
+                data: object({ csrfToken: STRING, enabled: { type: 'boolean' } }),
+            },
+            'GET /openapi.json': {
+                summary: 'This OpenAPI document',
+                public: true,
+                content: { type: 'application/json', schema: { type: 'object' } },
+            },
+        },
+    },
+    {
+        mount: '/docs',
+        tag: 'Meta',
+        operations: {
+            'GET /': {
+                summary: 'Interactive API documentation',
+                public: true,
+                content: { type: 'text/html', schema: STRING },
+            },
+            'GET /init.js': {
+                summary: 'Script that starts the documentation UI',
+                public: true,
+                content: { type: 'text/javascript', schema: STRING },
+            },
+            'GET /:asset': {
+                summary: 'Bundled documentation UI assets',
+                description: 'swagger-ui.css, swagger-ui-bundle.js or favicon-32x32.png',
+                public: true,
+                content: { type: 'application/octet-stream', schema: { type: 'string', format: 'binary' } },
+            },
+        },
+    },
+    {
+        mount: '/auth',
+        tag: 'Auth',
+        description: 'Sign-in, two-factor authentication, sessions and password recovery',
+        operations: {
+            'POST /register': {
+                summary: 'Register',
+                public: true,
+                request: authValidator.register,
+                body: ref('RegisterData'),
+                data: ref('AuthResponse'),
+                status: 201,
+            },
+            'POST /login': {
+                summary: 'Log in',
+                description: 'Accounts with two-factor authentication get an MFA challenge instead of tokens.',
+                public: true,
+                request: authValidator.login,
+                body: ref('LoginCredentials'),
+                data: { oneOf: [ref('AuthResponse'), ref('MfaChallenge')] },
+            },
+            'POST /mfa/verify': {
+                summary: 'Second login step for MFA accounts',
+                public: true,
+                body: object({ mfaToken: STRING, code: CODE }),
+                data: ref('AuthResponse'),
+            },
+            'POST /mfa/setup': {
+                summary: 'Start TOTP enrolment',
+                data: ref('MfaSetup'),
+            },
+            'POST /mfa/enable': {
+                summary: 'Confirm TOTP enrolment',
+                body: object({ code: CODE }),
+                data: object({ recoveryCodes: arrayOf(STRING) }),
+            },
+            'POST /mfa/disable': {
+                summary: 'Disable TOTP',
+                body: object({ password: STRING, code: CODE }),
+                data: null,
+            },
+            'POST /refresh': {
+                summary: 'Refresh tokens',
+                description: 'In cookie mode the refresh token is read from its httpOnly cookie.',
+                public: true,
+                body: object({ refreshToken: STRING }, []),
+                data: ref('AuthResponse'),
+            },
+            'POST /logout': {
+                summary: 'Log out',
+                public: true,
+                body: object({ refreshToken: STRING }, []),
+                data: null,
+            },
+            'POST /logout-all': {
+                summary: 'Log out from every device',
+                data: null,
+            },
+            'POST /verify-email': {
+                summary: 'Verify email address',
+                public: true,
+                body: object({ token: STRING }),
+                data: object({ user: ref('User') }),
+            },
+            'POST /resend-verification': {
+                summary: 'Resend verification email',
+                public: true,
+                body: object({ email: { type: 'string', format: 'email' } }),
+                data: null,
+            },
+            'POST /forgot-password': {
+                summary: 'Request password reset email',
+                public: true,
+                request: authValidator.forgotPassword,
+                data: null,
+            },
+            'POST /reset-password': {
+                summary: 'Reset password with emailed token',
+                public: true,
+                request: authValidator.resetPassword,
+                data: null,
+            },
+            'GET /sessions': {
+                summary: 'List active sessions',
+                data: object({ sessions: arrayOf(ref('Session')) }),
+            },
+            'DELETE /sessions': {
+                summary: 'Revoke every other session',
+                data: object({ revoked: { type: 'integer' } }),
+            },
+            'DELETE /sessions/:id': {
+                summary: 'Revoke a session',
+                data: null,
+            },
+            'GET /profile': {
+                summary: 'Current user profile',
+                data: object({ user: ref('User') }),
+            },
+        },
+    },
+    {
+        mount: '/uploads',
+        tag: 'Uploads',
+        operations: {
+            'POST /avatar': {
+                summary: 'Upload an avatar',
+                permissions: ['uploads:write'],
+                form: object({ avatar: { type: 'string', format: 'binary' } }),
+                data: ref('UploadedFile'),
+                status: 201,
+            },
+            'POST /images': {
+                summary: 'Upload images',
+                permissions: ['uploads:write'],
+                form: uploadForm('images', 10),
+                data: uploadResult,
+                status: 201,
+            },
+            'POST /documents': {
+                summary: 'Upload documents',
+                permissions: ['uploads:write'],
+                form: uploadForm('documents', 5),
+                data: uploadResult,
+                status: 201,
+            },
+            'DELETE /:filename': {
+                summary: 'Delete an uploaded file',
+                permissions: ['uploads:write', 'uploads:delete'],
+                request: uploadValidator.deleteFile,
+                data: null,
+            },
+        },
+    },
+    {
+        mount: '/roles',
+        tag: 'Roles',
+        operations: {
+            'GET /': {
+                summary: 'List roles with the permission catalogue',
+                permissions: ['roles:manage'],
+                data: object({ roles: arrayOf(ref('Role')), permissions: arrayOf(STRING) }),
+            },
+            'PUT /:name': {
+                summary: 'Update role permissions',
+                description: 'The admin role always keeps every permission.',
+                permissions: ['roles:manage'],
+                body: object({ permissions: arrayOf(STRING) }),
+                data: ref('Role'),
+            },
+        },
+    },
+    {
+        mount: '/api-keys',
+        tag: 'API keys',
+        operations: {
+            'GET /': {
+                summary: 'List API keys',
+                permissions: ['api-keys:manage'],
+                data: object({ apiKeys: arrayOf(ref('ApiKey')) }),
+            },
+            'POST /': {
+                summary: 'Create an API key',
+                permissions: ['api-keys:manage'],
+                body: ref('ApiKeyInput'),
+                data: ref('ApiKeySecret'),
+                status: 201,
+            },
+            'POST /:id/rotate': {
+                summary: 'Rotate an API key',
+                permissions: ['api-keys:manage'],
+                data: ref('ApiKeySecret'),
+            },
+            'DELETE /:id': {
+                summary: 'Revoke an API key',
+                permissions: ['api-keys:manage'],
+                data: null,
+            },
+        },
+    },
+    {
+        mount: '/users',
+        tag: 'Users',
+        operations: {
+            'GET /': {
+                summary: 'List users',
+                permissions: ['users:read'],
+                request: userValidator.listUsers,
+                page: ref('User'),
+            },
+            'GET /:id': {
+                summary: 'Get a user',
+                permissions: ['users:read'],
+                data: object({ user: ref('User') }),
+            },
+            'GET /:id/sessions': {
+                summary: "List a user's sessions",
+                permissions: ['users:read'],
+                data: object({ sessions: arrayOf(ref('Session')) }),
+            },
+            'DELETE /:id/sessions': {
+                summary: 'Sign a user out everywhere',
+                permissions: ['users:write'],
+                data: object({ revoked: { type: 'integer' } }),
+            },
+            'GET /:id/activity': {
+                summary: 'Recent account activity',
+                permissions: ['users:read'],
+                data: object({ activity: arrayOf(ref('UserActivity')) }),
+            },
+            'POST /': {
+                summary: 'Create a user',
+                permissions: ['users:write'],
+                body: ref('UserInput'),
+                data: object({ user: ref('User') }),
+                status: 201,
+            },
+            'PUT /:id': {
+                summary: 'Update a user',
+                description: 'A new email marks the account unverified and sends a verification link, unless isVerified is also sent.',
+                permissions: ['users:write'],
+                body: ref('UserUpdate'),
+                data: object({ user: ref('User') }),
+            },
+            'PUT /:id/role': {
+                summary: "Change a user's role",
+                permissions: ['users:write'],
+                body: object({ role: { type: 'string', enum: USER_ROLES } }),
+                data: object({ user: ref('User') }),
+            },
+            'POST /:id/ban': {
+                summary: 'Ban a user',
+                permissions: ['users:write'],
+                body: object({ reason: STRING }, []),
+                data: object({ user: ref('User') }),
+            },
+            'POST /:id/unban': {
+                summary: 'Lift a ban',
+                permissions: ['users:write'],
+                data: object({ user: ref('User') }),
+            },
+            'DELETE /:id': {
+                summary: 'Delete a user',
+                permissions: ['users:delete'],
+                data: null,
+            },
+        },
+    },
+    {
+        mount: '/products',
+        tag: 'Products',
+        operations: {
+            'GET /': {
+                summary: 'List products',
+                permissions: ['products:read'],
+                request: productValidator.listProducts,
+                page: ref('Product'),
+            },
+            'GET /:id': {
+                summary: 'Get a product',
+                permissions: ['products:read'],
+                data: object({ product: ref('Product') }),
+            },
+            'POST /': {
+                summary: 'Create a product',
+                permissions: ['products:write'],
+                body: ref('ProductInput'),
+                data: object({ product: ref('Product') }),
+                status: 201,
+            },
+            'PUT /:id': {
+                summary: 'Update a product',
+                description: 'Variants that still hold stock cannot be removed; adjust them to 0 first.',
+                permissions: ['products:write'],
+                body: ref('ProductUpdate'),
+                data: object({ product: ref('Product') }),
+            },
+            'DELETE /:id': {
+                summary: 'Delete a product',
+                permissions: ['products:delete'],
+                data: null,
+            },
+            'GET /:id/inventory': {
+                summary: 'Stock movement history',
+                permissions: ['products:read'],
+                data: object({ movements: arrayOf(ref('InventoryMovement')) }),
+            },
+            'POST /:id/inventory': {
+                summary: 'Adjust variant stock',
+                permissions: ['inventory:adjust'],
+                body: ref('InventoryAdjustment'),
+                data: object({ product: ref('Product') }),
+            },
+        },
+    },
+    {
+        mount: '/categories',
+        tag: 'Products',
+        operations: {
+            'GET /': {
+                summary: 'List categories',
+                permissions: ['products:read'],
+                data: object({ categories: arrayOf(ref('Category')) }),
+            },
+            'POST /': {
+                summary: 'Create a category',
+                permissions: ['products:write'],
+                body: ref('CategoryInput'),
+                data: object({ category: ref('Category') }),
+                status: 201,
+            },
+            'PUT /:id': {
+                summary: 'Update a category',
+                permissions: ['products:write'],
+                body: ref('CategoryUpdate'),
+                data: object({ category: ref('Category') }),
+            },
+            'DELETE /:id': {
+                summary: 'Delete a category',
+                permissions: ['products:write'],
+                data: null,
+            },
+        },
+    },
+    {
+        mount: '/orders',
+        tag: 'Orders',
+        operations: {
+            'GET /': {
+                summary: 'List orders',
+                permissions: ['orders:read'],
+                request: orderValidator.listOrders,
+                page: ref('Order'),
+            },
+            'GET /export': {
+                summary: 'Export orders as CSV',
+                description: 'Takes the same filters as the list.',
+                permissions: ['orders:read'],
+                request: orderValidator.listOrders,
+                content: { type: 'text/csv', schema: STRING },
+            },
+            'GET /:id': {
+                summary: 'Get an order with the statuses it can move to',
+                permissions: ['orders:read'],
+                data: object({ order: ref('Order'), transitions: arrayOf({ type: 'string', enum: ORDER_STATUSES }) }),
+            },
+            'POST /': {
+                summary: 'Create an order',
+                description: 'Reserves stock for every item.',
+                permissions: ['orders:write'],
+                body: ref('OrderInput'),
+                data: object({ order: ref('Order') }),
+                status: 201,
+            },
+            'POST /bulk-status': {
+                summary: 'Change the status of several orders',
+                permissions: ['orders:write'],
+                body: object(
+                    { ids: arrayOf(STRING), status: { type: 'string', enum: ORDER_STATUSES }, reason: STRING },
+                    ['ids', 'status']
+                ),
+                data: object({ results: arrayOf(ref('OrderTransitionResult')) }),
+            },
+            'POST /:id/status': {
+                summary: 'Change order status',
+                description: 'Refunds also need orders:refund. Answers 409 when another change moved the order first.',
+                permissions: ['orders:write'],
+                body: ref('OrderTransitionInput'),
+                data: object({ order: ref('Order'), transitions: arrayOf({ type: 'string', enum: ORDER_STATUSES }) }),
+            },
+        },
+    },
+    {
+        mount: '/news',
+        tag: 'News',
+        operations: {
+            'GET /': {
+                summary: 'List articles',
+                permissions: ['news:write'],
+                request: newsValidator.listArticles,
+                page: ref('NewsArticle'),
+            },
+            'POST /preview': {
+                summary: 'Sanitize a body the way saving does',
+                permissions: ['news:write'],
+                body: object({ body: STRING }),
+                data: object({ html: STRING }),
+            },
+            'GET /:id': {
+                summary: 'Get an article',
+                permissions: ['news:write'],
+                data: object({ article: ref('NewsArticle') }),
+            },
+            'POST /': {
+                summary: 'Create an article',
+                description: 'Anything but a draft also needs news:publish.',
+                permissions: ['news:write'],
+                body: ref('NewsInput'),
+                data: object({ article: ref('NewsArticle') }),
+                status: 201,
+            },
+            'PUT /:id': {
+                summary: 'Update an article',
+                description: 'Articles that are not drafts also need news:publish. Draft edits by one editor within 10 minutes share a revision.',
+                permissions: ['news:write'],
+                body: ref('NewsUpdate'),
+                data: object({ article: ref('NewsArticle') }),
+            },
+            'DELETE /:id': {
+                summary: 'Delete an article and its revisions',
+                permissions: ['news:publish'],
+                data: null,
+            },
+            'GET /:id/revisions': {
+                summary: 'Revision history',
+                permissions: ['news:write'],
+                data: object({ revisions: arrayOf(ref('NewsRevision')) }),
+            },
+            'GET /:id/revisions/:revision': {
+                summary: 'Get a revision',
+                permissions: ['news:write'],
+                request: newsValidator.revision,
+                data: object({ revision: ref('NewsRevision') }),
+            },
+            'GET /:id/revisions/:revision/diff': {
+                summary: 'Diff a revision against another',
+                permissions: ['news:write'],
+                request: newsValidator.diffRevisions,
+                data: object({ diff: ref('NewsRevisionDiff') }),
+            },
+            'POST /:id/revisions/:revision/restore': {
+                summary: 'Restore a revision as a new revision',
+                permissions: ['news:write'],
+                request: newsValidator.revision,
+                data: object({ article: ref('NewsArticle') }),
+            },
+        },
+    },
+    {
+        mount: '/settings',
+        tag: 'Settings',
+        operations: {
+            'GET /public': {
+                summary: 'Settings the storefront needs',
+                public: true,
+                data: object({ settings: ref('PublicSettings') }),
+            },
+            'GET /': {
+                summary: 'Get settings with the current version',
+                permissions: ['settings:read'],
+                data: ref('SettingsState'),
+            },
+            'PATCH /': {
+                summary: 'Change settings',
+                description: 'Rate and upload limits apply to the next request; other server instances pick changes up within 15 seconds.',
+                permissions: ['settings:write'],
+                body: ref('SettingsUpdateInput'),
+                data: ref('SettingsState'),
+            },
+            'GET /history': {
+                summary: 'Stored versions and what changed in each',
+                permissions: ['settings:read'],
+                request: settingsValidator.listHistory,
+                page: ref('SettingsVersion'),
+            },
+        },
+    },
+    {
+        mount: '/admin',
+        tag: 'Dashboard',
+        operations: {
+            'GET /stats': {
+                summary: 'Dashboard figures for a date range',
+                description: 'Revenue counts paid orders that were not cancelled or refunded. Cached for a minute.',
+                permissions: ['stats:read'],
+                request: statsValidator.getDashboard,
+                data: object({ stats: ref('DashboardStats') }),
+            },
+        },
+    },
+    {
+        mount: '/catalog',
+        tag: 'Storefront',
+        description: 'Public, read-only catalog and news',
+        operations: {
+            'GET /products': {
+                summary: 'List published products',
+                public: true,
+                request: productValidator.listPublishedProducts,
+                page: ref('PublicProduct'),
+            },
+            'GET /products/:slug': {
+                summary: 'Get a published product',
+                public: true,
+                data: object({ product: ref('PublicProduct') }),
+            },
+            'GET /categories': {
+                summary: 'List categories',
+                public: true,
+                data: object({ categories: arrayOf(ref('Category')) }),
+            },
+        },
+    },
+    {
+        mount: '/articles',
+        tag: 'Storefront',
+        operations: {
+            'GET /': {
+                summary: 'List published articles',
+                public: true,
+                request: newsValidator.listPublishedArticles,
+                page: ref('PublicNewsArticle'),
+            },
+            'GET /:slug': {
+                summary: 'Get a published article',
+                public: true,
+                data: object({ article: ref('PublicNewsArticle') }),
+            },
+        },
+    },
+    {
+        mount: '/external',
+        tag: 'External',
+        description: 'Integration reads with an admin-issued key in X-API-Key; 10 rejected keys block the IP for 15 minutes',
+        operations: {
+            'GET /products': {
+                summary: 'List products',
+                scopes: ['products:read'],
+                request: productValidator.listProducts,
+                page: ref('Product'),
+            },
+            'GET /products/:id': {
+                summary: 'Get a product',
+                scopes: ['products:read'],
+                data: object({ product: ref('Product') }),
+            },
+            'GET /products/:id/inventory': {
+                summary: 'Stock movement history',
+                scopes: ['products:read'],
+                data: object({ movements: arrayOf(ref('InventoryMovement')) }),
+            },
+            'GET /orders': {
+                summary: 'List orders',
+                scopes: ['orders:read'],
+                request: orderValidator.listOrders,
+                page: ref('Order'),
+            },
+            'GET /orders/export': {
+                summary: 'Export orders as CSV',
+                description: 'Takes the same filters as the list.',
+                scopes: ['orders:read'],
+                request: orderValidator.listOrders,
+                content: { type: 'text/csv', schema: STRING },
+            },
+        },
+    },
+];
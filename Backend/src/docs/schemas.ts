@@ -0,0 +1,630 @@
+/**
+ * OpenAPI Schemas - TypeScript
+ * Component schemas for the API envelopes and domain types
+ */
+
+import { PERMISSIONS, USER_ROLES } from '@config/permissions';
+import { ORDER_STATUSES } from '@config/orders';
+import { PUBLIC_SETTING_KEYS, SETTINGS_SCHEMA, SETTING_KEYS } from '@config/settings';
+import {
+    ApiKeyInfo,
+    FieldType,
+    IApiError,
+    IApiKeyInput,
+    IApiResponse,
+    IAppSettings,
+    IAuthResponse,
+    ICategory,
+    ICategoryInput,
+    IDashboardStats,
+    IDiffPart,
+    IFieldSchema,
+    IInventoryAdjustment,
+    IInventoryMovement,
+    IMfaChallenge,
+    IMfaSetup,
+    INewsArticle,
+    INewsInput,
+    INewsRevision,
+    INewsRevisionDiff,
+    IOpenApiSchema,
+    IOrder,
+    IOrderInput,
+    IOrderItem,
+    IOrderTransition,
+    IOrderTransitionInput,
+    IOrderTransitionResult,
+    IPaginatedResponse,
+    IProductInput,
+    IProductOption,
+    IProductVariant,
+    IRole,
+    ISessionInfo,
+    ISettingChange,
+    ISettingsState,
+    ISettingsUpdateInput,
+    ISettingsVersion,
+    IShippingAddress,
+    IStatsBucket,
+    ITopProduct,
+    IUserActivity,
+    IUserInput,
+    IValidationError,
+    InventoryMovementSource,
+    NewsStatus,
+    ProductInfo,
+    ProductStatus,
+    PublicNewsArticle,
+    PublicProduct,
+    PublicSettings,
+    PublicUser,
+    StatsInterval,
+    UserActivityType,
+} from '@types';
+import * as authValidator from '@validators/authValidator';
+
+interface IOptionalSchema {
+    optional: IOpenApiSchema;
+}
+
+/**
+ * One entry per property of T: optional properties must be wrapped in
+ * optional() and required ones must not, so a field added to an interface
+ * fails the type check until its schema is documented here
+ */
+type ModelProperties<T> = {
+    [K in keyof T]-?: object extends Pick<T, K> ? IOptionalSchema : IOpenApiSchema;
+};
+
+export const optional = (schema: IOpenApiSchema): IOptionalSchema => ({ optional: schema });
+
+// Names are not type-checked (SCHEMAS refers to itself); the docs check reports dangling refs
+export const ref = (name: string): IOpenApiSchema => ({ $ref: `#/components/schemas/${name}` });
+
+const model = <T>(properties: ModelProperties<T>, description?: string): IOpenApiSchema => {
+    const entries = Object.entries(properties) as [string, IOpenApiSchema | IOptionalSchema][];
+    return {
+        type: 'object',
+        ...(description && { description }),
+        properties: Object.fromEntries(
+            entries.map(([key, schema]) => [key, 'optional' in schema ? schema.optional : schema])
+        ),
+        required: entries.filter(([, schema]) => !('optional' in schema)).map(([key]) => key),
+    };
+};
+
+const STRING: IOpenApiSchema = { type: 'string' };
+const INTEGER: IOpenApiSchema = { type: 'integer' };
+const BOOLEAN: IOpenApiSchema = { type: 'boolean' };
+const DATE_TIME: IOpenApiSchema = { type: 'string', format: 'date-time' };
+const EMAIL: IOpenApiSchema = { type: 'string', format: 'email' };
+const VND: IOpenApiSchema = { type: 'integer', description: 'Whole VND' };
+const STRINGS: IOpenApiSchema = { type: 'array', items: STRING };
+const STRING_MAP: IOpenApiSchema = { type: 'object', additionalProperties: STRING };
+const NULLABLE_STRING: IOpenApiSchema = { type: ['string', 'null'] };
+const NULLABLE_INTEGER: IOpenApiSchema = { type: ['integer', 'null'] };
+const ANY: IOpenApiSchema = {};
+
+const arrayOf = (items: IOpenApiSchema): IOpenApiSchema => ({ type: 'array', items });
+
+// Schema for each validation field type
+const FIELD_TYPES: Record<FieldType, IOpenApiSchema> = {
+    string: STRING,
+    email: EMAIL,
+    integer: INTEGER,
+    number: { type: 'number' },
+    boolean: BOOLEAN,
+    date: { type: 'string', format: 'date' },
+    'date-time': DATE_TIME,
+};
+
+/**
+ * What a validate() field accepts, for parameters and request bodies
+ */
+export const fieldSchema = (field: IFieldSchema): IOpenApiSchema => {
+    const { enum: values, minimum, maximum, minLength, maxLength, default: fallback, description } = field;
+    return {
+        ...FIELD_TYPES[field.type],
+        ...(values && { enum: values }),
+        ...(minimum !== undefined && { minimum }),
+        ...(maximum !== undefined && { maximum }),
+        ...(minLength !== undefined && { minLength }),
+        ...(maxLength !== undefined && { maxLength }),
+        ...(fallback !== undefined && { default: fallback }),
+        ...(description && { description }),
+    };
+};
+
+/**
+ * The body a validate() schema accepts, so documented bodies cannot drift from the checks
+ */
+export const validatedBody = (fields: Record<string, IFieldSchema>, description?: string): IOpenApiSchema => ({
+    type: 'object',
+    ...(description && { description }),
+    properties: Object.fromEntries(Object.entries(fields).map(([key, field]) => [key, fieldSchema(field)])),
+    required: Object.keys(fields).filter((key) => fields[key]!.required),
+});
+
+const ROLE: IOpenApiSchema = { type: 'string', enum: USER_ROLES };
+const PERMISSION: IOpenApiSchema = { type: 'string', enum: PERMISSIONS };
+const ORDER_STATUS: IOpenApiSchema = { type: 'string', enum: ORDER_STATUSES };
+const PRODUCT_STATUS: IOpenApiSchema = {
+    type: 'string',
+    enum: ['draft', 'published', 'archived'] satisfies ProductStatus[],
+};
+const NEWS_STATUS: IOpenApiSchema = {
+    type: 'string',
+    enum: ['draft', 'scheduled', 'published', 'archived'] satisfies NewsStatus[],
+};
+
+// Shared by the entity schemas: IEntity fields
+const entity = { id: STRING, createdAt: DATE_TIME, updatedAt: DATE_TIME };
+
+/**
+ * Settings schemas follow SETTINGS_SCHEMA, so bounds stay in one place. Defaults
+ * are left out: they come from the environment and the spec is committed
+ */
+const settingProperty = (key: keyof IAppSettings): IOpenApiSchema => {
+    const definition = SETTINGS_SCHEMA[key];
+    const bounds =
+        definition.type === 'string'
+            ? { minLength: definition.min, maxLength: definition.max }
+            : { minimum: definition.min, maximum: definition.max };
+    return {
+        type: definition.type === 'number' ? 'integer' : definition.type,
+        ...Object.fromEntries(Object.entries(bounds).filter(([, value]) => value !== undefined)),
+    };
+};
+
+const settingsModel = (keys: readonly (keyof IAppSettings)[]): IOpenApiSchema => ({
+    type: 'object',
+    properties: Object.fromEntries(keys.map(key => [key, settingProperty(key)])),
+    required: [...keys],
+});
+
+const uploadedFile: IOpenApiSchema = {
+    type: 'object',
+    properties: { filename: STRING, originalname: STRING, mimetype: STRING, size: STRING, url: STRING },
+    required: ['filename', 'originalname', 'mimetype', 'size', 'url'],
+};
+
+const MODELS = {
+    // ---- Envelopes ----
+    ApiResponse: model<IApiResponse>({
+        success: BOOLEAN,
+        message: optional(STRING),
+        data: optional(ANY),
+        requestId: optional(STRING),
+    }),
+    ApiError: model<IApiError>({
+        success: { type: 'boolean', const: false },
+        message: STRING,
+        errors: optional({ ...STRINGS, description: 'One entry per invalid field' }),
+        fields: optional({
+            ...arrayOf(ref('ValidationError')),
+            description: 'The same problems keyed by field, when request validation failed',
+        }),
+        requestId: optional(STRING),
+        stack: optional({ ...STRING, description: 'Development only' }),
+    }),
+    ValidationError: model<IValidationError>({
+        field: { ...STRING, description: 'Body, query or path parameter name' },
+        message: STRING,
+    }),
+    PaginatedResponse: model<IPaginatedResponse<unknown>>({
+        success: { type: 'boolean', const: true },
+        data: arrayOf(ANY),
+        pagination: model<IPaginatedResponse<unknown>['pagination']>({
+            page: INTEGER,
+            limit: INTEGER,
+            total: INTEGER,
+            totalPages: INTEGER,
+        }),
+    }),
+
+    // ---- Users and auth ----
+    User: model<PublicUser>({
+        ...entity,
+        email: EMAIL,
+        name: STRING,
+        role: ROLE,
+        avatar: optional(STRING),
+        isVerified: BOOLEAN,
+        bannedAt: optional(DATE_TIME),
+        banReason: optional(STRING),
+        permissions: optional(arrayOf(PERMISSION)),
+        mfaEnabled: BOOLEAN,
+    }),
+    UserInput: model<IUserInput>({
+        email: EMAIL,
+        password: STRING,
+        name: STRING,
+        role: ROLE,
+        avatar: optional(STRING),
+        isVerified: optional(BOOLEAN),
+    }),
+    UserActivity: model<IUserActivity>({
+        type: {
+            type: 'string',
+            enum: ['account_created', 'signed_in', 'signed_out', 'banned'] satisfies UserActivityType[],
+        },
+        at: DATE_TIME,
+        device: optional(STRING),
+        ip: optional(STRING),
+    }),
+    Session: model<ISessionInfo>({
+        id: STRING,
+        device: STRING,
+        userAgent: STRING,
+        ip: STRING,
+        createdAt: DATE_TIME,
+        lastSeenAt: DATE_TIME,
+        current: { ...BOOLEAN, description: 'The session making the request' },
+    }),
+    Role: model<IRole>({
+        ...entity,
+        name: ROLE,
+        description: optional(STRING),
+        permissions: arrayOf(PERMISSION),
+    }),
+    LoginCredentials: validatedBody(authValidator.login.body!),
+    RegisterData: validatedBody(authValidator.register.body!),
+    AuthResponse: model<IAuthResponse>(
+        {
+            user: ref('User'),
+            accessToken: STRING,
+            refreshToken: optional({ ...STRING, description: 'Sent as an httpOnly cookie instead in cookie mode' }),
+        },
+        'Signed-in user and tokens'
+    ),
+    MfaChallenge: model<IMfaChallenge>(
+        { mfaRequired: { type: 'boolean', const: true }, mfaToken: STRING },
+        'Send mfaToken and a code to /auth/mfa/verify'
+    ),
+    MfaSetup: model<IMfaSetup>({ secret: STRING, otpauthUrl: STRING }),
+    ApiKey: model<ApiKeyInfo>({
+        ...entity,
+        name: STRING,
+        prefix: STRING,
+        scopes: arrayOf(PERMISSION),
+        rateLimit: { ...INTEGER, description: 'Requests per minute' },
+        createdBy: STRING,
+        expiresAt: optional(DATE_TIME),
+        lastUsedAt: optional(DATE_TIME),
+        revokedAt: optional(DATE_TIME),
+    }),
+    ApiKeyInput: model<IApiKeyInput>({
+        name: STRING,
+        scopes: arrayOf(PERMISSION),
+        rateLimit: optional(INTEGER),
+        expiresAt: optional({ type: ['string', 'null'], format: 'date-time' }),
+    }),
+    ApiKeySecret: {
+        type: 'object',
+        properties: {
+            apiKey: ref('ApiKey'),
+            key: { ...STRING, description: 'Full key; shown only once' },
+        },
+        required: ['apiKey', 'key'],
+    },
+
+    // ---- Catalog ----
+    Category: model<ICategory>({
+        ...entity,
+        name: STRING,
+        slug: STRING,
+        description: optional(STRING),
+        parentId: optional(STRING),
+    }),
+    CategoryInput: model<ICategoryInput>({
+        name: STRING,
+        slug: optional(STRING),
+        description: optional(STRING),
+        parentId: optional(NULLABLE_STRING),
+    }),
+    ProductOption: model<IProductOption>({ name: STRING, values: STRINGS }),
+    ProductVariant: model<IProductVariant>({
+        sku: STRING,
+        options: { ...STRING_MAP, description: 'One value per product option' },
+        price: optional({ ...VND, description: 'Whole VND; the product price when absent' }),
+        stock: INTEGER,
+    }),
+    Product: model<ProductInfo>({
+        ...entity,
+        name: STRING,
+        slug: STRING,
+        sku: STRING,
+        description: { ...STRING, description: 'Sanitized HTML' },
+        price: VND,
+        compareAtPrice: optional(VND),
+        categoryId: optional(STRING),
+        images: STRINGS,
+        options: arrayOf(ref('ProductOption')),
+        variants: arrayOf(ref('ProductVariant')),
+        status: PRODUCT_STATUS,
+        publishedAt: optional(DATE_TIME),
+        totalStock: INTEGER,
+        createdBy: STRING,
+    }),
+    PublicProduct: model<PublicProduct>({
+        ...entity,
+        name: STRING,
+        slug: STRING,
+        sku: STRING,
+        description: STRING,
+        price: VND,
+        compareAtPrice: optional(VND),
+        categoryId: optional(STRING),
+        images: STRINGS,
+        options: arrayOf(ref('ProductOption')),
+        variants: arrayOf(ref('ProductVariant')),
+        status: PRODUCT_STATUS,
+        publishedAt: optional(DATE_TIME),
+        totalStock: INTEGER,
+    }),
+    ProductInput: model<IProductInput>({
+        name: STRING,
+        slug: optional(STRING),
+        sku: STRING,
+        description: optional(STRING),
+        price: VND,
+        compareAtPrice: optional(NULLABLE_INTEGER),
+        categoryId: optional(NULLABLE_STRING),
+        images: optional({ ...STRINGS, description: 'Paths returned by POST /uploads/images' }),
+        options: optional(arrayOf(ref('ProductOption'))),
+        variants: optional(
+            arrayOf({
+                type: 'object',
+                description: 'Stock is ignored here; change it through the inventory route',
+                properties: { sku: STRING, options: STRING_MAP, price: VND },
+            })
+        ),
+        status: optional(PRODUCT_STATUS),
+    }),
+    InventoryAdjustment: model<IInventoryAdjustment>(
+        {
+            sku: STRING,
+            delta: optional({ ...INTEGER, description: 'Relative change' }),
+            set: optional({ ...INTEGER, description: 'Absolute count after a stocktake' }),
+            reason: optional(STRING),
+        },
+        'Send either delta or set, with a reason'
+    ),
+    InventoryMovement: model<IInventoryMovement>({
+        ...entity,
+        productId: STRING,
+        sku: STRING,
+        change: INTEGER,
+        stockAfter: INTEGER,
+        source: {
+            type: 'string',
+            enum: ['adjustment', 'order', 'cancellation', 'refund'] satisfies InventoryMovementSource[],
+        },
+        reason: STRING,
+        orderId: optional(STRING),
+        createdBy: STRING,
+    }),
+
+    // ---- Orders ----
+    ShippingAddress: model<IShippingAddress>({
+        line1: STRING,
+        line2: optional(STRING),
+        ward: optional(STRING),
+        district: optional(STRING),
+        city: STRING,
+        postalCode: optional(STRING),
+        country: STRING,
+    }),
+    OrderItem: model<IOrderItem>({
+        productId: STRING,
+        sku: STRING,
+        name: STRING,
+        options: STRING_MAP,
+        image: optional(STRING),
+        unitPrice: VND,
+        quantity: INTEGER,
+        lineTotal: VND,
+    }),
+    OrderTransition: model<IOrderTransition>({
+        from: { oneOf: [ORDER_STATUS, { type: 'null' }], description: 'null for the creation entry' },
+        to: ORDER_STATUS,
+        reason: optional(STRING),
+        by: STRING,
+        byEmail: EMAIL,
+        at: DATE_TIME,
+    }),
+    Order: model<IOrder>({
+        ...entity,
+        number: STRING,
+        customerName: STRING,
+        customerEmail: EMAIL,
+        customerPhone: optional(STRING),
+        shippingAddress: ref('ShippingAddress'),
+        items: arrayOf(ref('OrderItem')),
+        subtotal: VND,
+        discount: VND,
+        shipping: VND,
+        tax: VND,
+        total: VND,
+        status: ORDER_STATUS,
+        history: arrayOf(ref('OrderTransition')),
+        note: optional(STRING),
+        createdBy: STRING,
+    }),
+    OrderInput: model<IOrderInput>({
+        customerName: STRING,
+        customerEmail: EMAIL,
+        customerPhone: optional(STRING),
+        shippingAddress: ref('ShippingAddress'),
+        items: arrayOf({
+            type: 'object',
+            properties: { productId: STRING, sku: STRING, quantity: { ...INTEGER, minimum: 1 } },
+            required: ['productId', 'sku', 'quantity'],
+        }),
+        discount: optional(VND),
+        note: optional(STRING),
+    }),
+    OrderTransitionInput: model<IOrderTransitionInput>({
+        status: ORDER_STATUS,
+        reason: optional({ ...STRING, description: 'Required to cancel or refund' }),
+    }),
+    OrderTransitionResult: model<IOrderTransitionResult>({
+        id: STRING,
+        success: BOOLEAN,
+        number: optional(STRING),
+        status: optional(ORDER_STATUS),
+        error: optional(STRING),
+    }),
+
+    // ---- News ----
+    NewsArticle: model<INewsArticle>({
+        ...entity,
+        title: STRING,
+        excerpt: STRING,
+        autoExcerpt: optional({ ...BOOLEAN, description: 'Excerpt follows the start of the body' }),
+        body: { ...STRING, description: 'Sanitized HTML' },
+        coverImage: optional(STRING),
+        tags: STRINGS,
+        slug: STRING,
+        status: NEWS_STATUS,
+        publishAt: optional({ ...DATE_TIME, description: 'When a scheduled article goes live' }),
+        publishedAt: optional(DATE_TIME),
+        authorId: STRING,
+        authorName: STRING,
+        revision: { ...INTEGER, description: 'Number of the latest revision' },
+    }),
+    PublicNewsArticle: model<PublicNewsArticle>({
+        ...entity,
+        title: STRING,
+        excerpt: STRING,
+        body: STRING,
+        coverImage: optional(STRING),
+        tags: STRINGS,
+        slug: STRING,
+        status: NEWS_STATUS,
+        publishedAt: optional(DATE_TIME),
+        authorName: STRING,
+    }),
+    NewsInput: model<INewsInput>({
+        title: STRING,
+        slug: optional(STRING),
+        excerpt: optional({ ...STRING, description: 'Empty to follow the start of the body' }),
+        body: { ...STRING, description: 'HTML; tags and attributes outside the allow-list are removed' },
+        coverImage: optional(NULLABLE_STRING),
+        tags: optional(STRINGS),
+        status: optional(NEWS_STATUS),
+        publishAt: optional({ type: ['string', 'null'], format: 'date-time' }),
+    }),
+    NewsRevision: model<INewsRevision>({
+        ...entity,
+        title: STRING,
+        excerpt: STRING,
+        autoExcerpt: optional({ ...BOOLEAN, description: 'Excerpt follows the start of the body' }),
+        body: STRING,
+        coverImage: optional(STRING),
+        tags: STRINGS,
+        articleId: STRING,
+        revision: INTEGER,
+        editedBy: STRING,
+        editedByEmail: EMAIL,
+        note: optional(STRING),
+    }),
+    DiffPart: model<IDiffPart>({
+        type: { type: 'string', enum: ['added', 'removed', 'unchanged'] },
+        value: STRING,
+    }),
+    NewsRevisionDiff: model<INewsRevisionDiff>({
+        from: INTEGER,
+        to: INTEGER,
+        changes: model<INewsRevisionDiff['changes']>({
+            title: arrayOf(ref('DiffPart')),
+            excerpt: arrayOf(ref('DiffPart')),
+            body: arrayOf(ref('DiffPart')),
+            coverImage: arrayOf(ref('DiffPart')),
+            tags: arrayOf(ref('DiffPart')),
+        }),
+    }),
+
+    // ---- Settings ----
+    Settings: settingsModel(SETTING_KEYS),
+    PublicSettings: settingsModel(PUBLIC_SETTING_KEYS satisfies readonly (keyof PublicSettings)[]),
+    SettingsState: model<ISettingsState>({
+        settings: ref('Settings'),
+        version: { ...INTEGER, description: '0 until the settings are first changed' },
+        updatedAt: optional(DATE_TIME),
+        updatedBy: optional(EMAIL),
+    }),
+    SettingsUpdateInput: model<ISettingsUpdateInput>({
+        settings: {
+            type: 'object',
+            description: 'Only the settings to change',
+            properties: Object.fromEntries(SETTING_KEYS.map(key => [key, settingProperty(key)])),
+            additionalProperties: false,
+        },
+        version: optional({ ...INTEGER, description: 'Version the change is based on; a newer stored version answers 409' }),
+    }),
+    SettingChange: model<ISettingChange>({ key: { type: 'string', enum: SETTING_KEYS }, from: ANY, to: ANY }),
+    SettingsVersion: model<ISettingsVersion>({
+        ...entity,
+        version: INTEGER,
+        values: ref('Settings'),
+        changes: arrayOf(ref('SettingChange')),
+        changedBy: STRING,
+        changedByEmail: EMAIL,
+    }),
+
+    // ---- Dashboard ----
+    StatsBucket: model<IStatsBucket>({
+        date: { type: 'string', format: 'date', description: 'First day of the bucket' },
+        orders: INTEGER,
+        revenue: VND,
+    }),
+    TopProduct: model<ITopProduct>({
+        productId: STRING,
+        name: STRING,
+        quantity: INTEGER,
+        revenue: { ...VND, description: 'Line totals before order discounts' },
+    }),
+    DashboardStats: model<IDashboardStats>({
+        range: model<IDashboardStats['range']>({
+            from: { type: 'string', format: 'date' },
+            to: { type: 'string', format: 'date' },
+            interval: { type: 'string', enum: ['day', 'week', 'month'] satisfies StatsInterval[] },
+            tzOffset: { ...INTEGER, description: 'Minutes east of UTC' },
+        }),
+        users: model<IDashboardStats['users']>({ total: INTEGER, new: INTEGER }),
+        products: model<IDashboardStats['products']>({ total: INTEGER, published: INTEGER }),
+        orders: model<IDashboardStats['orders']>({
+            total: INTEGER,
+            paid: INTEGER,
+            byStatus: {
+                type: 'object',
+                properties: Object.fromEntries(ORDER_STATUSES.map(status => [status, INTEGER])),
+                required: [...ORDER_STATUSES],
+            },
+        }),
+        revenue: model<IDashboardStats['revenue']>({ total: VND, averageOrderValue: VND }),
+        series: arrayOf(ref('StatsBucket')),
+        topProducts: arrayOf(ref('TopProduct')),
+        generatedAt: DATE_TIME,
+    }),
+
+    // ---- Uploads ----
+    UploadedFile: uploadedFile,
+} satisfies Record<string, IOpenApiSchema>;
+
+// Update routes accept any subset of the fields their create route takes
+const partial = (schema: IOpenApiSchema, description: string): IOpenApiSchema => {
+    const { required: _required, ...properties } = schema;
+    return { ...properties, description };
+};
+
+export const SCHEMAS = {
+    ...MODELS,
+    UserUpdate: partial(MODELS.UserInput, 'Fields of UserInput to change; the role has its own route'),
+    CategoryUpdate: partial(MODELS.CategoryInput, 'Fields of CategoryInput to change'),
+    ProductUpdate: partial(MODELS.ProductInput, 'Fields of ProductInput to change'),
+    NewsUpdate: partial(MODELS.NewsInput, 'Fields of NewsInput to change; a new revision is recorded'),
+};
+
+export type SchemaName = keyof typeof SCHEMAS;
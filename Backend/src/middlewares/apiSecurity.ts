@@ -5,6 +5,10 @@
 
 import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
+import config from '@config/env';
+import SecretsManager from '@utils/secrets';
+import apiKeyService from '@services/apiKeyService';
+import { Permission } from '@types';
 
 // ============= Types =============
 
@@ -51,42 +55,76 @@ export const sanitizeInput = (req: Request, _res: Response, next: NextFunction):
 
 // ============= CSRF Protection =============
 
-interface SessionWithCSRF extends Express.Request {
-    session?: {
-        csrfToken?: string;
-        [key: string]: any;
-    };
-}
+/**
+ * Stateless signed double-submit: the token is "<nonce>.<HMAC(nonce)>", stored in a
+ * cookie and echoed back in the X-CSRF-Token header. A cross-site page can make the
+ * browser send the cookie but cannot read it to fill in the header.
+ */
+export const CSRF_COOKIE = 'csrf_token';
+
+const CSRF_COOKIE_MAX_AGE = 24 * 60 * 60 * 1000; // 1 day
+
+const signCSRFNonce = (nonce: string): string => SecretsManager.sign(nonce, config.cookie.secret);
+
+const isValidCSRFToken = (token: unknown): token is string => {
+    if (typeof token !== 'string') return false;
+
+    const [nonce, signature] = token.split('.');
+    return !!nonce && !!signature && SecretsManager.safeCompare(signature, signCSRFNonce(nonce));
+};
+
+const csrfEnabled = (): boolean => config.auth.tokenTransport === 'cookie';
 
 /**
- * Generate CSRF token
+ * Issue (or re-issue) the CSRF cookie and return its token
+ * GET /api/csrf
  */
-export const generateCSRFToken = (req: Request, res: Response, next: NextFunction): void => {
-    const sessionReq = req as SessionWithCSRF;
+export const generateCSRFToken = (req: Request, res: Response): void => {
+    const existing = req.cookies?.[CSRF_COOKIE];
+    let token: string = existing;
 
-    if (!sessionReq.session) {
-        return next(new Error('Session is required for CSRF protection'));
+    if (!isValidCSRFToken(existing)) {
+        const nonce = crypto.randomBytes(32).toString('hex');
+        token = `${nonce}.${signCSRFNonce(nonce)}`;
     }
 
-    const token = crypto.randomBytes(32).toString('hex');
-    sessionReq.session.csrfToken = token;
-    res.locals.csrfToken = token;
-    next();
+    res.cookie(CSRF_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'strict',
+        secure: config.env === 'production',
+        path: '/',
+        maxAge: CSRF_COOKIE_MAX_AGE,
+    });
+
+    res.status(200).json({
+        success: true,
+        message: 'Success',
+        data: { csrfToken: token, enabled: csrfEnabled() },
+    });
 };
 
 /**
- * Verify CSRF token
+ * Verify CSRF token on unsafe methods (cookie auth mode only)
  */
 export const verifyCSRFToken = (req: Request, res: Response, next: NextFunction): void => {
     // Skip for safe methods
-    if (['GET', 'HEAD', 'OPTIONS'].includes(req.method)) {
+    if (!csrfEnabled() || ['GET', 'HEAD', 'OPTIONS'].includes(req.method)) {
         return next();
     }
 
-    const sessionReq = req as SessionWithCSRF;
-    const token = (req.headers['x-csrf-token'] as string) || req.body._csrf;
+    // Without cookies there is no ambient credential to forge (API clients using headers)
+    if (!req.headers.cookie) {
+        return next();
+    }
 
-    if (!token || token !== sessionReq.session?.csrfToken) {
+    const cookieToken = req.cookies?.[CSRF_COOKIE];
+    const headerToken = req.headers['x-csrf-token'];
+
+    if (
+        !isValidCSRFToken(cookieToken) ||
+        typeof headerToken !== 'string' ||
+        !SecretsManager.safeCompare(headerToken, cookieToken)
+    ) {
         res.status(403).json({
             success: false,
             message: 'Invalid CSRF token',
@@ -101,12 +139,12 @@ export const verifyCSRFToken = (req: Request, res: Response, next: NextFunction)
 // ============= API Key Validation =============
 
 /**
- * Validate API key (for external API access)
+ * Validate API key (for external API access) and apply its per-key rate limit
  */
-export const validateApiKey = (req: Request, res: Response, next: NextFunction): void => {
-    const apiKey = req.headers['x-api-key'] as string;
+export const validateApiKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const rawKey = req.headers['x-api-key'];
 
-    if (!apiKey) {
+    if (!rawKey) {
         res.status(401).json({
             success: false,
             message: 'API key is required',
@@ -115,11 +153,9 @@ export const validateApiKey = (req: Request, res: Response, next: NextFunction):
         return;
     }
 
-    // TODO: Validate against database
-    // For now, check against environment variable
-    const validApiKeys = process.env.API_KEYS?.split(',') || [];
+    const apiKey = typeof rawKey === 'string' ? await apiKeyService.authenticate(rawKey) : null;
 
-    if (!validApiKeys.includes(apiKey)) {
+    if (!apiKey) {
         res.status(401).json({
             success: false,
             message: 'Invalid API key',
@@ -128,9 +164,42 @@ export const validateApiKey = (req: Request, res: Response, next: NextFunction):
         return;
     }
 
+    const limit = apiKeyService.consumeRateLimit(apiKey);
+    res.setHeader('RateLimit-Limit', apiKey.rateLimit);
+    res.setHeader('RateLimit-Remaining', limit.remaining);
+    res.setHeader('RateLimit-Reset', Math.ceil((limit.resetAt - Date.now()) / 1000));
+
+    if (!limit.allowed) {
+        res.status(429).json({
+            success: false,
+            message: 'API key rate limit exceeded, please slow down.',
+            requestId: req.id,
+        });
+        return;
+    }
+
+    req.apiKey = { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes };
     next();
 };
 
+/**
+ * Require every listed scope on the API key (use after validateApiKey)
+ */
+export const requireScope = (...scopes: Permission[]) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        if (!req.apiKey || !scopes.every(scope => req.apiKey!.scopes.includes(scope))) {
+            res.status(403).json({
+                success: false,
+                message: 'API key is missing a required scope',
+                requestId: req.id,
+            });
+            return;
+        }
+
+        next();
+    };
+};
+
 // ============= Request Signature Verification =============
 
 /**
@@ -252,8 +321,10 @@ export const detectSuspiciousActivity = (req: Request, res: Response, next: Next
 
 export const validateContentType = (allowedTypes: string[] = ['application/json']) => {
     return (req: Request, res: Response, next: NextFunction): void => {
-        // Skip for GET requests
-        if (req.method === 'GET') return next();
+        // Skip for GET requests and requests without a body
+        const hasBody = !!req.headers['transfer-encoding'] ||
+            parseInt(req.headers['content-length'] || '0', 10) > 0;
+        if (req.method === 'GET' || !hasBody) return next();
 
         const contentType = req.headers['content-type'];
 
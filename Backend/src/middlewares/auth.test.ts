@@ -0,0 +1,62 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createUser, signIn, startServer, TestServer } from '../test/helpers';
+import { DEFAULT_ROLE_PERMISSIONS } from '@config/permissions';
+
+describe('requirePermission', () => {
+    let server: TestServer;
+    const tokens: Record<'admin' | 'editor' | 'support', string> = { admin: '', editor: '', support: '' };
+
+    before(async () => {
+        server = await startServer();
+        for (const role of ['admin', 'editor', 'support'] as const) {
+            tokens[role] = (await signIn(await createUser(role))).accessToken;
+        }
+    });
+
+    after(async () => {
+        await server.close();
+    });
+
+    it('asks for a token before checking permissions', async () => {
+        const res = await server.request('GET', '/users');
+        assert.equal(res.status, 401);
+    });
+
+    it('admits roles that hold the permission and refuses the rest', async () => {
+        assert.equal((await server.request('GET', '/users', { token: tokens.support })).status, 200);
+        assert.equal((await server.request('GET', '/users', { token: tokens.editor })).status, 403);
+        assert.equal((await server.request('GET', '/users', { token: tokens.admin })).status, 200);
+    });
+
+    it('follows changes to the stored role mapping at once', async () => {
+        const grant = await server.request('PUT', '/roles/editor', {
+            token: tokens.admin,
+            body: { permissions: [...DEFAULT_ROLE_PERMISSIONS.editor, 'users:read'] },
+        });
+        assert.equal(grant.status, 200);
+        assert.equal((await server.request('GET', '/users', { token: tokens.editor })).status, 200);
+
+        await server.request('PUT', '/roles/editor', {
+            token: tokens.admin,
+            body: { permissions: DEFAULT_ROLE_PERMISSIONS.editor },
+        });
+        assert.equal((await server.request('GET', '/users', { token: tokens.editor })).status, 403);
+    });
+
+    it('keeps the admin role complete and rejects unknown permissions', async () => {
+        const admin = await server.request('PUT', '/roles/admin', { token: tokens.admin, body: { permissions: [] } });
+        assert.equal(admin.status, 400);
+
+        const unknown = await server.request('PUT', '/roles/editor', {
+            token: tokens.admin,
+            body: { permissions: ['users:fly'] },
+        });
+        assert.equal(unknown.status, 422);
+    });
+
+    it('lets only roles:manage edit roles', async () => {
+        const res = await server.request('PUT', '/roles/editor', { token: tokens.support, body: { permissions: [] } });
+        assert.equal(res.status, 403);
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * Authentication Middleware - TypeScript
+ * Verify JWT access tokens and enforce role permissions
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import JWTHelper from '@utils/jwt';
+import response from '@utils/response';
+import authService from '@services/authService';
+import permissionService from '@services/permissionService';
+import sessionService from '@services/sessionService';
+import { ITokenPayload, Permission } from '@types';
+
+// Signed cookie names used for token transport
+export const AUTH_COOKIES = {
+    ACCESS_TOKEN: 'access_token',
+    REFRESH_TOKEN: 'refresh_token',
+} as const;
+
+/**
+ * Read the access token from the Authorization header or a signed cookie
+ */
+export const extractToken = (req: Request): string | null => {
+    const headerToken = JWTHelper.extractFromHeader(req.headers.authorization);
+    if (headerToken) return headerToken;
+
+    const cookieToken = req.signedCookies?.[AUTH_COOKIES.ACCESS_TOKEN];
+    return typeof cookieToken === 'string' ? cookieToken : null;
+};
+
+/**
+ * Require a valid access token and populate req.user
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const token = extractToken(req);
+
+    if (!token) {
+        response.unauthorized(res, 'Authentication required');
+        return;
+    }
+
+    let payload: ITokenPayload;
+    try {
+        payload = JWTHelper.verifyAccessToken(token);
+    } catch (error) {
+        response.unauthorized(res, (error as Error).message);
+        return;
+    }
+
+    if (await authService.isRevoked(payload)) {
+        response.unauthorized(res, 'Session has been revoked');
+        return;
+    }
+
+    req.user = {
+        id: payload.userId,
+        email: payload.email,
+        role: payload.role,
+        sessionId: payload.family,
+    };
+
+    if (payload.family) {
+        await sessionService.touch(payload.family, { ip: req.ip });
+    }
+
+    next();
+};
+
+/**
+ * Require every listed permission for the user's role (use after authenticate)
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        if (!req.user) {
+            response.unauthorized(res, 'Authentication required');
+            return;
+        }
+
+        if (!(await permissionService.hasPermissions(req.user.role, permissions))) {
+            response.forbidden(res, 'You do not have permission to perform this action');
+            return;
+        }
+
+        next();
+    };
+};
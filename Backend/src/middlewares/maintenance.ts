@@ -0,0 +1,47 @@
+/**
+ * Maintenance Mode Middleware - TypeScript
+ * Answer 503 while maintenance mode is on, except for staff and the routes they need
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import JWTHelper from '@utils/jwt';
+import response from '@utils/response';
+import permissionService from '@services/permissionService';
+import settingsService from '@services/settingsService';
+import { extractToken } from '@middlewares/auth';
+
+// Signing in, switching maintenance off and fetching a CSRF token must keep working
+const EXEMPT_PATHS = ['/auth', '/settings', '/csrf'];
+
+const isExempt = (path: string): boolean =>
+    EXEMPT_PATHS.some(prefix => path === prefix || path.startsWith(`${prefix}/`));
+
+/**
+ * Staff with admin access keep using the API; routes still check the token properly
+ */
+const isStaff = async (req: Request): Promise<boolean> => {
+    const token = extractToken(req);
+    if (!token) return false;
+
+    try {
+        const payload = JWTHelper.verifyAccessToken(token);
+        return await permissionService.hasPermissions(payload.role, ['admin:access']);
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Mount under /api, before the routes
+ */
+export const maintenanceMode = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { maintenanceMode: enabled, maintenanceMessage } = settingsService.current();
+
+    if (!enabled || isExempt(req.path) || (await isStaff(req))) {
+        next();
+        return;
+    }
+
+    res.setHeader('Retry-After', '300');
+    response.error(res, maintenanceMessage, 503);
+};
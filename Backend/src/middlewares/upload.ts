@@ -95,7 +95,7 @@ export const logFileUpload = (req: Request, _res: Response, next: NextFunction):
             mimetype: req.file.mimetype,
             size: req.file.size,
             path: req.file.path,
-            userId: (req as any).user?.id,
+            userId: req.user?.id,
             requestId: req.id,
         });
     } else if (req.files) {
@@ -107,7 +107,7 @@ export const logFileUpload = (req: Request, _res: Response, next: NextFunction):
                 originalname: f.originalname,
                 size: f.size,
             })),
-            userId: (req as any).user?.id,
+            userId: req.user?.id,
             requestId: req.id,
         });
     }
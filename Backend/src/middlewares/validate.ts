@@ -0,0 +1,139 @@
+/**
+ * Validation Middleware - TypeScript
+ * Check and coerce body, query and path parameters against a declared schema
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { checkSchema, ParamSchema, validationResult } from 'express-validator';
+import response from '@utils/response';
+import { IFieldSchema, IValidationError, RequestLocation, RequestSchema, ValidationResult } from '@types';
+
+// The middleware keeps its schema so the docs check can compare it with the route docs
+export type ValidateHandler = RequestHandler & { requestSchema: RequestSchema };
+
+const range = (field: IFieldSchema): string => {
+    const { minimum: min, maximum: max } = field;
+    if (min !== undefined && max !== undefined) return ` from ${min} to ${max}`;
+    if (min !== undefined) return ` of at least ${min}`;
+    if (max !== undefined) return ` of at most ${max}`;
+    return '';
+};
+
+const typeRules = (name: string, field: IFieldSchema): ParamSchema => {
+    const bounds = { min: field.minimum, max: field.maximum };
+
+    switch (field.type) {
+        case 'integer':
+            return {
+                isInt: { options: bounds, errorMessage: `${name} must be an integer${range(field)}`, bail: true },
+                toInt: true,
+            };
+        case 'number':
+            return {
+                isFloat: { options: bounds, errorMessage: `${name} must be a number${range(field)}`, bail: true },
+                toFloat: true,
+            };
+        case 'boolean':
+            return {
+                isBoolean: { options: { loose: false }, errorMessage: `${name} must be true or false`, bail: true },
+                toBoolean: { options: true },
+            };
+        case 'email':
+            return {
+                isEmail: { errorMessage: `${name} must be an email address`, bail: true },
+            };
+        case 'date':
+            return {
+                isDate: {
+                    options: { format: 'YYYY-MM-DD', strictMode: true, delimiters: ['-'] },
+                    errorMessage: `${name} must be a date (YYYY-MM-DD)`,
+                    bail: true,
+                },
+            };
+        case 'date-time':
+            return {
+                isISO8601: { options: { strict: true }, errorMessage: `${name} must be an ISO 8601 date-time`, bail: true },
+            };
+        case 'string': {
+            const { minLength: min, maxLength: max } = field;
+            return {
+                isString: { errorMessage: `${name} must be a string`, bail: true },
+                ...((min !== undefined || max !== undefined) && {
+                    isLength: {
+                        options: { min, max },
+                        errorMessage: `${name} must be ${min ?? 0} to ${max ?? 'any number of'} characters long`,
+                    },
+                }),
+            };
+        }
+    }
+};
+
+// express-validator schema for one field, in the order the rules run
+const compileField = (name: string, field: IFieldSchema, location: RequestLocation): ParamSchema => {
+    const { check } = field;
+
+    return {
+        in: [location],
+        // Query strings cannot say false or 0, so an empty value means "not given"
+        ...(field.required
+            ? { exists: { errorMessage: `${name} is required`, bail: true } }
+            : { optional: { options: { values: location === 'query' ? 'falsy' : 'undefined' } } }),
+        ...typeRules(name, field),
+        ...(field.enum && {
+            isIn: { options: [field.enum], errorMessage: `${name} must be one of: ${field.enum.join(', ')}` },
+        }),
+        ...(check && {
+            custom: {
+                options: (value: unknown) => check(String(value)).length === 0,
+                errorMessage: (value: unknown) => check(String(value)),
+            },
+        }),
+    };
+};
+
+const compile = (schema: RequestSchema) =>
+    (Object.keys(schema) as RequestLocation[]).flatMap(location =>
+        checkSchema(
+            Object.fromEntries(
+                Object.entries(schema[location] || {}).map(([name, field]) => [name, compileField(name, field, location)])
+            ),
+            [location]
+        )
+    );
+
+// Run the compiled chains; they write coerced values back onto the request
+const run = async (req: Request, chains: ReturnType<typeof compile>): Promise<ValidationResult> => {
+    for (const chain of chains) {
+        await chain.run(req);
+    }
+
+    // A custom check reports every problem it found as its own entry
+    const errors: IValidationError[] = validationResult(req)
+        .array({ onlyFirstError: true })
+        .flatMap(error => {
+            const field = error.type === 'field' ? error.path : error.type;
+            return [error.msg as string | string[]].flat().map(message => ({ field, message }));
+        });
+
+    return { isValid: errors.length === 0, errors };
+};
+
+/**
+ * Reject requests that do not match the schema with field-level errors (422);
+ * handlers then see integers, numbers and booleans instead of strings
+ */
+export const validate = (schema: RequestSchema): ValidateHandler => {
+    const chains = compile(schema);
+
+    const middleware = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const { isValid, errors } = await run(req, chains);
+        if (!isValid) {
+            response.validationError(res, errors);
+            return;
+        }
+        next();
+    };
+
+    return Object.assign(middleware, { requestSchema: schema });
+};
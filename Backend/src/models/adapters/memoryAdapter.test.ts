@@ -0,0 +1,152 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import MemoryAdapter from './memoryAdapter';
+import AppError from '@utils/appError';
+import { IEntity, IRepository } from '@types';
+
+interface IItem extends IEntity {
+    code: string;
+    name: string;
+    price: number;
+    tags: string[];
+    archivedAt?: Date;
+    parts: { sku: string; stock: number }[];
+    total: number;
+}
+
+const item = (code: string, price: number, extra: Partial<IItem> = {}) => ({
+    code,
+    name: `Item ${code}`,
+    price,
+    tags: [],
+    parts: [{ sku: `${code}-A`, stock: 5 }, { sku: `${code}-B`, stock: 0 }],
+    total: 5,
+    ...extra,
+});
+
+describe('MemoryAdapter repository', () => {
+    let items: IRepository<IItem>;
+
+    beforeEach(() => {
+        items = new MemoryAdapter().repository<IItem>('items', { unique: ['code'] });
+    });
+
+    it('creates documents with an id and timestamps, and returns copies', async () => {
+        const created = await items.create(item('a', 10));
+        assert.match(created.id, /^[0-9a-f]{24}$/);
+        assert.ok(created.createdAt instanceof Date);
+
+        created.parts[0]!.stock = 99;
+        const stored = await items.findById(created.id);
+        assert.equal(stored?.parts[0]?.stock, 5);
+    });
+
+    it('rejects duplicates of unique fields with a conflict', async () => {
+        await items.create(item('a', 10));
+        await assert.rejects(items.create(item('a', 20)), (error: AppError) => error.statusCode === 409);
+    });
+
+    it('filters with operators, $or, array membership and search', async () => {
+        await items.create(item('a', 10, { tags: ['sale'] }));
+        await items.create(item('b', 20, { archivedAt: new Date() }));
+        await items.create(item('c', 30));
+
+        const codes = async (...args: Parameters<IRepository<IItem>['find']>) =>
+            (await items.find(...args)).map(found => found.code).sort();
+
+        assert.deepEqual(await codes({ price: { $gte: 20 } }), ['b', 'c']);
+        assert.deepEqual(await codes({ price: { $gt: 10, $lt: 30 } }), ['b']);
+        assert.deepEqual(await codes({ code: { $in: ['a', 'c'] } }), ['a', 'c']);
+        assert.deepEqual(await codes({ code: { $nin: ['a'] } }), ['b', 'c']);
+        assert.deepEqual(await codes({ archivedAt: { $exists: false } }), ['a', 'c']);
+        assert.deepEqual(await codes({ tags: 'sale' }), ['a']);
+        assert.deepEqual(await codes({ $or: [{ code: 'a' }, { price: 30 }] }), ['a', 'c']);
+        assert.deepEqual(await codes({}, { search: { term: 'ITEM B', fields: ['name'] } }), ['b']);
+        assert.equal(await items.count({ price: { $lte: 20 } }), 2);
+    });
+
+    it('sorts, skips and limits', async () => {
+        for (const [code, price] of [['a', 30], ['b', 10], ['c', 20]] as const) {
+            await items.create(item(code, price));
+        }
+
+        const page = await items.find({}, { sort: { field: 'price', order: 'desc' }, skip: 1, limit: 1 });
+        assert.deepEqual(page.map(found => found.code), ['c']);
+    });
+
+    it('removes fields updated to undefined', async () => {
+        const created = await items.create(item('a', 10, { archivedAt: new Date() }));
+        const updated = await items.update(created.id, { archivedAt: undefined, price: 15 });
+
+        assert.equal(updated?.price, 15);
+        assert.equal('archivedAt' in updated!, false);
+        assert.equal(await items.update('missing', { price: 1 }), null);
+    });
+
+    describe('updateOne', () => {
+        it('writes only while the filter still matches', async () => {
+            const created = await items.create(item('a', 10));
+
+            const first = await items.updateOne({ id: created.id, price: 10 }, { price: 11 });
+            const second = await items.updateOne({ id: created.id, price: 10 }, { price: 12 });
+
+            assert.equal(first?.price, 11);
+            assert.equal(second, null);
+            assert.equal((await items.findById(created.id))?.price, 11);
+        });
+
+        it('lets exactly one of several concurrent claims win', async () => {
+            const created = await items.create(item('a', 10));
+
+            const results = await Promise.all(
+                [1, 2, 3].map(n => items.updateOne({ id: created.id, archivedAt: { $exists: false } }, { price: n, archivedAt: new Date() }))
+            );
+            assert.equal(results.filter(Boolean).length, 1);
+        });
+    });
+
+    describe('incrementElement', () => {
+        it('adds to the matched element and the counters', async () => {
+            const created = await items.create(item('a', 10));
+            const updated = await items.incrementElement(created.id, {
+                array: 'parts',
+                match: { sku: 'a-B' },
+                field: 'stock',
+                amount: 3,
+                counters: { total: 3 },
+            });
+
+            assert.deepEqual(updated?.parts.map(part => part.stock), [5, 3]);
+            assert.equal(updated?.total, 8);
+        });
+
+        it('refuses to go below the minimum and leaves the document alone', async () => {
+            const created = await items.create(item('a', 10));
+            const take = (amount: number) => items.incrementElement(created.id, {
+                array: 'parts',
+                match: { sku: 'a-A' },
+                field: 'stock',
+                amount,
+                min: 0,
+                counters: { total: amount },
+            });
+
+            assert.equal(await take(-6), null);
+            assert.equal((await take(-5))?.parts[0]?.stock, 0);
+            assert.equal(await take(-1), null);
+
+            const stored = await items.findById(created.id);
+            assert.equal(stored?.parts[0]?.stock, 0);
+            assert.equal(stored?.total, 0);
+        });
+
+        it('returns null for a missing document or element', async () => {
+            const created = await items.create(item('a', 10));
+            const change = { array: 'parts' as const, field: 'stock', amount: 1 };
+
+            assert.equal(await items.incrementElement('missing', { ...change, match: { sku: 'a-A' } }), null);
+            assert.equal(await items.incrementElement(created.id, { ...change, match: { sku: 'nope' } }), null);
+            assert.equal(await items.incrementElement(created.id, { ...change, match: { sku: 'a-A', stock: 4 } }), null);
+        });
+    });
+});
@@ -0,0 +1,291 @@
+/**
+ * In-Memory Database Adapter - TypeScript
+ * Map-backed repositories for tests and local development
+ */
+
+import crypto from 'crypto';
+import AppError from '@utils/appError';
+import {
+    IDatabaseAdapter,
+    IEntity,
+    IRepository,
+    IRepositoryOptions,
+    EntityInput,
+    FilterQuery,
+    FilterOperators,
+    IElementIncrement,
+    IFindOptions,
+    ISearchOption,
+} from '@types';
+
+const OPERATOR_KEYS = ['$eq', '$ne', '$in', '$nin', '$gt', '$gte', '$lt', '$lte', '$exists'];
+
+const isOperatorObject = (value: unknown): value is FilterOperators<unknown> =>
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Date) &&
+    !Array.isArray(value) &&
+    Object.keys(value).length > 0 &&
+    Object.keys(value).every(key => OPERATOR_KEYS.includes(key));
+
+type Comparable = string | number | boolean | null;
+
+// Dates compare by time, missing values as null and embedded documents by content
+const comparable = (value: unknown): Comparable => {
+    if (value instanceof Date) return value.getTime();
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+    return JSON.stringify(value);
+};
+
+// Negative, zero or positive; null when the values are not of the same type
+const compare = (a: Comparable, b: Comparable): number | null => {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+    if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+    return null;
+};
+
+const valueAt = (doc: unknown, key: string): unknown => (doc as Record<string, unknown>)[key];
+
+const equals = (a: unknown, b: unknown): boolean => {
+    // Array fields match when any element matches (Mongo semantics)
+    if (Array.isArray(a) && !Array.isArray(b)) {
+        return a.some(item => equals(item, b));
+    }
+    return comparable(a) === comparable(b);
+};
+
+const matchesOperators = (value: unknown, ops: FilterOperators<unknown>): boolean => {
+    const v = comparable(value);
+    const against = (bound: unknown, test: (order: number) => boolean): boolean => {
+        const order = compare(v, comparable(bound));
+        return order !== null && test(order);
+    };
+
+    if ('$eq' in ops && !equals(value, ops.$eq)) return false;
+    if ('$ne' in ops && equals(value, ops.$ne)) return false;
+    if (ops.$in && !ops.$in.some(candidate => equals(value, candidate))) return false;
+    if (ops.$nin && ops.$nin.some(candidate => equals(value, candidate))) return false;
+    if (ops.$gt !== undefined && !against(ops.$gt, order => order > 0)) return false;
+    if (ops.$gte !== undefined && !against(ops.$gte, order => order >= 0)) return false;
+    if (ops.$lt !== undefined && !against(ops.$lt, order => order < 0)) return false;
+    if (ops.$lte !== undefined && !against(ops.$lte, order => order <= 0)) return false;
+    if (ops.$exists !== undefined && (value !== undefined && value !== null) !== ops.$exists) return false;
+
+    return true;
+};
+
+export const matchesFilter = <T>(doc: T, filter: FilterQuery<T> = {}): boolean => {
+    for (const [key, condition] of Object.entries(filter)) {
+        if (condition === undefined) continue;
+
+        if (key === '$or') {
+            const branches = condition as FilterQuery<T>[];
+            if (!branches.some(branch => matchesFilter(doc, branch))) return false;
+            continue;
+        }
+
+        const value = valueAt(doc, key);
+        const matched = isOperatorObject(condition)
+            ? matchesOperators(value, condition)
+            : equals(value, condition);
+
+        if (!matched) return false;
+    }
+    return true;
+};
+
+export const matchesSearch = <T>(doc: T, search?: ISearchOption<T>): boolean => {
+    if (!search || !search.term) return true;
+    const term = search.term.toLowerCase();
+
+    return search.fields.some(name => {
+        const value = valueAt(doc, name);
+        return typeof value === 'string' && value.toLowerCase().includes(term);
+    });
+};
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+class MemoryRepository<T extends IEntity> implements IRepository<T> {
+    private readonly documents: Map<string, T> = new Map();
+
+    constructor(
+        private readonly collection: string,
+        private readonly options: IRepositoryOptions<T> = {}
+    ) { }
+
+    private assertUnique(candidate: Partial<T>, ignoreId?: string): void {
+        for (const field of this.options.unique || []) {
+            const value = candidate[field];
+            if (value === undefined) continue;
+
+            for (const doc of this.documents.values()) {
+                if (doc.id !== ignoreId && equals(doc[field], value)) {
+                    throw AppError.conflict(`${this.collection}.${field} already exists`);
+                }
+            }
+        }
+    }
+
+    public async findById(id: string): Promise<T | null> {
+        const doc = this.documents.get(id);
+        return doc ? clone(doc) : null;
+    }
+
+    public async findOne(filter: FilterQuery<T>): Promise<T | null> {
+        for (const doc of this.documents.values()) {
+            if (matchesFilter(doc, filter)) return clone(doc);
+        }
+        return null;
+    }
+
+    public async find(filter: FilterQuery<T> = {}, options: IFindOptions<T> = {}): Promise<T[]> {
+        let results = [...this.documents.values()].filter(doc =>
+            matchesFilter(doc, filter) && matchesSearch(doc, options.search)
+        );
+
+        if (options.sort) {
+            const { field, order } = options.sort;
+            const direction = order === 'desc' ? -1 : 1;
+            results.sort((a, b) => {
+                const av = comparable(a[field]);
+                const bv = comparable(b[field]);
+                if (av === bv) return 0;
+                if (av === null) return 1;
+                if (bv === null) return -1;
+                return (compare(av, bv) ?? 0) * direction;
+            });
+        }
+
+        const skip = options.skip || 0;
+        results = options.limit !== undefined
+            ? results.slice(skip, skip + options.limit)
+            : results.slice(skip);
+
+        return results.map(clone);
+    }
+
+    public async count(filter: FilterQuery<T> = {}, search?: ISearchOption<T>): Promise<number> {
+        let total = 0;
+        for (const doc of this.documents.values()) {
+            if (matchesFilter(doc, filter) && matchesSearch(doc, search)) total++;
+        }
+        return total;
+    }
+
+    public async create(data: EntityInput<T>): Promise<T> {
+        this.assertUnique(data as Partial<T>);
+
+        const now = new Date();
+        const doc = {
+            ...clone(data),
+            id: crypto.randomBytes(12).toString('hex'),
+            createdAt: now,
+            updatedAt: now,
+        } as T;
+
+        this.documents.set(doc.id, doc);
+        return clone(doc);
+    }
+
+    // Synchronous, so a check made by the caller still holds when the write lands
+    private write(existing: T, changes: Partial<EntityInput<T>>): T {
+        this.assertUnique(changes as Partial<T>, existing.id);
+
+        const updated: Record<string, unknown> = {
+            ...existing,
+            ...clone(changes),
+            id: existing.id,
+            createdAt: existing.createdAt,
+            updatedAt: new Date(),
+        };
+
+        for (const [key, value] of Object.entries(changes)) {
+            if (value === undefined) delete updated[key];
+        }
+
+        this.documents.set(existing.id, updated as T);
+        return clone(updated as T);
+    }
+
+    public async update(id: string, changes: Partial<EntityInput<T>>): Promise<T | null> {
+        const existing = this.documents.get(id);
+        return existing ? this.write(existing, changes) : null;
+    }
+
+    public async updateOne(filter: FilterQuery<T>, changes: Partial<EntityInput<T>>): Promise<T | null> {
+        for (const doc of this.documents.values()) {
+            if (matchesFilter(doc, filter)) return this.write(doc, changes);
+        }
+        return null;
+    }
+
+    public async incrementElement(id: string, increment: IElementIncrement<T>): Promise<T | null> {
+        const existing = this.documents.get(id);
+        if (!existing) return null;
+
+        const elements = valueAt(existing, increment.array);
+        if (!Array.isArray(elements)) return null;
+
+        const index = elements.findIndex(element =>
+            Object.entries(increment.match).every(([key, value]) => equals(valueAt(element, key), value))
+        );
+        if (index === -1) return null;
+
+        const current = Number(valueAt(elements[index], increment.field));
+        if (increment.min !== undefined && current + increment.amount < increment.min) return null;
+
+        const changes: Record<string, unknown> = {
+            [increment.array]: elements.map((element, position) =>
+                position === index ? { ...element, [increment.field]: current + increment.amount } : element
+            ),
+        };
+        for (const [key, amount] of Object.entries(increment.counters || {})) {
+            changes[key] = Number(valueAt(existing, key)) + Number(amount);
+        }
+        return this.write(existing, changes as Partial<EntityInput<T>>);
+    }
+
+    public async delete(id: string): Promise<boolean> {
+        return this.documents.delete(id);
+    }
+
+    public async deleteMany(filter: FilterQuery<T>): Promise<number> {
+        let removed = 0;
+        for (const [id, doc] of this.documents) {
+            if (matchesFilter(doc, filter)) {
+                this.documents.delete(id);
+                removed++;
+            }
+        }
+        return removed;
+    }
+}
+
+export class MemoryAdapter implements IDatabaseAdapter {
+    public readonly name = 'memory';
+    // Repositories take their document type as a parameter, so none is a supertype of the rest;
+    // each collection is opened with one type and read back through repository<T>() only
+    private readonly repositories: Map<string, unknown> = new Map();
+
+    public async connect(): Promise<void> {
+        // Nothing to connect to
+    }
+
+    public async disconnect(): Promise<void> {
+        // Data lives only as long as the process
+    }
+
+    public repository<T extends IEntity>(collection: string, options?: IRepositoryOptions<T>): IRepository<T> {
+        let repo = this.repositories.get(collection) as IRepository<T> | undefined;
+        if (!repo) {
+            repo = new MemoryRepository<T>(collection, options);
+            this.repositories.set(collection, repo);
+        }
+        return repo;
+    }
+}
+
+export default MemoryAdapter;
@@ -0,0 +1,239 @@
+/**
+ * MongoDB Database Adapter - TypeScript
+ * Repositories backed by the official MongoDB driver
+ */
+
+import { MongoClient, MongoServerError, ObjectId, Collection, Document, Filter } from 'mongodb';
+import AppError from '@utils/appError';
+import logger from '@utils/logger';
+import {
+    IDatabaseAdapter,
+    IEntity,
+    IRepository,
+    IRepositoryOptions,
+    EntityInput,
+    FilterQuery,
+    IElementIncrement,
+    IFindOptions,
+    ISearchOption,
+} from '@types';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toObjectId = (id: unknown): unknown =>
+    typeof id === 'string' && ObjectId.isValid(id) ? new ObjectId(id) : id;
+
+/**
+ * Translate a repository filter into a MongoDB filter (id -> _id)
+ */
+const toMongoFilter = <T>(filter: FilterQuery<T> = {}, search?: ISearchOption<T>): Filter<Document> => {
+    const translated: Document = {};
+
+    for (const [key, condition] of Object.entries(filter)) {
+        if (condition === undefined) continue;
+
+        if (key === '$or') {
+            translated.$or = (condition as FilterQuery<T>[]).map(branch => toMongoFilter(branch));
+            continue;
+        }
+
+        if (key === 'id') {
+            if (typeof condition === 'object' && condition !== null) {
+                const ops: Document = {};
+                for (const [op, value] of Object.entries(condition)) {
+                    ops[op] = Array.isArray(value) ? value.map(toObjectId) : toObjectId(value);
+                }
+                translated._id = ops;
+            } else {
+                translated._id = toObjectId(condition);
+            }
+            continue;
+        }
+
+        translated[key] = condition;
+    }
+
+    if (search && search.term) {
+        const pattern = { $regex: escapeRegex(search.term), $options: 'i' };
+        const searchClause = { $or: search.fields.map(field => ({ [field]: pattern })) };
+        return Object.keys(translated).length > 0
+            ? { $and: [translated, searchClause] }
+            : searchClause;
+    }
+
+    return translated;
+};
+
+const toEntity = <T extends IEntity>(doc: Document | null): T | null => {
+    if (!doc) return null;
+    const { _id, ...rest } = doc;
+    return { ...rest, id: (_id as ObjectId).toHexString() } as T;
+};
+
+const rethrowDuplicate = (collection: string, error: unknown): never => {
+    if (error instanceof MongoServerError && error.code === DUPLICATE_KEY_ERROR) {
+        const field = Object.keys(error.keyPattern || {})[0] || 'key';
+        throw AppError.conflict(`${collection}.${field} already exists`);
+    }
+    throw error;
+};
+
+class MongoRepository<T extends IEntity> implements IRepository<T> {
+    constructor(
+        private readonly collection: Collection<Document>,
+        private readonly name: string
+    ) { }
+
+    public async findById(id: string): Promise<T | null> {
+        if (!ObjectId.isValid(id)) return null;
+        return toEntity<T>(await this.collection.findOne({ _id: new ObjectId(id) }));
+    }
+
+    public async findOne(filter: FilterQuery<T>): Promise<T | null> {
+        return toEntity<T>(await this.collection.findOne(toMongoFilter(filter)));
+    }
+
+    public async find(filter: FilterQuery<T> = {}, options: IFindOptions<T> = {}): Promise<T[]> {
+        let cursor = this.collection.find(toMongoFilter(filter, options.search));
+
+        if (options.sort) {
+            const field = options.sort.field === 'id' ? '_id' : options.sort.field;
+            cursor = cursor.sort({ [field]: options.sort.order === 'desc' ? -1 : 1 });
+        }
+        if (options.skip) cursor = cursor.skip(options.skip);
+        if (options.limit !== undefined) cursor = cursor.limit(options.limit);
+
+        const docs = await cursor.toArray();
+        return docs.map(doc => toEntity<T>(doc) as T);
+    }
+
+    public async count(filter: FilterQuery<T> = {}, search?: ISearchOption<T>): Promise<number> {
+        return this.collection.countDocuments(toMongoFilter(filter, search));
+    }
+
+    public async create(data: EntityInput<T>): Promise<T> {
+        const now = new Date();
+        const doc: Document = { ...data, createdAt: now, updatedAt: now };
+
+        try {
+            const result = await this.collection.insertOne(doc);
+            return toEntity<T>({ ...doc, _id: result.insertedId }) as T;
+        } catch (error) {
+            return rethrowDuplicate(this.name, error);
+        }
+    }
+
+    public async update(id: string, changes: Partial<EntityInput<T>>): Promise<T | null> {
+        if (!ObjectId.isValid(id)) return null;
+        return this.write({ _id: new ObjectId(id) }, changes);
+    }
+
+    public async updateOne(filter: FilterQuery<T>, changes: Partial<EntityInput<T>>): Promise<T | null> {
+        return this.write(toMongoFilter(filter), changes);
+    }
+
+    private async write(filter: Filter<Document>, changes: Partial<EntityInput<T>>): Promise<T | null> {
+        const { id: _id, createdAt: _createdAt, ...fields } = changes as Partial<T>;
+        const $set: Document = { updatedAt: new Date() };
+        const $unset: Document = {};
+
+        for (const [key, value] of Object.entries(fields)) {
+            if (value === undefined) $unset[key] = '';
+            else $set[key] = value;
+        }
+
+        try {
+            const doc = await this.collection.findOneAndUpdate(
+                filter,
+                Object.keys($unset).length > 0 ? { $set, $unset } : { $set },
+                { returnDocument: 'after' }
+            );
+            return toEntity<T>(doc);
+        } catch (error) {
+            return rethrowDuplicate(this.name, error);
+        }
+    }
+
+    public async incrementElement(id: string, increment: IElementIncrement<T>): Promise<T | null> {
+        if (!ObjectId.isValid(id)) return null;
+
+        const { array, match, field, amount, min, counters = {} } = increment;
+        const element: Document = { ...match };
+        if (min !== undefined) element[field] = { $gte: min - amount };
+
+        // The positional $ is the element $elemMatch picked
+        const doc = await this.collection.findOneAndUpdate(
+            { _id: new ObjectId(id), [array]: { $elemMatch: element } },
+            { $inc: { [`${array}.$.${field}`]: amount, ...counters }, $set: { updatedAt: new Date() } },
+            { returnDocument: 'after' }
+        );
+        return toEntity<T>(doc);
+    }
+
+    public async delete(id: string): Promise<boolean> {
+        if (!ObjectId.isValid(id)) return false;
+        const result = await this.collection.deleteOne({ _id: new ObjectId(id) });
+        return result.deletedCount > 0;
+    }
+
+    public async deleteMany(filter: FilterQuery<T>): Promise<number> {
+        const result = await this.collection.deleteMany(toMongoFilter(filter));
+        return result.deletedCount;
+    }
+}
+
+export class MongoAdapter implements IDatabaseAdapter {
+    public readonly name = 'mongodb';
+    private readonly client: MongoClient;
+    // Typed back in repository<T>(), as in the memory adapter
+    private readonly repositories: Map<string, unknown> = new Map();
+    private readonly uniqueFields: Map<string, string[]> = new Map();
+    private connected: boolean = false;
+
+    constructor(url: string) {
+        // Skip undefined fields instead of storing null, so $exists agrees with the memory adapter
+        this.client = new MongoClient(url, { ignoreUndefined: true });
+    }
+
+    private async ensureIndexes(collection: string, fields: string[]): Promise<void> {
+        await Promise.all(fields.map(field =>
+            this.client.db().collection(collection).createIndex({ [field]: 1 }, { unique: true })
+        ));
+    }
+
+    public async connect(): Promise<void> {
+        await this.client.connect();
+        this.connected = true;
+
+        for (const [collection, fields] of this.uniqueFields) {
+            await this.ensureIndexes(collection, fields);
+        }
+    }
+
+    public async disconnect(): Promise<void> {
+        await this.client.close();
+        this.connected = false;
+    }
+
+    public repository<T extends IEntity>(collection: string, options: IRepositoryOptions<T> = {}): IRepository<T> {
+        let repo = this.repositories.get(collection) as IRepository<T> | undefined;
+        if (!repo) {
+            repo = new MongoRepository<T>(this.client.db().collection(collection), collection);
+            this.repositories.set(collection, repo);
+
+            if (options.unique?.length) {
+                this.uniqueFields.set(collection, options.unique);
+                if (this.connected) {
+                    this.ensureIndexes(collection, options.unique).catch((error: Error) => {
+                        logger.error(`Failed to create indexes for ${collection}`, error);
+                    });
+                }
+            }
+        }
+        return repo;
+    }
+}
+
+export default MongoAdapter;
@@ -0,0 +1,11 @@
+/**
+ * API Key Model - TypeScript
+ * Hashed API keys for external integrations
+ */
+
+import database, { COLLECTIONS } from '@config/database';
+import { IApiKey } from '@types';
+
+const apiKeyModel = database.repository<IApiKey>(COLLECTIONS.API_KEYS, { unique: ['prefix'] });
+
+export default apiKeyModel;
@@ -0,0 +1,11 @@
+/**
+ * Category Model - TypeScript
+ * Product category repository on the configured database adapter
+ */
+
+import database, { COLLECTIONS } from '@config/database';
+import { ICategory } from '@types';
+
+const categoryModel = database.repository<ICategory>(COLLECTIONS.CATEGORIES, { unique: ['slug'] });
+
+export default categoryModel;
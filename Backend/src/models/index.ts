@@ -0,0 +1,17 @@
+/**
+ * Models Index - TypeScript
+ * Export all repositories from a single entry point
+ */
+
+export { default as userModel } from './userModel';
+export { default as roleModel } from './roleModel';
+export { default as oneTimeTokenModel } from './oneTimeTokenModel';
+export { default as sessionModel } from './sessionModel';
+export { default as apiKeyModel } from './apiKeyModel';
+export { default as productModel } from './productModel';
+export { default as categoryModel } from './categoryModel';
+export { default as inventoryMovementModel } from './inventoryMovementModel';
+export { default as orderModel } from './orderModel';
+export { default as newsModel } from './newsModel';
+export { default as newsRevisionModel } from './newsRevisionModel';
+export { default as settingsModel } from './settingsModel';
@@ -0,0 +1,11 @@
+/**
+ * Inventory Movement Model - TypeScript
+ * Stock change history on the configured database adapter
+ */
+
+import database, { COLLECTIONS } from '@config/database';
+import { IInventoryMovement } from '@types';
+
+const inventoryMovementModel = database.repository<IInventoryMovement>(COLLECTIONS.INVENTORY_MOVEMENTS);
+
+export default inventoryMovementModel;
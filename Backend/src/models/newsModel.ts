@@ -0,0 +1,11 @@
+/**
+ * News Model - TypeScript
+ * News article repository on the configured database adapter
+ */
+
+import database, { COLLECTIONS } from '@config/database';
+import { INewsArticle } from '@types';
+
+const newsModel = database.repository<INewsArticle>(COLLECTIONS.NEWS, { unique: ['slug'] });
+
+export default newsModel;
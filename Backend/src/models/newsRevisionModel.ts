@@ -0,0 +1,11 @@
+/**
+ * News Revision Model - TypeScript
+ * Saved versions of news articles on the configured database adapter
+ */
+
+import database, { COLLECTIONS } from '@config/database';
+import { INewsRevision } from '@types';
+
+const newsRevisionModel = database.repository<INewsRevision>(COLLECTIONS.NEWS_REVISIONS);
+
+export default newsRevisionModel;
@@ -0,0 +1,11 @@
+/**
+ * One-Time Token Model - TypeScript
+ * Hashed single-use tokens for email verification and password reset
+ */
+
+import database, { COLLECTIONS } from '@config/database';
+import { IOneTimeToken } from '@types';
+
+const oneTimeTokenModel = database.repository<IOneTimeToken>(COLLECTIONS.ONE_TIME_TOKENS);
+
+export default oneTimeTokenModel;
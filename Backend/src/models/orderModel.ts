@@ -0,0 +1,11 @@
+/**
+ * Order Model - TypeScript
+ * Order repository on the configured database adapter
+ */
+
+import database, { COLLECTIONS } from '@config/database';
+import { IOrder } from '@types';
+
+const orderModel = database.repository<IOrder>(COLLECTIONS.ORDERS, { unique: ['number'] });
+
+export default orderModel;
@@ -0,0 +1,11 @@
+/**
+ * Product Model - TypeScript
+ * Product repository on the configured database adapter
+ */
+
+import database, { COLLECTIONS } from '@config/database';
+import { IProduct } from '@types';
+
+const productModel = database.repository<IProduct>(COLLECTIONS.PRODUCTS, { unique: ['slug', 'sku'] });
+
+export default productModel;
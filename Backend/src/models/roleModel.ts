@@ -0,0 +1,11 @@
+/**
+ * Role Model - TypeScript
+ * Role-to-permission mapping on the configured database adapter
+ */
+
+import database, { COLLECTIONS } from '@config/database';
+import { IRole } from '@types';
+
+const roleModel = database.repository<IRole>(COLLECTIONS.ROLES, { unique: ['name'] });
+
+export default roleModel;
@@ -0,0 +1,11 @@
+/**
+ * Session Model - TypeScript
+ * One record per login, keyed by its refresh token family
+ */
+
+import database, { COLLECTIONS } from '@config/database';
+import { ISession } from '@types';
+
+const sessionModel = database.repository<ISession>(COLLECTIONS.SESSIONS, { unique: ['sessionId'] });
+
+export default sessionModel;
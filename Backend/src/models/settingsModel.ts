@@ -0,0 +1,11 @@
+/**
+ * Settings Model - TypeScript
+ * Versioned settings snapshots on the configured database adapter
+ */
+
+import database, { COLLECTIONS } from '@config/database';
+import { ISettingsVersion } from '@types';
+
+const settingsModel = database.repository<ISettingsVersion>(COLLECTIONS.SETTINGS, { unique: ['version'] });
+
+export default settingsModel;
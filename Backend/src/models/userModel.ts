@@ -0,0 +1,11 @@
+/**
+ * User Model - TypeScript
+ * User repository on the configured database adapter
+ */
+
+import database, { COLLECTIONS } from '@config/database';
+import { IUser } from '@types';
+
+const userModel = database.repository<IUser>(COLLECTIONS.USERS, { unique: ['email'] });
+
+export default userModel;
@@ -0,0 +1,22 @@
+/**
+ * Admin Routes
+ * Figures for the admin dashboard
+ */
+
+import express from 'express';
+import * as statsController from '@controllers/statsController';
+import { authenticate, requirePermission } from '@middlewares/auth';
+import { validate } from '@middlewares/validate';
+import * as statsValidator from '@validators/statsValidator';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+/**
+ * Counts, revenue series and top products (?from, to as YYYY-MM-DD, interval=day|week|month, tzOffset in minutes)
+ * GET /api/admin/stats
+ */
+router.get('/stats', requirePermission('stats:read'), validate(statsValidator.getDashboard), statsController.getDashboardStats);
+
+export default router;
@@ -0,0 +1,40 @@
+/**
+ * API Key Routes
+ * Manage API keys for external integrations
+ */
+
+import express from 'express';
+import * as apiKeyController from '@controllers/apiKeyController';
+import { authenticate, requirePermission } from '@middlewares/auth';
+import * as security from '@config/security';
+
+const router = express.Router();
+const modifyLimiter = security.createModifyLimiter();
+
+router.use(authenticate, requirePermission('api-keys:manage'));
+
+/**
+ * List API keys
+ * GET /api/api-keys
+ */
+router.get('/', apiKeyController.listApiKeys);
+
+/**
+ * Create API key
+ * POST /api/api-keys
+ */
+router.post('/', modifyLimiter, apiKeyController.createApiKey);
+
+/**
+ * Rotate API key
+ * POST /api/api-keys/:id/rotate
+ */
+router.post('/:id/rotate', modifyLimiter, apiKeyController.rotateApiKey);
+
+/**
+ * Revoke API key
+ * DELETE /api/api-keys/:id
+ */
+router.delete('/:id', modifyLimiter, apiKeyController.revokeApiKey);
+
+export default router;
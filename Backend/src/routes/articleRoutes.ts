@@ -0,0 +1,25 @@
+/**
+ * Article Routes
+ * Public, read-only view of published news
+ */
+
+import express from 'express';
+import * as newsController from '@controllers/newsController';
+import { validate } from '@middlewares/validate';
+import * as newsValidator from '@validators/newsValidator';
+
+const router = express.Router();
+
+/**
+ * List published articles (?search, tag, page, limit, sort, order)
+ * GET /api/articles
+ */
+router.get('/', validate(newsValidator.listPublishedArticles), newsController.listPublishedArticles);
+
+/**
+ * Get published article by slug
+ * GET /api/articles/:slug
+ */
+router.get('/:slug', newsController.getPublishedArticle);
+
+export default router;
@@ -0,0 +1,69 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, TestServer, TEST_PASSWORD } from '../test/helpers';
+import { IAuthResponse, PublicUser } from '@types';
+
+describe('/api/auth', () => {
+    let server: TestServer;
+    const email = 'new.customer@example.com';
+
+    before(async () => {
+        server = await startServer();
+    });
+
+    after(async () => {
+        await server.close();
+    });
+
+    it('registers an account and signs it in', async () => {
+        const res = await server.request<IAuthResponse>('POST', '/auth/register', {
+            body: { email, password: TEST_PASSWORD, name: 'New Customer' },
+        });
+
+        assert.equal(res.status, 201);
+        assert.equal(res.body.data?.user.email, email);
+        assert.equal(res.body.data?.user.role, 'user');
+        assert.ok(res.body.data?.accessToken);
+        assert.ok(res.body.data?.refreshToken);
+        assert.equal('password' in (res.body.data?.user ?? {}), false);
+    });
+
+    it('refuses a second account for the same email', async () => {
+        const res = await server.request('POST', '/auth/register', {
+            body: { email: email.toUpperCase(), password: TEST_PASSWORD, name: 'Someone Else' },
+        });
+        assert.equal(res.status, 409);
+    });
+
+    it('logs in, loads the profile, rotates and logs out', async () => {
+        const wrong = await server.request('POST', '/auth/login', { body: { email, password: 'Wrong@12345' } });
+        assert.equal(wrong.status, 401);
+
+        const login = await server.request<IAuthResponse>('POST', '/auth/login', {
+            body: { email, password: TEST_PASSWORD },
+        });
+        assert.equal(login.status, 200);
+        const { accessToken, refreshToken } = login.body.data!;
+
+        const profile = await server.request<{ user: PublicUser }>('GET', '/auth/profile', { token: accessToken });
+        assert.equal(profile.status, 200);
+        assert.equal(profile.body.data?.user.email, email);
+        assert.ok(profile.body.data?.user.permissions?.length);
+
+        const refreshed = await server.request<IAuthResponse>('POST', '/auth/refresh', { body: { refreshToken } });
+        assert.equal(refreshed.status, 200);
+        const rotated = refreshed.body.data!.refreshToken;
+        assert.notEqual(rotated, refreshToken);
+
+        const logout = await server.request('POST', '/auth/logout', { body: { refreshToken: rotated } });
+        assert.equal(logout.status, 200);
+
+        const afterLogout = await server.request('POST', '/auth/refresh', { body: { refreshToken: rotated } });
+        assert.equal(afterLogout.status, 401);
+    });
+
+    it('requires a token for the profile', async () => {
+        const res = await server.request('GET', '/auth/profile');
+        assert.equal(res.status, 401);
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * Auth Routes
+ * Registration, login, two-factor authentication, email verification,
+ * password reset, sessions and token management
+ */
+
+import express from 'express';
+import * as authController from '@controllers/authController';
+import { authenticate } from '@middlewares/auth';
+import { validate } from '@middlewares/validate';
+import * as authValidator from '@validators/authValidator';
+import * as security from '@config/security';
+
+const router = express.Router();
+
+/**
+ * Register
+ * POST /api/auth/register
+ */
+router.post('/register', validate(authValidator.register), authController.register);
+
+/**
+ * Login
+ * POST /api/auth/login
+ */
+router.post('/login', validate(authValidator.login), authController.login);
+
+/**
+ * Second login step for MFA accounts
+ * POST /api/auth/mfa/verify
+ */
+router.post('/mfa/verify', authController.verifyMfa);
+
+/**
+ * Start TOTP enrolment
+ * POST /api/auth/mfa/setup
+ */
+router.post('/mfa/setup', authenticate, authController.setupMfa);
+
+/**
+ * Confirm TOTP enrolment
+ * POST /api/auth/mfa/enable
+ */
+router.post('/mfa/enable', authenticate, authController.enableMfa);
+
+/**
+ * Disable TOTP
+ * POST /api/auth/mfa/disable
+ */
+router.post('/mfa/disable', authenticate, authController.disableMfa);
+
+/**
+ * Refresh tokens
+ * POST /api/auth/refresh
+ */
+router.post('/refresh', authController.refresh);
+
+/**
+ * Logout
+ * POST /api/auth/logout
+ */
+router.post('/logout', authController.logout);
+
+/**
+ * Logout from every device
+ * POST /api/auth/logout-all
+ */
+router.post('/logout-all', authenticate, authController.logoutAll);
+
+/**
+ * Verify email address
+ * POST /api/auth/verify-email
+ */
+router.post('/verify-email', authController.verifyEmail);
+
+/**
+ * Resend verification email
+ * POST /api/auth/resend-verification
+ */
+router.post('/resend-verification', security.emailLimiter, authController.resendVerification);
+
+/**
+ * Request password reset email
+ * POST /api/auth/forgot-password
+ */
+router.post('/forgot-password', security.emailLimiter, validate(authValidator.forgotPassword), authController.forgotPassword);
+
+/**
+ * Reset password with emailed token
+ * POST /api/auth/reset-password
+ */
+router.post('/reset-password', validate(authValidator.resetPassword), authController.resetPassword);
+
+/**
+ * List active sessions
+ * GET /api/auth/sessions
+ */
+router.get('/sessions', authenticate, authController.listSessions);
+
+/**
+ * Revoke every other session
+ * DELETE /api/auth/sessions
+ */
+router.delete('/sessions', authenticate, authController.revokeOtherSessions);
+
+/**
+ * Revoke a session
+ * DELETE /api/auth/sessions/:id
+ */
+router.delete('/sessions/:id', authenticate, authController.revokeSession);
+
+/**
+ * Current user profile
+ * GET /api/auth/profile
+ */
+router.get('/profile', authenticate, authController.getProfile);
+
+export default router;
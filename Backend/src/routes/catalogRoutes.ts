@@ -0,0 +1,32 @@
+/**
+ * Catalog Routes
+ * Public, read-only view of published products
+ */
+
+import express from 'express';
+import * as productController from '@controllers/productController';
+import * as categoryController from '@controllers/categoryController';
+import { validate } from '@middlewares/validate';
+import * as productValidator from '@validators/productValidator';
+
+const router = express.Router();
+
+/**
+ * List published products (?search, category, minPrice, maxPrice, inStock, page, limit, sort, order)
+ * GET /api/catalog/products
+ */
+router.get('/products', validate(productValidator.listPublishedProducts), productController.listPublishedProducts);
+
+/**
+ * Get published product by slug
+ * GET /api/catalog/products/:slug
+ */
+router.get('/products/:slug', productController.getPublishedProduct);
+
+/**
+ * List categories
+ * GET /api/catalog/categories
+ */
+router.get('/categories', categoryController.listCategories);
+
+export default router;
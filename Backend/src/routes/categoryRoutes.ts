@@ -0,0 +1,40 @@
+/**
+ * Category Routes
+ * Manage product categories
+ */
+
+import express from 'express';
+import * as categoryController from '@controllers/categoryController';
+import { authenticate, requirePermission } from '@middlewares/auth';
+import * as security from '@config/security';
+
+const router = express.Router();
+const modifyLimiter = security.createModifyLimiter();
+
+router.use(authenticate);
+
+/**
+ * List categories
+ * GET /api/categories
+ */
+router.get('/', requirePermission('products:read'), categoryController.listCategories);
+
+/**
+ * Create category
+ * POST /api/categories
+ */
+router.post('/', modifyLimiter, requirePermission('products:write'), categoryController.createCategory);
+
+/**
+ * Update category
+ * PUT /api/categories/:id
+ */
+router.put('/:id', modifyLimiter, requirePermission('products:write'), categoryController.updateCategory);
+
+/**
+ * Delete category
+ * DELETE /api/categories/:id
+ */
+router.delete('/:id', modifyLimiter, requirePermission('products:write'), categoryController.deleteCategory);
+
+export default router;
@@ -0,0 +1,29 @@
+/**
+ * Docs Routes
+ * Interactive API documentation from the bundled swagger-ui-dist assets
+ */
+
+import express from 'express';
+import * as docsController from '@controllers/docsController';
+
+const router = express.Router();
+
+/**
+ * Swagger UI page
+ * GET /api/docs
+ */
+router.get('/', docsController.getDocsPage);
+
+/**
+ * Swagger UI start-up script
+ * GET /api/docs/init.js
+ */
+router.get('/init.js', docsController.getDocsInitializer);
+
+/**
+ * Swagger UI stylesheet, bundle and icon
+ * GET /api/docs/:asset
+ */
+router.get('/:asset', docsController.getDocsAsset);
+
+export default router;
@@ -0,0 +1,65 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import apiKeyService from '@services/apiKeyService';
+import { actorOf, createUser, startServer, TestServer } from '../test/helpers';
+import { IApiKeyInput, IUserPayload } from '@types';
+
+describe('/api/external', () => {
+    let server: TestServer;
+    let admin: IUserPayload;
+
+    const createKey = async (input: Partial<IApiKeyInput>): Promise<string> =>
+        (await apiKeyService.create({ name: 'Integration', ...input }, admin)).key;
+
+    before(async () => {
+        server = await startServer();
+        admin = actorOf(await createUser('admin'));
+    });
+
+    after(async () => {
+        await server.close();
+    });
+
+    it('asks for a known key', async () => {
+        assert.equal((await server.request('GET', '/external/products')).status, 401);
+        assert.equal((await server.request('GET', '/external/products', { apiKey: 'mk_000000000000_nope' })).status, 401);
+    });
+
+    it('limits a key to its scopes', async () => {
+        const key = await createKey({ scopes: ['products:read'] });
+
+        assert.equal((await server.request('GET', '/external/products', { apiKey: key })).status, 200);
+        assert.equal((await server.request('GET', '/external/orders', { apiKey: key })).status, 403);
+    });
+
+    it('stops answering a revoked key', async () => {
+        const { apiKey, key } = await apiKeyService.create({ name: 'Old', scopes: ['products:read'] }, admin);
+        await apiKeyService.revoke(apiKey.id);
+
+        assert.equal((await server.request('GET', '/external/products', { apiKey: key })).status, 401);
+    });
+
+    it('applies the per-key rate limit', async () => {
+        const key = await createKey({ scopes: ['products:read'], rateLimit: 2 });
+
+        const first = await server.request('GET', '/external/products', { apiKey: key });
+        assert.equal(first.headers.get('ratelimit-limit'), '2');
+
+        assert.equal((await server.request('GET', '/external/products', { apiKey: key })).status, 200);
+        assert.equal((await server.request('GET', '/external/products', { apiKey: key })).status, 429);
+    });
+
+    it('blocks an address after repeated invalid keys, before verifying any more', async () => {
+        const key = await createKey({ scopes: ['products:read'] });
+        const guess = key.slice(0, -4) + 'AAAA';
+
+        const statuses: number[] = [];
+        for (let attempt = 0; attempt < 10; attempt++) {
+            statuses.push((await server.request('GET', '/external/products', { apiKey: guess })).status);
+        }
+
+        // Three keys were already rejected above
+        assert.deepEqual([...new Set(statuses)], [401, 429]);
+        assert.equal((await server.request('GET', '/external/products', { apiKey: key })).status, 429);
+    });
+});
@@ -0,0 +1,49 @@
+/**
+ * External Routes
+ * Read access for integrations; authenticate with an X-API-Key header
+ * created in the admin settings, limited per key and by its scopes
+ */
+
+import express from 'express';
+import * as productController from '@controllers/productController';
+import * as orderController from '@controllers/orderController';
+import { validateApiKey, requireScope } from '@middlewares/apiSecurity';
+import { validate } from '@middlewares/validate';
+import * as productValidator from '@validators/productValidator';
+import * as orderValidator from '@validators/orderValidator';
+
+const router = express.Router();
+
+router.use(validateApiKey);
+
+/**
+ * List products (?search, category, status, minPrice, maxPrice, inStock, page, limit, sort, order)
+ * GET /api/external/products
+ */
+router.get('/products', requireScope('products:read'), validate(productValidator.listProducts), productController.listProducts);
+
+/**
+ * Get product
+ * GET /api/external/products/:id
+ */
+router.get('/products/:id', requireScope('products:read'), productController.getProduct);
+
+/**
+ * Stock movement history
+ * GET /api/external/products/:id/inventory
+ */
+router.get('/products/:id/inventory', requireScope('products:read'), productController.listInventoryMovements);
+
+/**
+ * List orders (?search, status, from, to, page, limit, sort, order)
+ * GET /api/external/orders
+ */
+router.get('/orders', requireScope('orders:read'), validate(orderValidator.listOrders), orderController.listOrders);
+
+/**
+ * Export orders as CSV (same filters as the list)
+ * GET /api/external/orders/export
+ */
+router.get('/orders/export', requireScope('orders:read'), validate(orderValidator.listOrders), orderController.exportOrders);
+
+export default router;
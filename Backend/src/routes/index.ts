@@ -4,15 +4,27 @@
  */
 
 import express, { Router, Request, Response } from 'express';
-// import * as security from '@config/security';
+import * as security from '@config/security';
+import * as apiSecurity from '@middlewares/apiSecurity';
 import uploadRoutes from './uploadRoutes';
+import authRoutes from './authRoutes';
+import roleRoutes from './roleRoutes';
+import apiKeyRoutes from './apiKeyRoutes';
+import userRoutes from './userRoutes';
+import productRoutes from './productRoutes';
+import categoryRoutes from './categoryRoutes';
+import catalogRoutes from './catalogRoutes';
+import orderRoutes from './orderRoutes';
+import newsRoutes from './newsRoutes';
+import articleRoutes from './articleRoutes';
+import settingsRoutes from './settingsRoutes';
+import adminRoutes from './adminRoutes';
+import externalRoutes from './externalRoutes';
+import docsRoutes from './docsRoutes';
+import * as docsController from '@controllers/docsController';
 
 const router: Router = express.Router();
 
-// TODO: Import routes when ready
-// import authRoutes from './authRoutes';
-// import userRoutes from './userRoutes';
-
 // API Info
 router.get('/', (_req: Request, res: Response) => {
     res.status(200).json({
@@ -24,20 +36,58 @@ router.get('/', (_req: Request, res: Response) => {
     });
 });
 
-// Mount upload routes (available immediately for testing)
+// CSRF token for cookie auth mode
+router.get('/csrf', apiSecurity.generateCSRFToken);
+
+// OpenAPI document and interactive docs
+router.get('/openapi.json', docsController.getOpenApiDocument);
+router.use('/docs', docsRoutes);
+
+// Upload routes - authenticated users only
 router.use('/uploads', uploadRoutes);
 
-// TODO: Mount routes with appropriate rate limiting
 // Auth routes - stricter rate limiting
-// router.use('/auth', security.authLimiter, authRoutes);
+router.use('/auth', security.authLimiter, authRoutes);
+
+// Role/permission management
+router.use('/roles', security.apiLimiter, roleRoutes);
+
+// API key management
+router.use('/api-keys', security.apiLimiter, apiKeyRoutes);
+
+// User management - standard API rate limiting
+router.use('/users', security.apiLimiter, userRoutes);
+
+// Product catalog management
+router.use('/products', security.apiLimiter, productRoutes);
+router.use('/categories', security.apiLimiter, categoryRoutes);
 
-// User routes - standard API rate limiting
-// router.use('/users', security.apiLimiter, userRoutes);
+// Orders
+router.use('/orders', security.apiLimiter, orderRoutes);
+
+// News management
+router.use('/news', security.apiLimiter, newsRoutes);
+
+// Application settings
+router.use('/settings', security.apiLimiter, settingsRoutes);
+
+// Admin dashboard
+router.use('/admin', security.apiLimiter, adminRoutes);
+
+// Public catalog and news - no authentication
+router.use('/catalog', security.apiLimiter, catalogRoutes);
+router.use('/articles', security.apiLimiter, articleRoutes);
+
+// Integrations - API key auth with a rate limit per key instead of per IP
+router.use('/external', security.apiKeyLimiter, externalRoutes);
+
+// TODO: Mount routes with appropriate rate limiting
 
 // Example: Protected modification routes
+// const postLimiter = security.createModifyLimiter();
 // router.use('/posts', security.apiLimiter);
-// router.post('/posts', security.modifyLimiter, postController.create);
-// router.put('/posts/:id', security.modifyLimiter, postController.update);
-// router.delete('/posts/:id', security.modifyLimiter, postController.delete);
+// router.post('/posts', postLimiter, postController.create);
+// router.put('/posts/:id', postLimiter, postController.update);
+// router.delete('/posts/:id', postLimiter, postController.delete);
 
 export default router;
@@ -0,0 +1,94 @@
+/**
+ * News Routes
+ * Write, schedule and publish articles; browse and restore revisions
+ */
+
+import express from 'express';
+import * as newsController from '@controllers/newsController';
+import { authenticate, requirePermission } from '@middlewares/auth';
+import { validate } from '@middlewares/validate';
+import * as newsValidator from '@validators/newsValidator';
+import * as security from '@config/security';
+
+const router = express.Router();
+const modifyLimiter = security.createModifyLimiter();
+
+router.use(authenticate);
+
+/**
+ * List articles (?search, status, tag, page, limit, sort, order)
+ * GET /api/news
+ */
+router.get('/', requirePermission('news:write'), validate(newsValidator.listArticles), newsController.listArticles);
+
+/**
+ * Preview the sanitized HTML of a body ({ body }); nothing is saved
+ * POST /api/news/preview
+ */
+router.post('/preview', requirePermission('news:write'), newsController.previewArticle);
+
+/**
+ * Get article
+ * GET /api/news/:id
+ */
+router.get('/:id', requirePermission('news:write'), newsController.getArticle);
+
+/**
+ * Create article; anything but a draft also needs news:publish
+ * POST /api/news
+ */
+router.post('/', modifyLimiter, requirePermission('news:write'), newsController.createArticle);
+
+/**
+ * Update article; non-draft articles also need news:publish
+ * PUT /api/news/:id
+ */
+router.put('/:id', modifyLimiter, requirePermission('news:write'), newsController.updateArticle);
+
+/**
+ * Delete article
+ * DELETE /api/news/:id
+ */
+router.delete('/:id', modifyLimiter, requirePermission('news:publish'), newsController.deleteArticle);
+
+/**
+ * Revision history
+ * GET /api/news/:id/revisions
+ */
+router.get('/:id/revisions', requirePermission('news:write'), newsController.listRevisions);
+
+/**
+ * Get revision
+ * GET /api/news/:id/revisions/:revision
+ */
+router.get(
+    '/:id/revisions/:revision',
+    requirePermission('news:write'),
+    validate(newsValidator.revision),
+    newsController.getRevision
+);
+
+/**
+ * Diff a revision against another (?against, defaults to the latest)
+ * GET /api/news/:id/revisions/:revision/diff
+ */
+router.get(
+    '/:id/revisions/:revision/diff',
+    requirePermission('news:write'),
+    validate(newsValidator.diffRevisions),
+    newsController.diffRevision
+);
+
+/**
+ * Restore revision as a new revision
+ * POST /api/news/:id/revisions/:revision/restore
+ */
+router.post(
+    '/:id/revisions/:revision/restore',
+    modifyLimiter,
+    requirePermission('news:write'),
+    validate(newsValidator.revision),
+    newsController.restoreRevision
+);
+
+export default router;
@@ -0,0 +1,59 @@
+/**
+ * Order Routes
+ * Place orders and move them through the fulfilment workflow
+ */
+
+import express from 'express';
+import * as orderController from '@controllers/orderController';
+import { authenticate, requirePermission } from '@middlewares/auth';
+import { validate } from '@middlewares/validate';
+import * as orderValidator from '@validators/orderValidator';
+import * as security from '@config/security';
+
+const router = express.Router();
+const modifyLimiter = security.createModifyLimiter();
+
+router.use(authenticate);
+
+/**
+ * List orders (?search, status, from, to, page, limit, sort, order)
+ * GET /api/orders
+ */
+router.get('/', requirePermission('orders:read'), validate(orderValidator.listOrders), orderController.listOrders);
+
+/**
+ * Export orders as CSV (same filters as the list)
+ * GET /api/orders/export
+ */
+router.get('/export', requirePermission('orders:read'), validate(orderValidator.listOrders), orderController.exportOrders);
+
+/**
+ * Get order with allowed next statuses
+ * GET /api/orders/:id
+ */
+router.get('/:id', requirePermission('orders:read'), orderController.getOrder);
+
+/**
+ * Create order (reserves stock)
+ * POST /api/orders
+ */
+router.post('/', modifyLimiter, requirePermission('orders:write'), orderController.createOrder);
+
+/**
+ * Change the status of several orders ({ ids, status, reason })
+ * POST /api/orders/bulk-status
+ */
+router.post(
+    '/bulk-status',
+    modifyLimiter,
+    requirePermission('orders:write'),
+    orderController.bulkChangeOrderStatus
+);
+
+/**
+ * Change order status; refunds also need orders:refund
+ * POST /api/orders/:id/status
+ */
+router.post('/:id/status', modifyLimiter, requirePermission('orders:write'), orderController.changeOrderStatus);
+
+export default router;
@@ -0,0 +1,65 @@
+/**
+ * Product Routes
+ * Manage the product catalog and inventory
+ */
+
+import express from 'express';
+import * as productController from '@controllers/productController';
+import { authenticate, requirePermission } from '@middlewares/auth';
+import { validate } from '@middlewares/validate';
+import * as productValidator from '@validators/productValidator';
+import * as security from '@config/security';
+
+const router = express.Router();
+const modifyLimiter = security.createModifyLimiter();
+
+router.use(authenticate);
+
+/**
+ * List products (?search, category, status, minPrice, maxPrice, inStock, page, limit, sort, order)
+ * GET /api/products
+ */
+router.get('/', requirePermission('products:read'), validate(productValidator.listProducts), productController.listProducts);
+
+/**
+ * Get product
+ * GET /api/products/:id
+ */
+router.get('/:id', requirePermission('products:read'), productController.getProduct);
+
+/**
+ * Create product
+ * POST /api/products
+ */
+router.post('/', modifyLimiter, requirePermission('products:write'), productController.createProduct);
+
+/**
+ * Update product
+ * PUT /api/products/:id
+ */
+router.put('/:id', modifyLimiter, requirePermission('products:write'), productController.updateProduct);
+
+/**
+ * Delete product
+ * DELETE /api/products/:id
+ */
+router.delete('/:id', modifyLimiter, requirePermission('products:delete'), productController.deleteProduct);
+
+/**
+ * Stock movement history
+ * GET /api/products/:id/inventory
+ */
+router.get('/:id/inventory', requirePermission('products:read'), productController.listInventoryMovements);
+
+/**
+ * Adjust variant stock (a reason is required)
+ * POST /api/products/:id/inventory
+ */
+router.post(
+    '/:id/inventory',
+    modifyLimiter,
+    requirePermission('inventory:adjust'),
+    productController.adjustInventory
+);
+
+export default router;
@@ -0,0 +1,28 @@
+/**
+ * Role Routes
+ * Manage the role-to-permission mapping
+ */
+
+import express from 'express';
+import * as roleController from '@controllers/roleController';
+import { authenticate, requirePermission } from '@middlewares/auth';
+import * as security from '@config/security';
+
+const router = express.Router();
+const modifyLimiter = security.createModifyLimiter();
+
+router.use(authenticate, requirePermission('roles:manage'));
+
+/**
+ * List roles with permission catalogue
+ * GET /api/roles
+ */
+router.get('/', roleController.listRoles);
+
+/**
+ * Update role permissions
+ * PUT /api/roles/:name
+ */
+router.put('/:name', modifyLimiter, roleController.updateRole);
+
+export default router;
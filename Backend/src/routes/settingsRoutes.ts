@@ -0,0 +1,42 @@
+/**
+ * Settings Routes
+ * Read and change application settings; changes apply without a restart
+ */
+
+import express from 'express';
+import * as settingsController from '@controllers/settingsController';
+import { authenticate, requirePermission } from '@middlewares/auth';
+import { validate } from '@middlewares/validate';
+import * as settingsValidator from '@validators/settingsValidator';
+import * as security from '@config/security';
+
+const router = express.Router();
+const modifyLimiter = security.createModifyLimiter();
+
+/**
+ * Store name, currency, locale and maintenance status - no authentication
+ * GET /api/settings/public
+ */
+router.get('/public', settingsController.getPublicSettings);
+
+router.use(authenticate);
+
+/**
+ * Get settings
+ * GET /api/settings
+ */
+router.get('/', requirePermission('settings:read'), settingsController.getSettings);
+
+/**
+ * Update settings ({ settings: { key: value }, version? }); a stale version is rejected with 409
+ * PATCH /api/settings
+ */
+router.patch('/', modifyLimiter, requirePermission('settings:write'), settingsController.updateSettings);
+
+/**
+ * Change history (?page, limit, sort, order)
+ * GET /api/settings/history
+ */
+router.get('/history', requirePermission('settings:read'), validate(settingsValidator.listHistory), settingsController.getSettingsHistory);
+
+export default router;
@@ -13,10 +13,16 @@ import {
     getReadableFileSize,
 } from '@config/multer';
 import { handleMulterError, validateFileExists, logFileUpload } from '@middlewares/upload';
+import { authenticate, requirePermission } from '@middlewares/auth';
+import { validate } from '@middlewares/validate';
+import * as uploadValidator from '@validators/uploadValidator';
 import response from '@utils/response';
 
 const router = express.Router();
 
+// Uploads require a signed-in user allowed to upload
+router.use(authenticate, requirePermission('uploads:write'));
+
 /**
  * Upload single avatar
  * POST /api/uploads/avatar
@@ -97,7 +103,7 @@ router.post(
  * Delete uploaded file
  * DELETE /api/uploads/:filename
  */
-router.delete('/:filename', (req: Request, res: Response) => {
+router.delete('/:filename', requirePermission('uploads:delete'), validate(uploadValidator.deleteFile), (req: Request, res: Response) => {
     const { filename } = req.params;
     const { type } = req.query; // 'avatars', 'images', 'documents'
 
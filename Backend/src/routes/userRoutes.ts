@@ -0,0 +1,84 @@
+/**
+ * User Routes
+ * Administrative user management
+ */
+
+import express from 'express';
+import * as userController from '@controllers/userController';
+import { authenticate, requirePermission } from '@middlewares/auth';
+import { validate } from '@middlewares/validate';
+import * as userValidator from '@validators/userValidator';
+import * as security from '@config/security';
+
+const router = express.Router();
+const modifyLimiter = security.createModifyLimiter();
+
+router.use(authenticate);
+
+/**
+ * List users (?search, role, isVerified, banned, page, limit, sort, order)
+ * GET /api/users
+ */
+router.get('/', requirePermission('users:read'), validate(userValidator.listUsers), userController.listUsers);
+
+/**
+ * Get user
+ * GET /api/users/:id
+ */
+router.get('/:id', requirePermission('users:read'), userController.getUser);
+
+/**
+ * List user sessions
+ * GET /api/users/:id/sessions
+ */
+router.get('/:id/sessions', requirePermission('users:read'), userController.listUserSessions);
+
+/**
+ * Sign user out everywhere
+ * DELETE /api/users/:id/sessions
+ */
+router.delete('/:id/sessions', modifyLimiter, requirePermission('users:write'), userController.revokeUserSessions);
+
+/**
+ * User activity
+ * GET /api/users/:id/activity
+ */
+router.get('/:id/activity', requirePermission('users:read'), userController.getUserActivity);
+
+/**
+ * Create user
+ * POST /api/users
+ */
+router.post('/', modifyLimiter, requirePermission('users:write'), userController.createUser);
+
+/**
+ * Update user
+ * PUT /api/users/:id
+ */
+router.put('/:id', modifyLimiter, requirePermission('users:write'), userController.updateUser);
+
+/**
+ * Change user role
+ * PUT /api/users/:id/role
+ */
+router.put('/:id/role', modifyLimiter, requirePermission('users:write'), userController.changeUserRole);
+
+/**
+ * Ban user
+ * POST /api/users/:id/ban
+ */
+router.post('/:id/ban', modifyLimiter, requirePermission('users:write'), userController.banUser);
+
+/**
+ * Unban user
+ * POST /api/users/:id/unban
+ */
+router.post('/:id/unban', modifyLimiter, requirePermission('users:write'), userController.unbanUser);
+
+/**
+ * Delete user
+ * DELETE /api/users/:id
+ */
+router.delete('/:id', modifyLimiter, requirePermission('users:delete'), userController.deleteUser);
+
+export default router;
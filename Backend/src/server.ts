@@ -6,25 +6,61 @@
 import { Server } from 'http';
 import app from './app';
 import config from '@config/env';
-
-// TODO: Connect to database before starting server
+import * as security from '@config/security';
+import { setFileSizeLimits } from '@config/multer';
+import { connectDatabase, disconnectDatabase } from '@config/database';
+import authService from '@services/authService';
+import permissionService from '@services/permissionService';
+import newsService from '@services/newsService';
+import settingsService from '@services/settingsService';
 
 const PORT: number = config.port;
 
-const server: Server = app.listen(PORT, () => {
-    console.log(`
+let server: Server | undefined;
+
+const startServer = async (): Promise<void> => {
+    // Connect to database before accepting requests
+    await connectDatabase();
+    await settingsService.load();
+
+    // Admin changes to limits take effect on the next request
+    settingsService.watch(settings => {
+        security.configureGeneralLimiter(settings.rateLimitWindowMs, settings.rateLimitMaxRequests);
+        setFileSizeLimits({
+            AVATAR: settings.avatarMaxBytes,
+            IMAGE: settings.imageMaxBytes,
+            DOCUMENT: settings.documentMaxBytes,
+            VIDEO: settings.videoMaxBytes,
+        });
+    });
+
+    settingsService.startPolling();
+
+    await permissionService.seedRoles();
+    await authService.seedAdmin();
+    newsService.startScheduler();
+
+    server = app.listen(PORT, () => {
+        console.log(`
     ╔══════════════════════════════════════════╗
-    ║  Server running in ${config.env} mode     
-    ║  Port: ${PORT}                           
-    ║  URL: http://localhost:${PORT}           
+    ║  Server running in ${config.env} mode
+    ║  Port: ${PORT}
+    ║  URL: http://localhost:${PORT}
     ╚══════════════════════════════════════════╝
     `);
+    });
+};
+
+startServer().catch((err: Error) => {
+    console.error('💥 Failed to start server:', err.message);
+    process.exit(1);
 });
 
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (err: Error) => {
     console.error('UNHANDLED REJECTION! 💥 Shutting down...');
     console.error(err);
+    if (!server) process.exit(1);
     server.close(() => {
         process.exit(1);
     });
@@ -33,9 +69,17 @@ process.on('unhandledRejection', (err: Error) => {
 // Handle SIGTERM
 process.on('SIGTERM', () => {
     console.log('👋 SIGTERM RECEIVED. Shutting down gracefully');
-    server.close(() => {
-        console.log('💥 Process terminated!');
+    newsService.stopScheduler();
+    settingsService.stopPolling();
+    const closeServer = new Promise<void>(resolve => {
+        if (!server) return resolve();
+        server.close(() => resolve());
     });
+
+    closeServer
+        .then(() => disconnectDatabase())
+        .then(() => console.log('💥 Process terminated!'))
+        .catch((err: Error) => console.error('Shutdown error:', err.message));
 });
 
-export default server;
+export { server };
@@ -0,0 +1,211 @@
+/**
+ * API Key Service - TypeScript
+ * Create, verify, rotate and rate-limit API keys
+ */
+
+import crypto from 'crypto';
+import apiKeyModel from '@models/apiKeyModel';
+import SecretsManager from '@utils/secrets';
+import SanitizeHelper from '@utils/sanitize';
+import AppError from '@utils/appError';
+import logger from '@utils/logger';
+import { isPermission } from '@config/permissions';
+import permissionService from './permissionService';
+import { ApiKeyInfo, IApiKey, IApiKeyInput, IUserPayload, Permission } from '@types';
+
+// Keys look like "mk_<prefix>_<secret>"; only the prefix is stored in clear
+const KEY_PATTERN = /^mk_([a-f0-9]{12})_([A-Za-z0-9_-]{43})$/;
+
+const DEFAULT_RATE_LIMIT = 60;
+const MAX_RATE_LIMIT = 10000;
+const RATE_WINDOW_MS = 60 * 1000;
+
+// pbkdf2 is deliberately slow, so remember recent successful checks
+const VERIFY_CACHE_TTL_MS = 60 * 1000;
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+class ApiKeyService {
+    private readonly verified: Map<string, { digest: string; expiresAt: number }> = new Map();
+    private readonly windows: Map<string, { start: number; count: number }> = new Map();
+    private readonly lastUsedWrites: Map<string, number> = new Map();
+
+    /**
+     * Strip the secret hash before a key leaves the service
+     */
+    public toInfo(apiKey: IApiKey): ApiKeyInfo {
+        const { hash: _hash, salt: _salt, ...info } = apiKey;
+        return info;
+    }
+
+    private generateKey(): { prefix: string; secret: string; key: string } {
+        const prefix = SecretsManager.generateKey(6);
+        const secret = SecretsManager.generateToken(32);
+        return { prefix, secret, key: `mk_${prefix}_${secret}` };
+    }
+
+    private digest(secret: string): string {
+        return crypto.createHash('sha256').update(secret).digest('hex');
+    }
+
+    private forget(prefix: string): void {
+        this.verified.delete(prefix);
+    }
+
+    /**
+     * Validate and normalise create input; keys never get scopes their creator lacks
+     */
+    private async parseInput(input: Partial<IApiKeyInput>, creator: IUserPayload): Promise<IApiKeyInput> {
+        const errors: string[] = [];
+        const name = SanitizeHelper.whitespace(SanitizeHelper.stripHtml(String(input.name || '')));
+        if (!name) errors.push('name is required');
+
+        const scopes = Array.isArray(input.scopes) ? [...new Set(input.scopes)] : [];
+        if (scopes.length === 0) errors.push('At least one scope is required');
+        scopes.filter(scope => !isPermission(scope)).forEach(scope => errors.push(`Unknown scope: ${scope}`));
+
+        const rateLimit = input.rateLimit === undefined ? DEFAULT_RATE_LIMIT : Number(input.rateLimit);
+        if (!Number.isInteger(rateLimit) || rateLimit < 1 || rateLimit > MAX_RATE_LIMIT) {
+            errors.push(`rateLimit must be an integer between 1 and ${MAX_RATE_LIMIT}`);
+        }
+
+        let expiresAt: Date | null = null;
+        if (input.expiresAt) {
+            expiresAt = new Date(input.expiresAt);
+            if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+                errors.push('expiresAt must be a future date');
+            }
+        }
+
+        if (errors.length > 0) {
+            throw AppError.validation(errors);
+        }
+
+        if (!(await permissionService.hasPermissions(creator.role, scopes as Permission[]))) {
+            throw AppError.forbidden('You cannot grant scopes you do not have');
+        }
+
+        return { name, scopes: scopes as Permission[], rateLimit, expiresAt };
+    }
+
+    /**
+     * Every key, newest first
+     */
+    public async list(): Promise<ApiKeyInfo[]> {
+        const keys = await apiKeyModel.find({}, { sort: { field: 'createdAt', order: 'desc' } });
+        return keys.map(apiKey => this.toInfo(apiKey));
+    }
+
+    /**
+     * Create a key; the plain key is returned here and never again
+     */
+    public async create(
+        input: Partial<IApiKeyInput>,
+        creator: IUserPayload
+    ): Promise<{ apiKey: ApiKeyInfo; key: string }> {
+        const { name, scopes, rateLimit, expiresAt } = await this.parseInput(input, creator);
+        const { prefix, secret, key } = this.generateKey();
+        const { hash, salt } = SecretsManager.hash(secret);
+
+        const apiKey = await apiKeyModel.create({
+            name,
+            prefix,
+            hash,
+            salt,
+            scopes,
+            rateLimit: rateLimit!,
+            createdBy: creator.id,
+            ...(expiresAt && { expiresAt: new Date(expiresAt) }),
+        });
+
+        logger.info('API key created', { apiKeyId: apiKey.id, createdBy: creator.id });
+        return { apiKey: this.toInfo(apiKey), key };
+    }
+
+    private async findActive(id: string): Promise<IApiKey> {
+        const apiKey = await apiKeyModel.findById(id);
+        if (!apiKey || apiKey.revokedAt) {
+            throw AppError.notFound('API key not found');
+        }
+        return apiKey;
+    }
+
+    /**
+     * Revoke a key immediately
+     */
+    public async revoke(id: string): Promise<void> {
+        const apiKey = await this.findActive(id);
+        await apiKeyModel.update(apiKey.id, { revokedAt: new Date() });
+        this.forget(apiKey.prefix);
+        logger.info('API key revoked', { apiKeyId: apiKey.id });
+    }
+
+    /**
+     * Replace the key material, keeping name, scopes and limits
+     */
+    public async rotate(id: string): Promise<{ apiKey: ApiKeyInfo; key: string }> {
+        const existing = await this.findActive(id);
+        const { prefix, secret, key } = this.generateKey();
+        const { hash, salt } = SecretsManager.hash(secret);
+
+        const apiKey = await apiKeyModel.update(existing.id, { prefix, hash, salt });
+        this.forget(existing.prefix);
+
+        logger.info('API key rotated', { apiKeyId: existing.id });
+        return { apiKey: this.toInfo(apiKey!), key };
+    }
+
+    /**
+     * Resolve a presented key to an active record, or null
+     */
+    public async authenticate(rawKey: string): Promise<IApiKey | null> {
+        const match = KEY_PATTERN.exec(rawKey || '');
+        if (!match) return null;
+
+        const [, prefix, secret] = match as unknown as [string, string, string];
+        const apiKey = await apiKeyModel.findOne({ prefix });
+        if (!apiKey || apiKey.revokedAt) return null;
+        if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now()) return null;
+
+        const digest = this.digest(secret);
+        const cached = this.verified.get(prefix);
+        const isCached = !!cached && cached.expiresAt > Date.now() && SecretsManager.safeCompare(cached.digest, digest);
+
+        if (!isCached) {
+            if (!SecretsManager.verifyHash(secret, apiKey.hash, apiKey.salt)) return null;
+            this.verified.set(prefix, { digest, expiresAt: Date.now() + VERIFY_CACHE_TTL_MS });
+        }
+
+        await this.touch(apiKey);
+        return apiKey;
+    }
+
+    private async touch(apiKey: IApiKey): Promise<void> {
+        const now = Date.now();
+        if (now - (this.lastUsedWrites.get(apiKey.id) || 0) < LAST_USED_INTERVAL_MS) return;
+
+        this.lastUsedWrites.set(apiKey.id, now);
+        await apiKeyModel.update(apiKey.id, { lastUsedAt: new Date(now) });
+    }
+
+    /**
+     * Count a request against the key's per-minute limit
+     */
+    public consumeRateLimit(apiKey: IApiKey): { allowed: boolean; remaining: number; resetAt: number } {
+        const now = Date.now();
+        let window = this.windows.get(apiKey.id);
+
+        if (!window || now - window.start >= RATE_WINDOW_MS) {
+            window = { start: now, count: 0 };
+            this.windows.set(apiKey.id, window);
+        }
+
+        window.count += 1;
+        return {
+            allowed: window.count <= apiKey.rateLimit,
+            remaining: Math.max(apiKey.rateLimit - window.count, 0),
+            resetAt: window.start + RATE_WINDOW_MS,
+        };
+    }
+}
+
+export default new ApiKeyService();
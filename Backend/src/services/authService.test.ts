@@ -0,0 +1,85 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import authService from './authService';
+import sessionService from './sessionService';
+import userModel from '@models/userModel';
+import JWTHelper from '@utils/jwt';
+import AppError from '@utils/appError';
+import { createUser, prepareDatabase, signIn } from '../test/helpers';
+
+const isUnauthorized = (error: AppError) => error.statusCode === 401;
+
+const accessRevoked = (accessToken: string) => authService.isRevoked(JWTHelper.verifyAccessToken(accessToken));
+
+describe('authService tokens', () => {
+    before(prepareDatabase);
+
+    describe('refresh', () => {
+        it('rotates the refresh token within the same session', async () => {
+            const user = await createUser();
+            const first = await signIn(user);
+
+            const second = await authService.refresh(first.refreshToken);
+            const payload = JWTHelper.verifyRefreshToken(second.refreshToken!);
+
+            assert.notEqual(second.refreshToken, first.refreshToken);
+            assert.equal(payload.family, JWTHelper.verifyRefreshToken(first.refreshToken).family);
+            assert.ok(await authService.refresh(second.refreshToken!));
+        });
+
+        it('revokes the whole family when a used refresh token comes back', async () => {
+            const user = await createUser();
+            const first = await signIn(user);
+            const second = await authService.refresh(first.refreshToken);
+
+            await assert.rejects(authService.refresh(first.refreshToken), isUnauthorized);
+            await assert.rejects(authService.refresh(second.refreshToken!), isUnauthorized);
+            assert.equal(await accessRevoked(second.accessToken), true);
+
+            const family = JWTHelper.verifyRefreshToken(first.refreshToken).family!;
+            assert.ok((await sessionService.findBySessionId(family))?.revokedAt);
+        });
+
+        it('refuses banned users', async () => {
+            const user = await createUser();
+            const { refreshToken } = await signIn(user);
+            await userModel.update(user.id, { bannedAt: new Date() });
+
+            await assert.rejects(authService.refresh(refreshToken), isUnauthorized);
+        });
+    });
+
+    describe('revocation', () => {
+        it('logout ends only that session', async () => {
+            const user = await createUser();
+            const phone = await signIn(user);
+            const laptop = await signIn(user);
+
+            await authService.logout(phone.refreshToken);
+
+            assert.equal(await accessRevoked(phone.accessToken), true);
+            assert.equal(await accessRevoked(laptop.accessToken), false);
+        });
+
+        it('logoutAll revokes tokens issued in the same second and spares later ones', async () => {
+            const user = await createUser();
+            const before = await signIn(user);
+
+            await authService.logoutAll(user.id);
+            const after = await signIn((await userModel.findById(user.id))!);
+
+            assert.equal(await accessRevoked(before.accessToken), true);
+            await assert.rejects(authService.refresh(before.refreshToken), isUnauthorized);
+            assert.equal(await accessRevoked(after.accessToken), false);
+            assert.ok(await authService.refresh(after.refreshToken));
+        });
+
+        it('revokes the tokens of deleted users', async () => {
+            const user = await createUser();
+            const { accessToken } = await signIn(user);
+            await userModel.delete(user.id);
+
+            assert.equal(await accessRevoked(accessToken), true);
+        });
+    });
+});
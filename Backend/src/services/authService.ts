@@ -0,0 +1,402 @@
+/**
+ * Auth Service - TypeScript
+ * Registration, login and token issuing
+ */
+
+import userModel from '@models/userModel';
+import PasswordHelper from '@utils/password';
+import JWTHelper from '@utils/jwt';
+import SanitizeHelper from '@utils/sanitize';
+import AppError from '@utils/appError';
+import config from '@config/env';
+import logger from '@utils/logger';
+import { getTokenStore } from './tokenStore';
+import permissionService from './permissionService';
+import oneTimeTokenService from './oneTimeTokenService';
+import mailService from './mailService';
+import mfaService from './mfaService';
+import sessionService from './sessionService';
+import {
+    IAuthResponse,
+    ILoginCredentials,
+    IMfaChallenge,
+    IRegisterData,
+    ISessionContext,
+    ITokenPayload,
+    IUser,
+    PublicUser,
+} from '@types';
+
+class AuthService {
+    /**
+     * Strip the password hash and MFA secrets before a user leaves the service
+     */
+    public toPublicUser(user: IUser): PublicUser {
+        const { password: _password, mfa, tokenVersion: _tokenVersion, ...publicUser } = user;
+        return { ...publicUser, mfaEnabled: !!mfa?.enabled };
+    }
+
+    /**
+     * Public user with the permissions of their role attached
+     */
+    public async withPermissions(user: IUser): Promise<PublicUser> {
+        return {
+            ...this.toPublicUser(user),
+            permissions: await permissionService.getPermissions(user.role),
+        };
+    }
+
+    /**
+     * Issue an access/refresh token pair for a user. Without a family this is a
+     * new login and starts a session; with one it rotates that session.
+     */
+    public async issueTokens(user: IUser, family?: string, context: ISessionContext = {}): Promise<IAuthResponse> {
+        const sessionId = family || sessionService.generateId();
+        const { accessToken, refreshToken } = JWTHelper.generateTokenPair({
+            userId: user.id,
+            email: user.email,
+            role: user.role,
+            family: sessionId,
+            ver: user.tokenVersion ?? 0,
+        });
+
+        const expiresAt = new Date((JWTHelper.decode(refreshToken)?.exp || 0) * 1000);
+        if (family) {
+            await sessionService.touch(sessionId, context, expiresAt);
+        } else {
+            await sessionService.create(user.id, sessionId, expiresAt, context);
+        }
+
+        return {
+            user: await this.withPermissions(user),
+            accessToken,
+            refreshToken,
+        };
+    }
+
+    /**
+     * Register a new user account (no tokens until verified when verification is required)
+     */
+    public async register(
+        data: IRegisterData,
+        context: ISessionContext = {}
+    ): Promise<IAuthResponse | Pick<IAuthResponse, 'user'>> {
+        const email = SanitizeHelper.email(data.email || '');
+        const name = SanitizeHelper.whitespace(data.name || '');
+
+        if (!email || !name || !data.password) {
+            throw AppError.badRequest('Email, password and name are required');
+        }
+
+        const strength = PasswordHelper.validateStrength(data.password);
+        if (!strength.valid) {
+            throw AppError.validation(strength.errors, 'Password is too weak');
+        }
+
+        if (await userModel.findOne({ email })) {
+            throw AppError.conflict('Email is already registered');
+        }
+
+        const user = await userModel.create({
+            email,
+            name,
+            password: await PasswordHelper.hash(data.password),
+            role: 'user',
+            isVerified: false,
+        });
+
+        logger.info('User registered', { userId: user.id });
+        await this.sendVerification(user);
+
+        if (config.auth.requireEmailVerification) {
+            return { user: await this.withPermissions(user) };
+        }
+        return this.issueTokens(user, undefined, context);
+    }
+
+    /**
+     * Authenticate with email and password; MFA accounts get a challenge instead of tokens
+     */
+    public async login(
+        credentials: ILoginCredentials,
+        context: ISessionContext = {}
+    ): Promise<IAuthResponse | IMfaChallenge> {
+        if (!credentials.email || !credentials.password) {
+            throw AppError.badRequest('Email and password are required');
+        }
+
+        const user = await userModel.findOne({ email: SanitizeHelper.email(credentials.email) });
+
+        // Same message for unknown email and wrong password
+        if (!user || !(await PasswordHelper.compare(credentials.password, user.password))) {
+            throw AppError.unauthorized('Invalid email or password');
+        }
+
+        if (user.bannedAt) {
+            throw AppError.forbidden('This account has been suspended');
+        }
+
+        if (config.auth.requireEmailVerification && !user.isVerified) {
+            throw AppError.forbidden('Please verify your email address before logging in');
+        }
+
+        if (user.mfa?.enabled) {
+            return {
+                mfaRequired: true,
+                mfaToken: JWTHelper.generateMfaToken({ userId: user.id, email: user.email, role: user.role }),
+            };
+        }
+
+        return this.issueTokens(user, undefined, context);
+    }
+
+    /**
+     * Second login step: exchange an MFA challenge and a TOTP or recovery code for tokens
+     */
+    public async verifyMfa(mfaToken: string, code: string, context: ISessionContext = {}): Promise<IAuthResponse> {
+        if (!mfaToken || !code) {
+            throw AppError.badRequest('MFA token and code are required');
+        }
+
+        let payload: ITokenPayload;
+        try {
+            payload = JWTHelper.verifyMfaToken(mfaToken);
+        } catch (error) {
+            throw AppError.unauthorized((error as Error).message);
+        }
+
+        const user = await userModel.findById(payload.userId);
+        if (!user || !(await mfaService.verifyCode(user, code))) {
+            throw AppError.unauthorized('Invalid authentication code');
+        }
+        if (user.bannedAt) {
+            throw AppError.forbidden('This account has been suspended');
+        }
+
+        return this.issueTokens(user, undefined, context);
+    }
+
+    /**
+     * Issue a verification token and email it to the user
+     */
+    public async sendVerification(user: IUser): Promise<void> {
+        const token = await oneTimeTokenService.issue(
+            user.id,
+            'email_verification',
+            config.auth.verificationTokenTtlMs
+        );
+        await mailService.sendVerificationEmail(user, token);
+    }
+
+    /**
+     * Mark the owner of a verification token as verified
+     */
+    public async verifyEmail(token: string): Promise<PublicUser> {
+        const userId = await oneTimeTokenService.consume(token, 'email_verification');
+        const user = await userModel.update(userId, { isVerified: true });
+        if (!user) {
+            throw AppError.badRequest('Invalid or expired token');
+        }
+
+        logger.info('Email verified', { userId });
+        return this.withPermissions(user);
+    }
+
+    /**
+     * Send a new verification link; silent for unknown or verified emails
+     */
+    public async resendVerification(email: string): Promise<void> {
+        if (!email) {
+            throw AppError.badRequest('Email is required');
+        }
+
+        const user = await userModel.findOne({ email: SanitizeHelper.email(email) });
+        if (!user || user.isVerified) return;
+
+        await this.sendVerification(user);
+    }
+
+    /**
+     * Email a password reset link; silent for unknown emails
+     */
+    public async forgotPassword(email: string): Promise<void> {
+        if (!email) {
+            throw AppError.badRequest('Email is required');
+        }
+
+        const user = await userModel.findOne({ email: SanitizeHelper.email(email) });
+        if (!user) return;
+
+        const token = await oneTimeTokenService.issue(
+            user.id,
+            'password_reset',
+            config.auth.passwordResetTokenTtlMs
+        );
+        await mailService.sendPasswordResetEmail(user, token);
+    }
+
+    /**
+     * Set a new password from a reset token and revoke every session
+     */
+    public async resetPassword(token: string, password: string): Promise<void> {
+        if (!token || !password) {
+            throw AppError.badRequest('Token and password are required');
+        }
+
+        const strength = PasswordHelper.validateStrength(password);
+        if (!strength.valid) {
+            throw AppError.validation(strength.errors, 'Password is too weak');
+        }
+
+        const userId = await oneTimeTokenService.consume(token, 'password_reset');
+        // Opening the emailed link also proves ownership of the address
+        const user = await userModel.update(userId, {
+            password: await PasswordHelper.hash(password),
+            isVerified: true,
+        });
+        if (!user) {
+            throw AppError.badRequest('Invalid or expired token');
+        }
+
+        await this.logoutAll(userId);
+        logger.info('Password reset', { userId });
+    }
+
+    /**
+     * Verify a refresh token and reject revoked families or users
+     */
+    private async verifyRefreshToken(refreshToken: string): Promise<ITokenPayload> {
+        if (!refreshToken) {
+            throw AppError.badRequest('Refresh token is required');
+        }
+
+        let payload: ITokenPayload;
+        try {
+            payload = JWTHelper.verifyRefreshToken(refreshToken);
+        } catch (error) {
+            throw AppError.unauthorized((error as Error).message);
+        }
+
+        if (!payload.jti || !payload.family || await this.isRevoked(payload)) {
+            throw AppError.unauthorized('Invalid refresh token');
+        }
+
+        return payload;
+    }
+
+    private tokenExpiry(payload: ITokenPayload): Date {
+        return new Date((payload.exp || 0) * 1000);
+    }
+
+    /**
+     * A family can hold tokens issued up to now, so keep its revocation
+     * for one full token lifetime from now
+     */
+    private familyExpiry(payload: ITokenPayload): Date {
+        const lifetimeMs = ((payload.exp || 0) - (payload.iat || 0)) * 1000;
+        return new Date(Date.now() + lifetimeMs);
+    }
+
+    /**
+     * Whether a token's family has been revoked, or its user's tokens since it was issued
+     */
+    public async isRevoked(payload: ITokenPayload): Promise<boolean> {
+        if (payload.family && await getTokenStore().isFamilyRevoked(payload.family)) {
+            return true;
+        }
+
+        const user = await userModel.findById(payload.userId);
+        return !user || (payload.ver ?? 0) !== (user.tokenVersion ?? 0);
+    }
+
+    /**
+     * Rotate a refresh token; a reused token revokes its whole family
+     */
+    public async refresh(refreshToken: string, context: ISessionContext = {}): Promise<IAuthResponse> {
+        const payload = await this.verifyRefreshToken(refreshToken);
+        const store = getTokenStore();
+
+        // Sessions outlive the in-memory token store across restarts
+        const session = await sessionService.findBySessionId(payload.family!);
+        if (session?.revokedAt) {
+            throw AppError.unauthorized('Session has been revoked');
+        }
+
+        if (!(await store.consume(payload.jti!, this.tokenExpiry(payload)))) {
+            await store.revokeFamily(payload.family!, this.familyExpiry(payload));
+            await sessionService.markRevoked(payload.family!);
+            logger.warn('Refresh token reuse detected, family revoked', {
+                userId: payload.userId,
+                family: payload.family,
+            });
+            throw AppError.unauthorized('Refresh token has already been used');
+        }
+
+        const user = await userModel.findById(payload.userId);
+        if (!user || user.bannedAt) {
+            throw AppError.unauthorized('Invalid refresh token');
+        }
+
+        return this.issueTokens(user, payload.family, context);
+    }
+
+    /**
+     * Revoke the session a refresh token belongs to
+     */
+    public async logout(refreshToken: string): Promise<void> {
+        const payload = await this.verifyRefreshToken(refreshToken);
+        await getTokenStore().revokeFamily(payload.family!, this.familyExpiry(payload));
+        await sessionService.markRevoked(payload.family!);
+    }
+
+    /**
+     * Revoke every session of a user
+     */
+    public async logoutAll(userId: string): Promise<void> {
+        const user = await userModel.findById(userId);
+        if (user) {
+            await userModel.update(userId, { tokenVersion: (user.tokenVersion ?? 0) + 1 });
+        }
+        await sessionService.revokeAll(userId);
+        logger.info('All sessions revoked', { userId });
+    }
+
+    /**
+     * Load the profile of an authenticated user
+     */
+    public async getProfile(userId: string): Promise<PublicUser> {
+        const user = await userModel.findById(userId);
+        if (!user) {
+            throw AppError.notFound('User not found');
+        }
+        return this.withPermissions(user);
+    }
+
+    /**
+     * Create the initial admin account from ADMIN_* env vars
+     */
+    public async seedAdmin(): Promise<void> {
+        const { email, password, name } = config.admin;
+        if (!email || !password) return;
+
+        if (await userModel.findOne({ email: SanitizeHelper.email(email) })) return;
+
+        const strength = PasswordHelper.validateStrength(password);
+        if (!strength.valid) {
+            logger.warn('ADMIN_PASSWORD is too weak, admin account not created', strength.errors);
+            return;
+        }
+
+        await userModel.create({
+            email: SanitizeHelper.email(email),
+            name,
+            password: await PasswordHelper.hash(password),
+            role: 'admin',
+            isVerified: true,
+        });
+
+        logger.info('Admin account created', { email });
+    }
+}
+
+export default new AuthService();
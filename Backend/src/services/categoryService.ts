@@ -0,0 +1,103 @@
+/**
+ * Category Service - TypeScript
+ * Product categories
+ */
+
+import categoryModel from '@models/categoryModel';
+import productModel from '@models/productModel';
+import SanitizeHelper from '@utils/sanitize';
+import AppError from '@utils/appError';
+import logger from '@utils/logger';
+import { ICategory, ICategoryInput } from '@types';
+
+class CategoryService {
+    private async loadCategory(id: string): Promise<ICategory> {
+        const category = await categoryModel.findById(String(id || ''));
+        if (!category) {
+            throw AppError.notFound('Category not found');
+        }
+        return category;
+    }
+
+    /**
+     * Validate create/update input against the current record, if any
+     */
+    private async parseInput(input: Partial<ICategoryInput>, existing?: ICategory): Promise<Partial<ICategory>> {
+        const name = SanitizeHelper.whitespace(SanitizeHelper.stripHtml(String(input.name ?? existing?.name ?? '')));
+        const slug = SanitizeHelper.slug(String(input.slug || (input.name !== undefined ? name : existing?.slug) || ''));
+        const errors: string[] = [];
+
+        if (!name) errors.push('name is required');
+        if (!slug) errors.push('slug must contain letters or digits');
+        if (errors.length > 0) {
+            throw AppError.validation(errors);
+        }
+
+        const taken = await categoryModel.findOne({ slug });
+        if (taken && taken.id !== existing?.id) {
+            throw AppError.conflict(`Category slug "${slug}" is already in use`);
+        }
+
+        const changes: Partial<ICategory> = { name, slug };
+        if (input.description !== undefined) {
+            changes.description = SanitizeHelper.whitespace(SanitizeHelper.stripHtml(String(input.description || '')));
+        }
+        if (input.parentId !== undefined) {
+            changes.parentId = input.parentId ? (await this.loadCategory(input.parentId)).id : undefined;
+            if (existing && changes.parentId === existing.id) {
+                throw AppError.badRequest('A category cannot be its own parent');
+            }
+        }
+        return changes;
+    }
+
+    /**
+     * Every category, alphabetical
+     */
+    public async list(): Promise<ICategory[]> {
+        return categoryModel.find({}, { sort: { field: 'name', order: 'asc' } });
+    }
+
+    /**
+     * Resolve a category by slug or id, or null
+     */
+    public async resolve(slugOrId: string): Promise<ICategory | null> {
+        return (await categoryModel.findOne({ slug: slugOrId })) || categoryModel.findById(slugOrId);
+    }
+
+    public async get(id: string): Promise<ICategory> {
+        return this.loadCategory(id);
+    }
+
+    public async create(input: Partial<ICategoryInput>): Promise<ICategory> {
+        const changes = await this.parseInput(input);
+        const category = await categoryModel.create(changes as ICategory);
+        logger.info('Category created', { categoryId: category.id });
+        return category;
+    }
+
+    public async update(id: string, input: Partial<ICategoryInput>): Promise<ICategory> {
+        const existing = await this.loadCategory(id);
+        const category = await categoryModel.update(existing.id, await this.parseInput(input, existing));
+        return category!;
+    }
+
+    /**
+     * Delete an empty category; products and subcategories must be moved first
+     */
+    public async delete(id: string): Promise<void> {
+        const category = await this.loadCategory(id);
+
+        if (await productModel.count({ categoryId: category.id }) > 0) {
+            throw AppError.conflict('Category still has products');
+        }
+        if (await categoryModel.count({ parentId: category.id }) > 0) {
+            throw AppError.conflict('Category still has subcategories');
+        }
+
+        await categoryModel.delete(category.id);
+        logger.info('Category deleted', { categoryId: category.id });
+    }
+}
+
+export default new CategoryService();
@@ -0,0 +1,110 @@
+/**
+ * Mail Service - TypeScript
+ * Pluggable mail transport; the default writes .eml files to disk
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import config from '@config/env';
+import SecretsManager from '@utils/secrets';
+import SanitizeHelper from '@utils/sanitize';
+import logger from '@utils/logger';
+import { IMailMessage, IMailTransport, IUser } from '@types';
+
+/**
+ * Writes every message as an RFC 5322 file under EMAIL_OUTPUT_DIR
+ */
+export class FileMailTransport implements IMailTransport {
+    constructor(private readonly outputDir: string) { }
+
+    public async send(message: IMailMessage & { from: string }): Promise<void> {
+        const boundary = `----=_${SecretsManager.generateKey(12)}`;
+        const messageId = `${SecretsManager.generateKey(16)}@${message.from.split('@')[1] || 'localhost'}`;
+
+        const lines = [
+            `From: ${message.from}`,
+            `To: ${message.to}`,
+            `Subject: ${message.subject}`,
+            `Date: ${new Date().toUTCString()}`,
+            `Message-ID: <${messageId}>`,
+            'MIME-Version: 1.0',
+        ];
+
+        if (message.html) {
+            lines.push(
+                `Content-Type: multipart/alternative; boundary="${boundary}"`,
+                '',
+                `--${boundary}`,
+                'Content-Type: text/plain; charset=utf-8',
+                '',
+                message.text,
+                `--${boundary}`,
+                'Content-Type: text/html; charset=utf-8',
+                '',
+                message.html,
+                `--${boundary}--`
+            );
+        } else {
+            lines.push('Content-Type: text/plain; charset=utf-8', '', message.text);
+        }
+
+        await fs.mkdir(this.outputDir, { recursive: true });
+        const file = path.join(this.outputDir, `${Date.now()}-${messageId.split('@')[0]}.eml`);
+        await fs.writeFile(file, lines.join('\r\n'));
+        logger.info('Email written to disk', { to: message.to, subject: message.subject, file });
+    }
+}
+
+let transport: IMailTransport = new FileMailTransport(path.resolve(config.email.outputDir));
+
+/**
+ * Active transport (file transport unless replaced)
+ */
+export const getMailTransport = (): IMailTransport => transport;
+
+/**
+ * Swap the transport, e.g. for an SMTP or provider-backed implementation
+ */
+export const setMailTransport = (next: IMailTransport): void => {
+    transport = next;
+};
+
+class MailService {
+    /**
+     * Send a message from the configured sender
+     */
+    public async send(message: IMailMessage): Promise<void> {
+        await getMailTransport().send({ ...message, from: config.email.from });
+    }
+
+    /**
+     * Send the email verification link
+     */
+    public async sendVerificationEmail(user: IUser, token: string): Promise<void> {
+        const link = `${config.appUrl}/admin/auth/verify-email?token=${encodeURIComponent(token)}`;
+
+        await this.send({
+            to: user.email,
+            subject: 'Verify your email address',
+            text: `Hi ${user.name},\n\nConfirm your email address by opening this link:\n${link}\n\nIf you did not create an account, ignore this email.`,
+            html: `<p>Hi ${SanitizeHelper.stripHtml(user.name)},</p><p>Confirm your email address by opening this link:</p><p><a href="${link}">${link}</a></p><p>If you did not create an account, ignore this email.</p>`,
+        });
+    }
+
+    /**
+     * Send the password reset link
+     */
+    public async sendPasswordResetEmail(user: IUser, token: string): Promise<void> {
+        const link = `${config.appUrl}/admin/auth/reset-password?token=${encodeURIComponent(token)}`;
+        const minutes = Math.round(config.auth.passwordResetTokenTtlMs / 60000);
+
+        await this.send({
+            to: user.email,
+            subject: 'Reset your password',
+            text: `Hi ${user.name},\n\nSet a new password by opening this link within ${minutes} minutes:\n${link}\n\nIf you did not request a password reset, ignore this email.`,
+            html: `<p>Hi ${SanitizeHelper.stripHtml(user.name)},</p><p>Set a new password by opening this link within ${minutes} minutes:</p><p><a href="${link}">${link}</a></p><p>If you did not request a password reset, ignore this email.</p>`,
+        });
+    }
+}
+
+export default new MailService();
@@ -0,0 +1,85 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import mfaService from './mfaService';
+import authService from './authService';
+import userModel from '@models/userModel';
+import TOTPHelper from '@utils/totp';
+import AppError from '@utils/appError';
+import { createUser, prepareDatabase, TEST_PASSWORD } from '../test/helpers';
+import { IMfaChallenge, IUser } from '@types';
+
+/**
+ * Admin with MFA enabled; the current step is already used by enrolment
+ */
+const enrolledAdmin = async (): Promise<{ user: IUser; secret: string; recoveryCodes: string[] }> => {
+    const user = await createUser('admin');
+    const { secret } = await mfaService.setup(user.id);
+    const recoveryCodes = await mfaService.enable(user.id, TOTPHelper.generate(secret));
+    return { user: (await userModel.findById(user.id))!, secret, recoveryCodes };
+};
+
+const nextCode = (secret: string) => TOTPHelper.generate(secret, TOTPHelper.step() + 1);
+
+describe('mfaService', () => {
+    before(prepareDatabase);
+
+    it('offers two-factor authentication to admin accounts only', async () => {
+        const customer = await createUser('user');
+        await assert.rejects(mfaService.setup(customer.id), (error: AppError) => error.statusCode === 403);
+    });
+
+    it('enrols with a code from the app and hands out recovery codes once', async () => {
+        const { user, recoveryCodes } = await enrolledAdmin();
+
+        assert.equal(user.mfa?.enabled, true);
+        assert.equal(recoveryCodes.length, 10);
+        assert.ok(recoveryCodes.every(code => /^[0-9a-f]{5}-[0-9a-f]{5}$/.test(code)));
+        assert.ok(user.mfa?.recoveryCodes.every(stored => !recoveryCodes.includes(stored.hash)));
+    });
+
+    it('asks for a second step at login and accepts each code once', async () => {
+        const { user, secret } = await enrolledAdmin();
+
+        const challenge = await authService.login({ email: user.email, password: TEST_PASSWORD }) as IMfaChallenge;
+        assert.equal(challenge.mfaRequired, true);
+
+        const code = nextCode(secret);
+        const session = await authService.verifyMfa(challenge.mfaToken, code);
+        assert.ok(session.accessToken);
+
+        await assert.rejects(
+            authService.verifyMfa(challenge.mfaToken, code),
+            (error: AppError) => error.statusCode === 401
+        );
+    });
+
+    it('accepts a TOTP code for only one of several concurrent requests', async () => {
+        const { user, secret } = await enrolledAdmin();
+        const code = nextCode(secret);
+
+        const results = await Promise.all([1, 2, 3].map(() => mfaService.verifyCode(user, code)));
+        assert.equal(results.filter(Boolean).length, 1);
+    });
+
+    it('spends a recovery code once, even when it is sent concurrently', async () => {
+        const { user, recoveryCodes } = await enrolledAdmin();
+        const code = recoveryCodes[0]!;
+
+        const results = await Promise.all([1, 2, 3].map(() => mfaService.verifyCode(user, ` ${code.toUpperCase()} `)));
+        assert.equal(results.filter(Boolean).length, 1);
+
+        const stored = await userModel.findById(user.id);
+        assert.equal(stored?.mfa?.recoveryCodes.length, 9);
+        assert.equal(await mfaService.verifyCode(stored!, code), false);
+        assert.equal(await mfaService.verifyCode(stored!, recoveryCodes[1]!), true);
+    });
+
+    it('turns off only with the password and a valid code', async () => {
+        const { user, secret } = await enrolledAdmin();
+
+        await assert.rejects(mfaService.disable(user.id, 'Wrong@12345', nextCode(secret)));
+        await mfaService.disable(user.id, TEST_PASSWORD, nextCode(secret));
+
+        assert.equal((await userModel.findById(user.id))?.mfa?.enabled, false);
+    });
+});
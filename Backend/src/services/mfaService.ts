@@ -0,0 +1,158 @@
+/**
+ * MFA Service - TypeScript
+ * TOTP enrolment, verification and recovery codes
+ */
+
+import userModel from '@models/userModel';
+import TOTPHelper from '@utils/totp';
+import SecretsManager from '@utils/secrets';
+import PasswordHelper from '@utils/password';
+import AppError from '@utils/appError';
+import config from '@config/env';
+import logger from '@utils/logger';
+import permissionService from './permissionService';
+import { IEncryptedData, IMfaSetup, IUser, IUserMfa } from '@types';
+
+const RECOVERY_CODE_COUNT = 10;
+
+class MfaService {
+    private decryptSecret(data: IEncryptedData): string {
+        return SecretsManager.decrypt(data.encrypted, data.iv, data.authTag);
+    }
+
+    private async loadUser(userId: string): Promise<IUser> {
+        const user = await userModel.findById(userId);
+        if (!user) {
+            throw AppError.notFound('User not found');
+        }
+        return user;
+    }
+
+    /**
+     * Recovery codes look like "a1b2c-3d4e5"
+     */
+    private generateRecoveryCodes(): string[] {
+        return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+            const code = SecretsManager.generateKey(5);
+            return `${code.slice(0, 5)}-${code.slice(5)}`;
+        });
+    }
+
+    /**
+     * Start enrolment: store an encrypted pending secret and return its provisioning URI
+     */
+    public async setup(userId: string): Promise<IMfaSetup> {
+        const user = await this.loadUser(userId);
+
+        if (!(await permissionService.hasPermissions(user.role, ['admin:access']))) {
+            throw AppError.forbidden('Two-factor authentication is available for admin accounts only');
+        }
+        if (user.mfa?.enabled) {
+            throw AppError.conflict('Two-factor authentication is already enabled');
+        }
+
+        const secret = TOTPHelper.generateSecret();
+        await userModel.update(user.id, {
+            mfa: {
+                enabled: false,
+                recoveryCodes: [],
+                pendingSecret: SecretsManager.encrypt(secret),
+            },
+        });
+
+        return {
+            secret,
+            otpauthUrl: TOTPHelper.provisioningUri(secret, user.email, config.auth.mfaIssuer),
+        };
+    }
+
+    /**
+     * Confirm enrolment with a code from the app; returns the plain recovery codes once
+     */
+    public async enable(userId: string, code: string): Promise<string[]> {
+        const user = await this.loadUser(userId);
+        const pendingSecret = user.mfa?.pendingSecret;
+
+        if (user.mfa?.enabled) {
+            throw AppError.conflict('Two-factor authentication is already enabled');
+        }
+        if (!pendingSecret) {
+            throw AppError.badRequest('Start two-factor setup first');
+        }
+
+        const step = TOTPHelper.verify(code, this.decryptSecret(pendingSecret));
+        if (step === null) {
+            throw AppError.badRequest('Invalid authentication code');
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        await userModel.update(user.id, {
+            mfa: {
+                enabled: true,
+                secret: pendingSecret,
+                recoveryCodes: recoveryCodes.map(recoveryCode => SecretsManager.hash(recoveryCode)),
+                lastStep: step,
+            },
+        });
+
+        logger.info('Two-factor authentication enabled', { userId });
+        return recoveryCodes;
+    }
+
+    /**
+     * Turn MFA off; requires the password and a current code
+     */
+    public async disable(userId: string, password: string, code: string): Promise<void> {
+        const user = await this.loadUser(userId);
+
+        if (!user.mfa?.enabled) {
+            throw AppError.badRequest('Two-factor authentication is not enabled');
+        }
+        if (!password || !(await PasswordHelper.compare(password, user.password))) {
+            throw AppError.unauthorized('Invalid password');
+        }
+        if (!(await this.verifyCode(user, code))) {
+            throw AppError.unauthorized('Invalid authentication code');
+        }
+
+        await userModel.update(user.id, { mfa: { enabled: false, recoveryCodes: [] } });
+        logger.info('Two-factor authentication disabled', { userId });
+    }
+
+    /**
+     * Check a TOTP or recovery code. Accepted TOTP steps and recovery codes
+     * cannot be used again.
+     */
+    public async verifyCode(user: IUser, code: string): Promise<boolean> {
+        const mfa = user.mfa;
+        if (!mfa?.enabled || !mfa.secret || typeof code !== 'string') return false;
+
+        const normalized = code.trim().toLowerCase();
+
+        // Compare-and-set against the MFA settings as read, so of two requests
+        // with the same code only the first gets to record it as used
+        const claim = async (next: IUserMfa): Promise<boolean> =>
+            !!(await userModel.updateOne({ id: user.id, mfa }, { mfa: next }));
+
+        if (/^\d{6}$/.test(normalized.replace(/\s/g, ''))) {
+            const step = TOTPHelper.verify(normalized, this.decryptSecret(mfa.secret));
+            if (step === null || (mfa.lastStep !== undefined && step <= mfa.lastStep)) {
+                return false;
+            }
+            return claim({ ...mfa, lastStep: step });
+        }
+
+        const index = mfa.recoveryCodes.findIndex(recoveryCode =>
+            SecretsManager.verifyHash(normalized, recoveryCode.hash, recoveryCode.salt)
+        );
+        if (index === -1) return false;
+
+        const recoveryCodes = mfa.recoveryCodes.filter((_, i) => i !== index);
+        if (!(await claim({ ...mfa, recoveryCodes }))) return false;
+
+        logger.warn('Recovery code used', { userId: user.id, remaining: recoveryCodes.length });
+        return true;
+    }
+}
+
+export default new MfaService();
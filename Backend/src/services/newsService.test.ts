@@ -0,0 +1,73 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import newsService from './newsService';
+import { actorOf, createUser, prepareDatabase } from '../test/helpers';
+import { IUserPayload } from '@types';
+
+describe('newsService', () => {
+    let admin: IUserPayload;
+    let editor: IUserPayload;
+
+    before(async () => {
+        await prepareDatabase();
+        admin = actorOf(await createUser('admin'));
+        editor = actorOf(await createUser('editor'));
+    });
+
+    describe('excerpt', () => {
+        it('follows the body while none is given', async () => {
+            const article = await newsService.create({ title: 'Opening day', body: '<p>Doors open at nine.</p>' }, editor);
+            assert.equal(article.excerpt, 'Doors open at nine.');
+
+            const edited = await newsService.update(article.id, { body: '<p>Doors open at ten.</p>' }, editor);
+            assert.equal(edited.excerpt, 'Doors open at ten.');
+        });
+
+        it('keeps one that was written, until it is cleared', async () => {
+            const article = await newsService.create(
+                { title: 'Sale', excerpt: 'Half price this week', body: '<p>Everything must go.</p>' },
+                editor
+            );
+
+            const edited = await newsService.update(article.id, { body: '<p>Most things must go.</p>' }, editor);
+            assert.equal(edited.excerpt, 'Half price this week');
+
+            const cleared = await newsService.update(article.id, { excerpt: '' }, editor);
+            assert.equal(cleared.excerpt, 'Most things must go.');
+            assert.equal(cleared.autoExcerpt, true);
+        });
+
+        it('stays out of the storefront shape', async () => {
+            const article = await newsService.create({ title: 'Hidden flag', body: '<p>Body</p>' }, editor);
+            assert.equal('autoExcerpt' in newsService.toPublic(article), false);
+        });
+    });
+
+    describe('revisions', () => {
+        it('folds one editor\'s draft saves into a single revision', async () => {
+            const article = await newsService.create({ title: 'Draft', body: '<p>One</p>' }, editor);
+            await newsService.update(article.id, { body: '<p>One two</p>' }, editor);
+            const latest = await newsService.update(article.id, { body: '<p>One two three</p>' }, editor);
+
+            assert.equal(latest.revision, 1);
+            const revisions = await newsService.listRevisions(article.id);
+            assert.equal(revisions.length, 1);
+            assert.equal(revisions[0]?.body, '<p>One two three</p>');
+        });
+
+        it('starts a new revision for another editor, a restore, or a live article', async () => {
+            const article = await newsService.create({ title: 'Shared', body: '<p>First</p>' }, editor);
+
+            const byAdmin = await newsService.update(article.id, { body: '<p>Second</p>' }, admin);
+            assert.equal(byAdmin.revision, 2);
+
+            const restored = await newsService.restoreRevision(article.id, 1, admin);
+            assert.equal(restored.revision, 3);
+            assert.equal(restored.body, '<p>First</p>');
+
+            await newsService.update(article.id, { status: 'published' }, admin);
+            const live = await newsService.update(article.id, { body: '<p>Third</p>' }, admin);
+            assert.equal(live.revision, 4);
+        });
+    });
+});
@@ -0,0 +1,496 @@
+/**
+ * News Service - TypeScript
+ * News articles: sanitized rich text, scheduled publishing and revision history
+ */
+
+import newsModel from '@models/newsModel';
+import newsRevisionModel from '@models/newsRevisionModel';
+import userModel from '@models/userModel';
+import SanitizeHelper from '@utils/sanitize';
+import PaginationHelper from '@utils/pagination';
+import DiffHelper from '@utils/diff';
+import AppError from '@utils/appError';
+import logger from '@utils/logger';
+import permissionService from './permissionService';
+import {
+    FilterQuery,
+    IDiffPart,
+    INewsArticle,
+    INewsContent,
+    INewsFilterQuery,
+    INewsInput,
+    INewsRevision,
+    INewsRevisionDiff,
+    IUserPayload,
+    NewsStatus,
+    PublicNewsArticle,
+} from '@types';
+
+const NEWS_STATUSES: NewsStatus[] = ['draft', 'scheduled', 'published', 'archived'];
+const SORTABLE_FIELDS: (keyof INewsArticle & string)[] = ['createdAt', 'updatedAt', 'publishedAt', 'publishAt', 'title'];
+// Files from POST /api/uploads/images are referenced by their served path
+const UPLOADED_IMAGE_PATTERN = /^\/uploads\/images\/[\w.-]+$/;
+const MAX_TITLE_LENGTH = 200;
+const MAX_EXCERPT_LENGTH = 300;
+const MAX_BODY_LENGTH = 200_000;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+const MAX_SEARCH_LENGTH = 100;
+const REVISION_HISTORY_LIMIT = 100;
+// Draft edits by one editor within this window (mostly autosaves) share a revision
+const REVISION_COALESCE_MS = 10 * 60_000;
+const SCHEDULER_INTERVAL_MS = 60_000;
+const CONTENT_FIELDS: (keyof INewsContent)[] = ['title', 'excerpt', 'body', 'coverImage', 'tags'];
+
+class NewsService {
+    private schedulerTimer?: NodeJS.Timeout;
+
+    /**
+     * Shape for the storefront
+     */
+    public toPublic(article: INewsArticle): PublicNewsArticle {
+        const {
+            authorId: _authorId,
+            revision: _revision,
+            publishAt: _publishAt,
+            autoExcerpt: _autoExcerpt,
+            ...publicArticle
+        } = article;
+        return publicArticle;
+    }
+
+    private parseId(id: string): string {
+        try {
+            return SanitizeHelper.objectId(String(id || ''));
+        } catch {
+            throw AppError.badRequest('Invalid article id');
+        }
+    }
+
+    private async loadArticle(id: string): Promise<INewsArticle> {
+        const article = await newsModel.findById(this.parseId(id));
+        if (!article) {
+            throw AppError.notFound('Article not found');
+        }
+        return article;
+    }
+
+    private async loadRevision(articleId: string, revision: unknown): Promise<INewsRevision> {
+        const number = Number(revision);
+        const found = Number.isSafeInteger(number)
+            ? await newsRevisionModel.findOne({ articleId, revision: number })
+            : null;
+        if (!found) {
+            throw AppError.notFound('Revision not found');
+        }
+        return found;
+    }
+
+    private text(value: unknown): string {
+        return SanitizeHelper.whitespace(SanitizeHelper.stripHtml(String(value ?? '')));
+    }
+
+    /**
+     * Readable text of sanitized HTML, for excerpts
+     */
+    private plainText(html: string): string {
+        return this.text(html.replace(/<\/(p|h\d|li|blockquote|figcaption)>|<br>/g, ' '))
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&#39;/g, "'")
+            .replace(/&nbsp;/g, ' ')
+            .replace(/&amp;/g, '&');
+    }
+
+    private async canPublish(actor: IUserPayload): Promise<boolean> {
+        return permissionService.hasPermissions(actor.role, ['news:publish']);
+    }
+
+    private parseCoverImage(value: unknown, errors: string[]): string | undefined {
+        if (value === null || value === undefined || value === '') return undefined;
+        if (UPLOADED_IMAGE_PATTERN.test(String(value))) return String(value);
+        try {
+            return SanitizeHelper.url(String(value));
+        } catch {
+            errors.push('coverImage must be an uploaded image or an http(s) URL');
+            return undefined;
+        }
+    }
+
+    private parseTags(value: unknown, errors: string[]): string[] {
+        if (!Array.isArray(value)) {
+            errors.push('tags must be a list');
+            return [];
+        }
+
+        const tags = [...new Set(value.map(tag => this.text(tag).toLowerCase()).filter(Boolean))];
+        if (tags.length > MAX_TAGS) errors.push(`An article can have at most ${MAX_TAGS} tags`);
+        if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) errors.push(`Tags can be at most ${MAX_TAG_LENGTH} characters`);
+        return tags;
+    }
+
+    /**
+     * Validate the editable content; updates merge over the existing article
+     */
+    private parseContent(input: Partial<INewsInput>, existing: INewsArticle | undefined, errors: string[]): INewsContent {
+        const title = input.title !== undefined ? this.text(input.title) : existing?.title || '';
+        if (!title) errors.push('title is required');
+        else if (title.length > MAX_TITLE_LENGTH) errors.push(`title can be at most ${MAX_TITLE_LENGTH} characters`);
+
+        const body = input.body !== undefined ? this.preview(input.body) : existing?.body || '';
+        if (!this.plainText(body) && !body.includes('<img')) errors.push('body is required');
+        else if (body.length > MAX_BODY_LENGTH) errors.push('body is too long');
+
+        // Without an excerpt the start of the body is used, and kept in step as the body changes.
+        // Articles saved before autoExcerpt existed keep the excerpt they have.
+        const givenExcerpt = input.excerpt !== undefined ? this.text(input.excerpt) : undefined;
+        if (givenExcerpt && givenExcerpt.length > MAX_EXCERPT_LENGTH) {
+            errors.push(`excerpt can be at most ${MAX_EXCERPT_LENGTH} characters`);
+        }
+        const autoExcerpt = givenExcerpt !== undefined ? !givenExcerpt : !existing || existing.autoExcerpt === true;
+        const excerpt = autoExcerpt
+            ? this.plainText(body).slice(0, MAX_EXCERPT_LENGTH)
+            : givenExcerpt || existing!.excerpt;
+
+        const coverImage = input.coverImage !== undefined
+            ? this.parseCoverImage(input.coverImage, errors)
+            : existing?.coverImage ?? undefined;
+
+        const tags = input.tags !== undefined ? this.parseTags(input.tags, errors) : existing?.tags || [];
+
+        return { title, excerpt, autoExcerpt, body, coverImage, tags };
+    }
+
+    /**
+     * Status and publish dates after a save
+     */
+    private parseSchedule(
+        input: Partial<INewsInput>,
+        existing: INewsArticle | undefined,
+        errors: string[]
+    ): Pick<INewsArticle, 'status' | 'publishAt' | 'publishedAt'> {
+        const status = input.status ?? existing?.status ?? 'draft';
+        if (!NEWS_STATUSES.includes(status)) {
+            errors.push(`status must be one of ${NEWS_STATUSES.join(', ')}`);
+            return { status: 'draft' };
+        }
+
+        if (status === 'scheduled') {
+            const value = input.publishAt !== undefined ? input.publishAt : existing?.publishAt;
+            const publishAt = value ? new Date(value) : undefined;
+            if (!publishAt || isNaN(publishAt.getTime())) {
+                errors.push('publishAt is required to schedule an article');
+            } else if (publishAt.getTime() <= Date.now()) {
+                errors.push('publishAt must be in the future');
+            }
+            return { status, publishAt, publishedAt: existing?.publishedAt ?? undefined };
+        }
+
+        return {
+            status,
+            publishAt: undefined,
+            // The first publication date is kept when an article is unpublished and published again
+            publishedAt: existing?.publishedAt ?? (status === 'published' ? new Date() : undefined),
+        };
+    }
+
+    /**
+     * Writers without news:publish may only work on drafts
+     */
+    private async assertCanSave(actor: IUserPayload, status: NewsStatus, existing?: INewsArticle): Promise<void> {
+        const touchesLive = status !== 'draft' || (existing !== undefined && existing.status !== 'draft');
+        if (touchesLive && !(await this.canPublish(actor))) {
+            throw AppError.forbidden('Only publishers can change scheduled, published or archived articles');
+        }
+    }
+
+    /**
+     * Pick a free slug; an explicit slug must be free, a generated one gets a suffix
+     */
+    private async uniqueSlug(requested: string, explicit: boolean, ignoreId?: string): Promise<string> {
+        let candidate = requested;
+        for (let suffix = 2; ; suffix++) {
+            const taken = await newsModel.findOne({ slug: candidate });
+            if (!taken || taken.id === ignoreId) return candidate;
+            if (explicit) {
+                throw AppError.conflict(`Article slug "${requested}" is already in use`);
+            }
+            candidate = `${requested}-${suffix}`;
+        }
+    }
+
+    private async resolveSlug(input: Partial<INewsInput>, title: string, existing?: INewsArticle): Promise<string> {
+        const explicit = input.slug !== undefined && input.slug !== '';
+        const source = explicit ? String(input.slug) : existing && input.title === undefined ? existing.slug : title;
+        const slug = SanitizeHelper.slug(source);
+        if (!slug) {
+            throw AppError.validation(['slug must contain letters or digits']);
+        }
+        // Published links keep working unless the slug is changed on purpose
+        if (existing && !explicit && existing.publishedAt) {
+            return existing.slug;
+        }
+        return this.uniqueSlug(slug, explicit, existing?.id);
+    }
+
+    private contentChanged(before: INewsContent, after: INewsContent): boolean {
+        return CONTENT_FIELDS.some(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null));
+    }
+
+    /**
+     * The latest revision, while it is a draft edit of the same editor recent
+     * enough to absorb this one; autosaves would otherwise flood the history
+     */
+    private async ongoingRevision(article: INewsArticle, actor: IUserPayload): Promise<INewsRevision | null> {
+        if (article.status !== 'draft') return null;
+
+        const latest = await newsRevisionModel.findOne({ articleId: article.id, revision: article.revision });
+        const isOngoing = !!latest
+            && latest.editedBy === actor.id
+            && !latest.note
+            && Date.now() - new Date(latest.createdAt).getTime() < REVISION_COALESCE_MS;
+        return isOngoing ? latest : null;
+    }
+
+    private async saveRevision(
+        article: INewsArticle,
+        content: INewsContent,
+        actor: IUserPayload,
+        note?: string
+    ): Promise<void> {
+        await newsRevisionModel.create({
+            articleId: article.id,
+            revision: article.revision,
+            ...content,
+            editedBy: actor.id,
+            editedByEmail: actor.email,
+            ...(note && { note }),
+        });
+    }
+
+    /**
+     * Paginated article list. The storefront only ever sees published articles.
+     */
+    public async list(
+        query: INewsFilterQuery,
+        publicOnly = false
+    ): Promise<{ articles: INewsArticle[]; page: number; limit: number; total: number }> {
+        const { page, limit, options } = PaginationHelper.parse<INewsArticle>(
+            query,
+            SORTABLE_FIELDS,
+            publicOnly ? 'publishedAt' : 'updatedAt'
+        );
+        const filter: FilterQuery<INewsArticle> = {};
+
+        if (publicOnly) {
+            filter.status = 'published';
+        } else if (query.status !== undefined) {
+            if (!NEWS_STATUSES.includes(query.status)) {
+                throw AppError.badRequest(`Unknown status: ${query.status}`);
+            }
+            filter.status = query.status;
+        }
+
+        const tag = this.text(query.tag).toLowerCase();
+        if (tag) filter.tags = tag;
+
+        // Adapters match the term literally (regex-escaped on MongoDB)
+        const term = this.text(query.search).slice(0, MAX_SEARCH_LENGTH);
+        const search = term ? { term, fields: ['title', 'excerpt'] as (keyof INewsArticle & string)[] } : undefined;
+
+        const [articles, total] = await Promise.all([
+            newsModel.find(filter, { ...options, search }),
+            newsModel.count(filter, search),
+        ]);
+
+        return { articles, page, limit, total };
+    }
+
+    /**
+     * Sanitize a body exactly as saving would, for live previews
+     */
+    public preview(body: unknown): string {
+        return SanitizeHelper.removeXSS(String(body ?? ''));
+    }
+
+    public async get(id: string): Promise<INewsArticle> {
+        return this.loadArticle(id);
+    }
+
+    /**
+     * Published article by slug (storefront)
+     */
+    public async getPublished(slug: string): Promise<PublicNewsArticle> {
+        const article = await newsModel.findOne({ slug: String(slug || ''), status: 'published' });
+        if (!article) {
+            throw AppError.notFound('Article not found');
+        }
+        return this.toPublic(article);
+    }
+
+    public async create(input: Partial<INewsInput>, actor: IUserPayload): Promise<INewsArticle> {
+        const errors: string[] = [];
+        const content = this.parseContent(input, undefined, errors);
+        const schedule = this.parseSchedule(input, undefined, errors);
+        if (errors.length > 0) {
+            throw AppError.validation(errors);
+        }
+        await this.assertCanSave(actor, schedule.status);
+
+        const author = await userModel.findById(actor.id);
+        const article = await newsModel.create({
+            ...content,
+            ...schedule,
+            slug: await this.resolveSlug(input, content.title),
+            authorId: actor.id,
+            authorName: author?.name || actor.email,
+            revision: 1,
+        });
+        await this.saveRevision(article, content, actor);
+
+        logger.info('Article created', { articleId: article.id, status: article.status, createdBy: actor.id });
+        return article;
+    }
+
+    /**
+     * Save changes; content changes start a new revision or extend the editor's ongoing draft one
+     */
+    public async update(id: string, input: Partial<INewsInput>, actor: IUserPayload, note?: string): Promise<INewsArticle> {
+        const existing = await this.loadArticle(id);
+
+        const errors: string[] = [];
+        const content = this.parseContent(input, existing, errors);
+        const schedule = this.parseSchedule(input, existing, errors);
+        if (errors.length > 0) {
+            throw AppError.validation(errors);
+        }
+        await this.assertCanSave(actor, schedule.status, existing);
+
+        const changed = this.contentChanged(existing, content);
+        const ongoing = changed && !note ? await this.ongoingRevision(existing, actor) : null;
+        const updated = await newsModel.update(existing.id, {
+            ...content,
+            ...schedule,
+            slug: await this.resolveSlug(input, content.title, existing),
+            revision: changed && !ongoing ? existing.revision + 1 : existing.revision,
+        });
+        if (ongoing) {
+            await newsRevisionModel.update(ongoing.id, content);
+        } else if (changed) {
+            await this.saveRevision(updated!, content, actor, note);
+        }
+
+        logger.info('Article updated', { articleId: existing.id, status: schedule.status, updatedBy: actor.id });
+        return updated!;
+    }
+
+    public async delete(id: string, actor: IUserPayload): Promise<void> {
+        const article = await this.loadArticle(id);
+        if (!(await this.canPublish(actor))) {
+            throw AppError.forbidden('Only publishers can delete articles');
+        }
+
+        await newsModel.delete(article.id);
+        await newsRevisionModel.deleteMany({ articleId: article.id });
+        logger.warn('Article deleted', { articleId: article.id, deletedBy: actor.id });
+    }
+
+    /**
+     * Saved revisions, newest first
+     */
+    public async listRevisions(id: string): Promise<INewsRevision[]> {
+        const article = await this.loadArticle(id);
+        return newsRevisionModel.find(
+            { articleId: article.id },
+            { sort: { field: 'revision', order: 'desc' }, limit: REVISION_HISTORY_LIMIT }
+        );
+    }
+
+    public async getRevision(id: string, revision: unknown): Promise<INewsRevision> {
+        const article = await this.loadArticle(id);
+        return this.loadRevision(article.id, revision);
+    }
+
+    /**
+     * Line diff between a revision and another one (the latest by default)
+     */
+    public async diffRevisions(id: string, revision: unknown, against?: unknown): Promise<INewsRevisionDiff> {
+        const article = await this.loadArticle(id);
+        const from = await this.loadRevision(article.id, revision);
+        const to = await this.loadRevision(article.id, against ?? article.revision);
+
+        // One line per block element keeps body diffs readable
+        const bodyLines = (html: string) =>
+            html.replace(/(<\/(?:p|h\d|li|blockquote|pre|figure|ul|ol)>|<br>|<hr>)/g, '$1\n').split('\n').filter(line => line.trim());
+        const lines = (value: string | undefined) => (value ? [value] : []);
+
+        const changes = {
+            title: DiffHelper.lines(lines(from.title), lines(to.title)),
+            excerpt: DiffHelper.lines(lines(from.excerpt), lines(to.excerpt)),
+            body: DiffHelper.lines(bodyLines(from.body), bodyLines(to.body)),
+            coverImage: DiffHelper.lines(lines(from.coverImage), lines(to.coverImage)),
+            tags: DiffHelper.lines(from.tags, to.tags),
+        } satisfies Record<string, IDiffPart[]>;
+
+        return { from: from.revision, to: to.revision, changes };
+    }
+
+    /**
+     * Bring back an earlier revision's content as a new revision
+     */
+    public async restoreRevision(id: string, revision: unknown, actor: IUserPayload): Promise<INewsArticle> {
+        const article = await this.loadArticle(id);
+        const saved = await this.loadRevision(article.id, revision);
+
+        return this.update(
+            article.id,
+            {
+                title: saved.title,
+                excerpt: saved.autoExcerpt ? '' : saved.excerpt,
+                body: saved.body,
+                coverImage: saved.coverImage ?? null,
+                tags: saved.tags,
+            },
+            actor,
+            `Restored revision ${saved.revision}`
+        );
+    }
+
+    /**
+     * Publish scheduled articles whose time has come
+     */
+    public async publishDue(): Promise<number> {
+        const due = await newsModel.find({ status: 'scheduled', publishAt: { $lte: new Date() } });
+        for (const article of due) {
+            await newsModel.update(article.id, {
+                status: 'published',
+                publishedAt: article.publishedAt ?? article.publishAt,
+                publishAt: undefined,
+            });
+            logger.info('Scheduled article published', { articleId: article.id });
+        }
+        return due.length;
+    }
+
+    /**
+     * Check for due articles now and then every minute
+     */
+    public startScheduler(): void {
+        if (this.schedulerTimer) return;
+
+        const run = () => {
+            this.publishDue().catch((error: Error) => logger.error('Scheduled publishing failed', { error: error.message }));
+        };
+        run();
+        this.schedulerTimer = setInterval(run, SCHEDULER_INTERVAL_MS);
+        this.schedulerTimer.unref();
+    }
+
+    public stopScheduler(): void {
+        clearInterval(this.schedulerTimer);
+        this.schedulerTimer = undefined;
+    }
+}
+
+export default new NewsService();
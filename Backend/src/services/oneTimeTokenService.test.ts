@@ -0,0 +1,68 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import oneTimeTokenService from './oneTimeTokenService';
+import authService from './authService';
+import userModel from '@models/userModel';
+import AppError from '@utils/appError';
+import { captureMail, createUser, prepareDatabase, tokenFromMail } from '../test/helpers';
+
+const HOUR = 60 * 60 * 1000;
+
+const isInvalid = (error: AppError) => error.statusCode === 400 && error.message === 'Invalid or expired token';
+
+describe('oneTimeTokenService', () => {
+    before(prepareDatabase);
+
+    it('redeems a token once for its own purpose', async () => {
+        const user = await createUser();
+        const token = await oneTimeTokenService.issue(user.id, 'email_verification', HOUR);
+
+        await assert.rejects(oneTimeTokenService.consume(token, 'password_reset'), isInvalid);
+        assert.equal(await oneTimeTokenService.consume(token, 'email_verification'), user.id);
+        await assert.rejects(oneTimeTokenService.consume(token, 'email_verification'), isInvalid);
+    });
+
+    it('rejects tampered, malformed and expired tokens', async () => {
+        const user = await createUser();
+        const token = await oneTimeTokenService.issue(user.id, 'password_reset', HOUR);
+        const [id] = token.split('.');
+
+        await assert.rejects(oneTimeTokenService.consume(`${id}.not-the-secret`, 'password_reset'), isInvalid);
+        await assert.rejects(oneTimeTokenService.consume('garbage', 'password_reset'), isInvalid);
+
+        const expired = await oneTimeTokenService.issue(user.id, 'password_reset', -1);
+        await assert.rejects(oneTimeTokenService.consume(expired, 'password_reset'), isInvalid);
+    });
+
+    it('replaces the unused token of the same purpose', async () => {
+        const user = await createUser();
+        const first = await oneTimeTokenService.issue(user.id, 'password_reset', HOUR);
+        const second = await oneTimeTokenService.issue(user.id, 'password_reset', HOUR);
+
+        await assert.rejects(oneTimeTokenService.consume(first, 'password_reset'), isInvalid);
+        assert.equal(await oneTimeTokenService.consume(second, 'password_reset'), user.id);
+    });
+
+    it('lets only one of several concurrent redemptions through', async () => {
+        const user = await createUser();
+        const token = await oneTimeTokenService.issue(user.id, 'password_reset', HOUR);
+
+        const results = await Promise.allSettled(
+            [1, 2, 3, 4].map(() => oneTimeTokenService.consume(token, 'password_reset'))
+        );
+        assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+    });
+
+    it('verifies an email address from the emailed link', async () => {
+        const outbox = captureMail();
+        const user = await createUser('user', { isVerified: false });
+
+        await authService.resendVerification(user.email);
+        const token = tokenFromMail(outbox.at(-1));
+
+        const verified = await authService.verifyEmail(token);
+        assert.equal(verified.isVerified, true);
+        assert.equal((await userModel.findById(user.id))?.isVerified, true);
+        await assert.rejects(authService.verifyEmail(token), isInvalid);
+    });
+});
@@ -0,0 +1,57 @@
+/**
+ * One-Time Token Service - TypeScript
+ * Issue and consume hashed, expiring, single-use tokens
+ */
+
+import oneTimeTokenModel from '@models/oneTimeTokenModel';
+import SecretsManager from '@utils/secrets';
+import AppError from '@utils/appError';
+import { OneTimeTokenPurpose } from '@types';
+
+class OneTimeTokenService {
+    /**
+     * Issue a token for a user, replacing any unused token of the same purpose.
+     * The returned value is "<record id>.<secret>"; only the secret hash is stored.
+     */
+    public async issue(userId: string, purpose: OneTimeTokenPurpose, ttlMs: number): Promise<string> {
+        await oneTimeTokenModel.deleteMany({ userId, purpose });
+
+        const secret = SecretsManager.generateToken();
+        const { hash, salt } = SecretsManager.hash(secret);
+        const record = await oneTimeTokenModel.create({
+            userId,
+            purpose,
+            hash,
+            salt,
+            expiresAt: new Date(Date.now() + ttlMs),
+        });
+
+        return `${record.id}.${secret}`;
+    }
+
+    /**
+     * Redeem a token and return its user id; every failure looks the same
+     */
+    public async consume(token: string, purpose: OneTimeTokenPurpose): Promise<string> {
+        const invalid = AppError.badRequest('Invalid or expired token');
+        const [id, secret] = typeof token === 'string' ? token.split('.') : [];
+        if (!id || !secret) throw invalid;
+
+        const record = await oneTimeTokenModel.findById(id);
+        if (!record || record.purpose !== purpose || !SecretsManager.verifyHash(secret, record.hash, record.salt)) {
+            throw invalid;
+        }
+
+        // Claim in one write so concurrent requests cannot both redeem the token
+        const now = new Date();
+        const claimed = await oneTimeTokenModel.updateOne(
+            { id: record.id, purpose, usedAt: { $exists: false }, expiresAt: { $gt: now } },
+            { usedAt: now }
+        );
+        if (!claimed) throw invalid;
+
+        return record.userId;
+    }
+}
+
+export default new OneTimeTokenService();
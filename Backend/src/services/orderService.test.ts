@@ -0,0 +1,130 @@
+import { before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import orderService from './orderService';
+import productService from './productService';
+import orderModel from '@models/orderModel';
+import inventoryMovementModel from '@models/inventoryMovementModel';
+import AppError from '@utils/appError';
+import { actorOf, createUser, prepareDatabase } from '../test/helpers';
+import { IOrder, IOrderInput, IUserPayload, ProductInfo } from '@types';
+
+let productCount = 0;
+
+describe('orderService stock', () => {
+    let admin: IUserPayload;
+
+    /**
+     * Published product without options, holding the given stock
+     */
+    const createMug = async (stock: number): Promise<ProductInfo> => {
+        productCount++;
+        const product = await productService.create(
+            { name: `Mug ${productCount}`, sku: `MUG${productCount}`, price: 50000, status: 'published' },
+            admin
+        );
+        await productService.adjustInventory(product.id, { sku: product.sku, set: stock, reason: 'Stocktake' }, admin);
+        return product;
+    };
+
+    const orderFor = (mug: ProductInfo, quantity: number): Partial<IOrderInput> => ({
+        customerName: 'Jane Buyer',
+        customerEmail: 'jane@example.com',
+        shippingAddress: { line1: '1 Main Street', city: 'Hanoi', country: 'VN' },
+        items: [{ productId: mug.id, sku: mug.sku, quantity }],
+    });
+
+    const stockOf = async (mug: ProductInfo): Promise<number> => (await productService.get(mug.id)).totalStock;
+
+    const orderMovements = (mug: ProductInfo) =>
+        inventoryMovementModel.find({ productId: mug.id, source: { $in: ['order', 'cancellation', 'refund'] } });
+
+    before(async () => {
+        await prepareDatabase();
+        admin = actorOf(await createUser('admin'));
+    });
+
+    it('takes stock for an order and records it against the order', async () => {
+        const mug = await createMug(5);
+        const order = await orderService.create(orderFor(mug, 2), admin);
+
+        assert.equal(await stockOf(mug), 3);
+        const [movement] = await orderMovements(mug);
+        assert.equal(movement?.orderId, order.id);
+        assert.equal(movement?.change, -2);
+        assert.equal(movement?.stockAfter, 3);
+    });
+
+    it('never sells more than is in stock, even to concurrent orders', async () => {
+        const mug = await createMug(3);
+
+        const results = await Promise.allSettled([1, 2, 3, 4].map(() => orderService.create(orderFor(mug, 1), admin)));
+
+        assert.equal(results.filter(result => result.status === 'fulfilled').length, 3);
+        assert.equal(await stockOf(mug), 0);
+        assert.equal((await orderMovements(mug)).length, 3);
+    });
+
+    it('puts the stock back when the order cannot be saved', async () => {
+        const mug = await createMug(4);
+        const ordersBefore = await orderModel.count();
+
+        mock.method(orderModel, 'create', async () => { throw new Error('Database unavailable'); });
+        try {
+            await assert.rejects(orderService.create(orderFor(mug, 3), admin), /Database unavailable/);
+        } finally {
+            mock.restoreAll();
+        }
+
+        assert.equal(await stockOf(mug), 4);
+        assert.equal(await orderModel.count(), ordersBefore);
+        assert.equal((await orderMovements(mug)).length, 0);
+    });
+
+    it('restocks a cancelled order once, even when it is cancelled concurrently', async () => {
+        const mug = await createMug(5);
+        const order = await orderService.create(orderFor(mug, 2), admin);
+
+        const results = await Promise.allSettled(
+            [1, 2, 3].map(() => orderService.transition(order.id, 'cancelled', 'Customer changed their mind', admin))
+        );
+
+        assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+        assert.ok(results.every(result => result.status === 'fulfilled' || (result.reason as AppError).statusCode === 409));
+        assert.equal(await stockOf(mug), 5);
+        assert.deepEqual((await orderMovements(mug)).map(movement => movement.change).sort(), [-2, 2]);
+    });
+
+    it('takes the stock again when the status cannot be saved', async () => {
+        const mug = await createMug(5);
+        const order = await orderService.create(orderFor(mug, 2), admin);
+
+        mock.method(orderModel, 'updateOne', async () => { throw new Error('Database unavailable'); });
+        try {
+            await assert.rejects(orderService.transition(order.id, 'cancelled', 'Out of time', admin), /Database unavailable/);
+        } finally {
+            mock.restoreAll();
+        }
+
+        assert.equal(await stockOf(mug), 3);
+        assert.equal((await orderModel.findById(order.id))?.status, 'pending');
+        assert.equal((await orderMovements(mug)).length, 1);
+    });
+
+    it('keeps stock with orders moving forward and only final statuses release it', async () => {
+        const mug = await createMug(5);
+        let order: IOrder = await orderService.create(orderFor(mug, 1), admin);
+
+        for (const status of ['paid', 'fulfilled', 'shipped'] as const) {
+            order = await orderService.transition(order.id, status, '', admin);
+        }
+        assert.equal(await stockOf(mug), 4);
+
+        await assert.rejects(
+            orderService.transition(order.id, 'cancelled', 'Too late', admin),
+            (error: AppError) => error.statusCode === 409
+        );
+        await orderService.transition(order.id, 'refunded', 'Arrived broken', admin);
+        // Shipped goods are not back on the shelf, so a refund after shipping leaves stock alone
+        assert.equal(await stockOf(mug), 4);
+    });
+});
@@ -0,0 +1,446 @@
+/**
+ * Order Service - TypeScript
+ * Orders: price snapshots, totals, the status workflow and stock reservation
+ */
+
+import crypto from 'crypto';
+import orderModel from '@models/orderModel';
+import productModel from '@models/productModel';
+import SanitizeHelper from '@utils/sanitize';
+import CsvHelper from '@utils/csv';
+import PaginationHelper from '@utils/pagination';
+import AppError from '@utils/appError';
+import logger from '@utils/logger';
+import config from '@config/env';
+import {
+    ORDER_STATUSES_HOLDING_STOCK,
+    ORDER_STATUSES_RELEASING_STOCK,
+    ORDER_STATUSES_REQUIRING_REASON,
+    ORDER_TRANSITIONS,
+    ORDER_TRANSITION_PERMISSIONS,
+    isOrderStatus,
+} from '@config/orders';
+import permissionService from './permissionService';
+import productService from './productService';
+import {
+    FilterQuery,
+    IOrder,
+    IOrderFilterQuery,
+    IOrderInput,
+    IOrderItem,
+    IOrderTransitionResult,
+    ISearchOption,
+    IShippingAddress,
+    IUserPayload,
+    OrderStatus,
+} from '@types';
+
+const MAX_ITEMS = 50;
+const MAX_QUANTITY = 999;
+const MAX_SEARCH_LENGTH = 100;
+const MAX_EXPORT_ROWS = 5000;
+const MAX_BULK_ORDERS = 100;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s.-]{7,20}$/;
+const SORTABLE_FIELDS: (keyof IOrder & string)[] = ['createdAt', 'updatedAt', 'number', 'total', 'status'];
+
+class OrderService {
+    private parseId(id: string, label = 'order'): string {
+        try {
+            return SanitizeHelper.objectId(String(id || ''));
+        } catch {
+            throw AppError.badRequest(`Invalid ${label} id`);
+        }
+    }
+
+    private async loadOrder(id: string): Promise<IOrder> {
+        const order = await orderModel.findById(this.parseId(id));
+        if (!order) {
+            throw AppError.notFound('Order not found');
+        }
+        return order;
+    }
+
+    private text(value: unknown): string {
+        return SanitizeHelper.whitespace(SanitizeHelper.stripHtml(String(value ?? '')));
+    }
+
+    /**
+     * Human-friendly order number, e.g. ORD-261018-3FA9C1
+     */
+    private async nextNumber(): Promise<string> {
+        const date = new Date().toISOString().slice(2, 10).replace(/-/g, '');
+        for (;;) {
+            const number = `ORD-${date}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+            if (!(await orderModel.findOne({ number }))) return number;
+        }
+    }
+
+    private parseAddress(value: Partial<IShippingAddress> | undefined, errors: string[]): IShippingAddress {
+        const address = {
+            line1: this.text(value?.line1),
+            line2: this.text(value?.line2) || undefined,
+            ward: this.text(value?.ward) || undefined,
+            district: this.text(value?.district) || undefined,
+            city: this.text(value?.city),
+            postalCode: this.text(value?.postalCode) || undefined,
+            country: this.text(value?.country || 'VN').toUpperCase(),
+        };
+        if (!address.line1) errors.push('shippingAddress.line1 is required');
+        if (!address.city) errors.push('shippingAddress.city is required');
+        if (!/^[A-Z]{2}$/.test(address.country)) errors.push('shippingAddress.country must be a two-letter country code');
+        return address;
+    }
+
+    /**
+     * Merge repeated lines and check quantities; products are looked up afterwards
+     */
+    private parseItems(value: unknown, errors: string[]): { productId: string; sku: string; quantity: number }[] {
+        if (!Array.isArray(value) || value.length === 0) {
+            errors.push('At least one item is required');
+            return [];
+        }
+        if (value.length > MAX_ITEMS) {
+            errors.push(`An order can have at most ${MAX_ITEMS} items`);
+            return [];
+        }
+
+        const lines = new Map<string, { productId: string; sku: string; quantity: number }>();
+        value.forEach((item, index) => {
+            const productId = String(item?.productId ?? '');
+            const sku = String(item?.sku ?? '').trim().toUpperCase();
+            const quantity = Number(item?.quantity);
+
+            if (!/^[a-f\d]{24}$/i.test(productId)) errors.push(`items[${index}].productId is invalid`);
+            if (!sku) errors.push(`items[${index}].sku is required`);
+            if (!Number.isSafeInteger(quantity) || quantity < 1 || quantity > MAX_QUANTITY) {
+                errors.push(`items[${index}].quantity must be a whole number from 1 to ${MAX_QUANTITY}`);
+            }
+
+            const key = `${productId}:${sku}`;
+            const line = lines.get(key);
+            if (line) line.quantity += quantity;
+            else lines.set(key, { productId, sku, quantity });
+        });
+
+        return [...lines.values()];
+    }
+
+    /**
+     * Copy name and price from the catalog so later edits leave the order alone
+     */
+    private async snapshotItems(lines: { productId: string; sku: string; quantity: number }[]): Promise<IOrderItem[]> {
+        const items: IOrderItem[] = [];
+        for (const { productId, sku, quantity } of lines) {
+            const product = await productModel.findById(productId);
+            if (!product || product.status !== 'published') {
+                throw AppError.validation([`Product ${productId} is not available for sale`]);
+            }
+            const variant = product.variants.find(candidate => candidate.sku === sku);
+            if (!variant) {
+                throw AppError.validation([`${product.name} has no variant ${sku}`]);
+            }
+            if (variant.stock < quantity) {
+                throw AppError.conflict(`Not enough stock for ${sku}: ${variant.stock} available`);
+            }
+
+            const unitPrice = variant.price ?? product.price;
+            items.push({
+                productId: product.id,
+                sku,
+                name: product.name,
+                options: variant.options,
+                ...(product.images[0] && { image: product.images[0] }),
+                unitPrice,
+                quantity,
+                lineTotal: unitPrice * quantity,
+            });
+        }
+        return items;
+    }
+
+    /**
+     * Subtotal less discount, plus shipping (free above the threshold) and tax on the discounted goods
+     */
+    public calculateTotals(items: IOrderItem[], discount: number): Pick<IOrder, 'subtotal' | 'discount' | 'shipping' | 'tax' | 'total'> {
+        const { taxRate, shippingFee, freeShippingThreshold } = config.orders;
+
+        const subtotal = items.reduce((sum, item) => sum + item.lineTotal, 0);
+        const discounted = subtotal - discount;
+        const shipping = discounted >= freeShippingThreshold ? 0 : shippingFee;
+        const tax = Math.round(discounted * taxRate);
+
+        return { subtotal, discount, shipping, tax, total: discounted + shipping + tax };
+    }
+
+    /**
+     * Filter and search shared by the list and the CSV export
+     */
+    private buildQuery(query: IOrderFilterQuery): { filter: FilterQuery<IOrder>; search?: ISearchOption<IOrder> } {
+        const filter: FilterQuery<IOrder> = {};
+
+        if (query.status !== undefined) {
+            if (!isOrderStatus(query.status)) {
+                throw AppError.badRequest(`Unknown status: ${query.status}`);
+            }
+            filter.status = query.status;
+        }
+
+        const from = query.from ? new Date(query.from) : undefined;
+        const to = query.to ? new Date(query.to) : undefined;
+        if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+            throw AppError.badRequest('from and to must be dates');
+        }
+        if (from || to) {
+            filter.createdAt = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+        }
+
+        // Adapters match the term literally (regex-escaped on MongoDB)
+        const term = this.text(query.search).slice(0, MAX_SEARCH_LENGTH);
+        const search = term
+            ? { term, fields: ['number', 'customerName', 'customerEmail'] as (keyof IOrder & string)[] }
+            : undefined;
+
+        return { filter, search };
+    }
+
+    /**
+     * Paginated, filtered list of orders
+     */
+    public async list(query: IOrderFilterQuery): Promise<{ orders: IOrder[]; page: number; limit: number; total: number }> {
+        const { page, limit, options } = PaginationHelper.parse<IOrder>(query, SORTABLE_FIELDS);
+        const { filter, search } = this.buildQuery(query);
+
+        const [orders, total] = await Promise.all([
+            orderModel.find(filter, { ...options, search }),
+            orderModel.count(filter, search),
+        ]);
+
+        return { orders, page, limit, total };
+    }
+
+    /**
+     * Every order matching the list filters as CSV, up to MAX_EXPORT_ROWS
+     */
+    public async exportCsv(query: IOrderFilterQuery): Promise<string> {
+        const { options } = PaginationHelper.parse<IOrder>(query, SORTABLE_FIELDS);
+        const { filter, search } = this.buildQuery(query);
+        const orders = await orderModel.find(filter, { sort: options.sort, limit: MAX_EXPORT_ROWS, search });
+
+        return CsvHelper.stringify(
+            ['Number', 'Created', 'Status', 'Customer', 'Email', 'Phone', 'City', 'Items',
+                'Subtotal', 'Discount', 'Shipping', 'Tax', 'Total'],
+            orders.map(order => [
+                order.number,
+                new Date(order.createdAt),
+                order.status,
+                order.customerName,
+                order.customerEmail,
+                order.customerPhone,
+                order.shippingAddress.city,
+                order.items.reduce((sum, item) => sum + item.quantity, 0),
+                order.subtotal,
+                order.discount,
+                order.shipping,
+                order.tax,
+                order.total,
+            ])
+        );
+    }
+
+    /**
+     * Statuses the actor may move this order to next
+     */
+    public async allowedTransitions(order: IOrder, actor: IUserPayload): Promise<OrderStatus[]> {
+        const allowed: OrderStatus[] = [];
+        for (const status of ORDER_TRANSITIONS[order.status]) {
+            const permission = ORDER_TRANSITION_PERMISSIONS[status];
+            if (!permission || await permissionService.hasPermissions(actor.role, [permission])) {
+                allowed.push(status);
+            }
+        }
+        return allowed;
+    }
+
+    public async get(id: string): Promise<IOrder> {
+        return this.loadOrder(id);
+    }
+
+    /**
+     * Place an order and reserve its stock
+     */
+    public async create(input: Partial<IOrderInput>, actor: IUserPayload): Promise<IOrder> {
+        const errors: string[] = [];
+
+        const customerName = this.text(input.customerName);
+        if (!customerName) errors.push('customerName is required');
+
+        const customerEmail = SanitizeHelper.email(String(input.customerEmail || ''));
+        if (!EMAIL_PATTERN.test(customerEmail)) errors.push('A valid customerEmail is required');
+
+        const customerPhone = this.text(input.customerPhone) || undefined;
+        if (customerPhone && !PHONE_PATTERN.test(customerPhone)) errors.push('customerPhone is invalid');
+
+        const shippingAddress = this.parseAddress(input.shippingAddress, errors);
+        const lines = this.parseItems(input.items, errors);
+
+        const discount = Number(input.discount ?? 0);
+        if (!Number.isSafeInteger(discount) || discount < 0) errors.push('discount must be a whole number of VND');
+
+        const note = this.text(input.note) || undefined;
+
+        if (errors.length > 0) {
+            throw AppError.validation(errors);
+        }
+
+        const items = await this.snapshotItems(lines);
+        const totals = this.calculateTotals(items, discount);
+        if (discount > totals.subtotal) {
+            throw AppError.validation(['discount cannot exceed the subtotal']);
+        }
+
+        // Stock may have moved since the snapshot, so take it before the order exists
+        const reserved = await productService.applyStockChanges(
+            items.map(item => ({ productId: item.productId, sku: item.sku, change: -item.quantity }))
+        );
+
+        let order: IOrder;
+        try {
+            order = await orderModel.create({
+                number: await this.nextNumber(),
+                customerName,
+                customerEmail,
+                ...(customerPhone && { customerPhone }),
+                shippingAddress,
+                items,
+                ...totals,
+                status: 'pending',
+                history: [{ from: null, to: 'pending', by: actor.id, byEmail: actor.email, at: new Date() }],
+                ...(note && { note }),
+                createdBy: actor.id,
+            });
+        } catch (error) {
+            await productService.revertStockChanges(reserved);
+            throw error;
+        }
+
+        await productService.recordStockChanges(
+            reserved,
+            { source: 'order', reason: `Order ${order.number}`, orderId: order.id },
+            actor
+        );
+
+        logger.info('Order created', { orderId: order.id, number: order.number, total: order.total, createdBy: actor.id });
+        return order;
+    }
+
+    /**
+     * Move an order along the workflow, recording who did it and why
+     */
+    public async transition(id: string, status: unknown, reason: unknown, actor: IUserPayload): Promise<IOrder> {
+        if (!isOrderStatus(status)) {
+            throw AppError.badRequest(`Unknown status: ${String(status)}`);
+        }
+
+        const order = await this.loadOrder(id);
+        if (!ORDER_TRANSITIONS[order.status].includes(status)) {
+            throw AppError.conflict(`An order cannot go from ${order.status} to ${status}`);
+        }
+
+        const permission = ORDER_TRANSITION_PERMISSIONS[status];
+        if (permission && !(await permissionService.hasPermissions(actor.role, [permission]))) {
+            throw AppError.forbidden(`Missing permission: ${permission}`);
+        }
+
+        const note = this.text(reason).slice(0, 500);
+        if (!note && ORDER_STATUSES_REQUIRING_REASON.includes(status)) {
+            throw AppError.badRequest(`A reason is required to mark an order ${status}`);
+        }
+
+        // Stock comes back before the order says so; if another request moved the order first, it is taken again
+        const releasesStock = ORDER_STATUSES_HOLDING_STOCK.includes(order.status)
+            && ORDER_STATUSES_RELEASING_STOCK.includes(status);
+        const released = releasesStock
+            ? await productService.applyStockChanges(
+                order.items.map(item => ({ productId: item.productId, sku: item.sku, change: item.quantity }))
+            )
+            : [];
+
+        let updated: IOrder | null = null;
+        try {
+            // Only the request that still sees the status it read gets to move the order
+            updated = await orderModel.updateOne(
+                { id: order.id, status: order.status },
+                {
+                    status,
+                    history: [
+                        ...order.history,
+                        {
+                            from: order.status,
+                            to: status,
+                            ...(note && { reason: note }),
+                            by: actor.id,
+                            byEmail: actor.email,
+                            at: new Date(),
+                        },
+                    ],
+                }
+            );
+        } finally {
+            if (!updated) await productService.revertStockChanges(released);
+        }
+        if (!updated) {
+            throw AppError.conflict(`Order ${order.number} changed meanwhile; reload and try again`);
+        }
+
+        await productService.recordStockChanges(
+            released,
+            {
+                source: status === 'refunded' ? 'refund' : 'cancellation',
+                reason: `Order ${order.number} ${status}${note ? `: ${note}` : ''}`,
+                orderId: order.id,
+            },
+            actor
+        );
+
+        logger.info('Order status changed', {
+            orderId: order.id,
+            from: order.status,
+            to: status,
+            restocked: releasesStock,
+            changedBy: actor.id,
+        });
+        return updated;
+    }
+
+    /**
+     * Apply one status change to many orders; each order succeeds or fails on its own
+     */
+    public async bulkTransition(
+        ids: unknown,
+        status: unknown,
+        reason: unknown,
+        actor: IUserPayload
+    ): Promise<IOrderTransitionResult[]> {
+        if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_BULK_ORDERS) {
+            throw AppError.badRequest(`ids must list 1 to ${MAX_BULK_ORDERS} orders`);
+        }
+        if (!isOrderStatus(status)) {
+            throw AppError.badRequest(`Unknown status: ${String(status)}`);
+        }
+
+        const results: IOrderTransitionResult[] = [];
+        for (const id of new Set(ids.map(String))) {
+            try {
+                const order = await this.transition(id, status, reason, actor);
+                results.push({ id, success: true, number: order.number, status: order.status });
+            } catch (error) {
+                if (!(error instanceof AppError)) throw error;
+                results.push({ id, success: false, error: error.message });
+            }
+        }
+        return results;
+    }
+}
+
+export default new OrderService();
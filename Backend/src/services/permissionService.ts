@@ -0,0 +1,100 @@
+/**
+ * Permission Service - TypeScript
+ * Resolve role permissions from the roles collection
+ */
+
+import roleModel from '@models/roleModel';
+import AppError from '@utils/appError';
+import logger from '@utils/logger';
+import {
+    PERMISSIONS,
+    USER_ROLES,
+    DEFAULT_ROLE_PERMISSIONS,
+    isPermission,
+    isUserRole,
+} from '@config/permissions';
+import { IRole, Permission, UserRole } from '@types';
+
+const CACHE_TTL_MS = 30 * 1000;
+
+class PermissionService {
+    private readonly cache: Map<UserRole, { permissions: Permission[]; expiresAt: number }> = new Map();
+
+    /**
+     * Permissions granted to a role (admin always holds all of them)
+     */
+    public async getPermissions(role: UserRole): Promise<Permission[]> {
+        if (role === 'admin') return [...PERMISSIONS];
+
+        const cached = this.cache.get(role);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.permissions;
+        }
+
+        const record = await roleModel.findOne({ name: role });
+        const permissions = record?.permissions || [];
+        this.cache.set(role, { permissions, expiresAt: Date.now() + CACHE_TTL_MS });
+        return permissions;
+    }
+
+    /**
+     * Whether a role holds every one of the given permissions
+     */
+    public async hasPermissions(role: UserRole, required: Permission[]): Promise<boolean> {
+        const granted = await this.getPermissions(role);
+        return required.every(permission => granted.includes(permission));
+    }
+
+    /**
+     * List roles with their permissions
+     */
+    public async listRoles(): Promise<IRole[]> {
+        return roleModel.find({}, { sort: { field: 'name', order: 'asc' } });
+    }
+
+    /**
+     * Replace the permissions of a role
+     */
+    public async updateRole(name: string, permissions: unknown): Promise<IRole> {
+        if (!isUserRole(name)) {
+            throw AppError.notFound('Role not found');
+        }
+        if (name === 'admin') {
+            throw AppError.badRequest('The admin role always has every permission');
+        }
+        if (!Array.isArray(permissions)) {
+            throw AppError.badRequest('permissions must be an array');
+        }
+
+        const invalid = permissions.filter(permission => !isPermission(permission));
+        if (invalid.length > 0) {
+            throw AppError.validation(invalid.map(permission => `Unknown permission: ${permission}`));
+        }
+
+        const unique = [...new Set(permissions as Permission[])];
+        const existing = await roleModel.findOne({ name });
+        const role = existing
+            ? await roleModel.update(existing.id, { permissions: unique })
+            : await roleModel.create({ name, permissions: unique });
+
+        this.cache.delete(name);
+        logger.info('Role permissions updated', { role: name, permissions: unique });
+        return role!;
+    }
+
+    /**
+     * Insert the default mapping for roles missing from the database
+     */
+    public async seedRoles(): Promise<void> {
+        for (const name of USER_ROLES) {
+            if (await roleModel.findOne({ name })) continue;
+
+            await roleModel.create({
+                name,
+                permissions: DEFAULT_ROLE_PERMISSIONS[name],
+            });
+        }
+    }
+}
+
+export default new PermissionService();
@@ -0,0 +1,100 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import productService from './productService';
+import productModel from '@models/productModel';
+import AppError from '@utils/appError';
+import { actorOf, createUser, prepareDatabase } from '../test/helpers';
+import { IUserPayload, ProductInfo } from '@types';
+
+let productCount = 0;
+
+describe('productService stock', () => {
+    let admin: IUserPayload;
+
+    /**
+     * T-shirt in sizes S and M, with the given stock per size
+     */
+    const createTee = async (stock: { S: number; M: number }): Promise<ProductInfo> => {
+        productCount++;
+        const sku = `TEE${productCount}`;
+        const product = await productService.create({
+            name: `Tee ${productCount}`,
+            sku,
+            price: 20,
+            options: [{ name: 'Size', values: ['S', 'M'] }],
+            variants: [
+                { sku: `${sku}-S`, options: { Size: 'S' } },
+                { sku: `${sku}-M`, options: { Size: 'M' } },
+            ],
+        }, admin);
+
+        for (const size of ['S', 'M'] as const) {
+            if (stock[size] > 0) {
+                await productService.adjustInventory(product.id, { sku: `${sku}-${size}`, set: stock[size], reason: 'Stocktake' }, admin);
+            }
+        }
+        return productService.get(product.id);
+    };
+
+    before(async () => {
+        await prepareDatabase();
+        admin = actorOf(await createUser('admin'));
+    });
+
+    it('records every adjustment and keeps the total in step', async () => {
+        const tee = await createTee({ S: 4, M: 0 });
+        const updated = await productService.adjustInventory(tee.id, { sku: `${tee.sku}-M`, delta: 3, reason: 'Delivery' }, admin);
+
+        assert.equal(updated.totalStock, 7);
+        const movements = await productService.listMovements(tee.id);
+        const rows = movements.map(movement => [movement.sku, movement.change, movement.stockAfter, movement.reason]);
+        assert.deepEqual(rows.sort(), [
+            [`${tee.sku}-M`, 3, 3, 'Delivery'],
+            [`${tee.sku}-S`, 4, 4, 'Stocktake'],
+        ]);
+    });
+
+    it('never takes a variant below zero', async () => {
+        const tee = await createTee({ S: 2, M: 0 });
+
+        await assert.rejects(
+            productService.adjustInventory(tee.id, { sku: `${tee.sku}-S`, delta: -3, reason: 'Damaged' }, admin),
+            (error: AppError) => error.statusCode === 400
+        );
+        assert.equal((await productService.get(tee.id)).totalStock, 2);
+    });
+
+    it('refuses to drop a variant that still holds stock', async () => {
+        const tee = await createTee({ S: 5, M: 0 });
+
+        await assert.rejects(
+            productService.update(tee.id, {
+                options: [{ name: 'Size', values: ['M'] }],
+                variants: [{ sku: `${tee.sku}-M`, options: { Size: 'M' } }],
+            }, admin),
+            (error: AppError) => error.statusCode === 422 && String(error.errors).includes(`${tee.sku}-S still has 5 in stock`)
+        );
+        assert.equal((await productModel.findById(tee.id))?.variants.length, 2);
+    });
+
+    it('drops an empty variant and keeps the stock of the rest', async () => {
+        const tee = await createTee({ S: 5, M: 0 });
+
+        const updated = await productService.update(tee.id, {
+            options: [{ name: 'Size', values: ['S'] }],
+            variants: [{ sku: `${tee.sku}-S`, options: { Size: 'S' } }],
+        }, admin);
+
+        assert.deepEqual(updated.variants.map(variant => [variant.sku, variant.stock]), [[`${tee.sku}-S`, 5]]);
+        assert.equal(updated.totalStock, 5);
+    });
+
+    it('refuses to fold stocked variants into a product without options', async () => {
+        const tee = await createTee({ S: 1, M: 2 });
+
+        await assert.rejects(
+            productService.update(tee.id, { options: [] }, admin),
+            (error: AppError) => error.statusCode === 422
+        );
+    });
+});
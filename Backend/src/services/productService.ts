@@ -0,0 +1,579 @@
+/**
+ * Product Service - TypeScript
+ * Product catalog: validation, variants, inventory and catalog queries
+ */
+
+import productModel from '@models/productModel';
+import inventoryMovementModel from '@models/inventoryMovementModel';
+import SanitizeHelper from '@utils/sanitize';
+import PaginationHelper from '@utils/pagination';
+import AppError from '@utils/appError';
+import logger from '@utils/logger';
+import categoryService from './categoryService';
+import {
+    FilterQuery,
+    IAppliedStockChange,
+    IInventoryAdjustment,
+    IInventoryMovement,
+    InventoryMovementSource,
+    IProduct,
+    IProductFilterQuery,
+    IProductInput,
+    IProductOption,
+    IProductVariant,
+    IStockChange,
+    IUserPayload,
+    ProductInfo,
+    ProductStatus,
+    PublicProduct,
+} from '@types';
+
+const PRODUCT_STATUSES: ProductStatus[] = ['draft', 'published', 'archived'];
+const SORTABLE_FIELDS: (keyof IProduct & string)[] = [
+    'createdAt',
+    'updatedAt',
+    'publishedAt',
+    'name',
+    'price',
+    'totalStock',
+];
+
+// Files from POST /api/uploads/images are referenced by their served path
+const UPLOADED_IMAGE_PATTERN = /^\/uploads\/images\/[\w.-]+$/;
+const SKU_PATTERN = /^[A-Z0-9][A-Z0-9._-]{0,63}$/;
+const MAX_IMAGES = 10;
+const MAX_OPTIONS = 3;
+const MAX_SEARCH_LENGTH = 100;
+const MOVEMENT_HISTORY_LIMIT = 50;
+
+class ProductService {
+    /**
+     * Strip denormalised fields before a product leaves the service
+     */
+    public toInfo(product: IProduct): ProductInfo {
+        const { skus: _skus, ...info } = product;
+        return info;
+    }
+
+    /**
+     * Shape for the public catalog
+     */
+    public toPublic(product: IProduct): PublicProduct {
+        const { createdBy: _createdBy, ...publicProduct } = this.toInfo(product);
+        return publicProduct;
+    }
+
+    private parseId(id: string): string {
+        try {
+            return SanitizeHelper.objectId(String(id || ''));
+        } catch {
+            throw AppError.badRequest('Invalid product id');
+        }
+    }
+
+    private async loadProduct(id: string): Promise<IProduct> {
+        const product = await productModel.findById(this.parseId(id));
+        if (!product) {
+            throw AppError.notFound('Product not found');
+        }
+        return product;
+    }
+
+    private text(value: unknown): string {
+        return SanitizeHelper.whitespace(SanitizeHelper.stripHtml(String(value ?? '')));
+    }
+
+    private parseSku(value: unknown): string {
+        return String(value ?? '').trim().toUpperCase();
+    }
+
+    /**
+     * Whole VND amounts only
+     */
+    private parsePrice(value: unknown, field: string, errors: string[]): number | undefined {
+        const price = Number(value);
+        if (value === undefined || value === null || value === '' || !Number.isSafeInteger(price) || price < 0) {
+            errors.push(`${field} must be a whole number of VND`);
+            return undefined;
+        }
+        return price;
+    }
+
+    private parseOptions(value: unknown, errors: string[]): IProductOption[] {
+        if (value === undefined) return [];
+        if (!Array.isArray(value)) {
+            errors.push('options must be an array');
+            return [];
+        }
+        if (value.length > MAX_OPTIONS) {
+            errors.push(`A product can have at most ${MAX_OPTIONS} options`);
+        }
+
+        const names = new Set<string>();
+        return value.map((option, index) => {
+            const name = this.text(option?.name);
+            const values = Array.isArray(option?.values)
+                ? [...new Set(option.values.map((item: unknown) => this.text(item)).filter(Boolean) as string[])]
+                : [];
+
+            if (!name) errors.push(`options[${index}].name is required`);
+            else if (names.has(name)) errors.push(`Duplicate option: ${name}`);
+            if (values.length === 0) errors.push(`options[${index}] needs at least one value`);
+
+            names.add(name);
+            return { name, values };
+        });
+    }
+
+    /**
+     * Variants must cover distinct option combinations. Stock is kept per SKU
+     * from the existing record; new SKUs start empty and are filled through
+     * inventory adjustments.
+     */
+    private parseVariants(
+        value: unknown,
+        options: IProductOption[],
+        sku: string,
+        existing: IProduct | undefined,
+        errors: string[]
+    ): IProductVariant[] {
+        const stockBySku = new Map((existing?.variants || []).map(variant => [variant.sku, variant.stock]));
+
+        // Without options a product has a single variant carrying its own SKU
+        if (options.length === 0) {
+            const previous = existing?.variants.length === 1 ? existing.variants[0]!.stock : 0;
+            return [{ sku, options: {}, stock: stockBySku.get(sku) ?? previous }];
+        }
+
+        if (!Array.isArray(value) || value.length === 0) {
+            errors.push('variants are required when the product has options');
+            return [];
+        }
+
+        const seenSkus = new Set<string>();
+        const seenCombinations = new Set<string>();
+
+        return value.map((variant, index) => {
+            const variantSku = this.parseSku(variant?.sku);
+            if (!SKU_PATTERN.test(variantSku)) errors.push(`variants[${index}].sku is invalid`);
+            else if (seenSkus.has(variantSku)) errors.push(`Duplicate variant SKU: ${variantSku}`);
+            seenSkus.add(variantSku);
+
+            const chosen: Record<string, string> = {};
+            for (const option of options) {
+                const choice = this.text(variant?.options?.[option.name]);
+                if (!option.values.includes(choice)) {
+                    errors.push(`variants[${index}] needs one of ${option.values.join(', ')} for ${option.name}`);
+                }
+                chosen[option.name] = choice;
+            }
+
+            const combination = options.map(option => chosen[option.name]).join('\u0000');
+            if (seenCombinations.has(combination)) errors.push(`variants[${index}] repeats another variant's options`);
+            seenCombinations.add(combination);
+
+            const price = variant?.price === undefined || variant?.price === null
+                ? undefined
+                : this.parsePrice(variant.price, `variants[${index}].price`, errors);
+
+            return {
+                sku: variantSku,
+                options: chosen,
+                ...(price !== undefined && { price }),
+                stock: stockBySku.get(variantSku) ?? 0,
+            };
+        });
+    }
+
+    /**
+     * Stock only changes through inventory adjustments, so an edit may not drop a
+     * variant that still holds some; it has to be adjusted to zero first
+     */
+    private checkDroppedStock(existing: IProduct | undefined, variants: IProductVariant[], errors: string[]): void {
+        const before = existing?.variants.reduce((sum, variant) => sum + variant.stock, 0) ?? 0;
+        const after = variants.reduce((sum, variant) => sum + variant.stock, 0);
+        if (after >= before) return;
+
+        const kept = new Set(variants.map(variant => variant.sku));
+        existing!.variants
+            .filter(variant => variant.stock > 0 && !kept.has(variant.sku))
+            .forEach(variant => errors.push(
+                `Variant ${variant.sku} still has ${variant.stock} in stock; adjust it to 0 before removing it`
+            ));
+    }
+
+    /**
+     * Pick a free slug; an explicit slug must be free, a generated one gets a suffix
+     */
+    private async uniqueSlug(requested: string, explicit: boolean, ignoreId?: string): Promise<string> {
+        let candidate = requested;
+        for (let suffix = 2; ; suffix++) {
+            const taken = await productModel.findOne({ slug: candidate });
+            if (!taken || taken.id === ignoreId) return candidate;
+            if (explicit) {
+                throw AppError.conflict(`Product slug "${requested}" is already in use`);
+            }
+            candidate = `${requested}-${suffix}`;
+        }
+    }
+
+    /**
+     * Validate create/update input; updates merge over the existing product
+     */
+    private async parseInput(
+        input: Partial<IProductInput>,
+        existing?: IProduct
+    ): Promise<Omit<IProduct, 'id' | 'createdAt' | 'updatedAt' | 'createdBy'>> {
+        const errors: string[] = [];
+
+        const name = this.text(input.name ?? existing?.name);
+        if (!name) errors.push('name is required');
+
+        const sku = input.sku !== undefined ? this.parseSku(input.sku) : existing?.sku || '';
+        if (!SKU_PATTERN.test(sku)) errors.push('sku must be 1-64 letters, digits, dots, dashes or underscores');
+
+        const description = input.description !== undefined
+            ? SanitizeHelper.removeXSS(String(input.description || ''))
+            : existing?.description || '';
+
+        const price = this.parsePrice(input.price ?? existing?.price, 'price', errors);
+
+        let compareAtPrice = input.compareAtPrice === undefined ? existing?.compareAtPrice ?? undefined : undefined;
+        if (input.compareAtPrice !== undefined && input.compareAtPrice !== null) {
+            compareAtPrice = this.parsePrice(input.compareAtPrice, 'compareAtPrice', errors);
+        }
+        if (compareAtPrice !== undefined && price !== undefined && compareAtPrice <= price) {
+            errors.push('compareAtPrice must be higher than price');
+        }
+
+        const status = input.status ?? existing?.status ?? 'draft';
+        if (!PRODUCT_STATUSES.includes(status)) errors.push(`status must be one of ${PRODUCT_STATUSES.join(', ')}`);
+
+        const images = input.images !== undefined ? input.images : existing?.images || [];
+        if (!Array.isArray(images) || images.some(image => !UPLOADED_IMAGE_PATTERN.test(String(image)))) {
+            errors.push('images must be paths returned by the image upload endpoint');
+        } else if (images.length > MAX_IMAGES) {
+            errors.push(`A product can have at most ${MAX_IMAGES} images`);
+        }
+
+        const options = input.options !== undefined
+            ? this.parseOptions(input.options, errors)
+            : existing?.options || [];
+        // Creates always build variants; updates keep them unless something they depend on changed
+        const variants = existing && input.variants === undefined && input.options === undefined && input.sku === undefined
+            ? existing.variants
+            : this.parseVariants(input.variants ?? existing?.variants, options, sku, existing, errors);
+        this.checkDroppedStock(existing, variants, errors);
+
+        if (errors.length > 0) {
+            throw AppError.validation(errors);
+        }
+
+        let categoryId = input.categoryId === undefined ? existing?.categoryId ?? undefined : undefined;
+        if (input.categoryId) {
+            const category = await categoryService.resolve(String(input.categoryId));
+            if (!category) {
+                throw AppError.validation([`Unknown category: ${input.categoryId}`]);
+            }
+            categoryId = category.id;
+        }
+
+        const explicitSlug = input.slug !== undefined && input.slug !== '';
+        const slugSource = explicitSlug ? String(input.slug) : existing && input.name === undefined ? existing.slug : name;
+        const slug = SanitizeHelper.slug(slugSource);
+        if (!slug) {
+            throw AppError.validation(['slug must contain letters or digits']);
+        }
+
+        const skus = [...new Set([sku, ...variants.map(variant => variant.sku)])];
+        const clash = await productModel.findOne({ skus: { $in: skus } });
+        if (clash && clash.id !== existing?.id) {
+            throw AppError.conflict(`SKU already used by product "${clash.name}"`);
+        }
+
+        return {
+            name,
+            slug: await this.uniqueSlug(slug, explicitSlug, existing?.id),
+            sku,
+            description,
+            price: price!,
+            compareAtPrice,
+            categoryId,
+            images: images.map(String),
+            options,
+            variants,
+            status,
+            publishedAt: existing?.publishedAt ?? (status === 'published' ? new Date() : undefined),
+            skus,
+            totalStock: variants.reduce((sum, variant) => sum + variant.stock, 0),
+        };
+    }
+
+    /**
+     * Paginated catalog query. The public catalog only ever sees published products.
+     */
+    public async list(
+        query: IProductFilterQuery,
+        publicOnly = false
+    ): Promise<{ products: IProduct[]; page: number; limit: number; total: number }> {
+        const { page, limit, options } = PaginationHelper.parse<IProduct>(
+            query,
+            SORTABLE_FIELDS,
+            publicOnly ? 'publishedAt' : 'createdAt'
+        );
+        const filter: FilterQuery<IProduct> = {};
+
+        if (publicOnly) {
+            filter.status = 'published';
+        } else if (query.status !== undefined) {
+            if (!PRODUCT_STATUSES.includes(query.status)) {
+                throw AppError.badRequest(`Unknown status: ${query.status}`);
+            }
+            filter.status = query.status;
+        }
+
+        if (query.category) {
+            const category = await categoryService.resolve(String(query.category));
+            // An unknown category matches nothing rather than everything
+            filter.categoryId = category?.id ?? '';
+        }
+
+        const minPrice = query.minPrice !== undefined ? Number(query.minPrice) : undefined;
+        const maxPrice = query.maxPrice !== undefined ? Number(query.maxPrice) : undefined;
+        if ([minPrice, maxPrice].some(bound => bound !== undefined && !Number.isFinite(bound))) {
+            throw AppError.badRequest('minPrice and maxPrice must be numbers');
+        }
+        if (minPrice !== undefined || maxPrice !== undefined) {
+            filter.price = {
+                ...(minPrice !== undefined && { $gte: minPrice }),
+                ...(maxPrice !== undefined && { $lte: maxPrice }),
+            };
+        }
+
+        const inStock = PaginationHelper.flag(query.inStock);
+        if (inStock !== undefined) {
+            filter.totalStock = inStock ? { $gt: 0 } : { $lte: 0 };
+        }
+
+        // Adapters match the term literally (regex-escaped on MongoDB)
+        const term = this.text(query.search).slice(0, MAX_SEARCH_LENGTH);
+        const search = term ? { term, fields: ['name', 'sku'] as (keyof IProduct & string)[] } : undefined;
+
+        const [products, total] = await Promise.all([
+            productModel.find(filter, { ...options, search }),
+            productModel.count(filter, search),
+        ]);
+
+        return { products, page, limit, total };
+    }
+
+    /**
+     * Product by id (admin)
+     */
+    public async get(id: string): Promise<ProductInfo> {
+        return this.toInfo(await this.loadProduct(id));
+    }
+
+    /**
+     * Published product by slug (public catalog)
+     */
+    public async getPublished(slug: string): Promise<PublicProduct> {
+        const product = await productModel.findOne({ slug: String(slug || ''), status: 'published' });
+        if (!product) {
+            throw AppError.notFound('Product not found');
+        }
+        return this.toPublic(product);
+    }
+
+    public async create(input: Partial<IProductInput>, actor: IUserPayload): Promise<ProductInfo> {
+        const product = await productModel.create({ ...(await this.parseInput(input)), createdBy: actor.id });
+        logger.info('Product created', { productId: product.id, createdBy: actor.id });
+        return this.toInfo(product);
+    }
+
+    public async update(id: string, input: Partial<IProductInput>, actor: IUserPayload): Promise<ProductInfo> {
+        const existing = await this.loadProduct(id);
+        // The edit carries the whole variants array, so it must not land over a stock change made since it was read
+        const product = await productModel.updateOne(
+            { id: existing.id, updatedAt: existing.updatedAt },
+            await this.parseInput(input, existing)
+        );
+        if (!product) {
+            throw AppError.conflict('Product changed meanwhile; reload and try again');
+        }
+        logger.info('Product updated', { productId: existing.id, updatedBy: actor.id });
+        return this.toInfo(product);
+    }
+
+    public async delete(id: string, actor: IUserPayload): Promise<void> {
+        const product = await this.loadProduct(id);
+        await productModel.delete(product.id);
+        logger.warn('Product deleted', { productId: product.id, deletedBy: actor.id });
+    }
+
+    /**
+     * Recent stock movements of a product, newest first
+     */
+    public async listMovements(id: string): Promise<IInventoryMovement[]> {
+        const product = await this.loadProduct(id);
+        return inventoryMovementModel.find(
+            { productId: product.id },
+            { sort: { field: 'createdAt', order: 'desc' }, limit: MOVEMENT_HISTORY_LIMIT }
+        );
+    }
+
+    /**
+     * Change the stock of one variant, by a delta or to an absolute count.
+     * Every adjustment is recorded with its reason.
+     */
+    public async adjustInventory(
+        id: string,
+        adjustment: Partial<IInventoryAdjustment>,
+        actor: IUserPayload
+    ): Promise<ProductInfo> {
+        const product = await this.loadProduct(id);
+        const sku = this.parseSku(adjustment.sku);
+        const variant = product.variants.find(candidate => candidate.sku === sku);
+        if (!variant) {
+            throw AppError.notFound(`Variant ${sku || '(none)'} not found`);
+        }
+
+        const hasDelta = adjustment.delta !== undefined;
+        const hasSet = adjustment.set !== undefined;
+        if (hasDelta === hasSet) {
+            throw AppError.badRequest('Provide either delta or set');
+        }
+
+        const amount = Number(hasDelta ? adjustment.delta : adjustment.set);
+        if (!Number.isSafeInteger(amount)) {
+            throw AppError.badRequest('Stock changes must be whole numbers');
+        }
+
+        const reason = this.text(adjustment.reason);
+        if (!reason) {
+            throw AppError.badRequest('A reason is required for stock adjustments');
+        }
+
+        if (hasSet && amount < 0) {
+            throw AppError.badRequest('Stock cannot be negative');
+        }
+
+        // A set only lands if the stock is still what it was read as, so a concurrent order is not overwritten
+        const change = hasDelta ? amount : amount - variant.stock;
+        const updated = await this.incrementStock(product.id, sku, change, hasSet ? variant.stock : undefined);
+        if (!updated) {
+            const current = await this.loadProduct(id);
+            const now = current.variants.find(candidate => candidate.sku === sku);
+            if (!now) throw AppError.notFound(`Variant ${sku} not found`);
+            if (hasSet) throw AppError.conflict(`Stock for ${sku} changed meanwhile; reload and try again`);
+            throw AppError.badRequest(`Not enough stock for ${sku}: ${now.stock} available`);
+        }
+
+        const stock = this.stockOf(updated, sku);
+        await inventoryMovementModel.create({
+            productId: product.id,
+            sku,
+            change,
+            stockAfter: stock,
+            source: 'adjustment',
+            reason,
+            createdBy: actor.id,
+        });
+
+        logger.info('Inventory adjusted', { productId: product.id, sku, from: stock - change, to: stock, adjustedBy: actor.id });
+        return this.toInfo(updated);
+    }
+
+    /**
+     * Take or return stock for several variants at once, as orders do.
+     * Each variant changes in its own guarded step; when one runs short the
+     * steps already taken are undone, so a shortage on one line leaves all
+     * stock untouched. Nothing is recorded yet: the caller saves its own
+     * change, then records the result or reverts it.
+     */
+    public async applyStockChanges(changes: IStockChange[]): Promise<IAppliedStockChange[]> {
+        const merged = new Map<string, IStockChange>();
+        for (const { productId, sku, change } of changes) {
+            const key = `${productId}:${sku}`;
+            merged.set(key, { productId, sku, change: (merged.get(key)?.change ?? 0) + change });
+        }
+
+        const applied: IAppliedStockChange[] = [];
+        for (const line of merged.values()) {
+            if (line.change === 0) continue;
+
+            const updated = await this.incrementStock(line.productId, line.sku, line.change);
+            if (updated) {
+                applied.push({ ...line, stockAfter: this.stockOf(updated, line.sku) });
+                continue;
+            }
+
+            // Stock being returned to a product or variant that was since deleted has nowhere to go
+            if (line.change > 0) continue;
+
+            await this.revertStockChanges(applied);
+            throw await this.shortage(line);
+        }
+        return applied;
+    }
+
+    /**
+     * Write the movements for stock changes the caller has committed to
+     */
+    public async recordStockChanges(
+        applied: IAppliedStockChange[],
+        movement: { source: InventoryMovementSource; reason: string; orderId?: string },
+        actor: IUserPayload
+    ): Promise<void> {
+        for (const line of applied) {
+            await inventoryMovementModel.create({ ...line, ...movement, createdBy: actor.id });
+        }
+    }
+
+    /**
+     * Undo stock changes whose order write did not happen
+     */
+    public async revertStockChanges(applied: IAppliedStockChange[]): Promise<void> {
+        for (const { productId, sku, change } of applied) {
+            // Returned stock that was sold in the meantime cannot be taken back
+            if (!(await this.incrementStock(productId, sku, -change))) {
+                logger.error('Stock change could not be reverted', { productId, sku, change });
+            }
+        }
+    }
+
+    /**
+     * Add to one variant's stock and the product total in a single write.
+     * Taking stock never goes below zero; with `expected` the write only
+     * happens while the stock is still that count. Null when nothing matched.
+     */
+    private incrementStock(productId: string, sku: string, change: number, expected?: number): Promise<IProduct | null> {
+        return productModel.incrementElement(productId, {
+            array: 'variants',
+            match: expected === undefined ? { sku } : { sku, stock: expected },
+            field: 'stock',
+            amount: change,
+            ...(change < 0 && { min: 0 }),
+            counters: { totalStock: change },
+        });
+    }
+
+    /**
+     * Why taking stock for a line failed
+     */
+    private async shortage({ productId, sku }: IStockChange): Promise<AppError> {
+        const product = await productModel.findById(productId);
+        if (!product) return AppError.notFound(`Product ${productId} not found`);
+
+        const variant = product.variants.find(candidate => candidate.sku === sku);
+        if (!variant) return AppError.notFound(`Variant ${sku} not found`);
+
+        return AppError.conflict(`Not enough stock for ${sku}: ${variant.stock} available`);
+    }
+
+    private stockOf(product: IProduct, sku: string): number {
+        return product.variants.find(variant => variant.sku === sku)?.stock ?? 0;
+    }
+}
+
+export default new ProductService();
@@ -0,0 +1,180 @@
+/**
+ * Session Service - TypeScript
+ * Track logins per device and revoke them individually
+ */
+
+import sessionModel from '@models/sessionModel';
+import SecretsManager from '@utils/secrets';
+import AppError from '@utils/appError';
+import logger from '@utils/logger';
+import { getTokenStore } from './tokenStore';
+import { ISession, ISessionContext, ISessionInfo } from '@types';
+
+// Avoid a database write on every authenticated request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Order matters: Edge and Opera also claim Chrome, Chrome also claims Safari
+const BROWSERS: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\//, 'Opera'],
+    [/Chrome\//, 'Chrome'],
+    [/Firefox\//, 'Firefox'],
+    [/Safari\//, 'Safari'],
+];
+
+// iOS claims Mac OS X, Android claims Linux
+const PLATFORMS: [RegExp, string][] = [
+    [/Windows/, 'Windows'],
+    [/iPhone|iPad/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Mac OS X/, 'macOS'],
+    [/Linux/, 'Linux'],
+];
+
+class SessionService {
+    private readonly lastTouched: Map<string, number> = new Map();
+
+    /**
+     * Short "Browser on OS" label for a user agent
+     */
+    public describeDevice(userAgent: string): string {
+        const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+        const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+        if (browser && platform) return `${browser} on ${platform}`;
+        return browser || platform || 'Unknown device';
+    }
+
+    /**
+     * New session id, used as the token family of a fresh login
+     */
+    public generateId(): string {
+        return SecretsManager.generateSessionId();
+    }
+
+    /**
+     * Record a new login
+     */
+    public async create(
+        userId: string,
+        sessionId: string,
+        expiresAt: Date,
+        context: ISessionContext = {}
+    ): Promise<ISession> {
+        const userAgent = context.userAgent || '';
+
+        return sessionModel.create({
+            userId,
+            sessionId,
+            userAgent,
+            device: this.describeDevice(userAgent),
+            ip: context.ip || '',
+            lastSeenAt: new Date(),
+            expiresAt,
+        });
+    }
+
+    /**
+     * Look up a session by its token family
+     */
+    public async findBySessionId(sessionId: string): Promise<ISession | null> {
+        return sessionModel.findOne({ sessionId });
+    }
+
+    /**
+     * Update last-seen; rotations also extend the expiry
+     */
+    public async touch(sessionId: string, context: ISessionContext = {}, expiresAt?: Date): Promise<void> {
+        const now = Date.now();
+        if (!expiresAt && now - (this.lastTouched.get(sessionId) || 0) < TOUCH_INTERVAL_MS) {
+            return;
+        }
+        this.lastTouched.set(sessionId, now);
+
+        const session = await this.findBySessionId(sessionId);
+        if (!session || session.revokedAt) return;
+
+        await sessionModel.update(session.id, {
+            lastSeenAt: new Date(now),
+            ...(context.ip && { ip: context.ip }),
+            ...(expiresAt && { expiresAt }),
+        });
+    }
+
+    /**
+     * Active sessions of a user, most recently used first
+     */
+    public async list(userId: string, currentSessionId?: string): Promise<ISessionInfo[]> {
+        await sessionModel.deleteMany({ userId, expiresAt: { $lt: new Date() } });
+
+        const sessions = await sessionModel.find(
+            { userId, revokedAt: { $exists: false } },
+            { sort: { field: 'lastSeenAt', order: 'desc' } }
+        );
+
+        return sessions.map(session => ({
+            id: session.id,
+            device: session.device,
+            userAgent: session.userAgent,
+            ip: session.ip,
+            createdAt: session.createdAt,
+            lastSeenAt: session.lastSeenAt,
+            current: session.sessionId === currentSessionId,
+        }));
+    }
+
+    /**
+     * Recent sessions of a user, ended ones included, newest first
+     */
+    public async history(userId: string, limit: number): Promise<ISession[]> {
+        return sessionModel.find({ userId }, { sort: { field: 'createdAt', order: 'desc' }, limit });
+    }
+
+    /**
+     * Revoke the token family of a session and mark it ended
+     */
+    private async end(session: ISession): Promise<void> {
+        await getTokenStore().revokeFamily(session.sessionId, new Date(session.expiresAt));
+        await sessionModel.update(session.id, { revokedAt: new Date() });
+        this.lastTouched.delete(session.sessionId);
+    }
+
+    /**
+     * Revoke one of the user's sessions
+     */
+    public async revoke(userId: string, id: string): Promise<void> {
+        const session = await sessionModel.findById(id);
+        if (!session || session.userId !== userId || session.revokedAt) {
+            throw AppError.notFound('Session not found');
+        }
+
+        await this.end(session);
+        logger.info('Session revoked', { userId, sessionId: session.id });
+    }
+
+    /**
+     * Revoke every session of a user, optionally keeping the current one
+     */
+    public async revokeAll(userId: string, exceptSessionId?: string): Promise<number> {
+        const sessions = await sessionModel.find({ userId, revokedAt: { $exists: false } });
+        const targets = sessions.filter(session => session.sessionId !== exceptSessionId);
+
+        for (const session of targets) {
+            await this.end(session);
+        }
+        return targets.length;
+    }
+
+    /**
+     * Mark a session ended after its family was revoked elsewhere (logout, token reuse)
+     */
+    public async markRevoked(sessionId: string): Promise<void> {
+        const session = await this.findBySessionId(sessionId);
+        if (!session || session.revokedAt) return;
+
+        await sessionModel.update(session.id, { revokedAt: new Date() });
+        this.lastTouched.delete(sessionId);
+    }
+}
+
+export default new SessionService();
@@ -0,0 +1,54 @@
+import { afterEach, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import settingsService from './settingsService';
+import settingsModel from '@models/settingsModel';
+import { actorOf, createUser, prepareDatabase } from '../test/helpers';
+import { IUserPayload } from '@types';
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('settingsService', () => {
+    let admin: IUserPayload;
+
+    before(async () => {
+        await prepareDatabase();
+        admin = actorOf(await createUser('admin'));
+    });
+
+    afterEach(() => {
+        settingsService.stopPolling();
+        mock.timers.reset();
+    });
+
+    it('tells watchers about its own changes at once', async () => {
+        const seen: string[][] = [];
+        const unwatch = settingsService.watch((_settings, changed) => seen.push(changed));
+
+        await settingsService.update({ settings: { storeName: 'Corner Shop' } }, admin);
+        unwatch();
+
+        assert.deepEqual(seen.at(-1), ['storeName']);
+        assert.equal(settingsService.current().storeName, 'Corner Shop');
+    });
+
+    it('picks up a version saved by another instance on the next poll', async () => {
+        mock.timers.enable({ apis: ['setInterval'] });
+        settingsService.startPolling();
+
+        const { version, settings } = settingsService.get();
+        await settingsModel.create({
+            version: version + 1,
+            values: { ...settings, storeName: 'Elsewhere' },
+            changes: [{ key: 'storeName', from: settings.storeName, to: 'Elsewhere' }],
+            changedBy: admin.id,
+            changedByEmail: admin.email,
+        });
+        assert.equal(settingsService.current().storeName, settings.storeName);
+
+        mock.timers.tick(15_000);
+        await settle();
+
+        assert.equal(settingsService.get().version, version + 1);
+        assert.equal(settingsService.current().storeName, 'Elsewhere');
+    });
+});
@@ -0,0 +1,258 @@
+/**
+ * Settings Service - TypeScript
+ * Typed application settings: validation, versioned storage and change notifications
+ */
+
+import settingsModel from '@models/settingsModel';
+import SanitizeHelper from '@utils/sanitize';
+import PaginationHelper from '@utils/pagination';
+import AppError from '@utils/appError';
+import logger from '@utils/logger';
+import { DEFAULT_SETTINGS, PUBLIC_SETTING_KEYS, SETTINGS_SCHEMA, SETTING_KEYS, isSettingKey } from '@config/settings';
+import {
+    IAppSettings,
+    IPaginationQuery,
+    ISettingChange,
+    ISettingsState,
+    ISettingsUpdateInput,
+    ISettingsVersion,
+    IUserPayload,
+    PublicSettings,
+    SettingKey,
+} from '@types';
+
+type SettingsListener = (settings: IAppSettings, changed: SettingKey[]) => void;
+
+const SORTABLE_FIELDS: (keyof ISettingsVersion & string)[] = ['version', 'createdAt'];
+const POLL_INTERVAL_MS = 15_000;
+
+class SettingsService {
+    private state: ISettingsState = { settings: { ...DEFAULT_SETTINGS }, version: 0 };
+    private readonly listeners = new Set<SettingsListener>();
+    private pollTimer?: NodeJS.Timeout;
+
+    /**
+     * Stored values over the defaults; keys dropped from the schema are ignored
+     */
+    private withDefaults(values: Partial<IAppSettings>): IAppSettings {
+        const settings = { ...DEFAULT_SETTINGS };
+        for (const key of SETTING_KEYS) {
+            if (values[key] !== undefined) {
+                (settings as Record<SettingKey, unknown>)[key] = values[key];
+            }
+        }
+        return settings;
+    }
+
+    private toState(version: ISettingsVersion | undefined): ISettingsState {
+        if (!version) {
+            return { settings: { ...DEFAULT_SETTINGS }, version: 0 };
+        }
+        return {
+            settings: this.withDefaults(version.values),
+            version: version.version,
+            updatedAt: version.createdAt,
+            updatedBy: version.changedByEmail,
+        };
+    }
+
+    /**
+     * Switch to a new state and tell listeners which keys changed
+     */
+    private apply(next: ISettingsState): void {
+        const changed = SETTING_KEYS.filter(key => next.settings[key] !== this.state.settings[key]);
+        this.state = next;
+        if (changed.length === 0) return;
+
+        for (const listener of this.listeners) {
+            try {
+                listener(next.settings, changed);
+            } catch (error) {
+                logger.error('Settings listener failed', error);
+            }
+        }
+    }
+
+    private async fetchLatest(): Promise<ISettingsState> {
+        const [latest] = await settingsModel.find({}, { sort: { field: 'version', order: 'desc' }, limit: 1 });
+        return this.toState(latest);
+    }
+
+    /**
+     * Read the stored settings; call once on startup
+     */
+    public async load(): Promise<void> {
+        this.apply(await this.fetchLatest());
+    }
+
+    /**
+     * Check for newer versions every few seconds. An update applies at once on the
+     * instance that saved it; this is how the other instances catch up.
+     */
+    public startPolling(): void {
+        if (this.pollTimer) return;
+
+        this.pollTimer = setInterval(() => {
+            this.fetchLatest()
+                // Never step back to a version read before a save on this instance
+                .then(latest => latest.version > this.state.version && this.apply(latest))
+                .catch((error: Error) => logger.error('Settings reload failed', { error: error.message }));
+        }, POLL_INTERVAL_MS);
+        this.pollTimer.unref();
+    }
+
+    public stopPolling(): void {
+        clearInterval(this.pollTimer);
+        this.pollTimer = undefined;
+    }
+
+    /**
+     * Current values, for code paths that cannot wait on the database
+     */
+    public current(): IAppSettings {
+        return this.state.settings;
+    }
+
+    public get(): ISettingsState {
+        return this.state;
+    }
+
+    public getPublic(): PublicSettings {
+        return Object.fromEntries(PUBLIC_SETTING_KEYS.map(key => [key, this.state.settings[key]])) as PublicSettings;
+    }
+
+    /**
+     * Call listener now and after every change, with the keys that changed.
+     * This is how rate limits and upload limits pick up new values without a restart;
+     * changes saved by another instance arrive within one poll (see startPolling).
+     */
+    public watch(listener: SettingsListener): () => void {
+        this.listeners.add(listener);
+        listener(this.state.settings, SETTING_KEYS);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private parseValue<K extends SettingKey>(key: K, value: unknown, errors: string[]): IAppSettings[K] | undefined {
+        const definition = SETTINGS_SCHEMA[key];
+
+        let parsed: IAppSettings[K];
+        if (definition.type === 'boolean') {
+            if (typeof value !== 'boolean') {
+                errors.push(`${key} must be true or false`);
+                return undefined;
+            }
+            parsed = value as IAppSettings[K];
+        } else if (definition.type === 'number') {
+            if (typeof value !== 'number' || !Number.isInteger(value)) {
+                errors.push(`${key} must be a whole number`);
+                return undefined;
+            }
+            if ((definition.min !== undefined && value < definition.min) || (definition.max !== undefined && value > definition.max)) {
+                errors.push(`${key} must be between ${definition.min} and ${definition.max}`);
+                return undefined;
+            }
+            parsed = value as IAppSettings[K];
+        } else {
+            if (typeof value !== 'string') {
+                errors.push(`${key} must be text`);
+                return undefined;
+            }
+            const text = SanitizeHelper.whitespace(SanitizeHelper.stripHtml(value));
+            if (definition.min !== undefined && text.length < definition.min) {
+                errors.push(`${key} is required`);
+                return undefined;
+            }
+            if (definition.max !== undefined && text.length > definition.max) {
+                errors.push(`${key} can be at most ${definition.max} characters`);
+                return undefined;
+            }
+            parsed = text as IAppSettings[K];
+        }
+
+        const problem = (definition.validate as ((value: IAppSettings[K]) => string | undefined) | undefined)?.(parsed);
+        if (problem) {
+            errors.push(`${key} ${problem}`);
+            return undefined;
+        }
+        return parsed;
+    }
+
+    /**
+     * Validate and store changed settings as a new version
+     */
+    public async update(input: Partial<ISettingsUpdateInput>, actor: IUserPayload): Promise<ISettingsState> {
+        const values = input.settings;
+        if (!values || typeof values !== 'object' || Array.isArray(values)) {
+            throw AppError.badRequest('settings must be an object of setting values');
+        }
+
+        const errors: string[] = [];
+        const updates: Partial<Record<SettingKey, unknown>> = {};
+        for (const [key, value] of Object.entries(values)) {
+            if (!isSettingKey(key)) {
+                errors.push(`Unknown setting: ${key}`);
+                continue;
+            }
+            const parsed = this.parseValue(key, value, errors);
+            if (parsed !== undefined) updates[key] = parsed;
+        }
+        if (errors.length > 0) {
+            throw AppError.validation(errors);
+        }
+
+        // Another instance may have saved since this one last loaded
+        const latest = await this.fetchLatest();
+        this.apply(latest);
+
+        if (input.version !== undefined && Number(input.version) !== latest.version) {
+            throw AppError.conflict('Settings were changed by someone else; reload them and try again');
+        }
+
+        const changes: ISettingChange[] = (Object.keys(updates) as SettingKey[])
+            .filter(key => updates[key] !== latest.settings[key])
+            .map(key => ({ key, from: latest.settings[key], to: updates[key] as IAppSettings[SettingKey] }));
+        if (changes.length === 0) {
+            return latest;
+        }
+
+        let saved: ISettingsVersion;
+        try {
+            saved = await settingsModel.create({
+                version: latest.version + 1,
+                values: { ...latest.settings, ...updates } as IAppSettings,
+                changes,
+                changedBy: actor.id,
+                changedByEmail: actor.email,
+            });
+        } catch (error) {
+            if (error instanceof AppError && error.statusCode === 409) {
+                throw AppError.conflict('Settings were changed by someone else; reload them and try again');
+            }
+            throw error;
+        }
+
+        this.apply(this.toState(saved));
+        logger.info('Settings updated', { version: saved.version, keys: changes.map(change => change.key), updatedBy: actor.id });
+        return this.state;
+    }
+
+    /**
+     * Stored versions with what changed in each, newest first
+     */
+    public async history(
+        query: IPaginationQuery
+    ): Promise<{ versions: ISettingsVersion[]; page: number; limit: number; total: number }> {
+        const { page, limit, options } = PaginationHelper.parse<ISettingsVersion>(query, SORTABLE_FIELDS, 'version');
+
+        const [versions, total] = await Promise.all([
+            settingsModel.find({}, options),
+            settingsModel.count({}),
+        ]);
+
+        return { versions, page, limit, total };
+    }
+}
+
+export default new SettingsService();
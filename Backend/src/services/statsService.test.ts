@@ -0,0 +1,64 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import statsService from './statsService';
+import orderModel from '@models/orderModel';
+import { createUser, signIn, startServer, TestServer } from '../test/helpers';
+import { IOrder, OrderStatus } from '@types';
+
+/**
+ * Stored order with one line of the given product, created now
+ */
+const storeOrder = (number: number, status: OrderStatus, productId: string, quantity: number) => {
+    const lineTotal = 10000 * quantity;
+    return orderModel.create({
+        number: `T-${number}`,
+        customerName: 'Jane Buyer',
+        customerEmail: 'jane@example.com',
+        shippingAddress: { line1: '1 Main Street', city: 'Hanoi', country: 'VN' },
+        items: [{ productId, sku: productId.toUpperCase(), name: productId, options: {}, unitPrice: 10000, quantity, lineTotal }],
+        subtotal: lineTotal,
+        discount: 0,
+        shipping: 0,
+        tax: 0,
+        total: lineTotal,
+        status,
+        history: [],
+        createdBy: 'tests',
+    } as Omit<IOrder, 'id' | 'createdAt' | 'updatedAt'>);
+};
+
+describe('statsService', () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startServer();
+    });
+
+    after(async () => {
+        await server.close();
+    });
+
+    it('adds up every order in the range, however many pages they fill', async () => {
+        // More than two pages of orders
+        for (let number = 0; number < 1100; number++) {
+            await storeOrder(number, 'paid', number % 2 ? 'mug' : 'tee', 1);
+        }
+        await storeOrder(1100, 'cancelled', 'mug', 5);
+
+        const stats = await statsService.getDashboard({});
+
+        assert.equal(stats.orders.total, 1101);
+        assert.equal(stats.orders.paid, 1100);
+        assert.equal(stats.orders.byStatus.cancelled, 1);
+        assert.equal(stats.revenue.total, 1100 * 10000);
+        assert.equal(stats.series.reduce((sum, bucket) => sum + bucket.orders, 0), 1101);
+        assert.deepEqual(stats.topProducts.map(product => [product.productId, product.quantity]).sort(), [['mug', 550], ['tee', 550]]);
+    });
+
+    it('shows the figures only to roles holding stats:read', async () => {
+        for (const [role, status] of [['support', 200], ['warehouse', 403], ['admin', 200]] as const) {
+            const { accessToken } = await signIn(await createUser(role));
+            assert.equal((await server.request('GET', '/admin/stats', { token: accessToken })).status, status, role);
+        }
+    });
+});
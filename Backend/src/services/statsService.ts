@@ -0,0 +1,232 @@
+/**
+ * Stats Service - TypeScript
+ * Dashboard figures: user, product and order counts, revenue and top products over a date range
+ */
+
+import orderModel from '@models/orderModel';
+import productModel from '@models/productModel';
+import userModel from '@models/userModel';
+import AppError from '@utils/appError';
+import { ORDER_STATUSES, ORDER_STATUSES_COUNTED_AS_REVENUE } from '@config/orders';
+import { FilterQuery, IDashboardStats, IOrder, IStatsBucket, IStatsQuery, ITopProduct, OrderStatus, StatsInterval } from '@types';
+
+const STATS_INTERVALS: StatsInterval[] = ['day', 'week', 'month'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+// Keeps the chart readable and the query bounded; longer ranges need a wider interval
+const MAX_BUCKETS = 366;
+const MIN_TZ_OFFSET = -12 * 60;
+const MAX_TZ_OFFSET = 14 * 60;
+const TOP_PRODUCTS_LIMIT = 10;
+const CACHE_TTL_MS = 60 * 1000;
+const ORDER_PAGE_SIZE = 500;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Dates below are "shifted": midnight UTC stands for midnight in the
+ * requested time zone, so UTC getters give local calendar fields
+ */
+class StatsService {
+    private readonly cache: Map<string, { stats: Promise<IDashboardStats>; expiresAt: number }> = new Map();
+
+    private dayKey(shifted: number): string {
+        return new Date(shifted).toISOString().slice(0, 10);
+    }
+
+    private parseDay(value: unknown, field: string): number | undefined {
+        if (value === undefined || value === '') return undefined;
+
+        const day = typeof value === 'string' && DAY_PATTERN.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN;
+        if (isNaN(day) || this.dayKey(day) !== value) {
+            throw AppError.badRequest(`${field} must be a date (YYYY-MM-DD)`);
+        }
+        return day;
+    }
+
+    private parseTzOffset(value: unknown): number {
+        if (value === undefined || value === '') {
+            return -new Date().getTimezoneOffset();
+        }
+
+        const offset = Number(value);
+        if (!Number.isInteger(offset) || offset < MIN_TZ_OFFSET || offset > MAX_TZ_OFFSET) {
+            throw AppError.badRequest(`tzOffset must be whole minutes from ${MIN_TZ_OFFSET} to ${MAX_TZ_OFFSET}`);
+        }
+        return offset;
+    }
+
+    /**
+     * Start of the bucket holding a shifted day; weeks start on Monday
+     */
+    private bucketStart(day: number, interval: StatsInterval): number {
+        const date = new Date(day);
+        if (interval === 'week') {
+            return day - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+        }
+        if (interval === 'month') {
+            return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+        }
+        return Math.floor(day / DAY_MS) * DAY_MS;
+    }
+
+    private nextBucket(start: number, interval: StatsInterval): number {
+        if (interval === 'month') {
+            const date = new Date(start);
+            return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+        }
+        return start + (interval === 'week' ? 7 : 1) * DAY_MS;
+    }
+
+    /**
+     * Validate the query and fill in defaults: the last 30 days, by day
+     */
+    private parseQuery(query: IStatsQuery): { from: number; to: number; interval: StatsInterval; tzOffset: number } {
+        const interval = query.interval ?? 'day';
+        if (!STATS_INTERVALS.includes(interval)) {
+            throw AppError.badRequest(`interval must be one of: ${STATS_INTERVALS.join(', ')}`);
+        }
+
+        const tzOffset = this.parseTzOffset(query.tzOffset);
+        const today = this.bucketStart(Date.now() + tzOffset * 60 * 1000, 'day');
+        const to = this.parseDay(query.to, 'to') ?? today;
+        const from = this.parseDay(query.from, 'from') ?? to - (DEFAULT_RANGE_DAYS - 1) * DAY_MS;
+        if (from > to) {
+            throw AppError.badRequest('from must not be after to');
+        }
+
+        let buckets = 0;
+        for (let start = this.bucketStart(from, interval); start <= to; start = this.nextBucket(start, interval)) {
+            if (++buckets > MAX_BUCKETS) {
+                throw AppError.badRequest(`The range spans more than ${MAX_BUCKETS} ${interval}s; pick a shorter range or a wider interval`);
+            }
+        }
+
+        return { from, to, interval, tzOffset };
+    }
+
+    /**
+     * Dashboard figures, cached briefly per range so a busy dashboard does not rescan orders
+     */
+    public async getDashboard(query: IStatsQuery): Promise<IDashboardStats> {
+        const range = this.parseQuery(query);
+        const key = `${range.from}:${range.to}:${range.interval}:${range.tzOffset}`;
+        const now = Date.now();
+
+        const cached = this.cache.get(key);
+        if (cached && cached.expiresAt > now) {
+            return cached.stats;
+        }
+
+        for (const [entryKey, entry] of this.cache) {
+            if (entry.expiresAt <= now) this.cache.delete(entryKey);
+        }
+
+        // The promise is cached so simultaneous requests share one computation
+        const stats = this.compute(range);
+        this.cache.set(key, { stats, expiresAt: now + CACHE_TTL_MS });
+        stats.catch(() => this.cache.delete(key));
+        return stats;
+    }
+
+    private async compute(range: {
+        from: number;
+        to: number;
+        interval: StatsInterval;
+        tzOffset: number;
+    }): Promise<IDashboardStats> {
+        const { from, to, interval, tzOffset } = range;
+        const shift = tzOffset * 60 * 1000;
+        const createdAt = { $gte: new Date(from - shift), $lte: new Date(to + DAY_MS - shift - 1) };
+
+        const [totalUsers, newUsers, totalProducts, publishedProducts] = await Promise.all([
+            userModel.count({}),
+            userModel.count({ createdAt }),
+            productModel.count({}),
+            productModel.count({ status: 'published' }),
+        ]);
+
+        const series = new Map<string, IStatsBucket>();
+        for (let start = this.bucketStart(from, interval); start <= to; start = this.nextBucket(start, interval)) {
+            const date = this.dayKey(start);
+            series.set(date, { date, orders: 0, revenue: 0 });
+        }
+
+        const byStatus = Object.fromEntries(ORDER_STATUSES.map(status => [status, 0])) as Record<OrderStatus, number>;
+        const products = new Map<string, ITopProduct>();
+        let revenue = 0;
+        let paid = 0;
+        let total = 0;
+
+        await this.forEachOrder({ createdAt }, order => {
+            total += 1;
+            byStatus[order.status] += 1;
+
+            const bucket = series.get(this.dayKey(this.bucketStart(new Date(order.createdAt).getTime() + shift, interval)));
+            if (bucket) bucket.orders += 1;
+
+            if (!ORDER_STATUSES_COUNTED_AS_REVENUE.includes(order.status)) return;
+
+            paid += 1;
+            revenue += order.total;
+            if (bucket) bucket.revenue += order.total;
+            this.addItems(products, order);
+        });
+
+        const topProducts = [...products.values()]
+            .sort((a, b) => b.revenue - a.revenue || b.quantity - a.quantity)
+            .slice(0, TOP_PRODUCTS_LIMIT);
+
+        return {
+            range: { from: this.dayKey(from), to: this.dayKey(to), interval, tzOffset },
+            users: { total: totalUsers, new: newUsers },
+            products: { total: totalProducts, published: publishedProducts },
+            orders: { total, paid, byStatus },
+            revenue: { total: revenue, averageOrderValue: paid > 0 ? Math.round(revenue / paid) : 0 },
+            series: [...series.values()],
+            topProducts,
+            generatedAt: new Date(),
+        };
+    }
+
+    /**
+     * Visit matching orders a page at a time, so memory does not grow with the
+     * range; the repository has no aggregation. Pages follow the id, which new
+     * orders cannot shift the way they would an offset.
+     */
+    private async forEachOrder(filter: FilterQuery<IOrder>, visit: (order: IOrder) => void): Promise<void> {
+        let after: string | undefined;
+        for (;;) {
+            const page = await orderModel.find(
+                { ...filter, ...(after && { id: { $gt: after } }) },
+                { sort: { field: 'id', order: 'asc' }, limit: ORDER_PAGE_SIZE }
+            );
+            page.forEach(visit);
+            if (page.length < ORDER_PAGE_SIZE) return;
+            after = page[page.length - 1]!.id;
+        }
+    }
+
+    /**
+     * Sum line items per product; variants of one product count together
+     */
+    private addItems(products: Map<string, ITopProduct>, order: IOrder): void {
+        for (const item of order.items) {
+            const entry = products.get(item.productId);
+            if (entry) {
+                entry.quantity += item.quantity;
+                entry.revenue += item.lineTotal;
+            } else {
+                products.set(item.productId, {
+                    productId: item.productId,
+                    name: item.name,
+                    quantity: item.quantity,
+                    revenue: item.lineTotal,
+                });
+            }
+        }
+    }
+}
+
+export default new StatsService();
@@ -0,0 +1,56 @@
+/**
+ * Token Store - TypeScript
+ * Tracks used refresh token ids and revoked token families
+ */
+
+import { ITokenStore } from '@types';
+
+/**
+ * In-memory store; entries are dropped once the token they guard has expired
+ */
+export class MemoryTokenStore implements ITokenStore {
+    private readonly usedTokens: Map<string, number> = new Map();
+    private readonly revokedFamilies: Map<string, number> = new Map();
+
+    private prune(entries: Map<string, number>): void {
+        const now = Date.now();
+        for (const [key, expiresAt] of entries) {
+            if (expiresAt <= now) entries.delete(key);
+        }
+    }
+
+    public async consume(jti: string, expiresAt: Date): Promise<boolean> {
+        this.prune(this.usedTokens);
+        if (this.usedTokens.has(jti)) return false;
+
+        this.usedTokens.set(jti, expiresAt.getTime());
+        return true;
+    }
+
+    public async revokeFamily(family: string, expiresAt: Date): Promise<void> {
+        this.prune(this.revokedFamilies);
+        const current = this.revokedFamilies.get(family) || 0;
+        this.revokedFamilies.set(family, Math.max(current, expiresAt.getTime()));
+    }
+
+    public async isFamilyRevoked(family: string): Promise<boolean> {
+        const expiresAt = this.revokedFamilies.get(family);
+        return expiresAt !== undefined && expiresAt > Date.now();
+    }
+}
+
+let store: ITokenStore = new MemoryTokenStore();
+
+/**
+ * Current token store
+ */
+export const getTokenStore = (): ITokenStore => store;
+
+/**
+ * Replace the token store (e.g. with a Redis or database implementation)
+ */
+export const setTokenStore = (tokenStore: ITokenStore): void => {
+    store = tokenStore;
+};
+
+export default getTokenStore;
@@ -0,0 +1,46 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import userService from './userService';
+import authService from './authService';
+import { actorOf, captureMail, createUser, prepareDatabase, tokenFromMail } from '../test/helpers';
+import { IUserPayload } from '@types';
+
+describe('userService.update', () => {
+    let admin: IUserPayload;
+
+    before(async () => {
+        await prepareDatabase();
+        admin = actorOf(await createUser('admin'));
+    });
+
+    it('asks a new email address to be verified again', async () => {
+        const outbox = captureMail();
+        const user = await createUser();
+
+        const updated = await userService.update(user.id, { email: 'Moved@Example.com' }, admin);
+        assert.equal(updated.email, 'moved@example.com');
+        assert.equal(updated.isVerified, false);
+
+        assert.equal(outbox.at(-1)?.to, 'moved@example.com');
+        const verified = await authService.verifyEmail(tokenFromMail(outbox.at(-1)));
+        assert.equal(verified.isVerified, true);
+    });
+
+    it('keeps the verified flag when the email stays the same', async () => {
+        const outbox = captureMail();
+        const user = await createUser();
+
+        const updated = await userService.update(user.id, { email: user.email.toUpperCase(), name: 'Renamed' }, admin);
+        assert.equal(updated.isVerified, true);
+        assert.equal(outbox.length, 0);
+    });
+
+    it('lets the same request vouch for the new address', async () => {
+        const outbox = captureMail();
+        const user = await createUser();
+
+        const updated = await userService.update(user.id, { email: 'vouched@example.com', isVerified: true }, admin);
+        assert.equal(updated.isVerified, true);
+        assert.equal(outbox.length, 0);
+    });
+});
@@ -0,0 +1,364 @@
+/**
+ * User Service - TypeScript
+ * Administrative user management: listing, CRUD, roles and bans
+ */
+
+import userModel from '@models/userModel';
+import PasswordHelper from '@utils/password';
+import SanitizeHelper from '@utils/sanitize';
+import PaginationHelper from '@utils/pagination';
+import AppError from '@utils/appError';
+import logger from '@utils/logger';
+import { isUserRole } from '@config/permissions';
+import authService from './authService';
+import permissionService from './permissionService';
+import sessionService from './sessionService';
+import {
+    FilterQuery,
+    IFilterQuery,
+    ISessionInfo,
+    IUser,
+    IUserActivity,
+    IUserInput,
+    IUserPayload,
+    PublicUser,
+    UserRole,
+} from '@types';
+
+const MAX_SEARCH_LENGTH = 100;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Files from POST /api/uploads/avatar are referenced by their served path
+const UPLOADED_AVATAR_PATTERN = /^\/uploads\/avatars\/[\w.-]+$/;
+const ACTIVITY_LIMIT = 20;
+const SORTABLE_FIELDS: (keyof IUser & string)[] = ['createdAt', 'updatedAt', 'name', 'email', 'role'];
+
+class UserService {
+    /**
+     * Validate a user id from the URL
+     */
+    private parseId(id: string): string {
+        try {
+            return SanitizeHelper.objectId(String(id || ''));
+        } catch {
+            throw AppError.badRequest('Invalid user id');
+        }
+    }
+
+    private async loadUser(id: string): Promise<IUser> {
+        const user = await userModel.findById(this.parseId(id));
+        if (!user) {
+            throw AppError.notFound('User not found');
+        }
+        return user;
+    }
+
+    private parseAvatar(avatar: unknown, errors: string[]): string | undefined {
+        if (UPLOADED_AVATAR_PATTERN.test(String(avatar))) {
+            return String(avatar);
+        }
+        try {
+            return SanitizeHelper.url(String(avatar));
+        } catch {
+            errors.push('avatar must be an uploaded avatar or an http(s) URL');
+            return undefined;
+        }
+    }
+
+    /**
+     * Managing a role requires holding every permission it grants, so
+     * user administrators cannot create or edit accounts above themselves
+     */
+    private async assertCanManageRole(actor: IUserPayload, role: UserRole): Promise<void> {
+        const required = await permissionService.getPermissions(role);
+        if (!(await permissionService.hasPermissions(actor.role, required))) {
+            throw AppError.forbidden(`You cannot manage ${role} accounts`);
+        }
+    }
+
+    private assertNotSelf(actor: IUserPayload, user: IUser, action: string): void {
+        if (actor.id === user.id) {
+            throw AppError.badRequest(`You cannot ${action} your own account`);
+        }
+    }
+
+    /**
+     * Keep at least one active administrator
+     */
+    private async assertNotLastAdmin(user: IUser): Promise<void> {
+        if (user.role !== 'admin' || user.bannedAt) return;
+
+        const admins = await userModel.count({ role: 'admin', bannedAt: { $exists: false } });
+        if (admins <= 1) {
+            throw AppError.badRequest('The last active administrator cannot be removed');
+        }
+    }
+
+    /**
+     * Paginated, filtered list of users
+     */
+    public async list(query: IFilterQuery): Promise<{ users: PublicUser[]; page: number; limit: number; total: number }> {
+        const { page, limit, options } = PaginationHelper.parse<IUser>(query, SORTABLE_FIELDS);
+
+        const filter: FilterQuery<IUser> = {};
+        if (query.role !== undefined) {
+            if (!isUserRole(query.role)) {
+                throw AppError.badRequest(`Unknown role: ${query.role}`);
+            }
+            filter.role = query.role;
+        }
+
+        const isVerified = PaginationHelper.flag(query.isVerified);
+        if (isVerified !== undefined) filter.isVerified = isVerified;
+
+        const banned = PaginationHelper.flag(query.banned);
+        if (banned !== undefined) filter.bannedAt = { $exists: banned };
+
+        // Adapters match the term literally (regex-escaped on MongoDB)
+        const term = SanitizeHelper.whitespace(SanitizeHelper.stripHtml(String(query.search || '')))
+            .slice(0, MAX_SEARCH_LENGTH);
+        const search = term ? { term, fields: ['name', 'email'] as (keyof IUser & string)[] } : undefined;
+
+        const [users, total] = await Promise.all([
+            userModel.find(filter, { ...options, search }),
+            userModel.count(filter, search),
+        ]);
+
+        return { users: users.map(user => authService.toPublicUser(user)), page, limit, total };
+    }
+
+    /**
+     * Single user with role permissions
+     */
+    public async get(id: string): Promise<PublicUser> {
+        return authService.withPermissions(await this.loadUser(id));
+    }
+
+    /**
+     * Active sessions of a user
+     */
+    public async sessions(id: string): Promise<ISessionInfo[]> {
+        const user = await this.loadUser(id);
+        return sessionService.list(user.id);
+    }
+
+    /**
+     * Sign a user out of every device
+     */
+    public async revokeSessions(id: string, actor: IUserPayload): Promise<number> {
+        const user = await this.loadUser(id);
+        await this.assertCanManageRole(actor, user.role);
+
+        const revoked = await sessionService.revokeAll(user.id);
+        logger.info('User sessions revoked', { userId: user.id, revokedBy: actor.id, count: revoked });
+        return revoked;
+    }
+
+    /**
+     * Recent account events, newest first, built from the user record and its sessions
+     */
+    public async activity(id: string): Promise<IUserActivity[]> {
+        const user = await this.loadUser(id);
+        const sessions = await sessionService.history(user.id, ACTIVITY_LIMIT);
+
+        const events: IUserActivity[] = [{ type: 'account_created', at: user.createdAt }];
+        if (user.bannedAt) {
+            events.push({ type: 'banned', at: user.bannedAt });
+        }
+        for (const session of sessions) {
+            events.push({ type: 'signed_in', at: session.createdAt, device: session.device, ip: session.ip });
+            if (session.revokedAt) {
+                events.push({ type: 'signed_out', at: session.revokedAt, device: session.device, ip: session.ip });
+            }
+        }
+
+        return events
+            .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime())
+            .slice(0, ACTIVITY_LIMIT);
+    }
+
+    /**
+     * Create an account on behalf of someone else
+     */
+    public async create(input: Partial<IUserInput>, actor: IUserPayload): Promise<PublicUser> {
+        const email = SanitizeHelper.email(String(input.email || ''));
+        const name = SanitizeHelper.whitespace(SanitizeHelper.stripHtml(String(input.name || '')));
+        const role = input.role ?? 'user';
+
+        const errors: string[] = [];
+        if (!EMAIL_PATTERN.test(email)) errors.push('A valid email is required');
+        if (!name) errors.push('name is required');
+        if (!input.password) errors.push('password is required');
+        if (!isUserRole(role)) errors.push(`Unknown role: ${role}`);
+        const avatar = input.avatar ? this.parseAvatar(input.avatar, errors) : undefined;
+        if (errors.length > 0) {
+            throw AppError.validation(errors);
+        }
+
+        const strength = PasswordHelper.validateStrength(input.password!);
+        if (!strength.valid) {
+            throw AppError.validation(strength.errors, 'Password is too weak');
+        }
+
+        await this.assertCanManageRole(actor, role);
+
+        if (await userModel.findOne({ email })) {
+            throw AppError.conflict('Email is already registered');
+        }
+
+        const user = await userModel.create({
+            email,
+            name,
+            password: await PasswordHelper.hash(input.password!),
+            role,
+            isVerified: PaginationHelper.flag(input.isVerified) ?? false,
+            ...(avatar && { avatar }),
+        });
+
+        logger.info('User created', { userId: user.id, createdBy: actor.id });
+        return authService.withPermissions(user);
+    }
+
+    /**
+     * Update profile fields; role and ban status have their own operations
+     */
+    public async update(id: string, input: Partial<IUserInput>, actor: IUserPayload): Promise<PublicUser> {
+        const user = await this.loadUser(id);
+        await this.assertCanManageRole(actor, user.role);
+
+        const changes: Partial<IUser> = {};
+        const errors: string[] = [];
+
+        if (input.name !== undefined) {
+            changes.name = SanitizeHelper.whitespace(SanitizeHelper.stripHtml(String(input.name)));
+            if (!changes.name) errors.push('name cannot be empty');
+        }
+        if (input.email !== undefined) {
+            changes.email = SanitizeHelper.email(String(input.email));
+            if (!EMAIL_PATTERN.test(changes.email)) errors.push('email is invalid');
+        }
+        if (input.avatar !== undefined) {
+            changes.avatar = input.avatar ? this.parseAvatar(input.avatar, errors) : undefined;
+        }
+        if (input.isVerified !== undefined) {
+            const isVerified = PaginationHelper.flag(input.isVerified);
+            if (isVerified === undefined) errors.push('isVerified must be a boolean');
+            else changes.isVerified = isVerified;
+        }
+        if (input.password !== undefined) {
+            const strength = PasswordHelper.validateStrength(String(input.password));
+            if (!strength.valid) errors.push(...strength.errors);
+            else changes.password = await PasswordHelper.hash(String(input.password));
+        }
+
+        if (errors.length > 0) {
+            throw AppError.validation(errors);
+        }
+
+        const emailChanged = changes.email !== undefined && changes.email !== user.email;
+        if (emailChanged && await userModel.findOne({ email: changes.email! })) {
+            throw AppError.conflict('Email is already registered');
+        }
+
+        // A new address has to be confirmed again unless the same request says otherwise
+        if (emailChanged && changes.isVerified === undefined) {
+            changes.isVerified = false;
+        }
+
+        const updated = await userModel.update(user.id, changes);
+
+        if (emailChanged && !updated!.isVerified) {
+            await authService.sendVerification(updated!);
+        }
+
+        // A new password signs the user out everywhere, as a reset does
+        if (changes.password) {
+            await authService.logoutAll(user.id);
+        }
+
+        logger.info('User updated', { userId: user.id, updatedBy: actor.id });
+        return authService.withPermissions(updated!);
+    }
+
+    /**
+     * Move a user to another role; their sessions end so new tokens carry it
+     */
+    public async changeRole(id: string, role: unknown, actor: IUserPayload): Promise<PublicUser> {
+        if (!isUserRole(role)) {
+            throw AppError.badRequest(`Unknown role: ${String(role)}`);
+        }
+
+        const user = await this.loadUser(id);
+        this.assertNotSelf(actor, user, 'change the role of');
+        await this.assertCanManageRole(actor, user.role);
+        await this.assertCanManageRole(actor, role);
+
+        if (user.role === role) {
+            return authService.withPermissions(user);
+        }
+        await this.assertNotLastAdmin(user);
+
+        const updated = await userModel.update(user.id, { role });
+        await authService.logoutAll(user.id);
+
+        logger.info('User role changed', { userId: user.id, from: user.role, to: role, changedBy: actor.id });
+        return authService.withPermissions(updated!);
+    }
+
+    /**
+     * Suspend an account and end its sessions
+     */
+    public async ban(id: string, reason: unknown, actor: IUserPayload): Promise<PublicUser> {
+        const user = await this.loadUser(id);
+        this.assertNotSelf(actor, user, 'ban');
+        await this.assertCanManageRole(actor, user.role);
+
+        if (user.bannedAt) {
+            throw AppError.conflict('User is already banned');
+        }
+        await this.assertNotLastAdmin(user);
+
+        const banReason = SanitizeHelper.whitespace(SanitizeHelper.stripHtml(String(reason || '')));
+        const updated = await userModel.update(user.id, {
+            bannedAt: new Date(),
+            ...(banReason && { banReason }),
+        });
+        await authService.logoutAll(user.id);
+
+        logger.warn('User banned', { userId: user.id, bannedBy: actor.id });
+        return authService.withPermissions(updated!);
+    }
+
+    /**
+     * Lift a suspension
+     */
+    public async unban(id: string, actor: IUserPayload): Promise<PublicUser> {
+        const user = await this.loadUser(id);
+        await this.assertCanManageRole(actor, user.role);
+
+        if (!user.bannedAt) {
+            throw AppError.badRequest('User is not banned');
+        }
+
+        const restored = await userModel.update(user.id, { bannedAt: undefined, banReason: undefined });
+
+        logger.info('User unbanned', { userId: user.id, unbannedBy: actor.id });
+        return authService.withPermissions(restored!);
+    }
+
+    /**
+     * Delete an account and end its sessions
+     */
+    public async delete(id: string, actor: IUserPayload): Promise<void> {
+        const user = await this.loadUser(id);
+        this.assertNotSelf(actor, user, 'delete');
+        await this.assertCanManageRole(actor, user.role);
+        await this.assertNotLastAdmin(user);
+
+        await authService.logoutAll(user.id);
+        await userModel.delete(user.id);
+
+        logger.warn('User deleted', { userId: user.id, deletedBy: actor.id });
+    }
+}
+
+export default new UserService();
@@ -0,0 +1,125 @@
+/**
+ * Test Helpers - TypeScript
+ * Start the app on a random port and create users, tokens and mail to test against
+ */
+
+import { AddressInfo } from 'net';
+import app from '../app';
+import { connectDatabase } from '@config/database';
+import userModel from '@models/userModel';
+import permissionService from '@services/permissionService';
+import settingsService from '@services/settingsService';
+import authService from '@services/authService';
+import { setMailTransport } from '@services/mailService';
+import { findResponseMismatches } from '@/docs/openapi';
+import PasswordHelper from '@utils/password';
+import { IApiResponse, IMailMessage, IUser, IUserPayload, UserRole } from '@types';
+
+export const TEST_PASSWORD = 'Test@12345';
+
+export interface TestResponse<T> {
+    status: number;
+    headers: Headers;
+    body: IApiResponse<T>;
+}
+
+export interface RequestOptions {
+    token?: string;
+    apiKey?: string;
+    body?: unknown;
+}
+
+export interface TestServer {
+    request<T = unknown>(method: string, path: string, options?: RequestOptions): Promise<TestResponse<T>>;
+    close(): Promise<void>;
+}
+
+/**
+ * Database, roles and settings as server.ts prepares them
+ */
+export const prepareDatabase = async (): Promise<void> => {
+    await connectDatabase();
+    await settingsService.load();
+    await permissionService.seedRoles();
+};
+
+/**
+ * Listen on a free port and send JSON requests to /api; every answer must match the API docs
+ */
+export const startServer = async (): Promise<TestServer> => {
+    await prepareDatabase();
+
+    const server = app.listen(0);
+    await new Promise<void>(resolve => server.once('listening', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        async request<T>(method: string, path: string, options: RequestOptions = {}) {
+            const res = await fetch(`http://127.0.0.1:${port}/api${path}`, {
+                method,
+                headers: {
+                    'User-Agent': 'backend-tests',
+                    'Content-Type': 'application/json',
+                    ...(options.token && { Authorization: `Bearer ${options.token}` }),
+                    ...(options.apiKey && { 'X-API-Key': options.apiKey }),
+                },
+                ...(options.body !== undefined && { body: JSON.stringify(options.body) }),
+            });
+            const body = (await res.json()) as IApiResponse<T>;
+
+            const mismatches = findResponseMismatches(method, path, res.status, body);
+            if (mismatches.length > 0) throw new Error(`Response differs from the API docs:\n  ${mismatches.join('\n  ')}`);
+            return { status: res.status, headers: res.headers, body };
+        },
+
+        close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+    };
+};
+
+let userCount = 0;
+
+/**
+ * Verified user with TEST_PASSWORD, unique email unless one is given
+ */
+export const createUser = async (role: UserRole = 'user', overrides: Partial<IUser> = {}): Promise<IUser> => {
+    userCount++;
+    return userModel.create({
+        email: `user${userCount}-${Date.now()}@example.com`,
+        name: `Test User ${userCount}`,
+        password: await PasswordHelper.hash(TEST_PASSWORD),
+        role,
+        isVerified: true,
+        ...overrides,
+    });
+};
+
+/**
+ * The request user a controller would pass to a service
+ */
+export const actorOf = (user: IUser): IUserPayload => ({ id: user.id, email: user.email, role: user.role });
+
+/**
+ * Fresh session tokens for a user without MFA
+ */
+export const signIn = async (user: IUser): Promise<{ accessToken: string; refreshToken: string }> => {
+    const { accessToken, refreshToken } = await authService.issueTokens(user);
+    return { accessToken, refreshToken: refreshToken! };
+};
+
+/**
+ * Replace the mail transport with one that keeps messages in memory
+ */
+export const captureMail = (): IMailMessage[] => {
+    const outbox: IMailMessage[] = [];
+    setMailTransport({ send: async message => { outbox.push(message); } });
+    return outbox;
+};
+
+/**
+ * The token query parameter of the link in a captured email
+ */
+export const tokenFromMail = (message: IMailMessage | undefined): string => {
+    const match = /[?&]token=([^\s&"]+)/.exec(message?.text || '');
+    if (!match?.[1]) throw new Error('No token link in the email');
+    return decodeURIComponent(match[1]);
+};
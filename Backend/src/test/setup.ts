@@ -0,0 +1,21 @@
+/**
+ * Test Setup - TypeScript
+ * Preloaded before every test file: in-memory database, fixed secrets, quiet logs
+ */
+
+process.env.NODE_ENV = 'test';
+process.env.DATABASE_URL = 'memory://';
+process.env.JWT_SECRET = 'test-access-secret';
+process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+process.env.COOKIE_SECRET = 'test-cookie-secret';
+process.env.JWT_EXPIRE = '15m';
+process.env.JWT_REFRESH_EXPIRE = '7d';
+process.env.AUTH_TOKEN_TRANSPORT = 'header';
+process.env.REQUIRE_EMAIL_VERIFICATION = 'false';
+// Hashing cost only matters against offline attacks
+process.env.BCRYPT_SALT_ROUNDS = '4';
+
+// Services and the request logger report every step and expected 4xx; keep test output to the results
+for (const method of ['log', 'info', 'warn', 'debug', 'error'] as const) {
+    console[method] = () => undefined;
+}
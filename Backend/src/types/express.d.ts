@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { IUserPayload } from '@types';
+import { IApiKeyPayload, IUserPayload } from '@types';
 
 // Extend Express Request to include custom properties
 declare global {
@@ -7,6 +7,7 @@ declare global {
         interface Request {
             id?: string;
             user?: IUserPayload;
+            apiKey?: IApiKeyPayload;
         }
     }
 }
@@ -1,8 +1,9 @@
 import { Request } from 'express';
+import type { PERMISSIONS, USER_ROLES } from '@config/permissions';
 
 // ============= User Types =============
 
-export interface IUser {
+export interface IUser extends IEntity {
     id: string;
     email: string;
     password: string;
@@ -10,16 +11,48 @@ export interface IUser {
     role: UserRole;
     avatar?: string;
     isVerified: boolean;
+    mfa?: IUserMfa;
+    // Set while an administrator has suspended the account
+    bannedAt?: Date;
+    banReason?: string;
+    // Carried in every token; bumping it revokes all tokens issued so far
+    tokenVersion?: number;
     createdAt: Date;
     updatedAt: Date;
 }
 
-export type UserRole = 'admin' | 'user' | 'guest';
+export interface IUserMfa {
+    enabled: boolean;
+    // TOTP secret encrypted with SecretsManager.encrypt
+    secret?: IEncryptedData;
+    // Secret awaiting confirmation during enrolment
+    pendingSecret?: IEncryptedData;
+    recoveryCodes: IHashResult[];
+    // Last accepted time step, so a code cannot be replayed
+    lastStep?: number;
+}
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export interface IRole extends IEntity {
+    name: UserRole;
+    description?: string;
+    permissions: Permission[];
+}
+
+export type PublicUser = Omit<IUser, 'password' | 'mfa' | 'tokenVersion'> & {
+    permissions?: Permission[];
+    mfaEnabled: boolean;
+};
 
 export interface IUserPayload {
     id: string;
     email: string;
     role: UserRole;
+    // Token family of the current session
+    sessionId?: string;
 }
 
 // ============= Auth Types =============
@@ -35,20 +68,130 @@ export interface IRegisterData {
     name: string;
 }
 
+export interface IUserInput {
+    email: string;
+    password: string;
+    name: string;
+    role: UserRole;
+    avatar?: string;
+    isVerified?: boolean;
+}
+
 export interface IAuthResponse {
-    user: Omit<IUser, 'password'>;
+    user: PublicUser;
     accessToken: string;
     refreshToken?: string;
 }
 
+export interface IMfaChallenge {
+    mfaRequired: true;
+    mfaToken: string;
+}
+
+export interface IMfaSetup {
+    secret: string;
+    otpauthUrl: string;
+}
+
 export interface ITokenPayload {
     userId: string;
     email: string;
     role: UserRole;
+    jti?: string;
+    family?: string;
+    // tokenVersion of the user when the token was issued
+    ver?: number;
+    // Set on short-lived MFA challenge tokens only
+    purpose?: 'mfa';
     iat?: number;
     exp?: number;
 }
 
+export interface ISessionContext {
+    ip?: string;
+    userAgent?: string;
+}
+
+export interface ISession extends IEntity {
+    userId: string;
+    // SecretsManager.generateSessionId, used as the refresh token family
+    sessionId: string;
+    userAgent: string;
+    device: string;
+    ip: string;
+    lastSeenAt: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+}
+
+export interface ISessionInfo {
+    id: string;
+    device: string;
+    userAgent: string;
+    ip: string;
+    createdAt: Date;
+    lastSeenAt: Date;
+    current: boolean;
+}
+
+export type UserActivityType = 'account_created' | 'signed_in' | 'signed_out' | 'banned';
+
+export interface IUserActivity {
+    type: UserActivityType;
+    at: Date;
+    device?: string;
+    ip?: string;
+}
+
+export interface IApiKey extends IEntity {
+    name: string;
+    // Public part of the key, used for lookup
+    prefix: string;
+    // SecretsManager.hash of the secret part
+    hash: string;
+    salt: string;
+    scopes: Permission[];
+    // Requests per minute
+    rateLimit: number;
+    createdBy: string;
+    expiresAt?: Date;
+    lastUsedAt?: Date;
+    revokedAt?: Date;
+}
+
+export type ApiKeyInfo = Omit<IApiKey, 'hash' | 'salt'>;
+
+export interface IApiKeyInput {
+    name: string;
+    scopes: Permission[];
+    rateLimit?: number;
+    expiresAt?: string | Date | null;
+}
+
+export interface IApiKeyPayload {
+    id: string;
+    name: string;
+    scopes: Permission[];
+}
+
+export type OneTimeTokenPurpose = 'email_verification' | 'password_reset';
+
+export interface IOneTimeToken extends IEntity {
+    userId: string;
+    purpose: OneTimeTokenPurpose;
+    hash: string;
+    salt: string;
+    expiresAt: Date;
+    usedAt?: Date;
+}
+
+export interface ITokenStore {
+    /** Mark a refresh token id as used; resolves false if it was already used */
+    consume(jti: string, expiresAt: Date): Promise<boolean>;
+    revokeFamily(family: string, expiresAt: Date): Promise<void>;
+    isFamilyRevoked(family: string): Promise<boolean>;
+}
+
 // ============= API Response Types =============
 
 export interface IApiResponse<T = any> {
@@ -62,6 +205,8 @@ export interface IApiError {
     success: false;
     message: string;
     errors?: string[];
+    // Set when request validation fails: the same messages keyed by field
+    fields?: IValidationError[];
     requestId?: string;
     stack?: string;
 }
@@ -77,6 +222,436 @@ export interface IPaginatedResponse<T> {
     };
 }
 
+// ============= Catalog Types =============
+
+export type ProductStatus = 'draft' | 'published' | 'archived';
+
+export interface ICategory extends IEntity {
+    name: string;
+    slug: string;
+    description?: string;
+    parentId?: string;
+}
+
+export interface IProductOption {
+    // e.g. { name: 'Size', values: ['S', 'M', 'L'] }
+    name: string;
+    values: string[];
+}
+
+export interface IProductVariant {
+    sku: string;
+    // One value per product option, e.g. { Size: 'M', Color: 'Red' }
+    options: Record<string, string>;
+    // Whole VND; falls back to the product price when absent
+    price?: number;
+    stock: number;
+}
+
+export interface IProduct extends IEntity {
+    name: string;
+    slug: string;
+    sku: string;
+    description: string;
+    // Whole VND
+    price: number;
+    compareAtPrice?: number;
+    categoryId?: string;
+    // Served paths from POST /api/uploads/images
+    images: string[];
+    options: IProductOption[];
+    variants: IProductVariant[];
+    status: ProductStatus;
+    publishedAt?: Date;
+    // Denormalised for filtering: product and variant SKUs, summed stock
+    skus: string[];
+    totalStock: number;
+    createdBy: string;
+}
+
+export type ProductInfo = Omit<IProduct, 'skus'>;
+
+export type PublicProduct = Omit<ProductInfo, 'createdBy'>;
+
+export interface IProductInput {
+    name: string;
+    slug?: string;
+    sku: string;
+    description?: string;
+    price: number;
+    compareAtPrice?: number | null;
+    categoryId?: string | null;
+    images?: string[];
+    options?: IProductOption[];
+    variants?: Partial<IProductVariant>[];
+    status?: ProductStatus;
+}
+
+export interface ICategoryInput {
+    name: string;
+    slug?: string;
+    description?: string;
+    parentId?: string | null;
+}
+
+export interface IInventoryAdjustment {
+    sku: string;
+    // Relative change; use set for an absolute count after a stocktake
+    delta?: number;
+    set?: number;
+    reason?: string;
+}
+
+export type InventoryMovementSource = 'adjustment' | 'order' | 'cancellation' | 'refund';
+
+export interface IInventoryMovement extends IEntity {
+    productId: string;
+    sku: string;
+    change: number;
+    stockAfter: number;
+    source: InventoryMovementSource;
+    reason: string;
+    // Set for stock reserved or released by an order
+    orderId?: string;
+    createdBy: string;
+}
+
+export interface IStockChange {
+    productId: string;
+    sku: string;
+    // Negative takes stock, positive returns it
+    change: number;
+}
+
+export interface IAppliedStockChange extends IStockChange {
+    stockAfter: number;
+}
+
+export interface IProductFilterQuery extends IPaginationQuery {
+    search?: string;
+    category?: string;
+    status?: ProductStatus;
+    minPrice?: number;
+    maxPrice?: number;
+    inStock?: boolean;
+}
+
+// ============= Order Types =============
+
+export type OrderStatus = 'pending' | 'paid' | 'fulfilled' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+
+export interface IOrderItem {
+    productId: string;
+    sku: string;
+    // Snapshot at order time; later catalog edits do not change the order
+    name: string;
+    options: Record<string, string>;
+    image?: string;
+    unitPrice: number;
+    quantity: number;
+    lineTotal: number;
+}
+
+export interface IShippingAddress {
+    line1: string;
+    line2?: string;
+    ward?: string;
+    district?: string;
+    city: string;
+    postalCode?: string;
+    country: string;
+}
+
+export interface IOrderTransition {
+    from: OrderStatus | null;
+    to: OrderStatus;
+    reason?: string;
+    // User id, with the email snapshotted for display
+    by: string;
+    byEmail: string;
+    at: Date;
+}
+
+export interface IOrder extends IEntity {
+    number: string;
+    customerName: string;
+    customerEmail: string;
+    customerPhone?: string;
+    shippingAddress: IShippingAddress;
+    items: IOrderItem[];
+    // Whole VND
+    subtotal: number;
+    discount: number;
+    shipping: number;
+    tax: number;
+    total: number;
+    status: OrderStatus;
+    // Every status change, oldest first, starting with creation
+    history: IOrderTransition[];
+    note?: string;
+    createdBy: string;
+}
+
+export interface IOrderInput {
+    customerName: string;
+    customerEmail: string;
+    customerPhone?: string;
+    shippingAddress: IShippingAddress;
+    items: { productId: string; sku: string; quantity: number }[];
+    discount?: number;
+    note?: string;
+}
+
+export interface IOrderTransitionInput {
+    status: OrderStatus;
+    reason?: string;
+}
+
+export interface IOrderTransitionResult {
+    id: string;
+    success: boolean;
+    number?: string;
+    status?: OrderStatus;
+    error?: string;
+}
+
+export interface IOrderFilterQuery extends IPaginationQuery {
+    search?: string;
+    status?: OrderStatus;
+    from?: string;
+    to?: string;
+}
+
+// ============= News Types =============
+
+export type NewsStatus = 'draft' | 'scheduled' | 'published' | 'archived';
+
+// The editable content of an article, snapshotted by every revision
+export interface INewsContent {
+    title: string;
+    excerpt: string;
+    // The excerpt was left empty and follows the start of the body
+    autoExcerpt?: boolean;
+    // Sanitized HTML
+    body: string;
+    coverImage?: string;
+    tags: string[];
+}
+
+export interface INewsArticle extends IEntity, INewsContent {
+    slug: string;
+    status: NewsStatus;
+    // When a scheduled article goes live
+    publishAt?: Date;
+    publishedAt?: Date;
+    authorId: string;
+    authorName: string;
+    // Number of the latest revision
+    revision: number;
+}
+
+export type PublicNewsArticle = Omit<INewsArticle, 'authorId' | 'revision' | 'publishAt' | 'autoExcerpt'>;
+
+export interface INewsRevision extends IEntity, INewsContent {
+    articleId: string;
+    revision: number;
+    editedBy: string;
+    editedByEmail: string;
+    // e.g. "Restored revision 3"
+    note?: string;
+}
+
+export interface INewsInput {
+    title: string;
+    slug?: string;
+    excerpt?: string;
+    body: string;
+    coverImage?: string | null;
+    tags?: string[];
+    status?: NewsStatus;
+    publishAt?: string | null;
+}
+
+export interface INewsFilterQuery extends IPaginationQuery {
+    search?: string;
+    status?: NewsStatus;
+    tag?: string;
+}
+
+export interface IDiffPart {
+    type: 'added' | 'removed' | 'unchanged';
+    value: string;
+}
+
+export interface INewsRevisionDiff {
+    from: number;
+    to: number;
+    changes: Record<'title' | 'excerpt' | 'body' | 'coverImage' | 'tags', IDiffPart[]>;
+}
+
+// ============= Settings Types =============
+
+// Runtime tunables editable from the admin; env vars only provide the defaults
+export interface IAppSettings {
+    storeName: string;
+    // ISO 4217 code, e.g. VND
+    currency: string;
+    // BCP 47 tag, e.g. vi-VN
+    locale: string;
+    rateLimitWindowMs: number;
+    rateLimitMaxRequests: number;
+    // Upload size limits in bytes
+    avatarMaxBytes: number;
+    imageMaxBytes: number;
+    documentMaxBytes: number;
+    videoMaxBytes: number;
+    maintenanceMode: boolean;
+    maintenanceMessage: string;
+}
+
+export type SettingKey = keyof IAppSettings;
+
+export type PublicSettings = Pick<IAppSettings, 'storeName' | 'currency' | 'locale' | 'maintenanceMode' | 'maintenanceMessage'>;
+
+export interface ISettingDefinition<T> {
+    type: T extends boolean ? 'boolean' : T extends number ? 'number' : 'string';
+    default: T;
+    // Inclusive bounds for numbers, length bounds for strings
+    min?: number;
+    max?: number;
+    // Further checks; returns an error message
+    validate?: (value: T) => string | undefined;
+}
+
+export interface ISettingChange {
+    key: SettingKey;
+    from: IAppSettings[SettingKey];
+    to: IAppSettings[SettingKey];
+}
+
+// Each change stores a full snapshot; the highest version is current
+export interface ISettingsVersion extends IEntity {
+    version: number;
+    values: IAppSettings;
+    changes: ISettingChange[];
+    changedBy: string;
+    changedByEmail: string;
+}
+
+export interface ISettingsState {
+    settings: IAppSettings;
+    // 0 until the defaults are first changed
+    version: number;
+    updatedAt?: Date;
+    updatedBy?: string;
+}
+
+export interface ISettingsUpdateInput {
+    settings: Partial<Record<SettingKey, unknown>>;
+    // Version the change was based on; a newer stored version is a conflict
+    version?: number;
+}
+
+// ============= Stats Types =============
+
+export type StatsInterval = 'day' | 'week' | 'month';
+
+export interface IStatsQuery {
+    // Calendar days (YYYY-MM-DD), both included
+    from?: string;
+    to?: string;
+    interval?: StatsInterval;
+    // Minutes east of UTC that days are counted in, e.g. 420 for Vietnam
+    tzOffset?: number;
+}
+
+export interface IStatsBucket {
+    // First day of the bucket (YYYY-MM-DD)
+    date: string;
+    orders: number;
+    revenue: number;
+}
+
+export interface ITopProduct {
+    productId: string;
+    name: string;
+    quantity: number;
+    // Line totals, before order-level discounts
+    revenue: number;
+}
+
+export interface IDashboardStats {
+    range: { from: string; to: string; interval: StatsInterval; tzOffset: number };
+    users: { total: number; new: number };
+    products: { total: number; published: number };
+    // Orders placed in the range; revenue only counts those that were paid and not reversed
+    orders: { total: number; paid: number; byStatus: Record<OrderStatus, number> };
+    revenue: { total: number; averageOrderValue: number };
+    series: IStatsBucket[];
+    topProducts: ITopProduct[];
+    generatedAt: Date;
+}
+
+// ============= OpenAPI Types =============
+
+export type OpenApiType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// The JSON Schema subset used by the API docs
+export interface IOpenApiSchema {
+    type?: OpenApiType | OpenApiType[];
+    format?: string;
+    description?: string;
+    enum?: readonly (string | number | boolean)[];
+    const?: string | number | boolean;
+    items?: IOpenApiSchema;
+    properties?: Record<string, IOpenApiSchema>;
+    required?: string[];
+    additionalProperties?: boolean | IOpenApiSchema;
+    $ref?: string;
+    allOf?: IOpenApiSchema[];
+    oneOf?: IOpenApiSchema[];
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    default?: unknown;
+}
+
+export interface IOperationDoc {
+    summary: string;
+    description?: string;
+    // No authentication needed
+    public?: boolean;
+    // Checked by requirePermission on the route
+    permissions?: Permission[];
+    // Checked by requireScope; the route takes an X-API-Key instead of a session
+    scopes?: Permission[];
+    // Schema the route validates; its params and query become the documented
+    // parameters (path parameters without an entry are plain strings) and its
+    // body the request body
+    request?: RequestSchema;
+    // JSON body the service checks; for a validated body, a ref to its validatedBody() schema
+    body?: IOpenApiSchema;
+    // multipart/form-data uploads
+    form?: IOpenApiSchema;
+    // Schema of `data` in the success envelope; null when the route sends no data
+    data?: IOpenApiSchema | null;
+    // Item schema for routes answering with response.paginated
+    page?: IOpenApiSchema;
+    // Routes that answer with something other than JSON
+    content?: { type: string; schema: IOpenApiSchema };
+    status?: 200 | 201;
+}
+
+export interface IRouteGroupDoc {
+    // Path the router is mounted at under /api; '' for routes on the API router itself
+    mount: string;
+    tag: string;
+    description?: string;
+    // Keyed by "METHOD /express/path" relative to the mount
+    operations: Record<string, IOperationDoc>;
+}
+
 // ============= Express Request Extensions =============
 
 export interface IAuthRequest extends Request {
@@ -100,16 +675,124 @@ export interface IHashResult {
 // ============= Query Types =============
 
 export interface IPaginationQuery {
-    page?: string;
-    limit?: string;
+    page?: number;
+    limit?: number;
     sort?: string;
     order?: 'asc' | 'desc';
 }
 
+export interface IPageRequest<T> {
+    page: number;
+    limit: number;
+    options: Pick<IFindOptions<T>, 'sort' | 'skip' | 'limit'>;
+}
+
 export interface IFilterQuery extends IPaginationQuery {
     search?: string;
     role?: UserRole;
-    isVerified?: string;
+    isVerified?: boolean;
+    banned?: boolean;
+}
+
+// ============= Mail Types =============
+
+export interface IMailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface IMailTransport {
+    send(message: IMailMessage & { from: string }): Promise<void>;
+}
+
+// ============= Persistence Types =============
+
+export interface IEntity {
+    id: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export type EntityInput<T extends IEntity> = Omit<T, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Array fields also match a single element (Mongo semantics)
+export type FilterValue<V> = V extends (infer E)[] ? V | E : V;
+
+export type FilterOperators<V> = {
+    $eq?: FilterValue<V>;
+    $ne?: FilterValue<V>;
+    $in?: FilterValue<V>[];
+    $nin?: FilterValue<V>[];
+    $gt?: V;
+    $gte?: V;
+    $lt?: V;
+    $lte?: V;
+    $exists?: boolean;
+};
+
+export type FilterQuery<T> = {
+    [K in keyof T]?: FilterValue<T[K]> | FilterOperators<T[K]>;
+} & {
+    $or?: FilterQuery<T>[];
+};
+
+export interface ISortOption<T> {
+    field: keyof T & string;
+    order: 'asc' | 'desc';
+}
+
+export interface ISearchOption<T> {
+    term: string;
+    fields: (keyof T & string)[];
+}
+
+export interface IFindOptions<T> {
+    sort?: ISortOption<T>;
+    skip?: number;
+    limit?: number;
+    search?: ISearchOption<T>;
+}
+
+export interface IRepository<T extends IEntity> {
+    findById(id: string): Promise<T | null>;
+    findOne(filter: FilterQuery<T>): Promise<T | null>;
+    find(filter?: FilterQuery<T>, options?: IFindOptions<T>): Promise<T[]>;
+    count(filter?: FilterQuery<T>, search?: ISearchOption<T>): Promise<number>;
+    create(data: EntityInput<T>): Promise<T>;
+    // Fields set to undefined are removed from the document
+    update(id: string, changes: Partial<EntityInput<T>>): Promise<T | null>;
+    // Compare-and-set: update the first document matching the filter in one step; null when none matches
+    updateOne(filter: FilterQuery<T>, changes: Partial<EntityInput<T>>): Promise<T | null>;
+    // Add to a number inside one array element (and to top-level counters) in one step;
+    // null when the document or element does not match or the guard fails
+    incrementElement(id: string, increment: IElementIncrement<T>): Promise<T | null>;
+    delete(id: string): Promise<boolean>;
+    deleteMany(filter: FilterQuery<T>): Promise<number>;
+}
+
+export interface IElementIncrement<T> {
+    // Array field and the properties that pick its element, e.g. variants with { sku }
+    array: keyof T & string;
+    match: Record<string, unknown>;
+    // Number on the element to change and the lowest value it may end at
+    field: string;
+    amount: number;
+    min?: number;
+    // Top-level numbers that move with it, e.g. { totalStock: amount }
+    counters?: Partial<Record<keyof T & string, number>>;
+}
+
+export interface IRepositoryOptions<T> {
+    unique?: (keyof T & string)[];
+}
+
+export interface IDatabaseAdapter {
+    readonly name: string;
+    connect(): Promise<void>;
+    disconnect(): Promise<void>;
+    repository<T extends IEntity>(collection: string, options?: IRepositoryOptions<T>): IRepository<T>;
 }
 
 // ============= Config Types =============
@@ -138,6 +821,34 @@ export interface IEnvConfig {
         secret: string;
         maxAge: number;
     };
+    auth: {
+        tokenTransport: 'cookie' | 'header';
+        requireEmailVerification: boolean;
+        verificationTokenTtlMs: number;
+        passwordResetTokenTtlMs: number;
+        mfaIssuer: string;
+        mfaChallengeExpire: string;
+    };
+    email: {
+        from: string;
+        outputDir: string;
+    };
+    appUrl: string;
+    orders: {
+        taxRate: number;
+        shippingFee: number;
+        freeShippingThreshold: number;
+    };
+    store: {
+        name: string;
+        currency: string;
+        locale: string;
+    };
+    admin: {
+        email: string;
+        password: string;
+        name: string;
+    };
 }
 
 // ============= Service Return Types =============
@@ -159,3 +870,27 @@ export type ValidationResult = {
     isValid: boolean;
     errors: IValidationError[];
 };
+
+export type RequestLocation = 'body' | 'query' | 'params';
+
+export type FieldType = 'string' | 'email' | 'integer' | 'number' | 'boolean' | 'date' | 'date-time';
+
+// One request field: validated and coerced by the validate middleware, and
+// documented as an OpenAPI parameter
+export interface IFieldSchema {
+    // integer, number and boolean values are converted; dates stay ISO strings
+    type: FieldType;
+    required?: boolean;
+    enum?: readonly string[];
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    // Documented only; the service applies it
+    default?: string | number | boolean;
+    description?: string;
+    // Extra rule run after the type check; returns one message per problem
+    check?: (value: string) => string[];
+}
+
+export type RequestSchema = Partial<Record<RequestLocation, Record<string, IFieldSchema>>>;
@@ -0,0 +1,44 @@
+/**
+ * Application Error - TypeScript
+ * Operational errors carrying an HTTP status code
+ */
+
+class AppError extends Error {
+    public readonly statusCode: number;
+    public readonly errors?: string[];
+    public readonly isOperational: boolean = true;
+
+    constructor(message: string, statusCode: number = 500, errors?: string[]) {
+        super(message);
+        this.name = 'AppError';
+        this.statusCode = statusCode;
+        this.errors = errors;
+        Error.captureStackTrace(this, this.constructor);
+    }
+
+    public static badRequest(message: string = 'Bad request', errors?: string[]): AppError {
+        return new AppError(message, 400, errors);
+    }
+
+    public static unauthorized(message: string = 'Unauthorized access'): AppError {
+        return new AppError(message, 401);
+    }
+
+    public static forbidden(message: string = 'Access forbidden'): AppError {
+        return new AppError(message, 403);
+    }
+
+    public static notFound(message: string = 'Resource not found'): AppError {
+        return new AppError(message, 404);
+    }
+
+    public static conflict(message: string = 'Resource already exists'): AppError {
+        return new AppError(message, 409);
+    }
+
+    public static validation(errors: string[], message: string = 'Validation failed'): AppError {
+        return new AppError(message, 422, errors);
+    }
+}
+
+export default AppError;
@@ -0,0 +1,34 @@
+/**
+ * CSV Utilities - TypeScript
+ * Build RFC 4180 CSV text for exports
+ */
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+class CsvHelper {
+    /**
+     * Quote a field when needed. Text starting with =, +, - or @ is prefixed
+     * with an apostrophe so spreadsheets do not run it as a formula.
+     */
+    public field(value: CsvValue): string {
+        if (value === null || value === undefined) return '';
+        if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+        let text = value instanceof Date ? value.toISOString() : value;
+        if (/^[=+\-@\t\r]/.test(text)) {
+            text = `'${text}`;
+        }
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }
+
+    /**
+     * Header row followed by data rows, CRLF separated
+     */
+    public stringify(headers: string[], rows: CsvValue[][]): string {
+        return [headers, ...rows]
+            .map(row => row.map(value => this.field(value)).join(','))
+            .join('\r\n');
+    }
+}
+
+export default new CsvHelper();
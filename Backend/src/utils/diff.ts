@@ -0,0 +1,71 @@
+/**
+ * Diff Utilities - TypeScript
+ * Line-based text comparison for revision history
+ */
+
+import { IDiffPart } from '@types';
+
+// Beyond this many cells the LCS table costs too much; fall back to replace-all
+const MAX_TABLE_CELLS = 4_000_000;
+
+class DiffHelper {
+    /**
+     * Shortest edit between two lists of lines (longest common subsequence)
+     */
+    public lines(before: string[], after: string[]): IDiffPart[] {
+        // Common head and tail never need the table
+        let start = 0;
+        while (start < before.length && start < after.length && before[start] === after[start]) start++;
+        let end = 0;
+        while (
+            end < before.length - start &&
+            end < after.length - start &&
+            before[before.length - 1 - end] === after[after.length - 1 - end]
+        ) end++;
+
+        const head = before.slice(0, start).map(value => ({ type: 'unchanged' as const, value }));
+        const tail = before.slice(before.length - end).map(value => ({ type: 'unchanged' as const, value }));
+        const a = before.slice(start, before.length - end);
+        const b = after.slice(start, after.length - end);
+
+        if ((a.length + 1) * (b.length + 1) > MAX_TABLE_CELLS) {
+            return [
+                ...head,
+                ...a.map(value => ({ type: 'removed' as const, value })),
+                ...b.map(value => ({ type: 'added' as const, value })),
+                ...tail,
+            ];
+        }
+
+        // lengths[i][j]: LCS length of a[i..] and b[j..]
+        const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lengths[i]![j] = a[i] === b[j]
+                    ? lengths[i + 1]![j + 1]! + 1
+                    : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+            }
+        }
+
+        const middle: IDiffPart[] = [];
+        let i = 0;
+        let j = 0;
+        while (i < a.length && j < b.length) {
+            if (a[i] === b[j]) {
+                middle.push({ type: 'unchanged', value: a[i]! });
+                i++;
+                j++;
+            } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+                middle.push({ type: 'removed', value: a[i++]! });
+            } else {
+                middle.push({ type: 'added', value: b[j++]! });
+            }
+        }
+        while (i < a.length) middle.push({ type: 'removed', value: a[i++]! });
+        while (j < b.length) middle.push({ type: 'added', value: b[j++]! });
+
+        return [...head, ...middle, ...tail];
+    }
+}
+
+export default new DiffHelper();
@@ -4,6 +4,7 @@
  */
 
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import config from '@config/env';
 import { ITokenPayload } from '@types';
 
@@ -30,20 +31,60 @@ class JWTHelper {
     }
 
     /**
-     * Generate refresh token
+     * Generate refresh token with a unique id, in the given family (or a new one)
      */
-    public generateRefreshToken(payload: Omit<ITokenPayload, 'iat' | 'exp'>): string {
-        return jwt.sign(payload, this.refreshTokenSecret, {
+    public generateRefreshToken(payload: Omit<ITokenPayload, 'iat' | 'exp' | 'jti'>): string {
+        const claims: Omit<ITokenPayload, 'iat' | 'exp'> = {
+            ...payload,
+            jti: crypto.randomUUID(),
+            family: payload.family || crypto.randomUUID(),
+        };
+
+        return jwt.sign(claims, this.refreshTokenSecret, {
             expiresIn: this.refreshTokenExpire,
         } as any);
     }
 
+    /**
+     * Generate a short-lived challenge token for the second login step
+     */
+    public generateMfaToken(payload: Pick<ITokenPayload, 'userId' | 'email' | 'role'>): string {
+        return jwt.sign({ ...payload, purpose: 'mfa' }, this.accessTokenSecret, {
+            expiresIn: config.auth.mfaChallengeExpire,
+        } as any);
+    }
+
+    /**
+     * Verify an MFA challenge token
+     */
+    public verifyMfaToken(token: string): ITokenPayload {
+        try {
+            const decoded = jwt.verify(token, this.accessTokenSecret) as ITokenPayload;
+            if (decoded.purpose !== 'mfa') {
+                throw new jwt.JsonWebTokenError('Wrong token purpose');
+            }
+            return decoded;
+        } catch (error) {
+            if (error instanceof jwt.TokenExpiredError) {
+                throw new Error('MFA challenge expired, please log in again');
+            }
+            if (error instanceof jwt.JsonWebTokenError) {
+                throw new Error('Invalid MFA challenge');
+            }
+            throw error;
+        }
+    }
+
     /**
      * Verify access token
      */
     public verifyAccessToken(token: string): ITokenPayload {
         try {
             const decoded = jwt.verify(token, this.accessTokenSecret) as ITokenPayload;
+            // MFA challenges share the signing key but never grant access
+            if (decoded.purpose) {
+                throw new jwt.JsonWebTokenError('Wrong token purpose');
+            }
             return decoded;
         } catch (error) {
             if (error instanceof jwt.TokenExpiredError) {
@@ -86,15 +127,17 @@ class JWTHelper {
     }
 
     /**
-     * Generate both access and refresh tokens
+     * Generate both access and refresh tokens sharing one token family
      */
-    public generateTokenPair(payload: Omit<ITokenPayload, 'iat' | 'exp'>): {
+    public generateTokenPair(payload: Omit<ITokenPayload, 'iat' | 'exp' | 'jti'>): {
         accessToken: string;
         refreshToken: string;
     } {
+        const claims = { ...payload, family: payload.family || crypto.randomUUID() };
+
         return {
-            accessToken: this.generateAccessToken(payload),
-            refreshToken: this.generateRefreshToken(payload),
+            accessToken: this.generateAccessToken(claims),
+            refreshToken: this.generateRefreshToken(claims),
         };
     }
 
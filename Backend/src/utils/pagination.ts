@@ -0,0 +1,42 @@
+/**
+ * Pagination Utilities - TypeScript
+ * Parse page, limit and sort query parameters for list endpoints
+ */
+
+import { IPageRequest, IPaginationQuery } from '@types';
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+
+class PaginationHelper {
+    /**
+     * Clamp page and limit, and only sort by whitelisted fields
+     */
+    public parse<T>(
+        query: IPaginationQuery,
+        sortable: (keyof T & string)[],
+        defaultSort: keyof T & string = 'createdAt' as keyof T & string
+    ): IPageRequest<T> {
+        const page = Math.max(Math.trunc(Number(query.page)) || 1, 1);
+        const limit = Math.min(Math.max(Math.trunc(Number(query.limit)) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+        const field = sortable.find(candidate => candidate === query.sort) || defaultSort;
+        const order = query.order === 'asc' ? 'asc' : 'desc';
+
+        return {
+            page,
+            limit,
+            options: { sort: { field, order }, skip: (page - 1) * limit, limit },
+        };
+    }
+
+    /**
+     * Read "true"/"false" query flags; anything else means "not filtered"
+     */
+    public flag(value: unknown): boolean | undefined {
+        if (value === 'true' || value === true) return true;
+        if (value === 'false' || value === false) return false;
+        return undefined;
+    }
+}
+
+export default new PaginationHelper();
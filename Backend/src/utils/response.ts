@@ -4,7 +4,7 @@
  */
 
 import { Response } from 'express';
-import { IApiResponse, IApiError, IPaginatedResponse } from '@types';
+import { IApiResponse, IApiError, IPaginatedResponse, IValidationError } from '@types';
 
 class ResponseHelper {
     /**
@@ -81,6 +81,16 @@ class ResponseHelper {
         return this.success(res, data, message, 201);
     }
 
+    /**
+     * Send a CSV file download
+     */
+    public csv(res: Response, filename: string, content: string): Response {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        // Byte order mark so spreadsheet apps read UTF-8 (Vietnamese names) correctly
+        return res.status(200).send(`\uFEFF${content}`);
+    }
+
     /**
      * Send no content response
      */
@@ -130,14 +140,22 @@ class ResponseHelper {
     }
 
     /**
-     * Send validation error response
+     * Send validation error response; `errors` keeps the plain messages for
+     * clients that only list them
      */
     public validationError(
         res: Response,
-        errors: string[],
+        errors: IValidationError[],
         message: string = 'Validation failed'
     ): Response {
-        return this.error(res, message, 422, errors);
+        const response: IApiError = {
+            success: false,
+            message,
+            errors: errors.map(error => error.message),
+            fields: errors,
+        };
+
+        return res.status(422).json(response);
     }
 
     /**
@@ -3,6 +3,32 @@
  * Clean and sanitize user input with type safety
  */
 
+const ALLOWED_TAGS = new Set([
+    'p', 'br', 'hr', 'h2', 'h3', 'h4', 'strong', 'b', 'em', 'i', 'u', 's',
+    'blockquote', 'ul', 'ol', 'li', 'a', 'img', 'figure', 'figcaption', 'code', 'pre',
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+    a: ['href', 'title', 'target'],
+    img: ['src', 'alt', 'title', 'width', 'height'],
+};
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+// Removed along with everything inside them
+const DROPPED_WITH_CONTENT = new Set([
+    'script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript',
+    'textarea', 'select', 'svg', 'math', 'head', 'title',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", colon: ':', tab: '\t', newline: '\n',
+};
+
+// Comments, doctypes and processing instructions, or a start/end tag with its attributes
+const TAG_PATTERN = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
 class SanitizeHelper {
     /**
      * Remove HTML tags from string
@@ -12,24 +38,109 @@ class SanitizeHelper {
     }
 
     /**
-     * Remove script tags and dangerous patterns
+     * Allow-list HTML sanitizer for rich text. Only ALLOWED_TAGS and their
+     * ALLOWED_ATTRIBUTES survive; other tags are dropped but their text is
+     * kept, and DROPPED_WITH_CONTENT tags lose their content too. Links and
+     * images must use safe URLs, and unclosed tags are closed.
      */
     public removeXSS(text: string): string {
-        let sanitized = text;
+        const output: string[] = [];
+        const open: string[] = [];
+        let position = 0;
+
+        TAG_PATTERN.lastIndex = 0;
+        for (let match = TAG_PATTERN.exec(text); match; match = TAG_PATTERN.exec(text)) {
+            output.push(this.escapeText(text.slice(position, match.index)));
+            position = TAG_PATTERN.lastIndex;
+
+            const [token, closing, rawName, rawAttributes] = match;
+            if (!rawName) continue; // comment, doctype or processing instruction
 
-        // Remove script tags
-        sanitized = sanitized.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '');
+            const name = rawName.toLowerCase();
+            if (DROPPED_WITH_CONTENT.has(name)) {
+                if (!closing && !token.endsWith('/>')) {
+                    const end = new RegExp(`</${name}\\s*>`, 'gi');
+                    end.lastIndex = position;
+                    position = end.exec(text) ? end.lastIndex : text.length;
+                    TAG_PATTERN.lastIndex = position;
+                }
+                continue;
+            }
+            if (!ALLOWED_TAGS.has(name)) continue;
 
-        // Remove javascript: protocol
-        sanitized = sanitized.replace(/javascript:/gi, '');
+            if (closing) {
+                const index = open.lastIndexOf(name);
+                if (index !== -1) {
+                    output.push(...open.splice(index).reverse().map(tag => `</${tag}>`));
+                }
+                continue;
+            }
 
-        // Remove event handlers
-        sanitized = sanitized.replace(/on\w+\s*=/gi, '');
+            const attributes = this.allowedAttributes(name, rawAttributes || '');
+            // An image whose source was rejected has nothing to show
+            if (name === 'img' && !attributes.includes(' src="')) continue;
 
-        // Remove data: URIs
-        sanitized = sanitized.replace(/data:text\/html/gi, '');
+            output.push(`<${name}${attributes}>`);
+            if (!VOID_TAGS.has(name)) open.push(name);
+        }
 
-        return sanitized.trim();
+        output.push(this.escapeText(text.slice(position)));
+        output.push(...open.reverse().map(tag => `</${tag}>`));
+        return output.join('').trim();
+    }
+
+    /**
+     * Escape markup characters in text; existing entities are kept
+     */
+    private escapeText(text: string): string {
+        return text
+            .replace(/&(?!(?:#\d+|#x[\da-f]+|[a-z][a-z\d]*);)/gi, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;');
+    }
+
+    private allowedAttributes(tag: string, raw: string): string {
+        const allowed = ALLOWED_ATTRIBUTES[tag];
+        if (!allowed) return '';
+
+        const attributes: Record<string, string> = {};
+        ATTRIBUTE_PATTERN.lastIndex = 0;
+        for (let match = ATTRIBUTE_PATTERN.exec(raw); match; match = ATTRIBUTE_PATTERN.exec(raw)) {
+            const name = match[1]!.toLowerCase();
+            const value = this.decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+            if (!allowed.includes(name)) continue;
+            if ((name === 'href' || name === 'src') && !this.isSafeUrl(value, name === 'href')) continue;
+            if (name === 'target' && value !== '_blank') continue;
+            attributes[name] = value;
+        }
+
+        // Opened pages must not get a handle on this window
+        if (attributes.target) attributes.rel = 'noopener noreferrer';
+
+        return Object.entries(attributes)
+            .map(([name, value]) => ` ${name}="${value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}"`)
+            .join('');
+    }
+
+    private decodeEntities(value: string): string {
+        return value.replace(/&(#\d+|#x[\da-f]+|amp|lt|gt|quot|apos|colon|tab|newline);?/gi, (_entity, code: string) => {
+            const lower = code.toLowerCase();
+            if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16) || 0xfffd);
+            if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10) || 0xfffd);
+            return NAMED_ENTITIES[lower] ?? '';
+        });
+    }
+
+    /**
+     * http(s) and site-relative URLs; links may also use mailto: and #anchors
+     */
+    private isSafeUrl(value: string, isLink: boolean): boolean {
+        // Browsers ignore control characters and whitespace inside the scheme
+        const url = value.replace(/[\u0000-\u0020\u007f-\u009f]/g, '');
+        // Browsers read a backslash as a slash, so /\host is protocol-relative too
+        if (/^\/(?![\/\\])/.test(url)) return true;
+        if (isLink && /^(#|mailto:)/i.test(url)) return true;
+        return /^https?:\/\//i.test(url);
     }
 
     /**
@@ -127,6 +238,19 @@ class SanitizeHelper {
         return text.replace(/\s+/g, ' ').trim();
     }
 
+    /**
+     * URL slug: lowercase ASCII words joined by hyphens (Vietnamese accents removed)
+     */
+    public slug(text: string): string {
+        return text
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .replace(/đ/gi, 'd')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '');
+    }
+
     /**
      * Sanitize MongoDB ObjectId
      */
@@ -0,0 +1,114 @@
+/**
+ * TOTP Utilities - TypeScript
+ * RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30s step)
+ */
+
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+class TOTPHelper {
+    private readonly digits: number = 6;
+    private readonly stepSeconds: number = 30;
+
+    /**
+     * Generate a random base32 secret (160 bits, as recommended by RFC 4226)
+     */
+    public generateSecret(bytes: number = 20): string {
+        return this.base32Encode(crypto.randomBytes(bytes));
+    }
+
+    /**
+     * Time step counter for a timestamp
+     */
+    public step(time: number = Date.now()): number {
+        return Math.floor(time / 1000 / this.stepSeconds);
+    }
+
+    /**
+     * Code for a given time step
+     */
+    public generate(secret: string, step: number = this.step()): string {
+        const counter = Buffer.alloc(8);
+        counter.writeBigUInt64BE(BigInt(step));
+
+        const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+        const offset = hmac[hmac.length - 1]! & 0x0f;
+        const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+        return (binary % 10 ** this.digits).toString().padStart(this.digits, '0');
+    }
+
+    /**
+     * Find the step a code belongs to, allowing `window` steps of clock drift.
+     * Returns null when the code does not match.
+     */
+    public verify(code: string, secret: string, window: number = 1): number | null {
+        const normalized = (code || '').replace(/\s/g, '');
+        if (!/^\d+$/.test(normalized) || normalized.length !== this.digits) return null;
+
+        const current = this.step();
+        for (let offset = -window; offset <= window; offset++) {
+            const candidate = Buffer.from(this.generate(secret, current + offset));
+            if (crypto.timingSafeEqual(candidate, Buffer.from(normalized))) {
+                return current + offset;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * otpauth:// URI for authenticator apps (rendered as a QR code by clients)
+     */
+    public provisioningUri(secret: string, account: string, issuer: string): string {
+        const label = encodeURIComponent(`${issuer}:${account}`);
+        const params = new URLSearchParams({
+            secret,
+            issuer,
+            algorithm: 'SHA1',
+            digits: String(this.digits),
+            period: String(this.stepSeconds),
+        });
+        return `otpauth://totp/${label}?${params.toString()}`;
+    }
+
+    private base32Encode(buffer: Buffer): string {
+        let bits = 0;
+        let value = 0;
+        let output = '';
+
+        for (const byte of buffer) {
+            value = (value << 8) | byte;
+            bits += 8;
+            while (bits >= 5) {
+                output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+                bits -= 5;
+            }
+        }
+        if (bits > 0) {
+            output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+        }
+        return output;
+    }
+
+    private base32Decode(input: string): Buffer {
+        const cleaned = input.toUpperCase().replace(/=+$/, '');
+        const bytes: number[] = [];
+        let bits = 0;
+        let value = 0;
+
+        for (const char of cleaned) {
+            const index = BASE32_ALPHABET.indexOf(char);
+            if (index === -1) throw new Error('Invalid base32 secret');
+            value = (value << 5) | index;
+            bits += 5;
+            if (bits >= 8) {
+                bytes.push((value >>> (bits - 8)) & 0xff);
+                bits -= 8;
+            }
+        }
+        return Buffer.from(bytes);
+    }
+}
+
+export default new TOTPHelper();
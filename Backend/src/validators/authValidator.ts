@@ -0,0 +1,42 @@
+/**
+ * Auth Validators - TypeScript
+ * Request schemas for /api/auth
+ */
+
+import PasswordHelper from '@utils/password';
+import { IFieldSchema, RequestSchema } from '@types';
+
+const EMAIL: IFieldSchema = { type: 'email', required: true };
+
+// Every strength rule that fails becomes its own error on the password field
+const NEW_PASSWORD: IFieldSchema = {
+    type: 'string',
+    required: true,
+    check: password => PasswordHelper.validateStrength(password).errors,
+};
+
+export const register: RequestSchema = {
+    body: {
+        email: EMAIL,
+        password: NEW_PASSWORD,
+        name: { type: 'string', required: true, minLength: 1 },
+    },
+};
+
+export const login: RequestSchema = {
+    body: {
+        email: EMAIL,
+        password: { type: 'string', required: true },
+    },
+};
+
+export const forgotPassword: RequestSchema = {
+    body: { email: EMAIL },
+};
+
+export const resetPassword: RequestSchema = {
+    body: {
+        token: { type: 'string', required: true },
+        password: NEW_PASSWORD,
+    },
+};
@@ -0,0 +1,20 @@
+/**
+ * Common Validators - TypeScript
+ * Field schemas shared by the list routes
+ */
+
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@utils/pagination';
+import { IFieldSchema } from '@types';
+
+// PaginationHelper.parse reads these on every list route
+export const PAGE_QUERY: Record<string, IFieldSchema> = {
+    page: { type: 'integer', minimum: 1, default: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+    sort: { type: 'string', description: 'Field to sort by' },
+    order: { type: 'string', enum: ['asc', 'desc'] },
+};
+
+export const SEARCH_QUERY: Record<string, IFieldSchema> = {
+    ...PAGE_QUERY,
+    search: { type: 'string', description: 'Matched literally, case-insensitive' },
+};
@@ -0,0 +1,32 @@
+/**
+ * News Validators - TypeScript
+ * Request schemas for /api/news and the public /api/articles
+ */
+
+import { IFieldSchema, RequestSchema } from '@types';
+import { SEARCH_QUERY } from './commonValidator';
+
+const REVISION: IFieldSchema = { type: 'integer', required: true, minimum: 1 };
+
+export const listArticles: RequestSchema = {
+    query: {
+        ...SEARCH_QUERY,
+        status: { type: 'string', enum: ['draft', 'scheduled', 'published', 'archived'] },
+        tag: { type: 'string' },
+    },
+};
+
+export const listPublishedArticles: RequestSchema = {
+    query: { ...SEARCH_QUERY, tag: { type: 'string' } },
+};
+
+export const revision: RequestSchema = {
+    params: { revision: REVISION },
+};
+
+export const diffRevisions: RequestSchema = {
+    params: { revision: REVISION },
+    query: {
+        against: { type: 'integer', minimum: 1, description: 'Revision to compare with; the latest by default' },
+    },
+};
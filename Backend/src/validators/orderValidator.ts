@@ -0,0 +1,18 @@
+/**
+ * Order Validators - TypeScript
+ * Request schemas for /api/orders
+ */
+
+import { ORDER_STATUSES } from '@config/orders';
+import { RequestSchema } from '@types';
+import { SEARCH_QUERY } from './commonValidator';
+
+// Used by both the list and the CSV export
+export const listOrders: RequestSchema = {
+    query: {
+        ...SEARCH_QUERY,
+        status: { type: 'string', enum: ORDER_STATUSES },
+        from: { type: 'date-time' },
+        to: { type: 'date-time' },
+    },
+};
@@ -0,0 +1,27 @@
+/**
+ * Product Validators - TypeScript
+ * Request schemas for /api/products and the public /api/catalog
+ */
+
+import { IFieldSchema, RequestSchema } from '@types';
+import { SEARCH_QUERY } from './commonValidator';
+
+// Filters the admin list and the public catalog share
+const PRODUCT_QUERY: Record<string, IFieldSchema> = {
+    ...SEARCH_QUERY,
+    category: { type: 'string', description: 'Category id' },
+    minPrice: { type: 'integer', minimum: 0 },
+    maxPrice: { type: 'integer', minimum: 0 },
+    inStock: { type: 'boolean' },
+};
+
+export const listProducts: RequestSchema = {
+    query: {
+        ...PRODUCT_QUERY,
+        status: { type: 'string', enum: ['draft', 'published', 'archived'] },
+    },
+};
+
+export const listPublishedProducts: RequestSchema = {
+    query: PRODUCT_QUERY,
+};
@@ -0,0 +1,11 @@
+/**
+ * Settings Validators - TypeScript
+ * Request schemas for /api/settings
+ */
+
+import { RequestSchema } from '@types';
+import { PAGE_QUERY } from './commonValidator';
+
+export const listHistory: RequestSchema = {
+    query: PAGE_QUERY,
+};
@@ -0,0 +1,20 @@
+/**
+ * Stats Validators - TypeScript
+ * Request schemas for /api/admin
+ */
+
+import { RequestSchema } from '@types';
+
+export const getDashboard: RequestSchema = {
+    query: {
+        from: { type: 'date' },
+        to: { type: 'date' },
+        interval: { type: 'string', enum: ['day', 'week', 'month'], default: 'day' },
+        tzOffset: {
+            type: 'integer',
+            minimum: -12 * 60,
+            maximum: 14 * 60,
+            description: 'Minutes east of UTC; the server offset by default',
+        },
+    },
+};
@@ -0,0 +1,12 @@
+/**
+ * Upload Validators - TypeScript
+ * Request schemas for /api/uploads
+ */
+
+import { RequestSchema } from '@types';
+
+export const deleteFile: RequestSchema = {
+    query: {
+        type: { type: 'string', enum: ['avatars', 'images', 'documents'], default: 'images' },
+    },
+};
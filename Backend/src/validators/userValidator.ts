@@ -0,0 +1,17 @@
+/**
+ * User Validators - TypeScript
+ * Request schemas for /api/users
+ */
+
+import { USER_ROLES } from '@config/permissions';
+import { RequestSchema } from '@types';
+import { SEARCH_QUERY } from './commonValidator';
+
+export const listUsers: RequestSchema = {
+    query: {
+        ...SEARCH_QUERY,
+        role: { type: 'string', enum: USER_ROLES },
+        isVerified: { type: 'boolean' },
+        banned: { type: 'boolean' },
+    },
+};
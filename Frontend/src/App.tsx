@@ -1,16 +1,25 @@
 import { Suspense, memo, type FC } from "react";
-import { BrowserRouter, Routes } from "react-router-dom";
+import { Outlet, Route, RouterProvider, createBrowserRouter, createRoutesFromElements } from "react-router-dom";
 import routes from "@routes";
 import Loading from "@components/Loading";
 
+// A data router is required for navigation blocking (useBlocker)
+const router = createBrowserRouter(
+  createRoutesFromElements(
+    <Route
+      element={
+        <Suspense fallback={<Loading size="lg" fullScreen />}>
+          <Outlet />
+        </Suspense>
+      }
+    >
+      {routes}
+    </Route>
+  )
+);
+
 const App: FC = memo(() => {
-  return (
-    <BrowserRouter>
-      <Suspense fallback={<Loading size="lg" fullScreen />}>
-        <Routes>{routes}</Routes>
-      </Suspense>
-    </BrowserRouter>
-  );
+  return <RouterProvider router={router} />;
 });
 
 App.displayName = 'App';
@@ -0,0 +1,91 @@
+import { memo, type ReactNode } from 'react';
+
+export interface DataTableColumn<T> {
+    key: string;
+    label: ReactNode;
+    sortable?: boolean;
+    className?: string;
+    render: (row: T) => ReactNode;
+}
+
+export interface DataTableProps<T> {
+    columns: DataTableColumn<T>[];
+    rows: T[];
+    rowKey: (row: T) => string;
+    sort?: string;
+    order?: 'asc' | 'desc';
+    onSortChange?: (sort: string, order: 'asc' | 'desc') => void;
+    loading?: boolean;
+    emptyMessage?: string;
+}
+
+const DataTable = <T,>({
+    columns,
+    rows,
+    rowKey,
+    sort,
+    order = 'desc',
+    onSortChange,
+    loading = false,
+    emptyMessage = 'No records found',
+}: DataTableProps<T>) => {
+    // Clicking the active column flips the order, another column starts ascending
+    const handleSort = (key: string) => {
+        if (!onSortChange) return;
+        onSortChange(key, sort === key && order === 'asc' ? 'desc' : 'asc');
+    };
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                    <tr>
+                        {columns.map((column) => (
+                            <th
+                                key={column.key}
+                                scope="col"
+                                className={`px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider ${column.className || ''}`}
+                                aria-sort={sort === column.key ? (order === 'asc' ? 'ascending' : 'descending') : undefined}
+                            >
+                                {column.sortable ? (
+                                    <button
+                                        type="button"
+                                        className="inline-flex items-center gap-1 uppercase hover:text-gray-700"
+                                        onClick={() => handleSort(column.key)}
+                                    >
+                                        {column.label}
+                                        <span aria-hidden="true">{sort === column.key ? (order === 'asc' ? '▲' : '▼') : '↕'}</span>
+                                    </button>
+                                ) : (
+                                    column.label
+                                )}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody className={`bg-white divide-y divide-gray-200 ${loading ? 'opacity-50' : ''}`}>
+                    {rows.length === 0 ? (
+                        <tr>
+                            <td colSpan={columns.length} className="px-4 py-6 text-center text-sm text-gray-500">
+                                {loading ? 'Loading...' : emptyMessage}
+                            </td>
+                        </tr>
+                    ) : (
+                        rows.map((row) => (
+                            <tr key={rowKey(row)} className="hover:bg-gray-50">
+                                {columns.map((column) => (
+                                    <td key={column.key} className={`px-4 py-3 text-sm text-gray-700 ${column.className || ''}`}>
+                                        {column.render(row)}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))
+                    )}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+// memo() drops the generic signature, so restore it for callers
+export default memo(DataTable) as typeof DataTable;
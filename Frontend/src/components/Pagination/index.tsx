@@ -0,0 +1,45 @@
+import { memo, type FC } from 'react';
+
+export interface PaginationProps {
+    page: number;
+    totalPages: number;
+    total: number;
+    limit: number;
+    onPageChange: (page: number) => void;
+}
+
+const Pagination: FC<PaginationProps> = ({ page, totalPages, total, limit, onPageChange }) => {
+    const from = total === 0 ? 0 : (page - 1) * limit + 1;
+    const to = Math.min(page * limit, total);
+
+    const buttonClassName =
+        'px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:hover:bg-transparent';
+
+    return (
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+            <span>
+                {from}–{to} of {total}
+            </span>
+            <div className="flex items-center gap-2">
+                <button type="button" className={buttonClassName} onClick={() => onPageChange(page - 1)} disabled={page <= 1}>
+                    Previous
+                </button>
+                <span>
+                    Page {page} of {Math.max(totalPages, 1)}
+                </span>
+                <button
+                    type="button"
+                    className={buttonClassName}
+                    onClick={() => onPageChange(page + 1)}
+                    disabled={page >= totalPages}
+                >
+                    Next
+                </button>
+            </div>
+        </div>
+    );
+};
+
+Pagination.displayName = 'Pagination';
+
+export default memo(Pagination);
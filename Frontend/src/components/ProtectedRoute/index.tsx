@@ -14,7 +14,7 @@ const ROUTES = {
     AUTH: '/admin/auth',
 };
 
-const ProtectedRoute: FC<ProtectedRouteProps> = memo(({ children, requiredRole }) => {
+const ProtectedRoute: FC<ProtectedRouteProps> = memo(({ children, requiredRole, requiredPermission }) => {
     const isAuthenticated = authService.isAuthenticated();
     const currentUser = authService.getCurrentUser();
 
@@ -28,6 +28,11 @@ const ProtectedRoute: FC<ProtectedRouteProps> = memo(({ children, requiredRole }
         return <Navigate to={ROUTES.HOME} replace />;
     }
 
+    // Check if user's role grants the required permission
+    if (requiredPermission && !authService.hasPermission(requiredPermission)) {
+        return <Navigate to={ROUTES.HOME} replace />;
+    }
+
     return <>{children}</>;
 });
 
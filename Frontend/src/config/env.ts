@@ -11,6 +11,7 @@ interface _ImportMetaEnv {
     readonly VITE_ENCRYPTION_KEY: string;
     readonly VITE_ENABLE_LOGGING: string;
     readonly VITE_ENABLE_MOCK_API: string;
+    readonly VITE_AUTH_MODE: string;
     readonly MODE: string;
 }
 
@@ -23,6 +24,7 @@ interface EnvConfig {
     ENCRYPTION_KEY: string;
     ENABLE_LOGGING: boolean;
     ENABLE_MOCK_API: boolean;
+    AUTH_MODE: 'cookie' | 'header';
 }
 
 export const ENV: EnvConfig = {
@@ -41,6 +43,9 @@ export const ENV: EnvConfig = {
     // Feature Flags
     ENABLE_LOGGING: import.meta.env.VITE_ENABLE_LOGGING === 'true',
     ENABLE_MOCK_API: import.meta.env.VITE_ENABLE_MOCK_API === 'true',
+
+    // Must match AUTH_TOKEN_TRANSPORT on the backend
+    AUTH_MODE: import.meta.env.VITE_AUTH_MODE === 'header' ? 'header' : 'cookie',
 };
 
 // Validate required environment variables
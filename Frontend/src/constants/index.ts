@@ -3,24 +3,88 @@
  * Centralized location for all constant values
  */
 
-// API Endpoints
+import type { ApiPaths } from '@types';
+
+// API Endpoints - paths from the backend contract; {name} segments are filled in by the api client
 export const API_ENDPOINTS = {
     AUTH: {
         LOGIN: '/auth/login',
         LOGOUT: '/auth/logout',
+        LOGOUT_ALL: '/auth/logout-all',
         REGISTER: '/auth/register',
         REFRESH_TOKEN: '/auth/refresh',
         PROFILE: '/auth/profile',
+        VERIFY_EMAIL: '/auth/verify-email',
+        RESEND_VERIFICATION: '/auth/resend-verification',
+        FORGOT_PASSWORD: '/auth/forgot-password',
+        RESET_PASSWORD: '/auth/reset-password',
+        MFA_VERIFY: '/auth/mfa/verify',
+        MFA_SETUP: '/auth/mfa/setup',
+        MFA_ENABLE: '/auth/mfa/enable',
+        MFA_DISABLE: '/auth/mfa/disable',
+        SESSIONS: '/auth/sessions',
+        SESSION: '/auth/sessions/{id}',
     },
     USERS: {
         LIST: '/users',
-        DETAIL: (id) => `/users/${id}`,
+        DETAIL: '/users/{id}',
         CREATE: '/users',
-        UPDATE: (id) => `/users/${id}`,
-        DELETE: (id) => `/users/${id}`,
+        UPDATE: '/users/{id}',
+        DELETE: '/users/{id}',
+        ROLE: '/users/{id}/role',
+        BAN: '/users/{id}/ban',
+        UNBAN: '/users/{id}/unban',
+        SESSIONS: '/users/{id}/sessions',
+        ACTIVITY: '/users/{id}/activity',
+    },
+    PRODUCTS: {
+        LIST: '/products',
+        DETAIL: '/products/{id}',
+        CREATE: '/products',
+        UPDATE: '/products/{id}',
+        DELETE: '/products/{id}',
+        INVENTORY: '/products/{id}/inventory',
+    },
+    ORDERS: {
+        LIST: '/orders',
+        DETAIL: '/orders/{id}',
+        CREATE: '/orders',
+        STATUS: '/orders/{id}/status',
+        BULK_STATUS: '/orders/bulk-status',
+        EXPORT: '/orders/export',
+    },
+    NEWS: {
+        LIST: '/news',
+        DETAIL: '/news/{id}',
+        CREATE: '/news',
+        UPDATE: '/news/{id}',
+        DELETE: '/news/{id}',
+        PREVIEW: '/news/preview',
+        REVISIONS: '/news/{id}/revisions',
+        REVISION_DIFF: '/news/{id}/revisions/{revision}/diff',
+        RESTORE_REVISION: '/news/{id}/revisions/{revision}/restore',
+    },
+    ADMIN: {
+        STATS: '/admin/stats',
+    },
+    CATEGORIES: {
+        LIST: '/categories',
+        CREATE: '/categories',
+        UPDATE: '/categories/{id}',
+        DELETE: '/categories/{id}',
+    },
+    UPLOADS: {
+        AVATAR: '/uploads/avatar',
+        IMAGES: '/uploads/images',
+    },
+    API_KEYS: {
+        LIST: '/api-keys',
+        CREATE: '/api-keys',
+        ROTATE: '/api-keys/{id}/rotate',
+        REVOKE: '/api-keys/{id}',
     },
     // Add more endpoints as needed
-};
+} as const satisfies Record<string, Record<string, keyof ApiPaths>>;
 
 // HTTP Status Codes
 export const HTTP_STATUS = {
@@ -48,16 +112,67 @@ export const ROUTES = {
     HOME: '/',
     ADMIN: '/admin',
     AUTH: '/admin/auth',
+    VERIFY_EMAIL: '/admin/auth/verify-email',
+    FORGOT_PASSWORD: '/admin/auth/forgot-password',
+    RESET_PASSWORD: '/admin/auth/reset-password',
+    USERS: '/admin/users',
+    USER_DETAIL: (id) => `/admin/users/${id}`,
+    PRODUCTS: '/admin/products',
+    PRODUCT_NEW: '/admin/products/new',
+    PRODUCT_DETAIL: (id) => `/admin/products/${id}`,
+    ORDERS: '/admin/orders',
+    ORDER_DETAIL: (id) => `/admin/orders/${id}`,
+    NEWS: '/admin/news',
+    NEWS_NEW: '/admin/news/new',
+    NEWS_DETAIL: (id) => `/admin/news/${id}`,
     NOT_FOUND: '*',
 };
 
 // User Roles
 export const USER_ROLES = {
     ADMIN: 'admin',
+    EDITOR: 'editor',
+    SUPPORT: 'support',
+    WAREHOUSE: 'warehouse',
     USER: 'user',
     GUEST: 'guest',
 };
 
+// Order workflow statuses (mirrors the backend)
+export const ORDER_STATUSES = {
+    PENDING: 'pending',
+    PAID: 'paid',
+    FULFILLED: 'fulfilled',
+    SHIPPED: 'shipped',
+    DELIVERED: 'delivered',
+    CANCELLED: 'cancelled',
+    REFUNDED: 'refunded',
+} as const;
+
+// Permissions (mirrors the backend catalogue)
+export const PERMISSIONS = {
+    ADMIN_ACCESS: 'admin:access',
+    USERS_READ: 'users:read',
+    USERS_WRITE: 'users:write',
+    USERS_DELETE: 'users:delete',
+    ROLES_MANAGE: 'roles:manage',
+    API_KEYS_MANAGE: 'api-keys:manage',
+    PRODUCTS_READ: 'products:read',
+    PRODUCTS_WRITE: 'products:write',
+    PRODUCTS_DELETE: 'products:delete',
+    INVENTORY_ADJUST: 'inventory:adjust',
+    ORDERS_READ: 'orders:read',
+    ORDERS_WRITE: 'orders:write',
+    ORDERS_REFUND: 'orders:refund',
+    STATS_READ: 'stats:read',
+    NEWS_WRITE: 'news:write',
+    NEWS_PUBLISH: 'news:publish',
+    SETTINGS_READ: 'settings:read',
+    SETTINGS_WRITE: 'settings:write',
+    UPLOADS_WRITE: 'uploads:write',
+    UPLOADS_DELETE: 'uploads:delete',
+} as const;
+
 // Messages
 export const MESSAGES = {
     ERROR: {
@@ -96,6 +211,8 @@ export default {
     STORAGE_KEYS,
     ROUTES,
     USER_ROLES,
+    ORDER_STATUSES,
+    PERMISSIONS,
     MESSAGES,
     REGEX,
     DATE_FORMATS,
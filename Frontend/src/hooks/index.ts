@@ -7,3 +7,4 @@ export { useAuth } from './useAuth';
 export { useApi } from './useApi';
 export { useLocalStorage } from './useLocalStorage';
 export { useDebounce } from './useDebounce';
+export { useUnsavedChangesGuard } from './useUnsavedChangesGuard';
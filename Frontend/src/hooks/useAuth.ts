@@ -7,6 +7,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { authService } from '@services';
 import { useNavigate } from 'react-router-dom';
 import { ROUTES, MESSAGES } from '@constants';
+import { getErrorMessage } from '@utils/errors';
 
 export const useAuth = () => {
     const [user, setUser] = useState(null);
@@ -24,7 +25,7 @@ export const useAuth = () => {
                 }
             } catch (err) {
                 console.error('Auth check failed:', err);
-                setError(err.message);
+                setError(getErrorMessage(err, ''));
             } finally {
                 setLoading(false);
             }
@@ -39,11 +40,32 @@ export const useAuth = () => {
         setError(null);
         try {
             const data = await authService.login(credentials);
+            // Two-factor accounts finish with verifyMfa
+            if ('mfaRequired' in data) {
+                return data;
+            }
             setUser(data?.user || null);
-            navigate(ROUTES.HOME);
+            navigate(ROUTES.ADMIN);
             return data;
-        } catch (err: any) {
-            setError(err.message || MESSAGES.ERROR.SERVER_ERROR);
+        } catch (err) {
+            setError(getErrorMessage(err, MESSAGES.ERROR.SERVER_ERROR));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [navigate]);
+
+    // Second login step for two-factor accounts
+    const verifyMfa = useCallback(async (mfaToken: string, code: string) => {
+        setLoading(true);
+        setError(null);
+        try {
+            const data = await authService.verifyMfa(mfaToken, code);
+            setUser(data?.user || null);
+            navigate(ROUTES.ADMIN);
+            return data;
+        } catch (err) {
+            setError(getErrorMessage(err, MESSAGES.ERROR.SERVER_ERROR));
             throw err;
         } finally {
             setLoading(false);
@@ -58,7 +80,7 @@ export const useAuth = () => {
             const response = await authService.register(userData);
             return response;
         } catch (err) {
-            setError(err.message || MESSAGES.ERROR.SERVER_ERROR);
+            setError(getErrorMessage(err, MESSAGES.ERROR.SERVER_ERROR));
             throw err;
         } finally {
             setLoading(false);
@@ -74,7 +96,7 @@ export const useAuth = () => {
             navigate(ROUTES.AUTH);
         } catch (err) {
             console.error('Logout failed:', err);
-            setError(err.message);
+            setError(getErrorMessage(err, ''));
         } finally {
             setLoading(false);
         }
@@ -86,9 +108,9 @@ export const useAuth = () => {
             const data = await authService.getProfile();
             setUser(data?.user || null);
             return data?.user;
-        } catch (err: any) {
+        } catch (err) {
             console.error('Profile refresh failed:', err);
-            setError(err.message);
+            setError(getErrorMessage(err, ''));
             throw err;
         }
     }, []);
@@ -99,6 +121,7 @@ export const useAuth = () => {
         error,
         isAuthenticated: authService.isAuthenticated(),
         login,
+        verifyMfa,
         register,
         logout,
         refreshProfile,
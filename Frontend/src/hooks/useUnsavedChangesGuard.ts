@@ -0,0 +1,42 @@
+/**
+ * useUnsavedChangesGuard Hook
+ * Ask before leaving a page with unsaved changes
+ */
+
+import { useEffect } from 'react';
+import { useBlocker } from 'react-router-dom';
+
+export const useUnsavedChangesGuard = (
+    isDirty: boolean,
+    message = 'You have unsaved changes. Leave this page anyway?'
+) => {
+    // In-app navigation; staying on the same path (e.g. ?query changes) is never blocked
+    const blocker = useBlocker(
+        ({ currentLocation, nextLocation }) => isDirty && currentLocation.pathname !== nextLocation.pathname
+    );
+
+    useEffect(() => {
+        if (blocker.state !== 'blocked') return;
+
+        if (window.confirm(message)) {
+            blocker.proceed();
+        } else {
+            blocker.reset();
+        }
+    }, [blocker, message]);
+
+    // Reloads, closing the tab and external links
+    useEffect(() => {
+        if (!isDirty) return;
+
+        const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+            event.preventDefault();
+            event.returnValue = '';
+        };
+
+        window.addEventListener('beforeunload', handleBeforeUnload);
+        return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    }, [isDirty]);
+};
+
+export default useUnsavedChangesGuard;
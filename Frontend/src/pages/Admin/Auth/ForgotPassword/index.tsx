@@ -0,0 +1,80 @@
+import { memo, useState, type FC, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { authService } from '@services/authService';
+import { ROUTES } from '@constants';
+import { getErrorMessage } from '@utils/errors';
+
+const ForgotPassword: FC = memo(() => {
+    const [email, setEmail] = useState('');
+    const [sent, setSent] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+        try {
+            await authService.forgotPassword(email);
+            setSent(true);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not send the email. Please try again later.'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gray-100">
+            <div className="bg-white p-8 rounded-lg shadow-md w-full max-w-md">
+                <h1 className="text-3xl font-bold text-center text-gray-800 mb-8">Forgot Password</h1>
+                {sent ? (
+                    <div className="px-4 py-3 rounded-lg bg-blue-50 text-blue-700 text-sm" role="status">
+                        If an account exists for {email}, a password reset link has been sent. Check your inbox.
+                    </div>
+                ) : (
+                    <>
+                        {error && (
+                            <div className="mb-6 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                                {error}
+                            </div>
+                        )}
+                        <form className="space-y-6" onSubmit={handleSubmit}>
+                            <div>
+                                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                                    Email
+                                </label>
+                                <input
+                                    type="email"
+                                    id="email"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    required
+                                    autoComplete="email"
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    placeholder="Enter your email"
+                                />
+                            </div>
+                            <button
+                                type="submit"
+                                disabled={loading}
+                                className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                            >
+                                {loading ? 'Sending...' : 'Send reset link'}
+                            </button>
+                        </form>
+                    </>
+                )}
+                <div className="mt-6 text-center">
+                    <Link to={ROUTES.AUTH} className="text-blue-600 hover:text-blue-700 text-sm">
+                        Back to Login
+                    </Link>
+                </div>
+            </div>
+        </div>
+    );
+});
+
+ForgotPassword.displayName = 'ForgotPassword';
+
+export default ForgotPassword;
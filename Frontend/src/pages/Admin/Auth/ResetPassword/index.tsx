@@ -0,0 +1,132 @@
+import { memo, useState, type FC, type FormEvent } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { authService } from '@services/authService';
+import { validatePassword } from '@utils/validation';
+import { getErrorMessage, getValidationErrors } from '@utils/errors';
+import { ROUTES } from '@constants';
+
+const ResetPassword: FC = memo(() => {
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get('token');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [errors, setErrors] = useState<string[]>([]);
+    const [done, setDone] = useState(false);
+    const [loading, setLoading] = useState(false);
+
+    const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+
+        const passwordError = validatePassword(password);
+        if (passwordError) {
+            setErrors([passwordError]);
+            return;
+        }
+        if (password !== confirmPassword) {
+            setErrors(['Passwords do not match']);
+            return;
+        }
+
+        setLoading(true);
+        setErrors([]);
+        try {
+            await authService.resetPassword(token!, password);
+            setDone(true);
+        } catch (err) {
+            const errors = getValidationErrors(err);
+            setErrors(errors.length ? errors : [getErrorMessage(err, 'Could not reset the password.')]);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const renderContent = () => {
+        if (!token) {
+            return (
+                <div className="px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    This reset link is invalid. <Link to={ROUTES.FORGOT_PASSWORD} className="underline">Request a new one</Link>.
+                </div>
+            );
+        }
+
+        if (done) {
+            return (
+                <div className="space-y-6 text-center">
+                    <p className="text-green-700">Your password has been reset. All devices have been signed out.</p>
+                    <Link to={ROUTES.AUTH} className="text-blue-600 hover:text-blue-700 text-sm">
+                        Continue to login
+                    </Link>
+                </div>
+            );
+        }
+
+        return (
+            <>
+                {errors.length > 0 && (
+                    <ul className="mb-6 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm list-disc list-inside" role="alert">
+                        {errors.map((message) => (
+                            <li key={message}>{message}</li>
+                        ))}
+                    </ul>
+                )}
+                <form className="space-y-6" onSubmit={handleSubmit}>
+                    <div>
+                        <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                            New password
+                        </label>
+                        <input
+                            type="password"
+                            id="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            required
+                            autoComplete="new-password"
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder="Enter a new password"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                            Confirm password
+                        </label>
+                        <input
+                            type="password"
+                            id="confirmPassword"
+                            value={confirmPassword}
+                            onChange={(e) => setConfirmPassword(e.target.value)}
+                            required
+                            autoComplete="new-password"
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder="Repeat the new password"
+                        />
+                    </div>
+                    <button
+                        type="submit"
+                        disabled={loading}
+                        className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                        {loading ? 'Saving...' : 'Reset password'}
+                    </button>
+                </form>
+            </>
+        );
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gray-100">
+            <div className="bg-white p-8 rounded-lg shadow-md w-full max-w-md">
+                <h1 className="text-3xl font-bold text-center text-gray-800 mb-8">Reset Password</h1>
+                {renderContent()}
+                <div className="mt-6 text-center">
+                    <Link to={ROUTES.AUTH} className="text-blue-600 hover:text-blue-700 text-sm">
+                        Back to Login
+                    </Link>
+                </div>
+            </div>
+        </div>
+    );
+});
+
+ResetPassword.displayName = 'ResetPassword';
+
+export default ResetPassword;
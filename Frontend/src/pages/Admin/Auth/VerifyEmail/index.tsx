@@ -0,0 +1,109 @@
+import { memo, useEffect, useRef, useState, type FC, type FormEvent } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { authService } from '@services/authService';
+import { ROUTES } from '@constants';
+import { getErrorMessage } from '@utils/errors';
+
+type Status = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmail: FC = memo(() => {
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get('token');
+    const [status, setStatus] = useState<Status>(token ? 'verifying' : 'failed');
+    const [email, setEmail] = useState('');
+    const [notice, setNotice] = useState<string | null>(null);
+    const [sending, setSending] = useState(false);
+    // Tokens are single-use, so never submit the same one twice (StrictMode re-runs effects)
+    const submitted = useRef(false);
+
+    useEffect(() => {
+        if (!token || submitted.current) return;
+        submitted.current = true;
+
+        authService
+            .verifyEmail(token)
+            .then(() => setStatus('verified'))
+            .catch(() => setStatus('failed'));
+    }, [token]);
+
+    const handleResend = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setSending(true);
+        try {
+            await authService.resendVerification(email);
+            setNotice('If the account exists and is unverified, a new verification email has been sent.');
+        } catch (err) {
+            setNotice(getErrorMessage(err, 'Could not send the email. Please try again later.'));
+        } finally {
+            setSending(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gray-100">
+            <div className="bg-white p-8 rounded-lg shadow-md w-full max-w-md">
+                <h1 className="text-3xl font-bold text-center text-gray-800 mb-8">Email Verification</h1>
+
+                {status === 'verifying' && (
+                    <p className="text-center text-gray-600">Verifying your email address...</p>
+                )}
+
+                {status === 'verified' && (
+                    <div className="space-y-6 text-center">
+                        <p className="text-green-700">Your email address has been verified.</p>
+                        <Link to={ROUTES.AUTH} className="text-blue-600 hover:text-blue-700 text-sm">
+                            Continue to login
+                        </Link>
+                    </div>
+                )}
+
+                {status === 'failed' && (
+                    <>
+                        <div className="mb-6 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                            This verification link is invalid or has expired.
+                        </div>
+                        {notice && (
+                            <div className="mb-6 px-4 py-3 rounded-lg bg-blue-50 text-blue-700 text-sm" role="status">
+                                {notice}
+                            </div>
+                        )}
+                        <form className="space-y-6" onSubmit={handleResend}>
+                            <div>
+                                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                                    Email
+                                </label>
+                                <input
+                                    type="email"
+                                    id="email"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    required
+                                    autoComplete="email"
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    placeholder="Enter your email"
+                                />
+                            </div>
+                            <button
+                                type="submit"
+                                disabled={sending}
+                                className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                            >
+                                {sending ? 'Sending...' : 'Send a new link'}
+                            </button>
+                        </form>
+                    </>
+                )}
+
+                <div className="mt-6 text-center">
+                    <Link to="/" className="text-blue-600 hover:text-blue-700 text-sm">
+                        Back to Home
+                    </Link>
+                </div>
+            </div>
+        </div>
+    );
+});
+
+VerifyEmail.displayName = 'VerifyEmail';
+
+export default VerifyEmail;
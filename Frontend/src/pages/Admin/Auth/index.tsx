@@ -1,41 +1,136 @@
-import { memo, type FC } from 'react';
+import { memo, useState, type FC, type FormEvent } from 'react';
 import { Link } from 'react-router-dom';
+import { useAuth } from '@hooks';
+import { ROUTES } from '@constants';
 
 const Auth: FC = memo(() => {
+    const { login, verifyMfa, loading, error, setError } = useAuth();
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [mfaToken, setMfaToken] = useState<string | null>(null);
+    const [code, setCode] = useState('');
+
+    const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        try {
+            const data = await login({ email, password });
+            if ('mfaRequired' in data) {
+                setMfaToken(data.mfaToken);
+            }
+        } catch {
+            // Error message is exposed through useAuth
+        }
+    };
+
+    const handleMfaSubmit = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        try {
+            await verifyMfa(mfaToken!, code);
+        } catch {
+            setCode('');
+        }
+    };
+
+    const handleBackToLogin = () => {
+        setMfaToken(null);
+        setCode('');
+        setPassword('');
+        setError(null);
+    };
+
     return (
         <div className="min-h-screen flex items-center justify-center bg-gray-100">
             <div className="bg-white p-8 rounded-lg shadow-md w-full max-w-md">
-                <h1 className="text-3xl font-bold text-center text-gray-800 mb-8">Admin Login</h1>
-                <form className="space-y-6">
-                    <div>
-                        <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                            Email
-                        </label>
-                        <input
-                            type="email"
-                            id="email"
-                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            placeholder="Enter your email"
-                        />
+                <h1 className="text-3xl font-bold text-center text-gray-800 mb-8">
+                    {mfaToken ? 'Two-Factor Authentication' : 'Admin Login'}
+                </h1>
+                {error && (
+                    <div className="mb-6 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                        {error}
                     </div>
-                    <div>
-                        <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                            Password
-                        </label>
-                        <input
-                            type="password"
-                            id="password"
-                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            placeholder="Enter your password"
-                        />
-                    </div>
-                    <button
-                        type="submit"
-                        className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors"
-                    >
-                        Login
-                    </button>
-                </form>
+                )}
+                {mfaToken ? (
+                    <form className="space-y-6" onSubmit={handleMfaSubmit}>
+                        <div>
+                            <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-2">
+                                Authentication code
+                            </label>
+                            <input
+                                type="text"
+                                id="code"
+                                value={code}
+                                onChange={(e) => setCode(e.target.value)}
+                                required
+                                autoFocus
+                                autoComplete="one-time-code"
+                                className="w-full px-4 py-2 border border-gray-300 rounded-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                placeholder="123456"
+                            />
+                            <p className="mt-2 text-xs text-gray-500">
+                                Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                            </p>
+                        </div>
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                            {loading ? 'Verifying...' : 'Verify'}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleBackToLogin}
+                            className="w-full text-blue-600 hover:text-blue-700 text-sm"
+                        >
+                            Use a different account
+                        </button>
+                    </form>
+                ) : (
+                    <form className="space-y-6" onSubmit={handleSubmit}>
+                        <div>
+                            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                                Email
+                            </label>
+                            <input
+                                type="email"
+                                id="email"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                required
+                                autoComplete="username"
+                                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                placeholder="Enter your email"
+                            />
+                        </div>
+                        <div>
+                            <div className="flex items-center justify-between mb-2">
+                                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                                    Password
+                                </label>
+                                <Link to={ROUTES.FORGOT_PASSWORD} className="text-blue-600 hover:text-blue-700 text-sm">
+                                    Forgot password?
+                                </Link>
+                            </div>
+                            <input
+                                type="password"
+                                id="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                required
+                                autoComplete="current-password"
+                                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                placeholder="Enter your password"
+                            />
+                        </div>
+                        <button
+                            type="submit"
+                            disabled={loading}
+                            className="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                            {loading ? 'Signing in...' : 'Login'}
+                        </button>
+                    </form>
+                )}
                 <div className="mt-6 text-center">
                     <Link to="/" className="text-blue-600 hover:text-blue-700 text-sm">
                         Back to Home
@@ -49,5 +144,3 @@ const Auth: FC = memo(() => {
 Auth.displayName = 'Auth';
 
 export default Auth;
-
-
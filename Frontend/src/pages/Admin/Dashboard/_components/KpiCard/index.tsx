@@ -0,0 +1,19 @@
+import { memo, type FC } from 'react';
+
+interface KpiCardProps {
+    title: string;
+    value: string;
+    detail?: string;
+}
+
+const KpiCard: FC<KpiCardProps> = memo(({ title, value, detail }) => (
+    <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-gray-500 text-sm font-medium">{title}</h3>
+        <p className="text-3xl font-bold text-gray-800 mt-2 break-words">{value}</p>
+        {detail && <p className="text-sm text-gray-500 mt-1">{detail}</p>}
+    </div>
+));
+
+KpiCard.displayName = 'KpiCard';
+
+export default KpiCard;
@@ -0,0 +1,80 @@
+import { memo, type FC } from 'react';
+import type { StatsInterval } from '@types';
+import { RANGE_PRESETS, presetRange, type StatsRange } from './range';
+
+interface RangePickerProps {
+    value: StatsRange;
+    onChange: (value: StatsRange) => void;
+}
+
+const INTERVALS: StatsInterval[] = ['day', 'week', 'month'];
+
+const controlClassName =
+    'px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const RangePicker: FC<RangePickerProps> = memo(({ value, onChange }) => {
+    const update = (changes: Partial<StatsRange>) => onChange({ ...value, ...changes });
+
+    return (
+        <div className="flex flex-wrap items-center gap-3">
+            <div className="inline-flex rounded-lg border border-gray-300 bg-white overflow-hidden" role="group" aria-label="Quick ranges">
+                {RANGE_PRESETS.map((preset) => {
+                    const range = presetRange(preset);
+                    const active =
+                        range.from === value.from && range.to === value.to && range.interval === value.interval;
+                    return (
+                        <button
+                            key={preset.label}
+                            type="button"
+                            aria-pressed={active}
+                            onClick={() => onChange(range)}
+                            className={`px-3 py-2 text-sm border-r border-gray-300 last:border-r-0 ${
+                                active ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+                            }`}
+                        >
+                            {preset.label}
+                        </button>
+                    );
+                })}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+                From
+                <input
+                    type="date"
+                    value={value.from}
+                    max={value.to}
+                    required
+                    onChange={(e) => e.target.value && update({ from: e.target.value })}
+                    className={controlClassName}
+                />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+                To
+                <input
+                    type="date"
+                    value={value.to}
+                    min={value.from}
+                    required
+                    onChange={(e) => e.target.value && update({ to: e.target.value })}
+                    className={controlClassName}
+                />
+            </label>
+            <select
+                value={value.interval}
+                onChange={(e) => update({ interval: e.target.value as StatsInterval })}
+                aria-label="Group by"
+                className={controlClassName}
+            >
+                {INTERVALS.map((interval) => (
+                    <option key={interval} value={interval}>
+                        By {interval}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+});
+
+RangePicker.displayName = 'RangePicker';
+
+export default RangePicker;
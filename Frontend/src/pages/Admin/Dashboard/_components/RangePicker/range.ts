@@ -0,0 +1,48 @@
+import type { StatsInterval } from '@types';
+
+export interface StatsRange {
+    // YYYY-MM-DD local days, both included
+    from: string;
+    to: string;
+    interval: StatsInterval;
+}
+
+interface RangePreset {
+    label: string;
+    days: number;
+    interval: StatsInterval;
+}
+
+export const RANGE_PRESETS: RangePreset[] = [
+    { label: '7 days', days: 7, interval: 'day' },
+    { label: '30 days', days: 30, interval: 'day' },
+    { label: '90 days', days: 90, interval: 'week' },
+    { label: '12 months', days: 365, interval: 'month' },
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Local calendar day as YYYY-MM-DD
+ */
+export const toDay = (date: Date): string =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * YYYY-MM-DD as local midnight, so formatting does not slip a day
+ */
+export const parseDay = (day: string): Date => {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(year, month - 1, date);
+};
+
+/**
+ * The last `days` days up to and including today
+ */
+export const presetRange = ({ days, interval }: RangePreset): StatsRange => {
+    const to = new Date();
+    const from = new Date(to.getFullYear(), to.getMonth(), to.getDate() - (days - 1));
+    return { from: toDay(from), to: toDay(to), interval };
+};
+
+export const DEFAULT_RANGE_PRESET = RANGE_PRESETS[1];
@@ -0,0 +1,137 @@
+import { memo, useMemo, useState, type FC } from 'react';
+import { formatCurrency, formatDate, formatNumber } from '@utils/format';
+import type { StatsBucket } from '@types';
+import { parseDay } from '../RangePicker/range';
+
+interface RevenueChartProps {
+    series: StatsBucket[];
+}
+
+const WIDTH = 800;
+const HEIGHT = 280;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 88 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const GRID_LINES = 4;
+const MAX_X_LABELS = 8;
+
+// Round the axis up to 1, 2 or 5 times a power of ten per grid line
+const niceStep = (value: number) => {
+    if (value <= 0) return 1;
+    const magnitude = 10 ** Math.floor(Math.log10(value));
+    const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= value) ?? 10;
+    return step * magnitude;
+};
+
+/**
+ * Revenue per bucket as an SVG line chart; hovering a bucket shows its figures
+ */
+const RevenueChart: FC<RevenueChartProps> = memo(({ series }) => {
+    const [hoveredIndex, setHovered] = useState<number | null>(null);
+    // A new range can have fewer buckets than the one last hovered
+    const hovered = hoveredIndex !== null && hoveredIndex < series.length ? hoveredIndex : null;
+
+    const { points, axisMax } = useMemo(() => {
+        const max = Math.max(0, ...series.map((bucket) => bucket.revenue));
+        const axisMax = niceStep(max / GRID_LINES) * GRID_LINES;
+        const points = series.map((bucket, index) => ({
+            x: PADDING.left + (series.length > 1 ? (index * PLOT_WIDTH) / (series.length - 1) : PLOT_WIDTH / 2),
+            y: PADDING.top + PLOT_HEIGHT - (bucket.revenue / axisMax) * PLOT_HEIGHT,
+        }));
+        return { points, axisMax };
+    }, [series]);
+
+    if (series.length === 0) {
+        return <p className="text-sm text-gray-500">No data for this range</p>;
+    }
+
+    const baseline = PADDING.top + PLOT_HEIGHT;
+    const line = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x},${point.y}`).join(' ');
+    const area = `${line} L${points[points.length - 1].x},${baseline} L${points[0].x},${baseline} Z`;
+    const labelEvery = Math.ceil(series.length / MAX_X_LABELS);
+    const columnWidth = PLOT_WIDTH / Math.max(series.length - 1, 1);
+    const active = hovered !== null ? series[hovered] : null;
+
+    return (
+        <div>
+            <p className="text-sm text-gray-600 mb-2 min-h-[1.25rem]" aria-live="polite">
+                {active
+                    ? `${formatDate(parseDay(active.date))} · ${formatNumber(active.orders)} orders · ${formatCurrency(active.revenue)}`
+                    : 'Hover the chart to see each period'}
+            </p>
+            <svg
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-auto"
+                role="img"
+                aria-label="Revenue over the selected range"
+                onMouseLeave={() => setHovered(null)}
+            >
+                {Array.from({ length: GRID_LINES + 1 }, (_, index) => {
+                    const value = (axisMax / GRID_LINES) * index;
+                    const y = baseline - (PLOT_HEIGHT / GRID_LINES) * index;
+                    return (
+                        <g key={index}>
+                            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y} y2={y} className="stroke-gray-200" />
+                            <text x={PADDING.left - 8} y={y} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-xs">
+                                {formatNumber(value)}
+                            </text>
+                        </g>
+                    );
+                })}
+
+                {series.map((bucket, index) =>
+                    index % labelEvery === 0 ? (
+                        <text
+                            key={bucket.date}
+                            x={points[index].x}
+                            y={HEIGHT - 8}
+                            textAnchor="middle"
+                            className="fill-gray-500 text-xs"
+                        >
+                            {formatDate(parseDay(bucket.date))}
+                        </text>
+                    ) : null
+                )}
+
+                <path d={area} className="fill-blue-100" />
+                <path d={line} fill="none" strokeWidth={2} className="stroke-blue-600" />
+
+                {hovered !== null && (
+                    <line
+                        x1={points[hovered].x}
+                        x2={points[hovered].x}
+                        y1={PADDING.top}
+                        y2={baseline}
+                        className="stroke-gray-400"
+                        strokeDasharray="4 4"
+                    />
+                )}
+                {points.map((point, index) => (
+                    <circle
+                        key={series[index].date}
+                        cx={point.x}
+                        cy={point.y}
+                        r={hovered === index ? 5 : 3}
+                        className="fill-blue-600"
+                    />
+                ))}
+
+                {points.map((point, index) => (
+                    <rect
+                        key={series[index].date}
+                        x={point.x - columnWidth / 2}
+                        y={PADDING.top}
+                        width={columnWidth}
+                        height={PLOT_HEIGHT}
+                        fill="transparent"
+                        onMouseEnter={() => setHovered(index)}
+                    />
+                ))}
+            </svg>
+        </div>
+    );
+});
+
+RevenueChart.displayName = 'RevenueChart';
+
+export default RevenueChart;
@@ -0,0 +1,49 @@
+import { memo, type FC } from 'react';
+import { Link } from 'react-router-dom';
+import DataTable, { type DataTableColumn } from '@components/DataTable';
+import { ROUTES } from '@constants';
+import { formatCurrency, formatNumber } from '@utils/format';
+import type { TopProduct } from '@types';
+
+interface TopProductsTableProps {
+    products: TopProduct[];
+    loading?: boolean;
+}
+
+const COLUMNS: DataTableColumn<TopProduct>[] = [
+    {
+        key: 'name',
+        label: 'Product',
+        render: (product) => (
+            <Link to={ROUTES.PRODUCT_DETAIL(product.productId)} className="text-blue-600 hover:text-blue-800">
+                {product.name}
+            </Link>
+        ),
+    },
+    {
+        key: 'quantity',
+        label: 'Units sold',
+        className: 'text-right',
+        render: (product) => <span className="block text-right">{formatNumber(product.quantity)}</span>,
+    },
+    {
+        key: 'revenue',
+        label: 'Revenue',
+        className: 'text-right',
+        render: (product) => <span className="block text-right">{formatCurrency(product.revenue)}</span>,
+    },
+];
+
+const TopProductsTable: FC<TopProductsTableProps> = memo(({ products, loading }) => (
+    <DataTable
+        columns={COLUMNS}
+        rows={products}
+        rowKey={(product) => product.productId}
+        loading={loading}
+        emptyMessage="No paid orders in this range"
+    />
+));
+
+TopProductsTable.displayName = 'TopProductsTable';
+
+export default TopProductsTable;
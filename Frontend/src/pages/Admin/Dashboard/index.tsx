@@ -1,26 +1,112 @@
-import { memo, type FC } from 'react';
+import { memo, useCallback, useEffect, useRef, useState, type FC } from 'react';
+import { statsService } from '@services/statsService';
+import { authService } from '@services/authService';
+import { PERMISSIONS } from '@constants';
+import { formatCurrency, formatDateTime, formatNumber } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { DashboardStats } from '@types';
+import KpiCard from './_components/KpiCard';
+import RangePicker from './_components/RangePicker';
+import { DEFAULT_RANGE_PRESET, presetRange, type StatsRange } from './_components/RangePicker/range';
+import RevenueChart from './_components/RevenueChart';
+import TopProductsTable from './_components/TopProductsTable';
 
 const Dashboard: FC = memo(() => {
+    // Every admin lands here; only some roles may see revenue figures
+    const canViewStats = authService.hasPermission(PERMISSIONS.STATS_READ);
+    const [range, setRange] = useState<StatsRange>(() => presetRange(DEFAULT_RANGE_PRESET));
+    const [stats, setStats] = useState<DashboardStats | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    // Ignore responses that arrive after a newer request was sent
+    const requestRef = useRef(0);
+
+    const loadStats = useCallback(async () => {
+        const requestId = ++requestRef.current;
+        setLoading(true);
+        setError(null);
+        try {
+            // Days are counted in the browser's time zone
+            const response = await statsService.getDashboard({ ...range, tzOffset: -new Date().getTimezoneOffset() });
+            if (requestId === requestRef.current) setStats(response);
+        } catch (err) {
+            if (requestId === requestRef.current) setError(getErrorMessage(err, 'Could not load dashboard figures'));
+        } finally {
+            if (requestId === requestRef.current) setLoading(false);
+        }
+    }, [range]);
+
+    useEffect(() => {
+        if (canViewStats) loadStats();
+    }, [canViewStats, loadStats]);
+
+    if (!canViewStats) {
+        return (
+            <div className="container mx-auto px-4 py-8">
+                <h1 className="text-3xl font-bold text-gray-800 mb-6">Dashboard</h1>
+                <p className="text-gray-600">Your role does not include the store figures.</p>
+            </div>
+        );
+    }
+
     return (
         <div className="container mx-auto px-4 py-8">
-            <h1 className="text-3xl font-bold text-gray-800 mb-6">Dashboard</h1>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-                <div className="bg-white rounded-lg shadow p-6">
-                    <h3 className="text-gray-500 text-sm font-medium">Total Users</h3>
-                    <p className="text-3xl font-bold text-gray-800 mt-2">1,234</p>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <h1 className="text-3xl font-bold text-gray-800">Dashboard</h1>
+                <RangePicker value={range} onChange={setRange} />
+            </div>
+
+            {error && (
+                <div className="mb-4 p-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    {error}
                 </div>
-                <div className="bg-white rounded-lg shadow p-6">
-                    <h3 className="text-gray-500 text-sm font-medium">Total Products</h3>
-                    <p className="text-3xl font-bold text-gray-800 mt-2">567</p>
+            )}
+
+            <div className={`space-y-6 transition-opacity ${loading && stats ? 'opacity-60' : ''}`} aria-busy={loading}>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                    <KpiCard
+                        title="Total Users"
+                        value={stats ? formatNumber(stats.users.total) : '—'}
+                        detail={stats ? `${formatNumber(stats.users.new)} new in range` : undefined}
+                    />
+                    <KpiCard
+                        title="Total Products"
+                        value={stats ? formatNumber(stats.products.total) : '—'}
+                        detail={stats ? `${formatNumber(stats.products.published)} published` : undefined}
+                    />
+                    <KpiCard
+                        title="Orders"
+                        value={stats ? formatNumber(stats.orders.total) : '—'}
+                        detail={stats ? `${formatNumber(stats.orders.paid)} paid` : undefined}
+                    />
+                    <KpiCard
+                        title="Revenue"
+                        value={stats ? formatCurrency(stats.revenue.total) : '—'}
+                        detail={stats ? `Average order ${formatCurrency(stats.revenue.averageOrderValue)}` : undefined}
+                    />
                 </div>
+
                 <div className="bg-white rounded-lg shadow p-6">
-                    <h3 className="text-gray-500 text-sm font-medium">Total Orders</h3>
-                    <p className="text-3xl font-bold text-gray-800 mt-2">890</p>
+                    <h2 className="text-lg font-semibold text-gray-800 mb-2">Revenue</h2>
+                    {stats ? (
+                        <RevenueChart series={stats.series} />
+                    ) : (
+                        <p className="text-sm text-gray-500">{loading ? 'Loading...' : 'No data'}</p>
+                    )}
                 </div>
-                <div className="bg-white rounded-lg shadow p-6">
-                    <h3 className="text-gray-500 text-sm font-medium">Revenue</h3>
-                    <p className="text-3xl font-bold text-gray-800 mt-2">$45,678</p>
+
+                <div className="bg-white rounded-lg shadow">
+                    <h2 className="text-lg font-semibold text-gray-800 px-6 pt-6 pb-4">Top products</h2>
+                    <TopProductsTable products={stats?.topProducts || []} loading={loading && !stats} />
                 </div>
+
+                {stats && (
+                    <p className="text-xs text-gray-500">
+                        Revenue counts paid orders that were not cancelled or refunded. Updated{' '}
+                        {formatDateTime(stats.generatedAt)}.
+                    </p>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,361 @@
+import { memo, useCallback, useEffect, useRef, useState, type FC } from 'react';
+import { Controller, useForm, useWatch } from 'react-hook-form';
+import { useUnsavedChangesGuard } from '@hooks/useUnsavedChangesGuard';
+import { newsService } from '@services/newsService';
+import { formatDateTime } from '@utils/format';
+import { getErrorMessage, getValidationErrors } from '@utils/errors';
+import type { NewsArticle, NewsInput, NewsStatus } from '@types';
+import RichTextEditor from '../RichTextEditor';
+import BodyPreview from '../BodyPreview';
+import CoverImageField from '../CoverImageField';
+
+export interface ArticleFormValues {
+    title: string;
+    slug: string;
+    excerpt: string;
+    body: string;
+    coverImage: string;
+    // Edited as a comma separated list
+    tags: string;
+    status: NewsStatus;
+    // datetime-local value in the browser's time zone
+    publishAt: string;
+}
+
+interface ArticleFormProps {
+    article?: NewsArticle;
+    canEdit: boolean;
+    canPublish: boolean;
+    onSaved: (article: NewsArticle) => void;
+    onDirtyChange?: (isDirty: boolean) => void;
+}
+
+type AutosaveState =
+    | { state: 'idle' }
+    | { state: 'saving' }
+    | { state: 'saved'; at: Date }
+    | { state: 'error'; message: string };
+
+// Every content change is kept as a revision, so drafts are saved after a pause rather than per keystroke
+const AUTOSAVE_DELAY_MS = 10_000;
+
+const inputClassName =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100';
+
+const toLocalInput = (iso?: string) => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+const hasContent = (html: string) => /<img\b/i.test(html) || html.replace(/<[^>]*>|&nbsp;/g, '').trim().length > 0;
+
+const toFormValues = (article?: NewsArticle): ArticleFormValues => ({
+    title: article?.title || '',
+    slug: article?.slug || '',
+    // A derived excerpt stays empty here so saving keeps it in step with the body
+    excerpt: article?.autoExcerpt ? '' : article?.excerpt || '',
+    body: article?.body || '',
+    coverImage: article?.coverImage || '',
+    tags: (article?.tags || []).join(', '),
+    status: article?.status || 'draft',
+    publishAt: toLocalInput(article?.publishAt),
+});
+
+const toInput = (values: ArticleFormValues): NewsInput => ({
+    title: values.title.trim(),
+    slug: values.slug.trim() || undefined,
+    // Left empty, the server takes the start of the body
+    excerpt: values.excerpt.trim(),
+    body: values.body,
+    coverImage: values.coverImage || null,
+    tags: values.tags
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    status: values.status,
+    publishAt: values.status === 'scheduled' && values.publishAt ? new Date(values.publishAt).toISOString() : null,
+});
+
+const ArticleForm: FC<ArticleFormProps> = memo(({ article, canEdit, canPublish, onSaved, onDirtyChange }) => {
+    const {
+        register,
+        control,
+        handleSubmit,
+        reset,
+        getValues,
+        setValue,
+        formState: { errors, isDirty, isSubmitting },
+    } = useForm<ArticleFormValues>({ defaultValues: toFormValues(article) });
+    const values = useWatch({ control });
+    const [serverErrors, setServerErrors] = useState<string[]>([]);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [autosave, setAutosave] = useState<AutosaveState>({ state: 'idle' });
+
+    // A new article gets its id from the first save, which may be an autosave
+    const articleIdRef = useRef(article?.id);
+    const pendingSaveRef = useRef<Promise<unknown> | null>(null);
+    // A failed autosave is retried after the next edit, not in a loop
+    const failedValuesRef = useRef<typeof values | null>(null);
+
+    // Saving navigates away from a new article, so the guard stays off while saving
+    useUnsavedChangesGuard(canEdit && isDirty && !isSubmitting && autosave.state !== 'saving');
+
+    useEffect(() => {
+        onDirtyChange?.(isDirty);
+    }, [isDirty, onDirtyChange]);
+
+    const save = useCallback(async (formValues: ArticleFormValues) => {
+        const input = toInput(formValues);
+        const saved = articleIdRef.current
+            ? await newsService.updateArticle(articleIdRef.current, input)
+            : await newsService.createArticle(input);
+        articleIdRef.current = saved.id;
+        return saved;
+    }, []);
+
+    // Only drafts are autosaved; live articles change when someone chooses to save
+    const autosaveEnabled = canEdit && (article?.status ?? 'draft') === 'draft';
+
+    useEffect(() => {
+        if (!autosaveEnabled || !isDirty || isSubmitting || autosave.state === 'saving') return;
+        if (values.status !== 'draft' || !values.title?.trim() || !hasContent(values.body || '')) return;
+        if (failedValuesRef.current === values) return;
+
+        const timer = setTimeout(async () => {
+            const snapshot = getValues();
+            setAutosave({ state: 'saving' });
+            const pending = save(snapshot);
+            pendingSaveRef.current = pending;
+            try {
+                const saved = await pending;
+                // Keep what was typed meanwhile; it stays dirty against the saved snapshot
+                reset(snapshot, { keepValues: true });
+                const current = getValues();
+                (Object.keys(snapshot) as (keyof ArticleFormValues)[])
+                    .filter((field) => current[field] !== snapshot[field])
+                    .forEach((field) => setValue(field, current[field], { shouldDirty: true }));
+                setAutosave({ state: 'saved', at: new Date() });
+                onSaved(saved);
+            } catch (err) {
+                failedValuesRef.current = values;
+                setAutosave({ state: 'error', message: getErrorMessage(err, 'Could not save the draft') });
+            } finally {
+                pendingSaveRef.current = null;
+            }
+        }, AUTOSAVE_DELAY_MS);
+
+        return () => clearTimeout(timer);
+    }, [values, autosaveEnabled, isDirty, isSubmitting, autosave.state, getValues, reset, setValue, save, onSaved]);
+
+    const onSubmit = async (formValues: ArticleFormValues) => {
+        setServerErrors([]);
+        setNotice(null);
+
+        // Wait for a running autosave so a new article is not created twice
+        await pendingSaveRef.current?.catch(() => undefined);
+
+        try {
+            const saved = await save(formValues);
+            reset(toFormValues(saved));
+            setAutosave({ state: 'idle' });
+            setNotice(saved.status === 'published' ? 'Article saved and published' : 'Article saved');
+            onSaved(saved);
+        } catch (err) {
+            const errors = getValidationErrors(err);
+            setServerErrors(errors.length ? errors : [getErrorMessage(err, 'Could not save the article')]);
+        }
+    };
+
+    const autosaveLabel =
+        autosave.state === 'saving'
+            ? 'Saving draft...'
+            : autosave.state === 'error'
+              ? `Autosave failed: ${autosave.message}`
+              : isDirty
+                ? 'Unsaved changes'
+                : autosave.state === 'saved'
+                  ? `Draft saved ${formatDateTime(autosave.at)}`
+                  : null;
+
+    return (
+        <form className="space-y-6" onSubmit={handleSubmit(onSubmit)} noValidate>
+            {serverErrors.length > 0 && (
+                <div className="px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    <ul className="list-disc list-inside">
+                        {serverErrors.map((message) => (
+                            <li key={message}>{message}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {notice && !isDirty && (
+                <div className="px-4 py-3 rounded-lg bg-green-50 text-green-700 text-sm">{notice}</div>
+            )}
+
+            <div className="bg-white rounded-lg shadow p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-semibold text-gray-700">Content</h2>
+                    {autosaveEnabled && (
+                        <span
+                            className={`text-xs ${autosave.state === 'error' ? 'text-red-600' : 'text-gray-500'}`}
+                            aria-live="polite"
+                        >
+                            {autosaveLabel}
+                        </span>
+                    )}
+                </div>
+
+                <label className="block text-sm text-gray-700">
+                    Title
+                    <input
+                        {...register('title', {
+                            validate: (value) => value.trim().length > 0 || 'Title is required',
+                            maxLength: { value: 200, message: 'At most 200 characters' },
+                        })}
+                        disabled={!canEdit}
+                        className={`${inputClassName} mt-1 text-lg`}
+                    />
+                    {errors.title && <span className="mt-1 block text-xs text-red-600">{errors.title.message}</span>}
+                </label>
+
+                <label className="block text-sm text-gray-700">
+                    Excerpt
+                    <textarea
+                        {...register('excerpt', { maxLength: { value: 300, message: 'At most 300 characters' } })}
+                        rows={2}
+                        placeholder="Taken from the start of the body when left empty"
+                        disabled={!canEdit}
+                        className={`${inputClassName} mt-1`}
+                    />
+                    {errors.excerpt && <span className="mt-1 block text-xs text-red-600">{errors.excerpt.message}</span>}
+                </label>
+
+                <div className="text-sm text-gray-700">
+                    <span className="block mb-1">Body</span>
+                    <Controller
+                        control={control}
+                        name="body"
+                        rules={{ validate: (value) => hasContent(value) || 'The article needs a body' }}
+                        render={({ field }) => (
+                            <RichTextEditor
+                                value={field.value}
+                                onChange={field.onChange}
+                                onBlur={field.onBlur}
+                                disabled={!canEdit}
+                            />
+                        )}
+                    />
+                    {errors.body && <span className="mt-1 block text-xs text-red-600">{errors.body.message}</span>}
+                </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+                <h2 className="text-xl font-semibold text-gray-700 mb-4">Preview</h2>
+                <BodyPreview body={values.body || ''} />
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6 space-y-4">
+                <h2 className="text-xl font-semibold text-gray-700">Publishing</h2>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <label className="block text-sm text-gray-700">
+                        Status
+                        <select {...register('status')} disabled={!canEdit} className={`${inputClassName} mt-1 bg-white`}>
+                            <option value="draft">Draft</option>
+                            <option value="scheduled" disabled={!canPublish}>
+                                Scheduled
+                            </option>
+                            <option value="published" disabled={!canPublish}>
+                                Published
+                            </option>
+                            <option value="archived" disabled={!canPublish}>
+                                Archived
+                            </option>
+                        </select>
+                        {!canPublish && (
+                            <span className="mt-1 block text-xs text-gray-500">An editor with publish rights puts it live</span>
+                        )}
+                    </label>
+                    {values.status === 'scheduled' && (
+                        <label className="block text-sm text-gray-700">
+                            Publish at
+                            <input
+                                type="datetime-local"
+                                {...register('publishAt', {
+                                    validate: (value, formValues) =>
+                                        formValues.status !== 'scheduled' ||
+                                        (!!value && new Date(value).getTime() > Date.now()) ||
+                                        'Pick a time in the future',
+                                })}
+                                disabled={!canEdit}
+                                className={`${inputClassName} mt-1`}
+                            />
+                            {errors.publishAt && (
+                                <span className="mt-1 block text-xs text-red-600">{errors.publishAt.message}</span>
+                            )}
+                        </label>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <label className="block text-sm text-gray-700">
+                        Slug
+                        <input
+                            {...register('slug')}
+                            placeholder="Generated from the title"
+                            disabled={!canEdit}
+                            className={`${inputClassName} mt-1`}
+                        />
+                        {article?.publishedAt && (
+                            <span className="mt-1 block text-xs text-gray-500">Published links keep this slug</span>
+                        )}
+                    </label>
+                    <label className="block text-sm text-gray-700">
+                        Tags
+                        <input
+                            {...register('tags')}
+                            placeholder="announcement, sale"
+                            disabled={!canEdit}
+                            className={`${inputClassName} mt-1`}
+                        />
+                    </label>
+                </div>
+
+                <Controller
+                    control={control}
+                    name="coverImage"
+                    render={({ field }) => (
+                        <CoverImageField value={field.value} onChange={field.onChange} disabled={!canEdit} />
+                    )}
+                />
+            </div>
+
+            {canEdit && (
+                <div className="flex items-center gap-3">
+                    <button
+                        type="submit"
+                        disabled={isSubmitting || (!!article && !isDirty)}
+                        className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                        {isSubmitting ? 'Saving...' : article ? 'Save changes' : 'Create article'}
+                    </button>
+                    {isDirty && (
+                        <button
+                            type="button"
+                            onClick={() => reset()}
+                            disabled={isSubmitting}
+                            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100"
+                        >
+                            Discard changes
+                        </button>
+                    )}
+                </div>
+            )}
+        </form>
+    );
+});
+
+ArticleForm.displayName = 'ArticleForm';
+
+export default ArticleForm;
@@ -0,0 +1,55 @@
+import { memo, useEffect, useRef, useState, type FC } from 'react';
+import { useDebounce } from '@hooks/useDebounce';
+import { newsService } from '@services/newsService';
+import { getErrorMessage } from '@utils/errors';
+import { RICH_TEXT_CLASSNAME } from '../RichTextEditor/styles';
+
+interface BodyPreviewProps {
+    body: string;
+}
+
+/**
+ * The body as readers will see it: the server sanitizes it with the same
+ * allow-list used when saving, so dropped markup shows up here first
+ */
+const BodyPreview: FC<BodyPreviewProps> = memo(({ body }) => {
+    const debouncedBody = useDebounce(body, 500);
+    const [html, setHtml] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    // Ignore responses that arrive after a newer request was sent
+    const requestRef = useRef(0);
+
+    useEffect(() => {
+        const requestId = ++requestRef.current;
+        newsService
+            .previewBody(debouncedBody)
+            .then((sanitized) => {
+                if (requestId !== requestRef.current) return;
+                setHtml(sanitized);
+                setError(null);
+            })
+            .catch((err: unknown) => {
+                if (requestId === requestRef.current) setError(getErrorMessage(err, 'Could not render the preview'));
+            });
+    }, [debouncedBody]);
+
+    return (
+        <div>
+            {error && (
+                <p className="mb-2 text-xs text-red-600" role="alert">
+                    {error}
+                </p>
+            )}
+            {html ? (
+                // Sanitized by the server's allow-list
+                <div className={`text-gray-800 ${RICH_TEXT_CLASSNAME}`} dangerouslySetInnerHTML={{ __html: html }} />
+            ) : (
+                <p className="text-sm text-gray-400">Nothing to preview yet</p>
+            )}
+        </div>
+    );
+});
+
+BodyPreview.displayName = 'BodyPreview';
+
+export default BodyPreview;
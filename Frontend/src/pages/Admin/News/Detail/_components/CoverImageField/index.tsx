@@ -0,0 +1,92 @@
+import { memo, useRef, useState, type ChangeEvent, type FC } from 'react';
+import { uploadService } from '@services/uploadService';
+import { getErrorMessage } from '@utils/errors';
+
+interface CoverImageFieldProps {
+    value: string;
+    onChange: (image: string) => void;
+    disabled?: boolean;
+}
+
+// Mirrors the image upload limits on the server
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+const CoverImageField: FC<CoverImageFieldProps> = memo(({ value, onChange, disabled }) => {
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        if (!IMAGE_TYPES.includes(file.type)) {
+            setError('The cover must be a JPEG, PNG, GIF or WebP image');
+            return;
+        }
+
+        setError(null);
+        setUploading(true);
+        try {
+            const [uploaded] = await uploadService.uploadImages([file]);
+            if (uploaded) onChange(uploaded.url);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not upload the cover image'));
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-sm text-gray-700">Cover image</span>
+                {!disabled && (
+                    <div className="flex gap-3 text-sm">
+                        <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={uploading}
+                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                        >
+                            {uploading ? 'Uploading...' : value ? 'Replace' : 'Upload'}
+                        </button>
+                        {value && (
+                            <button type="button" onClick={() => onChange('')} className="text-red-600 hover:text-red-700">
+                                Remove
+                            </button>
+                        )}
+                    </div>
+                )}
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={IMAGE_TYPES.join(',')}
+                    onChange={handleFileChange}
+                    className="hidden"
+                />
+            </div>
+            {value ? (
+                <img
+                    src={uploadService.getFileUrl(value)}
+                    alt="Cover"
+                    className="w-full aspect-video object-cover rounded border border-gray-200"
+                />
+            ) : (
+                <div className="w-full aspect-video rounded bg-gray-100 flex items-center justify-center text-sm text-gray-400">
+                    No cover image
+                </div>
+            )}
+            {error && (
+                <p className="mt-1 text-xs text-red-600" role="alert">
+                    {error}
+                </p>
+            )}
+        </div>
+    );
+});
+
+CoverImageField.displayName = 'CoverImageField';
+
+export default CoverImageField;
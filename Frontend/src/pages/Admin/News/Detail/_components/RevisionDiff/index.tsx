@@ -0,0 +1,58 @@
+import { memo, type FC } from 'react';
+import type { DiffPart, NewsRevisionDiff } from '@types';
+
+interface RevisionDiffProps {
+    diff: NewsRevisionDiff;
+}
+
+const FIELD_LABELS: Record<keyof NewsRevisionDiff['changes'], string> = {
+    title: 'Title',
+    excerpt: 'Excerpt',
+    body: 'Body',
+    coverImage: 'Cover image',
+    tags: 'Tags',
+};
+
+const PART_STYLES: Record<DiffPart['type'], string> = {
+    added: 'bg-green-50 text-green-800',
+    removed: 'bg-red-50 text-red-800 line-through',
+    unchanged: 'text-gray-500',
+};
+
+const PART_MARKERS: Record<DiffPart['type'], string> = { added: '+', removed: '−', unchanged: ' ' };
+
+// Body lines are shown as HTML source, one block element per line
+const RevisionDiff: FC<RevisionDiffProps> = memo(({ diff }) => {
+    const fields = (Object.keys(FIELD_LABELS) as (keyof NewsRevisionDiff['changes'])[]).filter((field) =>
+        diff.changes[field].some((part) => part.type !== 'unchanged')
+    );
+
+    if (fields.length === 0) {
+        return <p className="text-sm text-gray-500">No content differences</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            {fields.map((field) => (
+                <div key={field}>
+                    <h4 className="text-xs font-semibold uppercase text-gray-500 mb-1">{FIELD_LABELS[field]}</h4>
+                    <ul className="font-mono text-xs border border-gray-200 rounded overflow-x-auto">
+                        {diff.changes[field].map((part, index) => (
+                            <li key={index} className={`px-2 py-0.5 whitespace-pre-wrap break-all ${PART_STYLES[part.type]}`}>
+                                <span aria-hidden="true" className="select-none mr-2">
+                                    {PART_MARKERS[part.type]}
+                                </span>
+                                <span className="sr-only">{part.type !== 'unchanged' && `${part.type}: `}</span>
+                                {part.value}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+        </div>
+    );
+});
+
+RevisionDiff.displayName = 'RevisionDiff';
+
+export default RevisionDiff;
@@ -0,0 +1,178 @@
+import { memo, useCallback, useEffect, useState, type FC } from 'react';
+import Loading from '@components/Loading';
+import { newsService } from '@services/newsService';
+import { formatDateTime } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { NewsArticle, NewsRevision, NewsRevisionDiff } from '@types';
+import RevisionDiff from '../RevisionDiff';
+
+interface RevisionSidebarProps {
+    article: NewsArticle;
+    canRestore: boolean;
+    hasUnsavedChanges: boolean;
+    // Changes whenever a save may have added a revision
+    refreshKey: number;
+    onRestored: (article: NewsArticle) => void;
+}
+
+const RevisionSidebar: FC<RevisionSidebarProps> = memo(
+    ({ article, canRestore, hasUnsavedChanges, refreshKey, onRestored }) => {
+        const [revisions, setRevisions] = useState<NewsRevision[]>([]);
+        const [loading, setLoading] = useState(true);
+        const [error, setError] = useState<string | null>(null);
+        const [selected, setSelected] = useState<number | null>(null);
+        const [diff, setDiff] = useState<NewsRevisionDiff | null>(null);
+        const [diffLoading, setDiffLoading] = useState(false);
+        const [restoring, setRestoring] = useState(false);
+
+        useEffect(() => {
+            let cancelled = false;
+            newsService
+                .getRevisions(article.id)
+                .then((list) => {
+                    if (cancelled) return;
+                    setRevisions(list);
+                    setError(null);
+                })
+                .catch((err: unknown) => {
+                    if (!cancelled) setError(getErrorMessage(err, 'Could not load revisions'));
+                })
+                .finally(() => {
+                    if (!cancelled) setLoading(false);
+                });
+            return () => {
+                cancelled = true;
+            };
+        }, [article.id, refreshKey]);
+
+        const showDiff = useCallback(
+            async (revision: number) => {
+                if (selected === revision) {
+                    setSelected(null);
+                    return;
+                }
+
+                setSelected(revision);
+                setDiff(null);
+                if (revision === article.revision) return;
+
+                setDiffLoading(true);
+                try {
+                    setDiff(await newsService.getRevisionDiff(article.id, revision));
+                } catch (err) {
+                    setError(getErrorMessage(err, 'Could not compare revisions'));
+                } finally {
+                    setDiffLoading(false);
+                }
+            },
+            [article.id, article.revision, selected]
+        );
+
+        const handleRestore = async (revision: number) => {
+            const message = hasUnsavedChanges
+                ? `Restore revision ${revision}? Your unsaved changes will be lost.`
+                : `Restore revision ${revision}? It will be saved as a new revision.`;
+            if (!window.confirm(message)) return;
+
+            setRestoring(true);
+            setError(null);
+            try {
+                const restored = await newsService.restoreRevision(article.id, revision);
+                setSelected(null);
+                setDiff(null);
+                onRestored(restored);
+            } catch (err) {
+                setError(getErrorMessage(err, 'Could not restore the revision'));
+            } finally {
+                setRestoring(false);
+            }
+        };
+
+        return (
+            <div>
+                <h2 className="text-xl font-semibold text-gray-700 mb-4">Revisions</h2>
+
+                {error && (
+                    <p className="mb-3 text-sm text-red-700" role="alert">
+                        {error}
+                    </p>
+                )}
+
+                {loading ? (
+                    <Loading />
+                ) : revisions.length === 0 ? (
+                    <p className="text-sm text-gray-500">No revisions yet</p>
+                ) : (
+                    <ol className="space-y-2">
+                        {revisions.map((revision) => {
+                            const isCurrent = revision.revision === article.revision;
+                            const isSelected = revision.revision === selected;
+
+                            return (
+                                <li
+                                    key={revision.id}
+                                    className={`rounded border ${isSelected ? 'border-blue-300 bg-blue-50' : 'border-gray-200'}`}
+                                >
+                                    <button
+                                        type="button"
+                                        onClick={() => showDiff(revision.revision)}
+                                        aria-expanded={isSelected}
+                                        className="w-full text-left px-3 py-2"
+                                    >
+                                        <span className="flex items-center gap-2 text-sm font-medium text-gray-800">
+                                            Revision {revision.revision}
+                                            {isCurrent && (
+                                                <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-700 text-xs">
+                                                    Current
+                                                </span>
+                                            )}
+                                        </span>
+                                        <span className="block text-xs text-gray-500">
+                                            {formatDateTime(revision.createdAt)} · {revision.editedByEmail}
+                                        </span>
+                                        {revision.note && (
+                                            <span className="block text-xs text-gray-600 italic">{revision.note}</span>
+                                        )}
+                                    </button>
+
+                                    {isSelected && (
+                                        <div className="px-3 pb-3 space-y-3">
+                                            {isCurrent ? (
+                                                <p className="text-sm text-gray-500">This is the saved content</p>
+                                            ) : diffLoading ? (
+                                                <Loading />
+                                            ) : (
+                                                diff && (
+                                                    <>
+                                                        <p className="text-xs text-gray-500">
+                                                            Changes from revision {diff.from} to the current revision {diff.to}
+                                                        </p>
+                                                        <RevisionDiff diff={diff} />
+                                                    </>
+                                                )
+                                            )}
+                                            {canRestore && !isCurrent && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => handleRestore(revision.revision)}
+                                                    disabled={restoring}
+                                                    className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                                                >
+                                                    {restoring ? 'Restoring...' : 'Restore this revision'}
+                                                </button>
+                                            )}
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ol>
+                )}
+            </div>
+        );
+    }
+);
+
+RevisionSidebar.displayName = 'RevisionSidebar';
+
+export default RevisionSidebar;
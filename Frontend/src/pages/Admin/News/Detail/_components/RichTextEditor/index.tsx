@@ -0,0 +1,216 @@
+import { memo, useEffect, useRef, useState, type ChangeEvent, type FC, type MouseEvent } from 'react';
+import { uploadService } from '@services/uploadService';
+import { getErrorMessage } from '@utils/errors';
+import { RICH_TEXT_CLASSNAME } from './styles';
+
+interface RichTextEditorProps {
+    value: string;
+    onChange: (html: string) => void;
+    onBlur?: () => void;
+    disabled?: boolean;
+}
+
+interface ToolbarAction {
+    label: string;
+    title: string;
+    command: string;
+    argument?: string;
+}
+
+// Mirrors the image upload limits on the server
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const MAX_IMAGES = 10;
+
+// Only produces markup the server's allow-list keeps
+const TOOLBAR_ACTIONS: ToolbarAction[] = [
+    { label: 'P', title: 'Paragraph', command: 'formatBlock', argument: 'p' },
+    { label: 'H2', title: 'Heading', command: 'formatBlock', argument: 'h2' },
+    { label: 'H3', title: 'Subheading', command: 'formatBlock', argument: 'h3' },
+    { label: 'B', title: 'Bold', command: 'bold' },
+    { label: 'I', title: 'Italic', command: 'italic' },
+    { label: '• List', title: 'Bulleted list', command: 'insertUnorderedList' },
+    { label: '1. List', title: 'Numbered list', command: 'insertOrderedList' },
+    { label: '❝', title: 'Quote', command: 'formatBlock', argument: 'blockquote' },
+];
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * WYSIWYG editor on a contentEditable element. The HTML it emits is
+ * sanitized again by the server, so pasted markup is safe to keep here.
+ */
+const RichTextEditor: FC<RichTextEditorProps> = memo(({ value, onChange, onBlur, disabled }) => {
+    const editorRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    // Dialogs take focus, so the caret position is kept while they are open
+    const savedRangeRef = useRef<Range | null>(null);
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Only outside changes (loading, discarding, restoring) are written back, so the caret stays put while typing
+    useEffect(() => {
+        const editor = editorRef.current;
+        if (editor && editor.innerHTML !== value) {
+            editor.innerHTML = value;
+        }
+    }, [value]);
+
+    const emitChange = () => {
+        if (editorRef.current) onChange(editorRef.current.innerHTML);
+    };
+
+    const saveSelection = () => {
+        const selection = window.getSelection();
+        const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+        savedRangeRef.current =
+            range && editorRef.current?.contains(range.commonAncestorContainer) ? range.cloneRange() : null;
+    };
+
+    const restoreSelection = () => {
+        const editor = editorRef.current;
+        if (!editor) return;
+
+        editor.focus();
+        const selection = window.getSelection();
+        if (selection && savedRangeRef.current) {
+            selection.removeAllRanges();
+            selection.addRange(savedRangeRef.current);
+        }
+    };
+
+    const exec = (command: string, argument?: string) => {
+        editorRef.current?.focus();
+        document.execCommand(command, false, argument);
+        emitChange();
+    };
+
+    // Keep the selection in the editor when a toolbar button is pressed
+    const keepSelection = (e: MouseEvent) => e.preventDefault();
+
+    const handleLink = () => {
+        saveSelection();
+        const url = window.prompt('Link address (https://…, /path or mailto:)')?.trim();
+        if (!url) return;
+
+        restoreSelection();
+        const selection = window.getSelection();
+        if (selection && !selection.isCollapsed) {
+            exec('createLink', url);
+        } else {
+            exec('insertHTML', `<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`);
+        }
+    };
+
+    const handleImageClick = () => {
+        saveSelection();
+        fileInputRef.current?.click();
+    };
+
+    const handleFilesChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length === 0) return;
+
+        if (files.some((file) => !IMAGE_TYPES.includes(file.type))) {
+            setError('Images must be JPEG, PNG, GIF or WebP');
+            return;
+        }
+        if (files.length > MAX_IMAGES) {
+            setError(`Upload at most ${MAX_IMAGES} images at once`);
+            return;
+        }
+
+        setError(null);
+        setUploading(true);
+        try {
+            const uploaded = await uploadService.uploadImages(files);
+            restoreSelection();
+            // Absolute URLs so the images also load on the storefront and in the admin
+            const html = uploaded
+                .map((file) => `<img src="${escapeHtml(uploadService.getFileUrl(file.url))}" alt="">`)
+                .join('');
+            exec('insertHTML', html);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not upload the images'));
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const buttonClassName =
+        'px-2 py-1 rounded text-sm text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:hover:bg-transparent';
+
+    return (
+        <div className="border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-blue-500">
+            {!disabled && (
+                <div className="flex flex-wrap items-center gap-1 px-2 py-1 border-b border-gray-200 bg-gray-50 rounded-t-lg">
+                    {TOOLBAR_ACTIONS.map((action) => (
+                        <button
+                            key={action.title}
+                            type="button"
+                            title={action.title}
+                            onMouseDown={keepSelection}
+                            onClick={() => exec(action.command, action.argument)}
+                            className={buttonClassName}
+                        >
+                            {action.label}
+                        </button>
+                    ))}
+                    <button type="button" title="Insert link" onMouseDown={keepSelection} onClick={handleLink} className={buttonClassName}>
+                        Link
+                    </button>
+                    <button
+                        type="button"
+                        title="Remove link"
+                        onMouseDown={keepSelection}
+                        onClick={() => exec('unlink')}
+                        className={buttonClassName}
+                    >
+                        Unlink
+                    </button>
+                    <button
+                        type="button"
+                        title="Upload and insert images"
+                        onMouseDown={keepSelection}
+                        onClick={handleImageClick}
+                        disabled={uploading}
+                        className={buttonClassName}
+                    >
+                        {uploading ? 'Uploading...' : 'Image'}
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept={IMAGE_TYPES.join(',')}
+                        multiple
+                        onChange={handleFilesChange}
+                        className="hidden"
+                    />
+                </div>
+            )}
+            <div
+                ref={editorRef}
+                role="textbox"
+                aria-multiline="true"
+                aria-label="Article body"
+                contentEditable={!disabled}
+                suppressContentEditableWarning
+                data-placeholder="Write the article..."
+                onFocus={() => document.execCommand('defaultParagraphSeparator', false, 'p')}
+                onInput={emitChange}
+                onBlur={onBlur}
+                className={`min-h-[320px] max-h-[640px] overflow-y-auto px-4 py-3 text-gray-800 focus:outline-none empty:before:content-[attr(data-placeholder)] empty:before:text-gray-400 ${RICH_TEXT_CLASSNAME} ${disabled ? 'bg-gray-100' : ''}`}
+            />
+            {error && (
+                <p className="px-4 py-2 border-t border-gray-200 text-xs text-red-600" role="alert">
+                    {error}
+                </p>
+            )}
+        </div>
+    );
+});
+
+RichTextEditor.displayName = 'RichTextEditor';
+
+export default RichTextEditor;
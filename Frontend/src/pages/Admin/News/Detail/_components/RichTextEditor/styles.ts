@@ -0,0 +1,10 @@
+// Article HTML is unstyled after Tailwind's reset; the editor and the preview share these rules
+export const RICH_TEXT_CLASSNAME = [
+    '[&_h2]:text-2xl [&_h2]:font-semibold [&_h2]:mt-4 [&_h2]:mb-2',
+    '[&_h3]:text-xl [&_h3]:font-semibold [&_h3]:mt-3 [&_h3]:mb-2',
+    '[&_h4]:font-semibold [&_h4]:mt-3 [&_h4]:mb-1',
+    '[&_p]:my-2 [&_ul]:my-2 [&_ul]:list-disc [&_ul]:pl-6 [&_ol]:my-2 [&_ol]:list-decimal [&_ol]:pl-6',
+    '[&_blockquote]:my-2 [&_blockquote]:border-l-4 [&_blockquote]:border-gray-300 [&_blockquote]:pl-4 [&_blockquote]:text-gray-600',
+    '[&_a]:text-blue-600 [&_a]:underline [&_img]:my-2 [&_img]:max-w-full [&_img]:rounded',
+    '[&_pre]:my-2 [&_pre]:bg-gray-100 [&_pre]:p-3 [&_pre]:rounded [&_code]:font-mono [&_code]:text-sm',
+].join(' ');
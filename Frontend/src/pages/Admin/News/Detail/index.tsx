@@ -0,0 +1,136 @@
+import { memo, useCallback, useEffect, useState, type FC } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import Loading from '@components/Loading';
+import { authService } from '@services/authService';
+import { newsService } from '@services/newsService';
+import { PERMISSIONS, ROUTES } from '@constants';
+import { formatDateTime } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { NewsArticle } from '@types';
+import NewsStatusBadge from '../_components/NewsStatusBadge';
+import ArticleForm from './_components/ArticleForm';
+import RevisionSidebar from './_components/RevisionSidebar';
+
+// ROUTES.NEWS_NEW points at the detail page with this id
+const NEW_ARTICLE_ID = 'new';
+
+const NewsDetail: FC = memo(() => {
+    const { id } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const isNew = id === NEW_ARTICLE_ID;
+    const canWrite = authService.hasPermission(PERMISSIONS.NEWS_WRITE);
+    const canPublish = authService.hasPermission(PERMISSIONS.NEWS_PUBLISH);
+
+    const [article, setArticle] = useState<NewsArticle | null>(null);
+    const [loading, setLoading] = useState(!isNew);
+    const [error, setError] = useState<string | null>(null);
+    const [isDirty, setIsDirty] = useState(false);
+    // Bumped after saves so the revision list reloads, and after a restore so the form takes the restored content
+    const [revisionsKey, setRevisionsKey] = useState(0);
+    const [formKey, setFormKey] = useState(0);
+
+    // The server only lets publishers touch articles that are no longer drafts
+    const canEdit = canWrite && (canPublish || (article?.status ?? 'draft') === 'draft');
+
+    const loadArticle = useCallback(async () => {
+        if (!id || isNew) return;
+        setError(null);
+        try {
+            setArticle(await newsService.getArticle(id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not load the article'));
+        } finally {
+            setLoading(false);
+        }
+    }, [id, isNew]);
+
+    useEffect(() => {
+        loadArticle();
+    }, [loadArticle]);
+
+    // The form stays mounted when a new article gets its URL, so typing is not interrupted
+    const handleSaved = useCallback(
+        (saved: NewsArticle) => {
+            setArticle(saved);
+            setRevisionsKey((key) => key + 1);
+            if (isNew) {
+                navigate(ROUTES.NEWS_DETAIL(saved.id), { replace: true });
+            }
+        },
+        [isNew, navigate]
+    );
+
+    const handleRestored = useCallback((restored: NewsArticle) => {
+        setArticle(restored);
+        setRevisionsKey((key) => key + 1);
+        setFormKey((key) => key + 1);
+    }, []);
+
+    return (
+        <div className="container mx-auto px-4 py-8">
+            <div className="mb-6">
+                <Link to={ROUTES.NEWS} className="text-blue-600 hover:text-blue-800">
+                    ← Back to News
+                </Link>
+            </div>
+
+            {loading ? (
+                <Loading />
+            ) : !article && !isNew ? (
+                <div className="bg-white rounded-lg shadow p-6">
+                    <p className="text-red-700" role="alert">
+                        {error || 'Article not found'}
+                    </p>
+                </div>
+            ) : (
+                <>
+                    <div className="mb-6">
+                        <h1 className="text-3xl font-bold text-gray-800 mb-1">{article?.title || 'New article'}</h1>
+                        {article && (
+                            <p className="flex flex-wrap items-center gap-2 text-gray-600">
+                                <NewsStatusBadge status={article.status} />
+                                <span>
+                                    By {article.authorName}
+                                    {article.status === 'scheduled' &&
+                                        article.publishAt &&
+                                        ` · Goes live ${formatDateTime(article.publishAt)}`}
+                                    {article.publishedAt && ` · Published ${formatDateTime(article.publishedAt)}`}
+                                </span>
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        <div className="lg:col-span-2">
+                            <ArticleForm
+                                key={formKey}
+                                article={article ?? undefined}
+                                canEdit={canEdit}
+                                canPublish={canPublish}
+                                onSaved={handleSaved}
+                                onDirtyChange={setIsDirty}
+                            />
+                        </div>
+                        <div className="bg-white rounded-lg shadow p-6 self-start">
+                            {article ? (
+                                <RevisionSidebar
+                                    article={article}
+                                    canRestore={canEdit}
+                                    hasUnsavedChanges={isDirty}
+                                    refreshKey={revisionsKey}
+                                    onRestored={handleRestored}
+                                />
+                            ) : (
+                                <p className="text-sm text-gray-500">Revisions appear here once the article is saved</p>
+                            )}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+});
+
+NewsDetail.displayName = 'NewsDetail';
+
+export default NewsDetail;
@@ -0,0 +1,57 @@
+import { memo, type FC } from 'react';
+import type { NewsStatus } from '@types';
+
+export interface NewsFiltersValue {
+    search: string;
+    status: NewsStatus | '';
+    tag: string;
+}
+
+interface NewsFiltersProps {
+    value: NewsFiltersValue;
+    onChange: (value: NewsFiltersValue) => void;
+}
+
+const inputClassName =
+    'px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const NewsFilters: FC<NewsFiltersProps> = memo(({ value, onChange }) => {
+    const update = (changes: Partial<NewsFiltersValue>) => onChange({ ...value, ...changes });
+
+    return (
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+            <input
+                type="search"
+                value={value.search}
+                onChange={(e) => update({ search: e.target.value })}
+                placeholder="Search title or excerpt"
+                aria-label="Search articles"
+                className="flex-1 min-w-[200px] px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+                value={value.status}
+                onChange={(e) => update({ status: e.target.value as NewsFiltersValue['status'] })}
+                aria-label="Filter by status"
+                className={inputClassName}
+            >
+                <option value="">Any status</option>
+                <option value="draft">Draft</option>
+                <option value="scheduled">Scheduled</option>
+                <option value="published">Published</option>
+                <option value="archived">Archived</option>
+            </select>
+            <input
+                type="text"
+                value={value.tag}
+                onChange={(e) => update({ tag: e.target.value })}
+                placeholder="Tag"
+                aria-label="Filter by tag"
+                className={`${inputClassName} w-32`}
+            />
+        </div>
+    );
+});
+
+NewsFilters.displayName = 'NewsFilters';
+
+export default NewsFilters;
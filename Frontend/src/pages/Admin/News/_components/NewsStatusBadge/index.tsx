@@ -0,0 +1,22 @@
+import { memo, type FC } from 'react';
+import { capitalize } from '@utils/format';
+import type { NewsStatus } from '@types';
+
+interface NewsStatusBadgeProps {
+    status: NewsStatus;
+}
+
+const STATUS_STYLES: Record<NewsStatus, string> = {
+    draft: 'bg-gray-100 text-gray-700',
+    scheduled: 'bg-blue-100 text-blue-700',
+    published: 'bg-green-100 text-green-700',
+    archived: 'bg-yellow-100 text-yellow-700',
+};
+
+const NewsStatusBadge: FC<NewsStatusBadgeProps> = memo(({ status }) => (
+    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[status]}`}>{capitalize(status)}</span>
+));
+
+NewsStatusBadge.displayName = 'NewsStatusBadge';
+
+export default NewsStatusBadge;
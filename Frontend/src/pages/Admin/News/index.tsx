@@ -1,7 +1,210 @@
-export default function AdminNews() {
+import { memo, useCallback, useEffect, useMemo, useRef, useState, type FC } from 'react';
+import { Link } from 'react-router-dom';
+import DataTable, { type DataTableColumn } from '@components/DataTable';
+import Pagination from '@components/Pagination';
+import { useDebounce } from '@hooks/useDebounce';
+import { authService } from '@services/authService';
+import { newsService } from '@services/newsService';
+import { PERMISSIONS, ROUTES } from '@constants';
+import { formatDate, formatDateTime } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { NewsArticle, PaginatedResponse, PaginationParams } from '@types';
+import NewsFilters, { type NewsFiltersValue } from './_components/NewsFilters';
+import NewsStatusBadge from './_components/NewsStatusBadge';
+
+const PAGE_SIZE = 10;
+
+const EMPTY_FILTERS: NewsFiltersValue = { search: '', status: '', tag: '' };
+
+const AdminNews: FC = memo(() => {
+    const canWrite = authService.hasPermission(PERMISSIONS.NEWS_WRITE);
+    const canPublish = authService.hasPermission(PERMISSIONS.NEWS_PUBLISH);
+
+    const [filters, setFilters] = useState<NewsFiltersValue>(EMPTY_FILTERS);
+    const [pagination, setPagination] = useState<PaginationParams>({
+        page: 1,
+        limit: PAGE_SIZE,
+        sort: 'updatedAt',
+        order: 'desc',
+    });
+    const [result, setResult] = useState<PaginatedResponse<NewsArticle> | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const debouncedSearch = useDebounce(filters.search, 400);
+    const debouncedTag = useDebounce(filters.tag, 400);
+    // Ignore responses that arrive after a newer request was sent
+    const requestRef = useRef(0);
+
+    const loadArticles = useCallback(async () => {
+        const requestId = ++requestRef.current;
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await newsService.getArticles({
+                ...pagination,
+                search: debouncedSearch.trim() || undefined,
+                status: filters.status || undefined,
+                tag: debouncedTag.trim() || undefined,
+            });
+            if (requestId === requestRef.current) setResult(response);
+        } catch (err) {
+            if (requestId === requestRef.current) setError(getErrorMessage(err, 'Could not load articles'));
+        } finally {
+            if (requestId === requestRef.current) setLoading(false);
+        }
+    }, [pagination, debouncedSearch, filters.status, debouncedTag]);
+
+    useEffect(() => {
+        loadArticles();
+    }, [loadArticles]);
+
+    const handleFiltersChange = useCallback((value: NewsFiltersValue) => {
+        setFilters(value);
+        setPagination((current) => ({ ...current, page: 1 }));
+    }, []);
+
+    const handleSortChange = useCallback((sort: string, order: 'asc' | 'desc') => {
+        setPagination((current) => ({ ...current, sort, order, page: 1 }));
+    }, []);
+
+    const handlePageChange = useCallback((page: number) => {
+        setPagination((current) => ({ ...current, page }));
+    }, []);
+
+    const handleDelete = useCallback(
+        async (article: NewsArticle) => {
+            if (!window.confirm(`Delete "${article.title}" and all its revisions? This cannot be undone.`)) return;
+
+            try {
+                await newsService.deleteArticle(article.id);
+                await loadArticles();
+            } catch (err) {
+                setError(getErrorMessage(err, 'Could not delete the article'));
+            }
+        },
+        [loadArticles]
+    );
+
+    const columns = useMemo<DataTableColumn<NewsArticle>[]>(
+        () => [
+            {
+                key: 'title',
+                label: 'Article',
+                sortable: true,
+                render: (article) => (
+                    <div>
+                        <Link to={ROUTES.NEWS_DETAIL(article.id)} className="font-medium text-gray-900 hover:text-blue-600">
+                            {article.title}
+                        </Link>
+                        <p className="text-xs text-gray-500">
+                            /{article.slug} · {article.authorName}
+                        </p>
+                    </div>
+                ),
+            },
+            {
+                key: 'status',
+                label: 'Status',
+                render: (article) => (
+                    <div>
+                        <NewsStatusBadge status={article.status} />
+                        {article.status === 'scheduled' && article.publishAt && (
+                            <p className="mt-1 text-xs text-gray-500">{formatDateTime(article.publishAt)}</p>
+                        )}
+                    </div>
+                ),
+            },
+            {
+                key: 'tags',
+                label: 'Tags',
+                render: (article) => (
+                    <div className="flex flex-wrap gap-1">
+                        {article.tags.map((tag) => (
+                            <span key={tag} className="px-2 py-0.5 rounded bg-gray-100 text-gray-600 text-xs">
+                                {tag}
+                            </span>
+                        ))}
+                    </div>
+                ),
+            },
+            {
+                key: 'publishedAt',
+                label: 'Published',
+                sortable: true,
+                render: (article) => (article.publishedAt ? formatDate(article.publishedAt) : '—'),
+            },
+            { key: 'updatedAt', label: 'Updated', sortable: true, render: (article) => formatDate(article.updatedAt) },
+            {
+                key: 'actions',
+                label: 'Actions',
+                className: 'text-right',
+                render: (article) => (
+                    <div className="flex justify-end gap-3 text-sm">
+                        <Link to={ROUTES.NEWS_DETAIL(article.id)} className="text-blue-600 hover:text-blue-800">
+                            {canWrite ? 'Edit' : 'View'}
+                        </Link>
+                        {canPublish && (
+                            <button
+                                type="button"
+                                onClick={() => handleDelete(article)}
+                                className="text-red-600 hover:text-red-700"
+                            >
+                                Delete
+                            </button>
+                        )}
+                    </div>
+                ),
+            },
+        ],
+        [canWrite, canPublish, handleDelete]
+    );
+
     return (
-        <>
-            <h1>Admin News</h1>
-        </>
-    )
-}
+        <div className="container mx-auto px-4 py-8">
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-3xl font-bold text-gray-800">News Management</h1>
+                {canWrite && (
+                    <Link to={ROUTES.NEWS_NEW} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
+                        Write Article
+                    </Link>
+                )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6">
+                <NewsFilters value={filters} onChange={handleFiltersChange} />
+
+                {error && (
+                    <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                        {error}
+                    </div>
+                )}
+
+                <DataTable
+                    columns={columns}
+                    rows={result?.data || []}
+                    rowKey={(article) => article.id}
+                    sort={pagination.sort}
+                    order={pagination.order}
+                    onSortChange={handleSortChange}
+                    loading={loading}
+                    emptyMessage="No articles match these filters"
+                />
+
+                {result && (
+                    <Pagination
+                        page={result.pagination.page}
+                        totalPages={result.pagination.totalPages}
+                        total={result.pagination.total}
+                        limit={result.pagination.limit}
+                        onPageChange={handlePageChange}
+                    />
+                )}
+            </div>
+        </div>
+    );
+});
+
+AdminNews.displayName = 'AdminNews';
+
+export default AdminNews;
@@ -0,0 +1,82 @@
+import { memo, type FC } from 'react';
+import { uploadService } from '@services/uploadService';
+import { formatCurrency } from '@utils/format';
+import type { Order } from '@types';
+
+interface OrderItemsTableProps {
+    order: Order;
+}
+
+const OrderItemsTable: FC<OrderItemsTableProps> = memo(({ order }) => {
+    const totals = [
+        { label: 'Subtotal', amount: order.subtotal },
+        ...(order.discount > 0 ? [{ label: 'Discount', amount: -order.discount }] : []),
+        { label: 'Shipping', amount: order.shipping },
+        { label: 'Tax', amount: order.tax },
+    ];
+
+    return (
+        <div>
+            <h2 className="text-xl font-semibold text-gray-700 mb-4">Items</h2>
+            <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                        <tr>
+                            <th className="px-3 py-2 text-left font-medium text-gray-500">Product</th>
+                            <th className="px-3 py-2 text-right font-medium text-gray-500">Unit price</th>
+                            <th className="px-3 py-2 text-right font-medium text-gray-500">Qty</th>
+                            <th className="px-3 py-2 text-right font-medium text-gray-500">Total</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                        {order.items.map((item) => (
+                            <tr key={`${item.productId}-${item.sku}`}>
+                                <td className="px-3 py-2">
+                                    <div className="flex items-center gap-3">
+                                        {item.image ? (
+                                            <img
+                                                src={uploadService.getFileUrl(item.image)}
+                                                alt=""
+                                                className="w-10 h-10 rounded object-cover border border-gray-200"
+                                            />
+                                        ) : (
+                                            <div className="w-10 h-10 rounded bg-gray-100" />
+                                        )}
+                                        <div>
+                                            <p className="text-gray-900">{item.name}</p>
+                                            <p className="text-xs text-gray-500">
+                                                {item.sku}
+                                                {Object.keys(item.options).length > 0 &&
+                                                    ` · ${Object.values(item.options).join(' / ')}`}
+                                            </p>
+                                        </div>
+                                    </div>
+                                </td>
+                                <td className="px-3 py-2 text-right text-gray-700">{formatCurrency(item.unitPrice)}</td>
+                                <td className="px-3 py-2 text-right text-gray-700">{item.quantity}</td>
+                                <td className="px-3 py-2 text-right text-gray-900">{formatCurrency(item.lineTotal)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <dl className="mt-4 ml-auto max-w-xs space-y-1 text-sm">
+                {totals.map(({ label, amount }) => (
+                    <div key={label} className="flex justify-between text-gray-600">
+                        <dt>{label}</dt>
+                        <dd>{formatCurrency(amount)}</dd>
+                    </div>
+                ))}
+                <div className="flex justify-between pt-2 border-t border-gray-200 font-semibold text-gray-900">
+                    <dt>Total</dt>
+                    <dd>{formatCurrency(order.total)}</dd>
+                </div>
+            </dl>
+        </div>
+    );
+});
+
+OrderItemsTable.displayName = 'OrderItemsTable';
+
+export default OrderItemsTable;
@@ -0,0 +1,94 @@
+import { memo, useState, type FC } from 'react';
+import { orderService } from '@services/orderService';
+import { ORDER_STATUSES } from '@constants';
+import type { Order, OrderDetail, OrderStatus } from '@types';
+import { getErrorMessage } from '@utils/errors';
+
+interface StatusActionsProps {
+    order: Order;
+    transitions: OrderStatus[];
+    onChanged: (detail: OrderDetail) => void;
+}
+
+const REASON_REQUIRED: OrderStatus[] = [ORDER_STATUSES.CANCELLED, ORDER_STATUSES.REFUNDED];
+
+const ACTION_LABELS: Record<OrderStatus, string> = {
+    pending: 'Mark pending',
+    paid: 'Mark paid',
+    fulfilled: 'Mark fulfilled',
+    shipped: 'Mark shipped',
+    delivered: 'Mark delivered',
+    cancelled: 'Cancel order',
+    refunded: 'Refund order',
+};
+
+const StatusActions: FC<StatusActionsProps> = memo(({ order, transitions, onChanged }) => {
+    const [reason, setReason] = useState('');
+    const [saving, setSaving] = useState<OrderStatus | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleClick = async (status: OrderStatus) => {
+        if (REASON_REQUIRED.includes(status)) {
+            if (!reason.trim()) {
+                setError(`Enter a reason to ${status === ORDER_STATUSES.CANCELLED ? 'cancel' : 'refund'} this order`);
+                return;
+            }
+            if (!window.confirm(`${ACTION_LABELS[status]} ${order.number}? This cannot be undone.`)) return;
+        }
+
+        setError(null);
+        setSaving(status);
+        try {
+            onChanged(await orderService.changeStatus(order.id, status, reason.trim() || undefined));
+            setReason('');
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not update the order'));
+        } finally {
+            setSaving(null);
+        }
+    };
+
+    if (transitions.length === 0) {
+        return <p className="text-sm text-gray-500">No further status changes are available.</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            {error && (
+                <div className="px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    {error}
+                </div>
+            )}
+            <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Note for the history (required to cancel or refund)"
+                aria-label="Reason"
+                maxLength={500}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex flex-wrap gap-2">
+                {transitions.map((status) => (
+                    <button
+                        key={status}
+                        type="button"
+                        onClick={() => handleClick(status)}
+                        disabled={saving !== null}
+                        className={`px-4 py-2 rounded text-sm disabled:opacity-50 ${
+                            REASON_REQUIRED.includes(status)
+                                ? 'border border-red-300 text-red-700 hover:bg-red-50'
+                                : 'bg-blue-600 text-white hover:bg-blue-700'
+                        }`}
+                    >
+                        {saving === status ? 'Saving...' : ACTION_LABELS[status]}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+});
+
+StatusActions.displayName = 'StatusActions';
+
+export default StatusActions;
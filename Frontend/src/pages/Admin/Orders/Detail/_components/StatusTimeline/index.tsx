@@ -0,0 +1,31 @@
+import { memo, type FC } from 'react';
+import { capitalize, formatDateTime } from '@utils/format';
+import type { OrderTransition } from '@types';
+
+interface StatusTimelineProps {
+    history: OrderTransition[];
+}
+
+const StatusTimeline: FC<StatusTimelineProps> = memo(({ history }) => (
+    <div>
+        <h2 className="text-xl font-semibold text-gray-700 mb-4">History</h2>
+        <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+            {[...history].reverse().map((transition) => (
+                <li key={`${transition.to}-${transition.at}`} className="ml-4 text-sm">
+                    <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-500" aria-hidden="true" />
+                    <p className="text-gray-900">
+                        {transition.from ? `${capitalize(transition.from)} → ${capitalize(transition.to)}` : 'Order placed'}
+                    </p>
+                    {transition.reason && <p className="text-gray-600">{transition.reason}</p>}
+                    <p className="text-gray-500">
+                        <time dateTime={transition.at}>{formatDateTime(transition.at)}</time> · {transition.byEmail}
+                    </p>
+                </li>
+            ))}
+        </ol>
+    </div>
+));
+
+StatusTimeline.displayName = 'StatusTimeline';
+
+export default StatusTimeline;
@@ -1,20 +1,107 @@
-import { memo, type FC } from 'react';
+import { memo, useCallback, useEffect, useState, type FC } from 'react';
 import { useParams, Link } from 'react-router-dom';
+import Loading from '@components/Loading';
+import { authService } from '@services/authService';
+import { orderService } from '@services/orderService';
+import { PERMISSIONS, ROUTES } from '@constants';
+import { formatCurrency, formatDateTime } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { OrderDetail as OrderDetailData } from '@types';
+import OrderStatusBadge from '../_components/OrderStatusBadge';
+import OrderItemsTable from './_components/OrderItemsTable';
+import StatusTimeline from './_components/StatusTimeline';
+import StatusActions from './_components/StatusActions';
 
 const OrderDetail: FC = memo(() => {
     const { id } = useParams<{ id: string }>();
+    const canWrite = authService.hasPermission(PERMISSIONS.ORDERS_WRITE);
+
+    const [detail, setDetail] = useState<OrderDetailData | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadOrder = useCallback(async () => {
+        if (!id) return;
+        setError(null);
+        try {
+            setDetail(await orderService.getOrder(id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not load the order'));
+        } finally {
+            setLoading(false);
+        }
+    }, [id]);
+
+    useEffect(() => {
+        loadOrder();
+    }, [loadOrder]);
+
+    const order = detail?.order;
+    const address = order?.shippingAddress;
 
     return (
         <div className="container mx-auto px-4 py-8">
             <div className="mb-6">
-                <Link to="/admin/orders" className="text-blue-600 hover:text-blue-800">
+                <Link to={ROUTES.ORDERS} className="text-blue-600 hover:text-blue-800">
                     ← Back to Orders
                 </Link>
             </div>
-            <div className="bg-white rounded-lg shadow p-6">
-                <h1 className="text-3xl font-bold text-gray-800 mb-4">Order Detail</h1>
-                <p className="text-gray-600">Order ID: {id}</p>
-            </div>
+
+            {loading ? (
+                <Loading />
+            ) : error || !detail || !order || !address ? (
+                <div className="bg-white rounded-lg shadow p-6">
+                    <p className="text-red-700" role="alert">
+                        {error || 'Order not found'}
+                    </p>
+                </div>
+            ) : (
+                <>
+                    <div className="bg-white rounded-lg shadow p-6 mb-6">
+                        <div className="flex flex-wrap items-center gap-3 mb-2">
+                            <h1 className="text-3xl font-bold text-gray-800">{order.number}</h1>
+                            <OrderStatusBadge status={order.status} />
+                        </div>
+                        <p className="text-gray-600">
+                            Placed {formatDateTime(order.createdAt)} · {formatCurrency(order.total)}
+                        </p>
+                        {canWrite && (
+                            <div className="mt-4">
+                                <StatusActions order={order} transitions={detail.transitions} onChanged={setDetail} />
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        <div className="lg:col-span-2 bg-white rounded-lg shadow p-6">
+                            <OrderItemsTable order={order} />
+                        </div>
+                        <div className="space-y-6">
+                            <div className="bg-white rounded-lg shadow p-6 text-sm text-gray-700">
+                                <h2 className="text-xl font-semibold text-gray-700 mb-2">Customer</h2>
+                                <p className="text-gray-900">{order.customerName}</p>
+                                <p>{order.customerEmail}</p>
+                                {order.customerPhone && <p>{order.customerPhone}</p>}
+                                <h3 className="mt-4 mb-1 font-medium text-gray-700">Ship to</h3>
+                                <address className="not-italic">
+                                    {[address.line1, address.line2, address.ward, address.district].filter(Boolean).join(', ')}
+                                    <br />
+                                    {[address.city, address.postalCode, address.country].filter(Boolean).join(' ')}
+                                </address>
+                                {order.note && (
+                                    <>
+                                        <h3 className="mt-4 mb-1 font-medium text-gray-700">Note</h3>
+                                        <p>{order.note}</p>
+                                    </>
+                                )}
+                            </div>
+                            <div className="bg-white rounded-lg shadow p-6">
+                                <StatusTimeline history={order.history} />
+                            </div>
+                        </div>
+                    </div>
+                </>
+            )}
         </div>
     );
 });
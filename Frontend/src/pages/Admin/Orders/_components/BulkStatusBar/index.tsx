@@ -0,0 +1,98 @@
+import { memo, useState, type FC, type FormEvent } from 'react';
+import { orderService } from '@services/orderService';
+import { ORDER_STATUSES } from '@constants';
+import type { OrderStatus } from '@types';
+import { getErrorMessage } from '@utils/errors';
+
+interface BulkStatusBarProps {
+    selectedIds: string[];
+    canRefund: boolean;
+    onDone: (message: string) => void;
+    onClear: () => void;
+}
+
+// Orders are created pending, so it is never a target
+const TARGET_STATUSES = Object.values(ORDER_STATUSES).filter((status) => status !== ORDER_STATUSES.PENDING);
+const REASON_REQUIRED: OrderStatus[] = [ORDER_STATUSES.CANCELLED, ORDER_STATUSES.REFUNDED];
+
+const inputClassName =
+    'px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const BulkStatusBar: FC<BulkStatusBarProps> = memo(({ selectedIds, canRefund, onDone, onClear }) => {
+    const [status, setStatus] = useState<OrderStatus>(ORDER_STATUSES.PAID);
+    const [reason, setReason] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const needsReason = REASON_REQUIRED.includes(status);
+
+    const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!window.confirm(`Mark ${selectedIds.length} orders as ${status}?`)) return;
+
+        setError(null);
+        setSaving(true);
+        try {
+            const results = await orderService.bulkChangeStatus(selectedIds, status, reason.trim() || undefined);
+            const failed = results.filter((result) => !result.success);
+            const summary = `${results.length - failed.length} of ${results.length} orders marked ${status}`;
+            const details = failed.map((result) => `${result.number || result.id}: ${result.error}`);
+            setReason('');
+            onDone([summary, ...details].join('. '));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not update the orders'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <form
+            onSubmit={handleSubmit}
+            className="flex flex-wrap items-center gap-3 mb-4 px-4 py-3 rounded-lg bg-blue-50 text-sm"
+        >
+            <span className="font-medium text-blue-800">{selectedIds.length} selected</span>
+            <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as OrderStatus)}
+                aria-label="New status"
+                className={inputClassName}
+            >
+                {TARGET_STATUSES.filter((target) => canRefund || target !== ORDER_STATUSES.REFUNDED).map((target) => (
+                    <option key={target} value={target}>
+                        Mark {target}
+                    </option>
+                ))}
+            </select>
+            <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={needsReason ? 'Reason (required)' : 'Reason (optional)'}
+                aria-label="Reason"
+                required={needsReason}
+                maxLength={500}
+                className={`${inputClassName} flex-1 min-w-[200px]`}
+            />
+            <button
+                type="submit"
+                disabled={saving || (needsReason && !reason.trim())}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+                {saving ? 'Updating...' : 'Apply'}
+            </button>
+            <button type="button" onClick={onClear} className="text-gray-600 hover:text-gray-800">
+                Clear selection
+            </button>
+            {error && (
+                <span className="w-full text-red-700" role="alert">
+                    {error}
+                </span>
+            )}
+        </form>
+    );
+});
+
+BulkStatusBar.displayName = 'BulkStatusBar';
+
+export default BulkStatusBar;
@@ -0,0 +1,74 @@
+import { memo, type FC } from 'react';
+import { ORDER_STATUSES } from '@constants';
+import { capitalize } from '@utils/format';
+import type { OrderStatus } from '@types';
+
+export interface OrderFiltersValue {
+    search: string;
+    status: OrderStatus | '';
+    // YYYY-MM-DD from date inputs
+    from: string;
+    to: string;
+}
+
+interface OrderFiltersProps {
+    value: OrderFiltersValue;
+    onChange: (value: OrderFiltersValue) => void;
+}
+
+const controlClassName =
+    'px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const OrderFilters: FC<OrderFiltersProps> = memo(({ value, onChange }) => {
+    const update = (changes: Partial<OrderFiltersValue>) => onChange({ ...value, ...changes });
+
+    return (
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+            <input
+                type="search"
+                value={value.search}
+                onChange={(e) => update({ search: e.target.value })}
+                placeholder="Search order number, customer name or email"
+                aria-label="Search orders"
+                className="flex-1 min-w-[240px] px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+                value={value.status}
+                onChange={(e) => update({ status: e.target.value as OrderFiltersValue['status'] })}
+                aria-label="Filter by status"
+                className={controlClassName}
+            >
+                <option value="">Any status</option>
+                {Object.values(ORDER_STATUSES).map((status) => (
+                    <option key={status} value={status}>
+                        {capitalize(status)}
+                    </option>
+                ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+                From
+                <input
+                    type="date"
+                    value={value.from}
+                    max={value.to || undefined}
+                    onChange={(e) => update({ from: e.target.value })}
+                    className={controlClassName}
+                />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+                To
+                <input
+                    type="date"
+                    value={value.to}
+                    min={value.from || undefined}
+                    onChange={(e) => update({ to: e.target.value })}
+                    className={controlClassName}
+                />
+            </label>
+        </div>
+    );
+});
+
+OrderFilters.displayName = 'OrderFilters';
+
+export default OrderFilters;
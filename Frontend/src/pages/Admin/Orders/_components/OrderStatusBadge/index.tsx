@@ -0,0 +1,25 @@
+import { memo, type FC } from 'react';
+import { capitalize } from '@utils/format';
+import type { OrderStatus } from '@types';
+
+interface OrderStatusBadgeProps {
+    status: OrderStatus;
+}
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+    pending: 'bg-yellow-100 text-yellow-700',
+    paid: 'bg-blue-100 text-blue-700',
+    fulfilled: 'bg-indigo-100 text-indigo-700',
+    shipped: 'bg-purple-100 text-purple-700',
+    delivered: 'bg-green-100 text-green-700',
+    cancelled: 'bg-gray-100 text-gray-700',
+    refunded: 'bg-red-100 text-red-700',
+};
+
+const OrderStatusBadge: FC<OrderStatusBadgeProps> = memo(({ status }) => (
+    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[status]}`}>{capitalize(status)}</span>
+));
+
+OrderStatusBadge.displayName = 'OrderStatusBadge';
+
+export default OrderStatusBadge;
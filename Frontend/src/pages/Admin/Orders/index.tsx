@@ -1,16 +1,237 @@
-import { memo, type FC } from 'react';
+import { memo, useCallback, useEffect, useMemo, useRef, useState, type FC } from 'react';
+import { Link } from 'react-router-dom';
+import DataTable, { type DataTableColumn } from '@components/DataTable';
+import Pagination from '@components/Pagination';
+import { useDebounce } from '@hooks/useDebounce';
+import { authService } from '@services/authService';
+import { orderService } from '@services/orderService';
+import { PERMISSIONS, ROUTES } from '@constants';
+import { formatCurrency, formatDateTime } from '@utils/format';
+import { downloadBlob } from '@utils/helpers';
+import { getErrorMessage } from '@utils/errors';
+import type { Order, OrderFilters as OrderFiltersParams, PaginatedResponse, PaginationParams } from '@types';
+import OrderFilters, { type OrderFiltersValue } from './_components/OrderFilters';
+import OrderStatusBadge from './_components/OrderStatusBadge';
+import BulkStatusBar from './_components/BulkStatusBar';
+
+const PAGE_SIZE = 20;
+
+const EMPTY_FILTERS: OrderFiltersValue = { search: '', status: '', from: '', to: '' };
+
+// Date inputs are local days; the range covers the whole of both days
+const startOfDay = (day: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : undefined);
+const endOfDay = (day: string) => (day ? new Date(`${day}T23:59:59.999`).toISOString() : undefined);
 
 const Orders: FC = memo(() => {
+    const canWrite = authService.hasPermission(PERMISSIONS.ORDERS_WRITE);
+    const canRefund = authService.hasPermission(PERMISSIONS.ORDERS_REFUND);
+
+    const [filters, setFilters] = useState<OrderFiltersValue>(EMPTY_FILTERS);
+    const [pagination, setPagination] = useState<PaginationParams>({
+        page: 1,
+        limit: PAGE_SIZE,
+        sort: 'createdAt',
+        order: 'desc',
+    });
+    const [result, setResult] = useState<PaginatedResponse<Order> | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [loading, setLoading] = useState(true);
+    const [exporting, setExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const debouncedSearch = useDebounce(filters.search, 400);
+    // Ignore responses that arrive after a newer request was sent
+    const requestRef = useRef(0);
+
+    const query = useMemo<OrderFiltersParams>(
+        () => ({
+            search: debouncedSearch.trim() || undefined,
+            status: filters.status || undefined,
+            from: startOfDay(filters.from),
+            to: endOfDay(filters.to),
+        }),
+        [debouncedSearch, filters.status, filters.from, filters.to]
+    );
+
+    const loadOrders = useCallback(async () => {
+        const requestId = ++requestRef.current;
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await orderService.getOrders({ ...pagination, ...query });
+            if (requestId === requestRef.current) {
+                setResult(response);
+                setSelected(new Set());
+            }
+        } catch (err) {
+            if (requestId === requestRef.current) setError(getErrorMessage(err, 'Could not load orders'));
+        } finally {
+            if (requestId === requestRef.current) setLoading(false);
+        }
+    }, [pagination, query]);
+
+    useEffect(() => {
+        loadOrders();
+    }, [loadOrders]);
+
+    const handleFiltersChange = useCallback((value: OrderFiltersValue) => {
+        setFilters(value);
+        setPagination((current) => ({ ...current, page: 1 }));
+    }, []);
+
+    const handleSortChange = useCallback((sort: string, order: 'asc' | 'desc') => {
+        setPagination((current) => ({ ...current, sort, order, page: 1 }));
+    }, []);
+
+    const handlePageChange = useCallback((page: number) => {
+        setPagination((current) => ({ ...current, page }));
+    }, []);
+
+    const handleExport = async () => {
+        setError(null);
+        setExporting(true);
+        try {
+            const blob = await orderService.exportOrders({ ...query, sort: pagination.sort, order: pagination.order });
+            downloadBlob(blob, `orders-${new Date().toISOString().slice(0, 10)}.csv`);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not export orders'));
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const handleBulkDone = useCallback(
+        (message: string) => {
+            setNotice(message);
+            loadOrders();
+        },
+        [loadOrders]
+    );
+
+    const rows = useMemo(() => result?.data || [], [result]);
+    const allSelected = rows.length > 0 && rows.every((order) => selected.has(order.id));
+
+    const toggleOne = useCallback((id: string) => {
+        setSelected((current) => {
+            const next = new Set(current);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    }, []);
+
+    const toggleAll = useCallback(() => {
+        setSelected(allSelected ? new Set() : new Set(rows.map((order) => order.id)));
+    }, [allSelected, rows]);
+
+    const columns = useMemo<DataTableColumn<Order>[]>(
+        () => [
+            ...(canWrite
+                ? [
+                      {
+                          key: 'select',
+                          label: (
+                              <input
+                                  type="checkbox"
+                                  checked={allSelected}
+                                  onChange={toggleAll}
+                                  aria-label="Select all orders on this page"
+                              />
+                          ),
+                          render: (order: Order) => (
+                              <input
+                                  type="checkbox"
+                                  checked={selected.has(order.id)}
+                                  onChange={() => toggleOne(order.id)}
+                                  aria-label={`Select order ${order.number}`}
+                              />
+                          ),
+                      },
+                  ]
+                : []),
+            {
+                key: 'number',
+                label: 'Order',
+                sortable: true,
+                render: (order) => (
+                    <Link to={ROUTES.ORDER_DETAIL(order.id)} className="font-medium text-gray-900 hover:text-blue-600">
+                        {order.number}
+                    </Link>
+                ),
+            },
+            {
+                key: 'customer',
+                label: 'Customer',
+                render: (order) => (
+                    <div>
+                        <p className="text-gray-900">{order.customerName}</p>
+                        <p className="text-xs text-gray-500">{order.customerEmail}</p>
+                    </div>
+                ),
+            },
+            { key: 'status', label: 'Status', sortable: true, render: (order) => <OrderStatusBadge status={order.status} /> },
+            { key: 'total', label: 'Total', sortable: true, render: (order) => formatCurrency(order.total) },
+            { key: 'createdAt', label: 'Placed', sortable: true, render: (order) => formatDateTime(order.createdAt) },
+        ],
+        [canWrite, allSelected, selected, toggleAll, toggleOne]
+    );
+
     return (
         <div className="container mx-auto px-4 py-8">
             <div className="flex justify-between items-center mb-6">
                 <h1 className="text-3xl font-bold text-gray-800">Orders Management</h1>
-                <button className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
-                    Export Orders
+                <button
+                    type="button"
+                    onClick={handleExport}
+                    disabled={exporting}
+                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {exporting ? 'Exporting...' : 'Export CSV'}
                 </button>
             </div>
+
             <div className="bg-white rounded-lg shadow p-6">
-                <p className="text-gray-600">Orders list will be displayed here</p>
+                <OrderFilters value={filters} onChange={handleFiltersChange} />
+
+                {error && (
+                    <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                        {error}
+                    </div>
+                )}
+                {notice && (
+                    <div className="mb-4 px-4 py-3 rounded-lg bg-green-50 text-green-700 text-sm">{notice}</div>
+                )}
+
+                {canWrite && selected.size > 0 && (
+                    <BulkStatusBar
+                        selectedIds={[...selected]}
+                        canRefund={canRefund}
+                        onDone={handleBulkDone}
+                        onClear={() => setSelected(new Set())}
+                    />
+                )}
+
+                <DataTable
+                    columns={columns}
+                    rows={rows}
+                    rowKey={(order) => order.id}
+                    sort={pagination.sort}
+                    order={pagination.order}
+                    onSortChange={handleSortChange}
+                    loading={loading}
+                    emptyMessage="No orders match these filters"
+                />
+
+                {result && (
+                    <Pagination
+                        page={result.pagination.page}
+                        totalPages={result.pagination.totalPages}
+                        total={result.pagination.total}
+                        limit={result.pagination.limit}
+                        onPageChange={handlePageChange}
+                    />
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,162 @@
+import { memo, useRef, useState, type ChangeEvent, type DragEvent, type FC } from 'react';
+import { uploadService } from '@services/uploadService';
+import { getErrorMessage } from '@utils/errors';
+
+interface GalleryFieldProps {
+    value: string[];
+    onChange: (images: string[]) => void;
+    disabled?: boolean;
+}
+
+// Mirrors the image upload and product limits on the server
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const MAX_IMAGES = 10;
+
+const move = (images: string[], from: number, to: number) => {
+    const next = [...images];
+    const [image] = next.splice(from, 1);
+    next.splice(to, 0, image!);
+    return next;
+};
+
+// The first image is the cover; reorder by dragging or with the arrow buttons
+const GalleryField: FC<GalleryFieldProps> = memo(({ value, onChange, disabled }) => {
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const remaining = MAX_IMAGES - value.length;
+
+    const handleFilesChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length === 0) return;
+
+        if (files.some((file) => !IMAGE_TYPES.includes(file.type))) {
+            setError('Images must be JPEG, PNG, GIF or WebP');
+            return;
+        }
+        if (files.length > remaining) {
+            setError(`A product can have at most ${MAX_IMAGES} images`);
+            return;
+        }
+
+        setError(null);
+        setUploading(true);
+        try {
+            const uploaded = await uploadService.uploadImages(files);
+            onChange([...value, ...uploaded.map((file) => file.url)]);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not upload the images'));
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const handleDrop = (e: DragEvent<HTMLLIElement>, index: number) => {
+        e.preventDefault();
+        if (dragIndex !== null && dragIndex !== index) {
+            onChange(move(value, dragIndex, index));
+        }
+        setDragIndex(null);
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-semibold text-gray-700">Images</h2>
+                {!disabled && remaining > 0 && (
+                    <button
+                        type="button"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={uploading}
+                        className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                        {uploading ? 'Uploading...' : 'Upload images'}
+                    </button>
+                )}
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={IMAGE_TYPES.join(',')}
+                    multiple
+                    onChange={handleFilesChange}
+                    className="hidden"
+                />
+            </div>
+
+            {error && (
+                <div className="mb-3 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    {error}
+                </div>
+            )}
+
+            {value.length === 0 ? (
+                <p className="text-sm text-gray-500">No images yet</p>
+            ) : (
+                <ul className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {value.map((image, index) => (
+                        <li
+                            key={image}
+                            draggable={!disabled}
+                            onDragStart={() => setDragIndex(index)}
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={(e) => handleDrop(e, index)}
+                            onDragEnd={() => setDragIndex(null)}
+                            className={`relative border rounded-lg overflow-hidden ${
+                                dragIndex === index ? 'opacity-50 border-blue-400' : 'border-gray-200'
+                            } ${disabled ? '' : 'cursor-move'}`}
+                        >
+                            <img
+                                src={uploadService.getFileUrl(image)}
+                                alt={`Product image ${index + 1}`}
+                                className="w-full h-28 object-cover"
+                            />
+                            {index === 0 && (
+                                <span className="absolute top-1 left-1 px-2 py-0.5 rounded bg-blue-600 text-white text-xs">
+                                    Cover
+                                </span>
+                            )}
+                            {!disabled && (
+                                <div className="flex justify-between px-2 py-1 bg-gray-50 text-sm">
+                                    <div className="flex gap-2">
+                                        <button
+                                            type="button"
+                                            onClick={() => onChange(move(value, index, index - 1))}
+                                            disabled={index === 0}
+                                            aria-label="Move image left"
+                                            className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                                        >
+                                            ←
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => onChange(move(value, index, index + 1))}
+                                            disabled={index === value.length - 1}
+                                            aria-label="Move image right"
+                                            className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                                        >
+                                            →
+                                        </button>
+                                    </div>
+                                    <button
+                                        type="button"
+                                        onClick={() => onChange(value.filter((_, i) => i !== index))}
+                                        className="text-red-600 hover:text-red-700"
+                                    >
+                                        Remove
+                                    </button>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+});
+
+GalleryField.displayName = 'GalleryField';
+
+export default GalleryField;
@@ -0,0 +1,87 @@
+import { memo, useEffect, useState, type FC } from 'react';
+import { productService } from '@services/productService';
+import { formatDateTime } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { InventoryMovement, InventoryMovementSource } from '@types';
+
+interface InventoryHistoryProps {
+    productId: string;
+    // Bump to reload after an adjustment
+    refreshKey?: number;
+}
+
+const SOURCE_LABELS: Record<InventoryMovementSource, string> = {
+    adjustment: 'Adjustment',
+    order: 'Order',
+    cancellation: 'Order cancelled',
+    refund: 'Order refunded',
+};
+
+const InventoryHistory: FC<InventoryHistoryProps> = memo(({ productId, refreshKey = 0 }) => {
+    const [movements, setMovements] = useState<InventoryMovement[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        productService
+            .getInventoryMovements(productId)
+            .then((items) => {
+                if (!cancelled) setMovements(items);
+            })
+            .catch((err) => {
+                if (!cancelled) setError(getErrorMessage(err, 'Could not load stock history'));
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [productId, refreshKey]);
+
+    return (
+        <div>
+            <h2 className="text-xl font-semibold text-gray-700 mb-2">Stock history</h2>
+
+            {error && (
+                <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    {error}
+                </div>
+            )}
+
+            {loading ? (
+                <p className="text-gray-500 text-sm">Loading history...</p>
+            ) : movements.length === 0 ? (
+                <p className="text-gray-500 text-sm">No stock changes yet</p>
+            ) : (
+                <ol className="space-y-3">
+                    {movements.map((movement) => (
+                        <li key={movement.id} className="text-sm">
+                            <div className="flex justify-between">
+                                <span className="text-gray-800">
+                                    <span className={movement.change < 0 ? 'text-red-600' : 'text-green-700'}>
+                                        {movement.change > 0 ? `+${movement.change}` : movement.change}
+                                    </span>{' '}
+                                    {movement.sku} → {movement.stockAfter}
+                                </span>
+                                <time className="text-gray-500" dateTime={movement.createdAt}>
+                                    {formatDateTime(movement.createdAt)}
+                                </time>
+                            </div>
+                            <p className="text-gray-500">
+                                {SOURCE_LABELS[movement.source]}: {movement.reason}
+                            </p>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+});
+
+InventoryHistory.displayName = 'InventoryHistory';
+
+export default InventoryHistory;
@@ -0,0 +1,306 @@
+import { memo, useMemo, useState, type FC } from 'react';
+import { Controller, FormProvider, useForm } from 'react-hook-form';
+import { useUnsavedChangesGuard } from '@hooks/useUnsavedChangesGuard';
+import { productService } from '@services/productService';
+import type { Category, Product, ProductInput, ProductStatus } from '@types';
+import { getErrorMessage, getValidationErrors } from '@utils/errors';
+import GalleryField from '../GalleryField';
+import VariantMatrix from '../VariantMatrix';
+import { SKU_PATTERN, parseOptionValues, variantsMatchOptions } from '../VariantMatrix/variants';
+
+export interface VariantFormValue {
+    sku: string;
+    options: Record<string, string>;
+    price: number | null;
+}
+
+export interface ProductFormValues {
+    name: string;
+    slug: string;
+    sku: string;
+    description: string;
+    price: number;
+    compareAtPrice: number | null;
+    categoryId: string;
+    status: ProductStatus;
+    images: string[];
+    // Values are edited as a comma separated list
+    options: { name: string; values: string }[];
+    variants: VariantFormValue[];
+}
+
+interface ProductFormProps {
+    product?: Product;
+    categories: Category[];
+    canWrite: boolean;
+    onSaved: (product: Product) => void;
+}
+
+const inputClassName =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100';
+
+const toFormValues = (product?: Product): ProductFormValues => ({
+    name: product?.name || '',
+    slug: product?.slug || '',
+    sku: product?.sku || '',
+    description: product?.description || '',
+    price: product?.price ?? 0,
+    compareAtPrice: product?.compareAtPrice ?? null,
+    categoryId: product?.categoryId || '',
+    status: product?.status || 'draft',
+    images: product?.images || [],
+    options: (product?.options || []).map((option) => ({ name: option.name, values: option.values.join(', ') })),
+    variants:
+        product && product.options.length > 0
+            ? product.variants.map((variant) => ({
+                  sku: variant.sku,
+                  options: variant.options,
+                  price: variant.price ?? null,
+              }))
+            : [],
+});
+
+const toInput = (values: ProductFormValues): ProductInput => {
+    const options = values.options.map((option) => ({
+        name: option.name.trim(),
+        values: parseOptionValues(option.values),
+    }));
+
+    return {
+        name: values.name.trim(),
+        slug: values.slug.trim() || undefined,
+        sku: values.sku.trim().toUpperCase(),
+        description: values.description,
+        price: values.price,
+        compareAtPrice: values.compareAtPrice,
+        categoryId: values.categoryId || null,
+        images: values.images,
+        options,
+        // Without options the server keeps a single variant under the product SKU
+        variants:
+            options.length > 0
+                ? values.variants.map((variant) => ({
+                      sku: variant.sku.trim().toUpperCase(),
+                      options: variant.options,
+                      ...(variant.price !== null && { price: variant.price }),
+                  }))
+                : [],
+        status: values.status,
+    };
+};
+
+const ProductForm: FC<ProductFormProps> = memo(({ product, categories, canWrite, onSaved }) => {
+    const form = useForm<ProductFormValues>({ defaultValues: toFormValues(product) });
+    const {
+        register,
+        control,
+        handleSubmit,
+        reset,
+        formState: { errors, isDirty, isSubmitting },
+    } = form;
+    const [serverErrors, setServerErrors] = useState<string[]>([]);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    // Saving navigates away from a new product, so the guard stays off while submitting
+    useUnsavedChangesGuard(canWrite && isDirty && !isSubmitting);
+
+    const stockBySku = useMemo(
+        () => Object.fromEntries((product?.variants || []).map((variant) => [variant.sku, variant.stock])),
+        [product?.variants]
+    );
+
+    const onSubmit = async (values: ProductFormValues) => {
+        setServerErrors([]);
+        setNotice(null);
+
+        const input = toInput(values);
+        if (input.options.length > 0 && !variantsMatchOptions(input.options, values.variants)) {
+            setServerErrors(['Options changed since the variants were generated; generate them again']);
+            return;
+        }
+
+        try {
+            const saved = product
+                ? await productService.updateProduct(product.id, input)
+                : await productService.createProduct(input);
+            reset(toFormValues(saved));
+            setNotice('Product saved');
+            onSaved(saved);
+        } catch (err) {
+            const errors = getValidationErrors(err);
+            setServerErrors(errors.length ? errors : [getErrorMessage(err, 'Could not save the product')]);
+        }
+    };
+
+    return (
+        <FormProvider {...form}>
+            <form className="space-y-6" onSubmit={handleSubmit(onSubmit)} noValidate>
+                {serverErrors.length > 0 && (
+                    <div className="px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                        <ul className="list-disc list-inside">
+                            {serverErrors.map((message) => (
+                                <li key={message}>{message}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                {notice && !isDirty && (
+                    <div className="px-4 py-3 rounded-lg bg-green-50 text-green-700 text-sm">{notice}</div>
+                )}
+
+                <div className="bg-white rounded-lg shadow p-6 space-y-4">
+                    <h2 className="text-xl font-semibold text-gray-700">Details</h2>
+
+                    <label className="block text-sm text-gray-700">
+                        Name
+                        <input
+                            {...register('name', {
+                                validate: (value) => value.trim().length > 0 || 'Name is required',
+                            })}
+                            disabled={!canWrite}
+                            className={`${inputClassName} mt-1`}
+                        />
+                        {errors.name && <span className="mt-1 block text-xs text-red-600">{errors.name.message}</span>}
+                    </label>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <label className="block text-sm text-gray-700">
+                            SKU
+                            <input
+                                {...register('sku', {
+                                    required: 'SKU is required',
+                                    pattern: { value: SKU_PATTERN, message: 'Up to 64 letters, digits, dots, dashes or underscores' },
+                                })}
+                                disabled={!canWrite}
+                                className={`${inputClassName} mt-1 uppercase`}
+                            />
+                            {errors.sku && <span className="mt-1 block text-xs text-red-600">{errors.sku.message}</span>}
+                        </label>
+                        <label className="block text-sm text-gray-700">
+                            Slug
+                            <input
+                                {...register('slug')}
+                                placeholder="Generated from the name"
+                                disabled={!canWrite}
+                                className={`${inputClassName} mt-1`}
+                            />
+                        </label>
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <label className="block text-sm text-gray-700">
+                            Price (VND)
+                            <input
+                                type="number"
+                                min={0}
+                                step={1}
+                                {...register('price', {
+                                    valueAsNumber: true,
+                                    validate: (value) =>
+                                        (Number.isInteger(value) && value >= 0) || 'Price must be a whole number of đồng',
+                                })}
+                                disabled={!canWrite}
+                                className={`${inputClassName} mt-1`}
+                            />
+                            {errors.price && <span className="mt-1 block text-xs text-red-600">{errors.price.message}</span>}
+                        </label>
+                        <label className="block text-sm text-gray-700">
+                            Compare-at price (VND)
+                            <input
+                                type="number"
+                                min={0}
+                                step={1}
+                                {...register('compareAtPrice', {
+                                    setValueAs: (value) => (value === '' || value === null ? null : Number(value)),
+                                    validate: (value, values) =>
+                                        value === null ||
+                                        (Number.isInteger(value) && value > values.price) ||
+                                        'Must be a whole number higher than the price',
+                                    deps: 'price',
+                                })}
+                                placeholder="Optional"
+                                disabled={!canWrite}
+                                className={`${inputClassName} mt-1`}
+                            />
+                            {errors.compareAtPrice && (
+                                <span className="mt-1 block text-xs text-red-600">{errors.compareAtPrice.message}</span>
+                            )}
+                        </label>
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <label className="block text-sm text-gray-700">
+                            Category
+                            <select {...register('categoryId')} disabled={!canWrite} className={`${inputClassName} mt-1 bg-white`}>
+                                <option value="">No category</option>
+                                {categories.map((category) => (
+                                    <option key={category.id} value={category.id}>
+                                        {category.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="block text-sm text-gray-700">
+                            Status
+                            <select {...register('status')} disabled={!canWrite} className={`${inputClassName} mt-1 bg-white`}>
+                                <option value="draft">Draft</option>
+                                <option value="published">Published</option>
+                                <option value="archived">Archived</option>
+                            </select>
+                        </label>
+                    </div>
+
+                    <label className="block text-sm text-gray-700">
+                        Description
+                        <textarea
+                            {...register('description')}
+                            rows={6}
+                            disabled={!canWrite}
+                            className={`${inputClassName} mt-1`}
+                        />
+                    </label>
+                </div>
+
+                <div className="bg-white rounded-lg shadow p-6">
+                    <Controller
+                        control={control}
+                        name="images"
+                        render={({ field }) => (
+                            <GalleryField value={field.value} onChange={field.onChange} disabled={!canWrite} />
+                        )}
+                    />
+                </div>
+
+                <div className="bg-white rounded-lg shadow p-6">
+                    <VariantMatrix stockBySku={stockBySku} disabled={!canWrite} />
+                </div>
+
+                {canWrite && (
+                    <div className="flex items-center gap-3">
+                        <button
+                            type="submit"
+                            disabled={isSubmitting || (!!product && !isDirty)}
+                            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                            {isSubmitting ? 'Saving...' : product ? 'Save changes' : 'Create product'}
+                        </button>
+                        {isDirty && (
+                            <button
+                                type="button"
+                                onClick={() => reset()}
+                                disabled={isSubmitting}
+                                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100"
+                            >
+                                Discard changes
+                            </button>
+                        )}
+                    </div>
+                )}
+            </form>
+        </FormProvider>
+    );
+});
+
+ProductForm.displayName = 'ProductForm';
+
+export default ProductForm;
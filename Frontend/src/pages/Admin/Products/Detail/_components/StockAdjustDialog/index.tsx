@@ -0,0 +1,153 @@
+import { memo, useState, type FC } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { productService } from '@services/productService';
+import type { Product } from '@types';
+import { getErrorMessage, getValidationErrors } from '@utils/errors';
+
+interface StockAdjustDialogProps {
+    product: Product;
+    onClose: () => void;
+    onAdjusted: (product: Product) => void;
+}
+
+interface StockAdjustValues {
+    sku: string;
+    mode: 'delta' | 'set';
+    amount: number;
+    reason: string;
+}
+
+const inputClassName =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const variantLabel = (options: Record<string, string>) => Object.values(options).join(' / ');
+
+const StockAdjustDialog: FC<StockAdjustDialogProps> = memo(({ product, onClose, onAdjusted }) => {
+    const {
+        register,
+        handleSubmit,
+        control,
+        formState: { errors, isSubmitting },
+    } = useForm<StockAdjustValues>({
+        defaultValues: { sku: product.variants[0]?.sku || '', mode: 'delta', amount: 0, reason: '' },
+    });
+    const [error, setError] = useState<string | null>(null);
+
+    const [mode, sku] = useWatch({ control, name: ['mode', 'sku'] });
+    const selected = product.variants.find((variant) => variant.sku === sku);
+
+    const onSubmit = async ({ sku, mode, amount, reason }: StockAdjustValues) => {
+        setError(null);
+        try {
+            const updated = await productService.adjustInventory(product.id, {
+                sku,
+                ...(mode === 'delta' ? { delta: amount } : { set: amount }),
+                reason: reason.trim(),
+            });
+            onAdjusted(updated);
+        } catch (err) {
+            setError(getValidationErrors(err).join(', ') || getErrorMessage(err, 'Could not adjust the stock'));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4">
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="stock-adjust-title"
+                className="w-full max-w-md bg-white rounded-lg shadow-lg p-6"
+            >
+                <h2 id="stock-adjust-title" className="text-xl font-semibold text-gray-700 mb-4">
+                    Adjust stock
+                </h2>
+
+                <form className="space-y-4" onSubmit={handleSubmit(onSubmit)} noValidate>
+                    {error && (
+                        <div className="px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                            {error}
+                        </div>
+                    )}
+
+                    {product.variants.length > 1 && (
+                        <label className="block text-sm text-gray-700">
+                            Variant
+                            <select {...register('sku')} className={`${inputClassName} mt-1 bg-white`}>
+                                {product.variants.map((variant) => (
+                                    <option key={variant.sku} value={variant.sku}>
+                                        {variantLabel(variant.options)} ({variant.sku})
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+                    <p className="text-sm text-gray-600">In stock: {selected?.stock ?? 0}</p>
+
+                    <div className="flex gap-4 text-sm text-gray-700">
+                        <label className="flex items-center gap-2">
+                            <input type="radio" value="delta" {...register('mode')} />
+                            Add or remove
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="radio" value="set" {...register('mode')} />
+                            Set count
+                        </label>
+                    </div>
+
+                    <label className="block text-sm text-gray-700">
+                        {mode === 'delta' ? 'Change (negative to remove)' : 'New count'}
+                        <input
+                            type="number"
+                            step={1}
+                            {...register('amount', {
+                                valueAsNumber: true,
+                                validate: (value, values) => {
+                                    if (!Number.isInteger(value)) return 'Enter a whole number';
+                                    if (values.mode === 'set') return value >= 0 || 'Stock cannot be negative';
+                                    if (value === 0) return 'Enter a change other than 0';
+                                    return (selected?.stock ?? 0) + value >= 0 || 'Not enough stock to remove';
+                                },
+                            })}
+                            className={`${inputClassName} mt-1`}
+                        />
+                        {errors.amount && <span className="mt-1 block text-xs text-red-600">{errors.amount.message}</span>}
+                    </label>
+
+                    <label className="block text-sm text-gray-700">
+                        Reason
+                        <input
+                            {...register('reason', {
+                                validate: (value) => value.trim().length > 0 || 'A reason is required',
+                            })}
+                            placeholder="Stock count, damaged goods, new delivery..."
+                            className={`${inputClassName} mt-1`}
+                        />
+                        {errors.reason && <span className="mt-1 block text-xs text-red-600">{errors.reason.message}</span>}
+                    </label>
+
+                    <div className="flex justify-end gap-3">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            disabled={isSubmitting}
+                            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isSubmitting}
+                            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                            {isSubmitting ? 'Saving...' : 'Adjust stock'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+});
+
+StockAdjustDialog.displayName = 'StockAdjustDialog';
+
+export default StockAdjustDialog;
@@ -0,0 +1,207 @@
+import { memo, type FC } from 'react';
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import type { ProductFormValues, VariantFormValue } from '../ProductForm';
+import { SKU_PATTERN, combinationKey, parseOptionValues } from './variants';
+
+interface VariantMatrixProps {
+    // Current stock per SKU; stock only changes through adjustments
+    stockBySku: Record<string, number>;
+    disabled?: boolean;
+}
+
+// Mirrors the product limits on the server
+const MAX_OPTIONS = 3;
+
+const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100';
+
+const toSkuPart = (value: string) =>
+    value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/đ/gi, 'D')
+        .toUpperCase()
+        .replace(/[^A-Z0-9]+/g, '');
+
+const VariantMatrix: FC<VariantMatrixProps> = memo(({ stockBySku, disabled }) => {
+    const {
+        control,
+        register,
+        getValues,
+        formState: { errors },
+    } = useFormContext<ProductFormValues>();
+    const options = useFieldArray({ control, name: 'options' });
+    const variants = useFieldArray({ control, name: 'variants' });
+
+    // One variant per combination of option values; rows that already exist keep their SKU and price
+    const generateVariants = () => {
+        const parsed = getValues('options')
+            .map((option) => ({ name: option.name.trim(), values: parseOptionValues(option.values) }))
+            .filter((option) => option.name && option.values.length > 0);
+        if (parsed.length === 0) {
+            variants.replace([]);
+            return;
+        }
+
+        const existing = new Map(
+            getValues('variants').map((variant) => [
+                combinationKey(parsed.map((option) => variant.options[option.name] ?? '')),
+                variant,
+            ])
+        );
+        const baseSku = getValues('sku').trim().toUpperCase();
+
+        const combinations = parsed.reduce<string[][]>(
+            (rows, option) => rows.flatMap((row) => option.values.map((value) => [...row, value])),
+            [[]]
+        );
+
+        variants.replace(
+            combinations.map((values): VariantFormValue => {
+                const current = existing.get(combinationKey(values));
+                return {
+                    sku: current?.sku || [baseSku, ...values.map(toSkuPart)].filter(Boolean).join('-').slice(0, 64),
+                    options: Object.fromEntries(parsed.map((option, index) => [option.name, values[index]!])),
+                    price: current?.price ?? null,
+                };
+            })
+        );
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold text-gray-700">Options and variants</h2>
+                {!disabled && options.fields.length < MAX_OPTIONS && (
+                    <button
+                        type="button"
+                        onClick={() => options.append({ name: '', values: '' })}
+                        className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                        Add option
+                    </button>
+                )}
+            </div>
+
+            {options.fields.length === 0 && (
+                <p className="text-sm text-gray-500">
+                    Without options the product is sold as a single variant under its own SKU.
+                </p>
+            )}
+
+            {options.fields.map((field, index) => (
+                <div key={field.id} className="flex flex-wrap items-start gap-3">
+                    <div className="w-40">
+                        <input
+                            {...register(`options.${index}.name`, { required: 'Option name is required' })}
+                            placeholder="Size"
+                            aria-label="Option name"
+                            disabled={disabled}
+                            className={inputClassName}
+                        />
+                        {errors.options?.[index]?.name && (
+                            <p className="mt-1 text-xs text-red-600">{errors.options[index].name.message}</p>
+                        )}
+                    </div>
+                    <div className="flex-1 min-w-[200px]">
+                        <input
+                            {...register(`options.${index}.values`, {
+                                validate: (value) => parseOptionValues(value).length > 0 || 'Add at least one value',
+                            })}
+                            placeholder="S, M, L"
+                            aria-label="Option values, comma separated"
+                            disabled={disabled}
+                            className={inputClassName}
+                        />
+                        {errors.options?.[index]?.values && (
+                            <p className="mt-1 text-xs text-red-600">{errors.options[index].values.message}</p>
+                        )}
+                    </div>
+                    {!disabled && (
+                        <button
+                            type="button"
+                            onClick={() => options.remove(index)}
+                            className="py-2 text-sm text-red-600 hover:text-red-700"
+                        >
+                            Remove
+                        </button>
+                    )}
+                </div>
+            ))}
+
+            {!disabled && options.fields.length > 0 && (
+                <button
+                    type="button"
+                    onClick={generateVariants}
+                    className="px-3 py-1 border border-blue-300 rounded text-sm text-blue-700 hover:bg-blue-50"
+                >
+                    Generate variants
+                </button>
+            )}
+
+            {variants.fields.length > 0 && (
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-3 py-2 text-left font-medium text-gray-500">Variant</th>
+                                <th className="px-3 py-2 text-left font-medium text-gray-500">SKU</th>
+                                <th className="px-3 py-2 text-left font-medium text-gray-500">Price override</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500">Stock</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {variants.fields.map((field, index) => (
+                                <tr key={field.id}>
+                                    <td className="px-3 py-2 text-gray-900">{Object.values(field.options).join(' / ')}</td>
+                                    <td className="px-3 py-2">
+                                        <input
+                                            {...register(`variants.${index}.sku`, {
+                                                required: 'SKU is required',
+                                                pattern: { value: SKU_PATTERN, message: 'Letters, digits, dots, dashes or underscores' },
+                                            })}
+                                            aria-label="Variant SKU"
+                                            disabled={disabled}
+                                            className={inputClassName}
+                                        />
+                                        {errors.variants?.[index]?.sku && (
+                                            <p className="mt-1 text-xs text-red-600">{errors.variants[index].sku.message}</p>
+                                        )}
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step={1}
+                                            {...register(`variants.${index}.price`, {
+                                                setValueAs: (value) => (value === '' || value === null ? null : Number(value)),
+                                                validate: (value) =>
+                                                    value === null ||
+                                                    (Number.isInteger(value) && value >= 0) ||
+                                                    'Whole đồng, 0 or more',
+                                            })}
+                                            placeholder="Product price"
+                                            aria-label="Variant price"
+                                            disabled={disabled}
+                                            className={inputClassName}
+                                        />
+                                        {errors.variants?.[index]?.price && (
+                                            <p className="mt-1 text-xs text-red-600">{errors.variants[index].price.message}</p>
+                                        )}
+                                    </td>
+                                    <td className="px-3 py-2 text-right text-gray-700">
+                                        {stockBySku[field.sku.toUpperCase()] ?? 0}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+});
+
+VariantMatrix.displayName = 'VariantMatrix';
+
+export default VariantMatrix;
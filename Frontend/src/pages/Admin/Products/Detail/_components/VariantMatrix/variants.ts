@@ -0,0 +1,26 @@
+/**
+ * Variant matrix helpers shared by the product form
+ */
+
+import type { ProductOption } from '@types';
+import type { VariantFormValue } from '../ProductForm';
+
+// Mirrors the SKU rule on the server, which upper-cases SKUs before checking
+export const SKU_PATTERN = /^[A-Z0-9][A-Z0-9._-]{0,63}$/i;
+
+export const parseOptionValues = (values: string) =>
+    Array.from(new Set(values.split(',').map((value) => value.trim()).filter(Boolean)));
+
+export const combinationKey = (values: string[]) => values.join('\u0000');
+
+// False once options were edited without generating the variants again
+export const variantsMatchOptions = (options: ProductOption[], variants: VariantFormValue[]) => {
+    const expected = options.reduce((count, option) => count * option.values.length, 1);
+    return (
+        variants.length === expected &&
+        variants.every((variant) =>
+            Object.keys(variant.options).length === options.length &&
+            options.every((option) => option.values.includes(variant.options[option.name] ?? ''))
+        )
+    );
+};
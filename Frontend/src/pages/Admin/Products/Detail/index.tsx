@@ -1,20 +1,135 @@
-import { memo, type FC } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { memo, useCallback, useEffect, useState, type FC } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import Loading from '@components/Loading';
+import { authService } from '@services/authService';
+import { productService } from '@services/productService';
+import { PERMISSIONS, ROUTES } from '@constants';
+import { formatCurrency } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { Category, Product } from '@types';
+import ProductForm from './_components/ProductForm';
+import StockAdjustDialog from './_components/StockAdjustDialog';
+import InventoryHistory from './_components/InventoryHistory';
+
+// ROUTES.PRODUCT_NEW points at the detail page with this id
+const NEW_PRODUCT_ID = 'new';
 
 const ProductDetail: FC = memo(() => {
     const { id } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const isNew = id === NEW_PRODUCT_ID;
+    const canWrite = authService.hasPermission(PERMISSIONS.PRODUCTS_WRITE);
+    const canAdjust = authService.hasPermission(PERMISSIONS.INVENTORY_ADJUST);
+
+    const [product, setProduct] = useState<Product | null>(null);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [loading, setLoading] = useState(!isNew);
+    const [error, setError] = useState<string | null>(null);
+    const [adjusting, setAdjusting] = useState(false);
+    const [historyKey, setHistoryKey] = useState(0);
+
+    const loadProduct = useCallback(async () => {
+        if (!id || isNew) return;
+        setError(null);
+        try {
+            setProduct(await productService.getProduct(id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not load the product'));
+        } finally {
+            setLoading(false);
+        }
+    }, [id, isNew]);
+
+    useEffect(() => {
+        loadProduct();
+    }, [loadProduct]);
+
+    useEffect(() => {
+        productService.getCategories().then(setCategories).catch(() => setCategories([]));
+    }, []);
+
+    const handleSaved = useCallback(
+        (saved: Product) => {
+            if (isNew) {
+                navigate(ROUTES.PRODUCT_DETAIL(saved.id), { replace: true });
+                return;
+            }
+            setProduct(saved);
+        },
+        [isNew, navigate]
+    );
+
+    const handleAdjusted = useCallback((updated: Product) => {
+        setProduct(updated);
+        setAdjusting(false);
+        setHistoryKey((key) => key + 1);
+    }, []);
 
     return (
         <div className="container mx-auto px-4 py-8">
             <div className="mb-6">
-                <Link to="/admin/products" className="text-blue-600 hover:text-blue-800">
+                <Link to={ROUTES.PRODUCTS} className="text-blue-600 hover:text-blue-800">
                     ← Back to Products
                 </Link>
             </div>
-            <div className="bg-white rounded-lg shadow p-6">
-                <h1 className="text-3xl font-bold text-gray-800 mb-4">Product Detail</h1>
-                <p className="text-gray-600">Product ID: {id}</p>
-            </div>
+
+            {loading ? (
+                <Loading />
+            ) : isNew ? (
+                <>
+                    <h1 className="text-3xl font-bold text-gray-800 mb-6">New product</h1>
+                    <ProductForm categories={categories} canWrite={canWrite} onSaved={handleSaved} />
+                </>
+            ) : error || !product ? (
+                <div className="bg-white rounded-lg shadow p-6">
+                    <p className="text-red-700" role="alert">
+                        {error || 'Product not found'}
+                    </p>
+                </div>
+            ) : (
+                <>
+                    <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+                        <div>
+                            <h1 className="text-3xl font-bold text-gray-800 mb-1">{product.name}</h1>
+                            <p className="text-gray-600">
+                                {product.sku} · {formatCurrency(product.price)} · {product.totalStock} in stock
+                            </p>
+                        </div>
+                        {canAdjust && (
+                            <button
+                                type="button"
+                                onClick={() => setAdjusting(true)}
+                                className="px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-100"
+                            >
+                                Adjust stock
+                            </button>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        <div className="lg:col-span-2">
+                            <ProductForm
+                                key={product.id}
+                                product={product}
+                                categories={categories}
+                                canWrite={canWrite}
+                                onSaved={handleSaved}
+                            />
+                        </div>
+                        <div className="bg-white rounded-lg shadow p-6 self-start">
+                            <InventoryHistory productId={product.id} refreshKey={historyKey} />
+                        </div>
+                    </div>
+
+                    {adjusting && (
+                        <StockAdjustDialog
+                            product={product}
+                            onClose={() => setAdjusting(false)}
+                            onAdjusted={handleAdjusted}
+                        />
+                    )}
+                </>
+            )}
         </div>
     );
 });
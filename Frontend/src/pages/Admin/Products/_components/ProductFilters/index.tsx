@@ -0,0 +1,73 @@
+import { memo, type FC } from 'react';
+import type { Category, ProductStatus } from '@types';
+
+export interface ProductFiltersValue {
+    search: string;
+    status: ProductStatus | '';
+    category: string;
+    inStock: '' | 'true' | 'false';
+}
+
+interface ProductFiltersProps {
+    value: ProductFiltersValue;
+    categories: Category[];
+    onChange: (value: ProductFiltersValue) => void;
+}
+
+const selectClassName =
+    'px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const ProductFilters: FC<ProductFiltersProps> = memo(({ value, categories, onChange }) => {
+    const update = (changes: Partial<ProductFiltersValue>) => onChange({ ...value, ...changes });
+
+    return (
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+            <input
+                type="search"
+                value={value.search}
+                onChange={(e) => update({ search: e.target.value })}
+                placeholder="Search name or SKU"
+                aria-label="Search products"
+                className="flex-1 min-w-[200px] px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+                value={value.status}
+                onChange={(e) => update({ status: e.target.value as ProductFiltersValue['status'] })}
+                aria-label="Filter by status"
+                className={selectClassName}
+            >
+                <option value="">Any status</option>
+                <option value="draft">Draft</option>
+                <option value="published">Published</option>
+                <option value="archived">Archived</option>
+            </select>
+            <select
+                value={value.category}
+                onChange={(e) => update({ category: e.target.value })}
+                aria-label="Filter by category"
+                className={selectClassName}
+            >
+                <option value="">All categories</option>
+                {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                        {category.name}
+                    </option>
+                ))}
+            </select>
+            <select
+                value={value.inStock}
+                onChange={(e) => update({ inStock: e.target.value as ProductFiltersValue['inStock'] })}
+                aria-label="Filter by stock"
+                className={selectClassName}
+            >
+                <option value="">Any stock</option>
+                <option value="true">In stock</option>
+                <option value="false">Out of stock</option>
+            </select>
+        </div>
+    );
+});
+
+ProductFilters.displayName = 'ProductFilters';
+
+export default ProductFilters;
@@ -1,16 +1,217 @@
-import { memo, type FC } from 'react';
+import { memo, useCallback, useEffect, useMemo, useRef, useState, type FC } from 'react';
+import { Link } from 'react-router-dom';
+import DataTable, { type DataTableColumn } from '@components/DataTable';
+import Pagination from '@components/Pagination';
+import { useDebounce } from '@hooks/useDebounce';
+import { authService } from '@services/authService';
+import { productService } from '@services/productService';
+import { uploadService } from '@services/uploadService';
+import { PERMISSIONS, ROUTES } from '@constants';
+import { formatCurrency, formatDate } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { Category, PaginatedResponse, PaginationParams, Product, ProductStatus } from '@types';
+import ProductFilters, { type ProductFiltersValue } from './_components/ProductFilters';
+
+const PAGE_SIZE = 10;
+
+const EMPTY_FILTERS: ProductFiltersValue = { search: '', status: '', category: '', inStock: '' };
+
+const STATUS_STYLES: Record<ProductStatus, string> = {
+    draft: 'bg-gray-100 text-gray-700',
+    published: 'bg-green-100 text-green-700',
+    archived: 'bg-yellow-100 text-yellow-700',
+};
 
 const Products: FC = memo(() => {
+    const canWrite = authService.hasPermission(PERMISSIONS.PRODUCTS_WRITE);
+    const canDelete = authService.hasPermission(PERMISSIONS.PRODUCTS_DELETE);
+
+    const [filters, setFilters] = useState<ProductFiltersValue>(EMPTY_FILTERS);
+    const [pagination, setPagination] = useState<PaginationParams>({
+        page: 1,
+        limit: PAGE_SIZE,
+        sort: 'createdAt',
+        order: 'desc',
+    });
+    const [result, setResult] = useState<PaginatedResponse<Product> | null>(null);
+    const [categories, setCategories] = useState<Category[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const debouncedSearch = useDebounce(filters.search, 400);
+    // Ignore responses that arrive after a newer request was sent
+    const requestRef = useRef(0);
+
+    useEffect(() => {
+        productService.getCategories().then(setCategories).catch(() => setCategories([]));
+    }, []);
+
+    const loadProducts = useCallback(async () => {
+        const requestId = ++requestRef.current;
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await productService.getProducts({
+                ...pagination,
+                search: debouncedSearch.trim() || undefined,
+                status: filters.status || undefined,
+                category: filters.category || undefined,
+                inStock: filters.inStock === '' ? undefined : filters.inStock === 'true',
+            });
+            if (requestId === requestRef.current) setResult(response);
+        } catch (err) {
+            if (requestId === requestRef.current) setError(getErrorMessage(err, 'Could not load products'));
+        } finally {
+            if (requestId === requestRef.current) setLoading(false);
+        }
+    }, [pagination, debouncedSearch, filters.status, filters.category, filters.inStock]);
+
+    useEffect(() => {
+        loadProducts();
+    }, [loadProducts]);
+
+    const handleFiltersChange = useCallback((value: ProductFiltersValue) => {
+        setFilters(value);
+        setPagination((current) => ({ ...current, page: 1 }));
+    }, []);
+
+    const handleSortChange = useCallback((sort: string, order: 'asc' | 'desc') => {
+        setPagination((current) => ({ ...current, sort, order, page: 1 }));
+    }, []);
+
+    const handlePageChange = useCallback((page: number) => {
+        setPagination((current) => ({ ...current, page }));
+    }, []);
+
+    const handleDelete = useCallback(
+        async (product: Product) => {
+            if (!window.confirm(`Delete ${product.name}? This cannot be undone.`)) return;
+
+            try {
+                await productService.deleteProduct(product.id);
+                await loadProducts();
+            } catch (err) {
+                setError(getErrorMessage(err, 'Could not delete the product'));
+            }
+        },
+        [loadProducts]
+    );
+
+    const columns = useMemo<DataTableColumn<Product>[]>(
+        () => [
+            {
+                key: 'name',
+                label: 'Product',
+                sortable: true,
+                render: (product) => (
+                    <div className="flex items-center gap-3">
+                        {product.images[0] ? (
+                            <img
+                                src={uploadService.getFileUrl(product.images[0])}
+                                alt=""
+                                className="w-10 h-10 rounded object-cover border border-gray-200"
+                            />
+                        ) : (
+                            <div className="w-10 h-10 rounded bg-gray-100" />
+                        )}
+                        <div>
+                            <Link
+                                to={ROUTES.PRODUCT_DETAIL(product.id)}
+                                className="font-medium text-gray-900 hover:text-blue-600"
+                            >
+                                {product.name}
+                            </Link>
+                            <p className="text-xs text-gray-500">{product.sku}</p>
+                        </div>
+                    </div>
+                ),
+            },
+            { key: 'price', label: 'Price', sortable: true, render: (product) => formatCurrency(product.price) },
+            {
+                key: 'totalStock',
+                label: 'Stock',
+                sortable: true,
+                render: (product) => (
+                    <span className={product.totalStock > 0 ? 'text-gray-900' : 'text-red-600'}>
+                        {product.totalStock}
+                    </span>
+                ),
+            },
+            {
+                key: 'status',
+                label: 'Status',
+                render: (product) => (
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[product.status]}`}>
+                        {product.status}
+                    </span>
+                ),
+            },
+            { key: 'updatedAt', label: 'Updated', sortable: true, render: (product) => formatDate(product.updatedAt) },
+            {
+                key: 'actions',
+                label: 'Actions',
+                className: 'text-right',
+                render: (product) => (
+                    <div className="flex justify-end gap-3 text-sm">
+                        <Link to={ROUTES.PRODUCT_DETAIL(product.id)} className="text-blue-600 hover:text-blue-800">
+                            {canWrite ? 'Edit' : 'View'}
+                        </Link>
+                        {canDelete && (
+                            <button
+                                type="button"
+                                onClick={() => handleDelete(product)}
+                                className="text-red-600 hover:text-red-700"
+                            >
+                                Delete
+                            </button>
+                        )}
+                    </div>
+                ),
+            },
+        ],
+        [canWrite, canDelete, handleDelete]
+    );
+
     return (
         <div className="container mx-auto px-4 py-8">
             <div className="flex justify-between items-center mb-6">
                 <h1 className="text-3xl font-bold text-gray-800">Products Management</h1>
-                <button className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
-                    Add Product
-                </button>
+                {canWrite && (
+                    <Link to={ROUTES.PRODUCT_NEW} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
+                        Add Product
+                    </Link>
+                )}
             </div>
+
             <div className="bg-white rounded-lg shadow p-6">
-                <p className="text-gray-600">Products list will be displayed here</p>
+                <ProductFilters value={filters} categories={categories} onChange={handleFiltersChange} />
+
+                {error && (
+                    <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                        {error}
+                    </div>
+                )}
+
+                <DataTable
+                    columns={columns}
+                    rows={result?.data || []}
+                    rowKey={(product) => product.id}
+                    sort={pagination.sort}
+                    order={pagination.order}
+                    onSortChange={handleSortChange}
+                    loading={loading}
+                    emptyMessage="No products match these filters"
+                />
+
+                {result && (
+                    <Pagination
+                        page={result.pagination.page}
+                        totalPages={result.pagination.totalPages}
+                        total={result.pagination.total}
+                        limit={result.pagination.limit}
+                        onPageChange={handlePageChange}
+                    />
+                )}
             </div>
         </div>
     );
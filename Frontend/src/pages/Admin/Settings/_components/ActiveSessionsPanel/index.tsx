@@ -0,0 +1,119 @@
+import { memo, useCallback, useEffect, useState, type FC } from 'react';
+import { authService } from '@services/authService';
+import { formatDateTime } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { Session } from '@types';
+
+const ActiveSessionsPanel: FC = memo(() => {
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [revoking, setRevoking] = useState<string | null>(null);
+
+    const loadSessions = useCallback(async () => {
+        setError(null);
+        try {
+            setSessions(await authService.getSessions());
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not load sessions'));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadSessions();
+    }, [loadSessions]);
+
+    const handleRevoke = async (id: string) => {
+        setRevoking(id);
+        try {
+            await authService.revokeSession(id);
+            await loadSessions();
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not revoke the session'));
+        } finally {
+            setRevoking(null);
+        }
+    };
+
+    const handleRevokeOthers = async () => {
+        if (!window.confirm('Sign out every other device?')) return;
+
+        setRevoking('others');
+        try {
+            await authService.revokeOtherSessions();
+            await loadSessions();
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not revoke sessions'));
+        } finally {
+            setRevoking(null);
+        }
+    };
+
+    const hasOtherSessions = sessions.some((session) => !session.current);
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-semibold text-gray-700">Active sessions</h2>
+                {hasOtherSessions && (
+                    <button
+                        type="button"
+                        onClick={handleRevokeOthers}
+                        disabled={revoking !== null}
+                        className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                        Sign out all other devices
+                    </button>
+                )}
+            </div>
+            <p className="text-gray-600 mb-4">Devices currently signed in to your account</p>
+
+            {error && (
+                <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    {error}
+                </div>
+            )}
+
+            {loading ? (
+                <p className="text-gray-500 text-sm">Loading sessions...</p>
+            ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                    {sessions.map((session) => (
+                        <li key={session.id} className="flex items-center justify-between px-4 py-3">
+                            <div>
+                                <p className="font-medium text-gray-800">
+                                    {session.device}
+                                    {session.current && (
+                                        <span className="ml-2 px-2 py-0.5 rounded-full bg-green-100 text-green-700 text-xs">
+                                            This device
+                                        </span>
+                                    )}
+                                </p>
+                                <p className="text-sm text-gray-500" title={session.userAgent}>
+                                    {session.ip || 'Unknown IP'} · Signed in {formatDateTime(session.createdAt)} · Last active{' '}
+                                    {formatDateTime(session.lastSeenAt)}
+                                </p>
+                            </div>
+                            {!session.current && (
+                                <button
+                                    type="button"
+                                    onClick={() => handleRevoke(session.id)}
+                                    disabled={revoking !== null}
+                                    className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                                >
+                                    {revoking === session.id ? 'Revoking...' : 'Revoke'}
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+});
+
+ActiveSessionsPanel.displayName = 'ActiveSessionsPanel';
+
+export default ActiveSessionsPanel;
@@ -0,0 +1,253 @@
+import { memo, useCallback, useEffect, useState, type FC, type FormEvent } from 'react';
+import { authService } from '@services/authService';
+import { apiKeyService } from '@services/apiKeyService';
+import { formatDateTime } from '@utils/format';
+import { getErrorMessage, getValidationErrors } from '@utils/errors';
+import type { ApiKey, ApiKeySecret, Permission, User } from '@types';
+
+const inputClassName =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClassName =
+    'bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50';
+
+const DEFAULT_RATE_LIMIT = 60;
+
+const ApiKeysPanel: FC = memo(() => {
+    const currentUser = authService.getCurrentUser() as User | null;
+    // Keys can only carry scopes the creator holds
+    const grantableScopes = currentUser?.permissions || [];
+
+    const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [creating, setCreating] = useState(false);
+    const [name, setName] = useState('');
+    const [scopes, setScopes] = useState<Permission[]>([]);
+    const [rateLimit, setRateLimit] = useState(String(DEFAULT_RATE_LIMIT));
+    const [expiresAt, setExpiresAt] = useState('');
+    const [revealed, setRevealed] = useState<ApiKeySecret | null>(null);
+
+    const loadApiKeys = useCallback(async () => {
+        setError(null);
+        try {
+            setApiKeys(await apiKeyService.getApiKeys());
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not load API keys'));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadApiKeys();
+    }, [loadApiKeys]);
+
+    const resetForm = () => {
+        setCreating(false);
+        setName('');
+        setScopes([]);
+        setRateLimit(String(DEFAULT_RATE_LIMIT));
+        setExpiresAt('');
+    };
+
+    const toggleScope = (scope: Permission) => {
+        setScopes((current) =>
+            current.includes(scope) ? current.filter((item) => item !== scope) : [...current, scope]
+        );
+    };
+
+    const handleCreate = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setError(null);
+        setBusy('create');
+        try {
+            const result = await apiKeyService.createApiKey({
+                name,
+                scopes,
+                rateLimit: Number(rateLimit),
+                ...(expiresAt && { expiresAt: new Date(expiresAt).toISOString() }),
+            });
+            setRevealed(result);
+            resetForm();
+            await loadApiKeys();
+        } catch (err) {
+            setError(getValidationErrors(err).join(', ') || getErrorMessage(err, 'Could not create the API key'));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRotate = async (apiKey: ApiKey) => {
+        if (!window.confirm(`Rotate "${apiKey.name}"? The current key stops working immediately.`)) return;
+
+        setError(null);
+        setBusy(apiKey.id);
+        try {
+            setRevealed(await apiKeyService.rotateApiKey(apiKey.id));
+            await loadApiKeys();
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not rotate the API key'));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRevoke = async (apiKey: ApiKey) => {
+        if (!window.confirm(`Revoke "${apiKey.name}"? This cannot be undone.`)) return;
+
+        setError(null);
+        setBusy(apiKey.id);
+        try {
+            await apiKeyService.revokeApiKey(apiKey.id);
+            await loadApiKeys();
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not revoke the API key'));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const describeStatus = (apiKey: ApiKey) => {
+        if (apiKey.revokedAt) return `Revoked ${formatDateTime(apiKey.revokedAt)}`;
+        if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now()) return 'Expired';
+        return apiKey.expiresAt ? `Expires ${formatDateTime(apiKey.expiresAt)}` : 'Never expires';
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-semibold text-gray-700">API keys</h2>
+                {!creating && (
+                    <button type="button" className={buttonClassName} onClick={() => setCreating(true)}>
+                        New API key
+                    </button>
+                )}
+            </div>
+            <p className="text-gray-600 mb-4">Keys used by external integrations to call the /api/external routes; send the key in the X-API-Key header</p>
+
+            {error && (
+                <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    {error}
+                </div>
+            )}
+
+            {revealed && (
+                <div className="mb-4 space-y-3 px-4 py-3 rounded-lg bg-yellow-50 border border-yellow-200">
+                    <p className="text-sm text-gray-700">
+                        Copy the key for <strong>{revealed.apiKey.name}</strong> now. It will not be shown again.
+                    </p>
+                    <code className="block px-3 py-2 bg-white rounded border border-gray-200 font-mono text-sm break-all select-all">
+                        {revealed.key}
+                    </code>
+                    <button type="button" className={buttonClassName} onClick={() => setRevealed(null)}>
+                        Done
+                    </button>
+                </div>
+            )}
+
+            {creating && (
+                <form className="mb-4 space-y-4 max-w-md" onSubmit={handleCreate}>
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className={inputClassName}
+                        placeholder="Name, e.g. Warehouse sync"
+                        required
+                    />
+                    <fieldset>
+                        <legend className="text-sm font-medium text-gray-700 mb-2">Scopes</legend>
+                        <div className="grid grid-cols-2 gap-2">
+                            {grantableScopes.map((scope) => (
+                                <label key={scope} className="flex items-center gap-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={scopes.includes(scope)}
+                                        onChange={() => toggleScope(scope)}
+                                    />
+                                    <span className="font-mono">{scope}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+                    <label className="block text-sm text-gray-700">
+                        Requests per minute
+                        <input
+                            type="number"
+                            min={1}
+                            value={rateLimit}
+                            onChange={(e) => setRateLimit(e.target.value)}
+                            className={`${inputClassName} mt-1`}
+                            required
+                        />
+                    </label>
+                    <label className="block text-sm text-gray-700">
+                        Expires (optional)
+                        <input
+                            type="datetime-local"
+                            value={expiresAt}
+                            onChange={(e) => setExpiresAt(e.target.value)}
+                            className={`${inputClassName} mt-1`}
+                        />
+                    </label>
+                    <div className="flex items-center gap-4">
+                        <button type="submit" className={buttonClassName} disabled={busy !== null || scopes.length === 0}>
+                            {busy === 'create' ? 'Creating...' : 'Create key'}
+                        </button>
+                        <button type="button" className="text-gray-600 hover:text-gray-800" onClick={resetForm}>
+                            Cancel
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {loading ? (
+                <p className="text-gray-500 text-sm">Loading API keys...</p>
+            ) : apiKeys.length === 0 ? (
+                <p className="text-gray-500 text-sm">No API keys yet</p>
+            ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                    {apiKeys.map((apiKey) => (
+                        <li key={apiKey.id} className="flex items-center justify-between px-4 py-3">
+                            <div className={apiKey.revokedAt ? 'opacity-60' : undefined}>
+                                <p className="font-medium text-gray-800">
+                                    {apiKey.name}
+                                    <span className="ml-2 font-mono text-sm text-gray-500">mk_{apiKey.prefix}_…</span>
+                                </p>
+                                <p className="text-sm text-gray-500">
+                                    {apiKey.scopes.join(', ')} · {apiKey.rateLimit}/min · {describeStatus(apiKey)} · Last
+                                    used {apiKey.lastUsedAt ? formatDateTime(apiKey.lastUsedAt) : 'never'}
+                                </p>
+                            </div>
+                            {!apiKey.revokedAt && (
+                                <div className="flex items-center gap-4">
+                                    <button
+                                        type="button"
+                                        onClick={() => handleRotate(apiKey)}
+                                        disabled={busy !== null}
+                                        className="text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                                    >
+                                        Rotate
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleRevoke(apiKey)}
+                                        disabled={busy !== null}
+                                        className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                                    >
+                                        {busy === apiKey.id ? 'Working...' : 'Revoke'}
+                                    </button>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+});
+
+ApiKeysPanel.displayName = 'ApiKeysPanel';
+
+export default ApiKeysPanel;
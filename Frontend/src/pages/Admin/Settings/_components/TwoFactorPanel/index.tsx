@@ -0,0 +1,177 @@
+import { memo, useState, type FC, type FormEvent } from 'react';
+import { authService } from '@services/authService';
+import type { MfaSetup, User } from '@types';
+import { getErrorMessage } from '@utils/errors';
+
+type Step = 'idle' | 'enrolling' | 'recovery' | 'disabling';
+
+const inputClassName =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+const buttonClassName =
+    'bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50';
+
+const TwoFactorPanel: FC = memo(() => {
+    const currentUser = authService.getCurrentUser() as User | null;
+    const [enabled, setEnabled] = useState(!!currentUser?.mfaEnabled);
+    const [step, setStep] = useState<Step>('idle');
+    const [setup, setSetup] = useState<MfaSetup | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+    const [code, setCode] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const run = async (action: () => Promise<void>) => {
+        setBusy(true);
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(getErrorMessage(err, 'Something went wrong'));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleStart = () =>
+        run(async () => {
+            setSetup(await authService.setupMfa());
+            setStep('enrolling');
+        });
+
+    const handleEnable = (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        run(async () => {
+            const result = await authService.enableMfa(code);
+            setRecoveryCodes(result.recoveryCodes);
+            setEnabled(true);
+            setStep('recovery');
+            setCode('');
+            await authService.getProfile();
+        });
+    };
+
+    const handleDisable = (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        run(async () => {
+            await authService.disableMfa(password, code);
+            setEnabled(false);
+            setStep('idle');
+            setCode('');
+            setPassword('');
+            await authService.getProfile();
+        });
+    };
+
+    return (
+        <div>
+            <h2 className="text-xl font-semibold text-gray-700 mb-2">Two-factor authentication</h2>
+            <p className="text-gray-600 mb-4">
+                {enabled
+                    ? 'Two-factor authentication is on. Logins require a code from your authenticator app.'
+                    : 'Protect your admin account with a code from an authenticator app.'}
+            </p>
+
+            {error && (
+                <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    {error}
+                </div>
+            )}
+
+            {step === 'idle' && (
+                enabled ? (
+                    <button type="button" className={buttonClassName} onClick={() => setStep('disabling')}>
+                        Disable
+                    </button>
+                ) : (
+                    <button type="button" className={buttonClassName} onClick={handleStart} disabled={busy}>
+                        Set up
+                    </button>
+                )
+            )}
+
+            {step === 'enrolling' && setup && (
+                <form className="space-y-4 max-w-md" onSubmit={handleEnable}>
+                    <p className="text-sm text-gray-600">
+                        Add this account to your authenticator app by opening the{' '}
+                        <a href={setup.otpauthUrl} className="text-blue-600 hover:text-blue-700 underline">
+                            setup link
+                        </a>{' '}
+                        or entering the key manually:
+                    </p>
+                    <code className="block px-4 py-2 bg-gray-100 rounded-lg font-mono text-sm break-all">
+                        {setup.secret}
+                    </code>
+                    <input
+                        type="text"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        required
+                        autoComplete="one-time-code"
+                        className={inputClassName}
+                        placeholder="Enter the 6-digit code"
+                    />
+                    <div className="flex gap-3">
+                        <button type="submit" className={buttonClassName} disabled={busy}>
+                            Enable
+                        </button>
+                        <button type="button" className="text-gray-600 hover:text-gray-800" onClick={() => setStep('idle')}>
+                            Cancel
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {step === 'recovery' && (
+                <div className="space-y-4 max-w-md">
+                    <p className="text-sm text-gray-600">
+                        Save these recovery codes somewhere safe. Each code works once and they will not be shown again.
+                    </p>
+                    <ul className="grid grid-cols-2 gap-2 px-4 py-3 bg-gray-100 rounded-lg font-mono text-sm">
+                        {recoveryCodes.map((recoveryCode) => (
+                            <li key={recoveryCode}>{recoveryCode}</li>
+                        ))}
+                    </ul>
+                    <button type="button" className={buttonClassName} onClick={() => setStep('idle')}>
+                        Done
+                    </button>
+                </div>
+            )}
+
+            {step === 'disabling' && (
+                <form className="space-y-4 max-w-md" onSubmit={handleDisable}>
+                    <input
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        required
+                        autoComplete="current-password"
+                        className={inputClassName}
+                        placeholder="Current password"
+                    />
+                    <input
+                        type="text"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        required
+                        autoComplete="one-time-code"
+                        className={inputClassName}
+                        placeholder="Authenticator or recovery code"
+                    />
+                    <div className="flex gap-3">
+                        <button type="submit" className={buttonClassName} disabled={busy}>
+                            Disable two-factor
+                        </button>
+                        <button type="button" className="text-gray-600 hover:text-gray-800" onClick={() => setStep('idle')}>
+                            Cancel
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+});
+
+TwoFactorPanel.displayName = 'TwoFactorPanel';
+
+export default TwoFactorPanel;
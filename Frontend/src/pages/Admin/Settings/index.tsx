@@ -1,6 +1,13 @@
 import { memo, type FC } from 'react';
+import TwoFactorPanel from './_components/TwoFactorPanel';
+import ActiveSessionsPanel from './_components/ActiveSessionsPanel';
+import ApiKeysPanel from './_components/ApiKeysPanel';
+import { authService } from '@services/authService';
+import { PERMISSIONS } from '@constants';
 
 const Settings: FC = memo(() => {
+    const canManageApiKeys = authService.hasPermission(PERMISSIONS.API_KEYS_MANAGE);
+
     return (
         <div className="container mx-auto px-4 py-8">
             <h1 className="text-3xl font-bold text-gray-800 mb-6">Settings</h1>
@@ -14,6 +21,9 @@ const Settings: FC = memo(() => {
                         <h2 className="text-xl font-semibold text-gray-700 mb-2">Security</h2>
                         <p className="text-gray-600">Manage security and privacy settings</p>
                     </div>
+                    <TwoFactorPanel />
+                    <ActiveSessionsPanel />
+                    {canManageApiKeys && <ApiKeysPanel />}
                     <div>
                         <h2 className="text-xl font-semibold text-gray-700 mb-2">Notifications</h2>
                         <p className="text-gray-600">Control notification preferences</p>
@@ -0,0 +1,164 @@
+import { memo, useRef, useState, type ChangeEvent, type FC, type FormEvent } from 'react';
+import { userService } from '@services/userService';
+import { uploadService } from '@services/uploadService';
+import type { User } from '@types';
+import { getErrorMessage, getValidationErrors } from '@utils/errors';
+
+interface ProfileFormProps {
+    user: User;
+    canWrite: boolean;
+    onSaved: (user: User) => void;
+}
+
+const inputClassName =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100';
+
+// Mirrors the avatar upload limits on the server
+const AVATAR_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+const ProfileForm: FC<ProfileFormProps> = memo(({ user, canWrite, onSaved }) => {
+    const [name, setName] = useState(user.name);
+    const [email, setEmail] = useState(user.email);
+    const [avatar, setAvatar] = useState(user.avatar || '');
+    const [isVerified, setIsVerified] = useState(!!user.isVerified);
+    const [saving, setSaving] = useState(false);
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleAvatarChange = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        if (!AVATAR_TYPES.includes(file.type)) {
+            setError('Avatar must be a JPEG, PNG, GIF or WebP image');
+            return;
+        }
+
+        setError(null);
+        setUploading(true);
+        try {
+            const uploaded = await uploadService.uploadAvatar(file);
+            setAvatar(uploaded.url);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not upload the avatar'));
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setError(null);
+        setNotice(null);
+        setSaving(true);
+        try {
+            const updated = await userService.updateUser(user.id, { name, email, avatar, isVerified });
+            setNotice('Profile saved');
+            onSaved(updated);
+        } catch (err) {
+            setError(getValidationErrors(err).join(', ') || getErrorMessage(err, 'Could not save the profile'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <form className="space-y-4" onSubmit={handleSubmit}>
+            <h2 className="text-xl font-semibold text-gray-700">Profile</h2>
+
+            {error && (
+                <div className="px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    {error}
+                </div>
+            )}
+            {notice && <div className="px-4 py-3 rounded-lg bg-green-50 text-green-700 text-sm">{notice}</div>}
+
+            <div className="flex items-center gap-4">
+                {avatar ? (
+                    <img
+                        src={uploadService.getFileUrl(avatar)}
+                        alt={`${user.name}'s avatar`}
+                        className="w-16 h-16 rounded-full object-cover border border-gray-200"
+                    />
+                ) : (
+                    <div className="w-16 h-16 rounded-full bg-gray-200 flex items-center justify-center text-xl text-gray-500">
+                        {user.name.charAt(0).toUpperCase()}
+                    </div>
+                )}
+                {canWrite && (
+                    <div className="flex items-center gap-3">
+                        <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={uploading}
+                            className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                        >
+                            {uploading ? 'Uploading...' : 'Upload avatar'}
+                        </button>
+                        {avatar && (
+                            <button type="button" onClick={() => setAvatar('')} className="text-sm text-red-600 hover:text-red-700">
+                                Remove
+                            </button>
+                        )}
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept={AVATAR_TYPES.join(',')}
+                            onChange={handleAvatarChange}
+                            className="hidden"
+                        />
+                    </div>
+                )}
+            </div>
+
+            <label className="block text-sm text-gray-700">
+                Name
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    disabled={!canWrite}
+                    className={`${inputClassName} mt-1`}
+                    required
+                />
+            </label>
+            <label className="block text-sm text-gray-700">
+                Email
+                <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    disabled={!canWrite}
+                    className={`${inputClassName} mt-1`}
+                    required
+                />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={isVerified}
+                    onChange={(e) => setIsVerified(e.target.checked)}
+                    disabled={!canWrite}
+                />
+                Email verified
+            </label>
+
+            {canWrite && (
+                <button
+                    type="submit"
+                    disabled={saving || uploading}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                    {saving ? 'Saving...' : 'Save changes'}
+                </button>
+            )}
+        </form>
+    );
+});
+
+ProfileForm.displayName = 'ProfileForm';
+
+export default ProfileForm;
@@ -0,0 +1,79 @@
+import { memo, useEffect, useState, type FC } from 'react';
+import { userService } from '@services/userService';
+import { formatDateTime } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { UserActivity, UserActivityType } from '@types';
+
+interface UserActivityPanelProps {
+    userId: string;
+    // Bump to reload after an action on the page
+    refreshKey?: number;
+}
+
+const ACTIVITY_LABELS: Record<UserActivityType, string> = {
+    account_created: 'Account created',
+    signed_in: 'Signed in',
+    signed_out: 'Signed out',
+    banned: 'Account disabled',
+};
+
+const UserActivityPanel: FC<UserActivityPanelProps> = memo(({ userId, refreshKey = 0 }) => {
+    const [activity, setActivity] = useState<UserActivity[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        userService
+            .getUserActivity(userId)
+            .then((events) => {
+                if (!cancelled) setActivity(events);
+            })
+            .catch((err) => {
+                if (!cancelled) setError(getErrorMessage(err, 'Could not load activity'));
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [userId, refreshKey]);
+
+    return (
+        <div>
+            <h2 className="text-xl font-semibold text-gray-700 mb-2">Recent activity</h2>
+
+            {error && (
+                <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    {error}
+                </div>
+            )}
+
+            {loading ? (
+                <p className="text-gray-500 text-sm">Loading activity...</p>
+            ) : (
+                <ol className="space-y-2">
+                    {activity.map((event, index) => (
+                        <li key={`${event.type}-${event.at}-${index}`} className="flex justify-between text-sm">
+                            <span className="text-gray-800">
+                                {ACTIVITY_LABELS[event.type]}
+                                {event.device && <span className="text-gray-500"> · {event.device}</span>}
+                                {event.ip && <span className="text-gray-500"> · {event.ip}</span>}
+                            </span>
+                            <time className="text-gray-500" dateTime={event.at}>
+                                {formatDateTime(event.at)}
+                            </time>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+});
+
+UserActivityPanel.displayName = 'UserActivityPanel';
+
+export default UserActivityPanel;
@@ -0,0 +1,94 @@
+import { memo, useCallback, useEffect, useState, type FC } from 'react';
+import { userService } from '@services/userService';
+import { formatDateTime } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { Session } from '@types';
+
+interface UserSessionsPanelProps {
+    userId: string;
+    canWrite: boolean;
+    onRevoked?: () => void;
+}
+
+const UserSessionsPanel: FC<UserSessionsPanelProps> = memo(({ userId, canWrite, onRevoked }) => {
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [revoking, setRevoking] = useState(false);
+
+    const loadSessions = useCallback(async () => {
+        setError(null);
+        try {
+            setSessions(await userService.getUserSessions(userId));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not load sessions'));
+        } finally {
+            setLoading(false);
+        }
+    }, [userId]);
+
+    useEffect(() => {
+        loadSessions();
+    }, [loadSessions]);
+
+    const handleRevokeAll = async () => {
+        if (!window.confirm('Sign this user out of every device?')) return;
+
+        setRevoking(true);
+        try {
+            await userService.revokeUserSessions(userId);
+            await loadSessions();
+            onRevoked?.();
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not revoke sessions'));
+        } finally {
+            setRevoking(false);
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-semibold text-gray-700">Active sessions</h2>
+                {canWrite && sessions.length > 0 && (
+                    <button
+                        type="button"
+                        onClick={handleRevokeAll}
+                        disabled={revoking}
+                        className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                        Sign out everywhere
+                    </button>
+                )}
+            </div>
+
+            {error && (
+                <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    {error}
+                </div>
+            )}
+
+            {loading ? (
+                <p className="text-gray-500 text-sm">Loading sessions...</p>
+            ) : sessions.length === 0 ? (
+                <p className="text-gray-500 text-sm">Not signed in on any device</p>
+            ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                    {sessions.map((session) => (
+                        <li key={session.id} className="px-4 py-3">
+                            <p className="font-medium text-gray-800">{session.device}</p>
+                            <p className="text-sm text-gray-500" title={session.userAgent}>
+                                {session.ip || 'Unknown IP'} · Signed in {formatDateTime(session.createdAt)} · Last active{' '}
+                                {formatDateTime(session.lastSeenAt)}
+                            </p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+});
+
+UserSessionsPanel.displayName = 'UserSessionsPanel';
+
+export default UserSessionsPanel;
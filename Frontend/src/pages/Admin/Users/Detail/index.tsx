@@ -1,20 +1,90 @@
-import { memo, type FC } from 'react';
+import { memo, useCallback, useEffect, useState, type FC } from 'react';
 import { useParams, Link } from 'react-router-dom';
+import Loading from '@components/Loading';
+import { authService } from '@services/authService';
+import { userService } from '@services/userService';
+import { PERMISSIONS, ROUTES } from '@constants';
+import { formatDateTime } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { User } from '@types';
+import ProfileForm from './_components/ProfileForm';
+import UserSessionsPanel from './_components/UserSessionsPanel';
+import UserActivityPanel from './_components/UserActivityPanel';
 
 const UserDetail: FC = memo(() => {
     const { id } = useParams<{ id: string }>();
+    const canWrite = authService.hasPermission(PERMISSIONS.USERS_WRITE);
+
+    const [user, setUser] = useState<User | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [activityKey, setActivityKey] = useState(0);
+
+    const loadUser = useCallback(async () => {
+        if (!id) return;
+        setError(null);
+        try {
+            setUser(await userService.getUser(id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Could not load the user'));
+        } finally {
+            setLoading(false);
+        }
+    }, [id]);
+
+    useEffect(() => {
+        loadUser();
+    }, [loadUser]);
+
+    const refreshActivity = useCallback(() => setActivityKey((key) => key + 1), []);
 
     return (
         <div className="container mx-auto px-4 py-8">
             <div className="mb-6">
-                <Link to="/admin/users" className="text-blue-600 hover:text-blue-800">
+                <Link to={ROUTES.USERS} className="text-blue-600 hover:text-blue-800">
                     ← Back to Users
                 </Link>
             </div>
-            <div className="bg-white rounded-lg shadow p-6">
-                <h1 className="text-3xl font-bold text-gray-800 mb-4">User Detail</h1>
-                <p className="text-gray-600">User ID: {id}</p>
-            </div>
+
+            {loading ? (
+                <Loading />
+            ) : error || !user ? (
+                <div className="bg-white rounded-lg shadow p-6">
+                    <p className="text-red-700" role="alert">
+                        {error || 'User not found'}
+                    </p>
+                </div>
+            ) : (
+                <>
+                    <div className="bg-white rounded-lg shadow p-6 mb-6">
+                        <h1 className="text-3xl font-bold text-gray-800 mb-2">{user.name}</h1>
+                        <p className="text-gray-600">
+                            {user.email} · {user.role} · Joined {formatDateTime(user.createdAt)}
+                            {user.mfaEnabled && ' · Two-factor enabled'}
+                        </p>
+                        {user.bannedAt && (
+                            <p className="mt-2 px-4 py-2 rounded-lg bg-red-50 text-red-700 text-sm">
+                                Disabled {formatDateTime(user.bannedAt)}
+                                {user.banReason && `: ${user.banReason}`}
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <div className="bg-white rounded-lg shadow p-6">
+                            <ProfileForm key={user.id} user={user} canWrite={canWrite} onSaved={setUser} />
+                        </div>
+                        <div className="space-y-6">
+                            <div className="bg-white rounded-lg shadow p-6">
+                                <UserSessionsPanel userId={user.id} canWrite={canWrite} onRevoked={refreshActivity} />
+                            </div>
+                            <div className="bg-white rounded-lg shadow p-6">
+                                <UserActivityPanel userId={user.id} refreshKey={activityKey} />
+                            </div>
+                        </div>
+                    </div>
+                </>
+            )}
         </div>
     );
 });
@@ -0,0 +1,107 @@
+import { memo, useState, type FC, type FormEvent } from 'react';
+import { userService } from '@services/userService';
+import { USER_ROLES } from '@constants';
+import type { User, UserRole } from '@types';
+import { getErrorMessage, getValidationErrors } from '@utils/errors';
+
+interface CreateUserFormProps {
+    onCreated: (user: User) => void;
+    onCancel: () => void;
+}
+
+const inputClassName =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const CreateUserForm: FC<CreateUserFormProps> = memo(({ onCreated, onCancel }) => {
+    const [name, setName] = useState('');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [role, setRole] = useState<UserRole>('user');
+    const [isVerified, setIsVerified] = useState(true);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setError(null);
+        setSubmitting(true);
+        try {
+            onCreated(await userService.createUser({ name, email, password, role, isVerified }));
+        } catch (err) {
+            setError(getValidationErrors(err).join(', ') || getErrorMessage(err, 'Could not create the user'));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <form className="bg-white rounded-lg shadow p-6 mb-6 space-y-4" onSubmit={handleSubmit}>
+            <h2 className="text-xl font-semibold text-gray-700">New user</h2>
+            {error && (
+                <div className="px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                    {error}
+                </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Name"
+                    className={inputClassName}
+                    required
+                />
+                <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="Email"
+                    autoComplete="off"
+                    className={inputClassName}
+                    required
+                />
+                <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Temporary password"
+                    autoComplete="new-password"
+                    className={inputClassName}
+                    required
+                />
+                <select
+                    value={role}
+                    onChange={(e) => setRole(e.target.value as UserRole)}
+                    aria-label="Role"
+                    className={`${inputClassName} bg-white`}
+                >
+                    {Object.values(USER_ROLES).map((option) => (
+                        <option key={option} value={option}>
+                            {option}
+                        </option>
+                    ))}
+                </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={isVerified} onChange={(e) => setIsVerified(e.target.checked)} />
+                Mark email as verified
+            </label>
+            <div className="flex items-center gap-4">
+                <button
+                    type="submit"
+                    disabled={submitting}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                    {submitting ? 'Creating...' : 'Create user'}
+                </button>
+                <button type="button" className="text-gray-600 hover:text-gray-800" onClick={onCancel}>
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+});
+
+CreateUserForm.displayName = 'CreateUserForm';
+
+export default CreateUserForm;
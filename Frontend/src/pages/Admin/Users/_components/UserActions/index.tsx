@@ -0,0 +1,111 @@
+import { memo, useState, type FC } from 'react';
+import { Link } from 'react-router-dom';
+import { userService } from '@services/userService';
+import { ROUTES, USER_ROLES } from '@constants';
+import type { User, UserRole } from '@types';
+import { getErrorMessage } from '@utils/errors';
+
+interface UserActionsProps {
+    user: User;
+    isSelf: boolean;
+    canWrite: boolean;
+    canDelete: boolean;
+    onChanged: () => void;
+    onError: (message: string) => void;
+}
+
+const linkButtonClassName = 'text-sm disabled:opacity-50';
+
+const UserActions: FC<UserActionsProps> = memo(({ user, isSelf, canWrite, canDelete, onChanged, onError }) => {
+    const [busy, setBusy] = useState(false);
+
+    const run = async (action: () => Promise<unknown>, failure: string) => {
+        setBusy(true);
+        try {
+            await action();
+            onChanged();
+        } catch (err) {
+            onError(getErrorMessage(err, failure));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRoleChange = (role: UserRole) => {
+        if (role === user.role) return;
+        if (!window.confirm(`Change ${user.name}'s role to ${role}? They will be signed out everywhere.`)) return;
+        run(() => userService.changeRole(user.id, role), 'Could not change the role');
+    };
+
+    const handleVerify = () => run(() => userService.updateUser(user.id, { isVerified: true }), 'Could not verify the user');
+
+    const handleToggleBan = () => {
+        if (user.bannedAt) {
+            run(() => userService.unbanUser(user.id), 'Could not enable the user');
+            return;
+        }
+        const reason = window.prompt(`Disable ${user.name}? Optionally give a reason.`, '');
+        if (reason === null) return;
+        run(() => userService.banUser(user.id, reason), 'Could not disable the user');
+    };
+
+    const handleDelete = () => {
+        if (!window.confirm(`Delete ${user.name} (${user.email})? This cannot be undone.`)) return;
+        run(() => userService.deleteUser(user.id), 'Could not delete the user');
+    };
+
+    return (
+        <div className="flex items-center justify-end gap-3">
+            <select
+                value={user.role}
+                onChange={(e) => handleRoleChange(e.target.value as UserRole)}
+                disabled={!canWrite || isSelf || busy}
+                aria-label={`Role of ${user.name}`}
+                className="px-2 py-1 border border-gray-300 rounded bg-white text-sm disabled:opacity-60"
+            >
+                {Object.values(USER_ROLES).map((role) => (
+                    <option key={role} value={role}>
+                        {role}
+                    </option>
+                ))}
+            </select>
+            <Link to={ROUTES.USER_DETAIL(user.id)} className="text-sm text-blue-600 hover:text-blue-800">
+                View
+            </Link>
+            {canWrite && !user.isVerified && (
+                <button
+                    type="button"
+                    onClick={handleVerify}
+                    disabled={busy}
+                    className={`${linkButtonClassName} text-green-600 hover:text-green-700`}
+                >
+                    Verify
+                </button>
+            )}
+            {canWrite && !isSelf && (
+                <button
+                    type="button"
+                    onClick={handleToggleBan}
+                    disabled={busy}
+                    className={`${linkButtonClassName} text-yellow-700 hover:text-yellow-800`}
+                >
+                    {user.bannedAt ? 'Enable' : 'Disable'}
+                </button>
+            )}
+            {canDelete && !isSelf && (
+                <button
+                    type="button"
+                    onClick={handleDelete}
+                    disabled={busy}
+                    className={`${linkButtonClassName} text-red-600 hover:text-red-700`}
+                >
+                    Delete
+                </button>
+            )}
+        </div>
+    );
+});
+
+UserActions.displayName = 'UserActions';
+
+export default UserActions;
@@ -0,0 +1,72 @@
+import { memo, type FC } from 'react';
+import { USER_ROLES } from '@constants';
+import type { UserRole } from '@types';
+
+export interface UserFiltersValue {
+    search: string;
+    role: UserRole | '';
+    isVerified: '' | 'true' | 'false';
+    banned: '' | 'true' | 'false';
+}
+
+interface UserFiltersProps {
+    value: UserFiltersValue;
+    onChange: (value: UserFiltersValue) => void;
+}
+
+const selectClassName =
+    'px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const UserFilters: FC<UserFiltersProps> = memo(({ value, onChange }) => {
+    const update = (changes: Partial<UserFiltersValue>) => onChange({ ...value, ...changes });
+
+    return (
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+            <input
+                type="search"
+                value={value.search}
+                onChange={(e) => update({ search: e.target.value })}
+                placeholder="Search name or email"
+                aria-label="Search users"
+                className="flex-1 min-w-[200px] px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+                value={value.role}
+                onChange={(e) => update({ role: e.target.value as UserRole | '' })}
+                aria-label="Filter by role"
+                className={selectClassName}
+            >
+                <option value="">All roles</option>
+                {Object.values(USER_ROLES).map((role) => (
+                    <option key={role} value={role}>
+                        {role}
+                    </option>
+                ))}
+            </select>
+            <select
+                value={value.isVerified}
+                onChange={(e) => update({ isVerified: e.target.value as UserFiltersValue['isVerified'] })}
+                aria-label="Filter by verification"
+                className={selectClassName}
+            >
+                <option value="">Any verification</option>
+                <option value="true">Verified</option>
+                <option value="false">Unverified</option>
+            </select>
+            <select
+                value={value.banned}
+                onChange={(e) => update({ banned: e.target.value as UserFiltersValue['banned'] })}
+                aria-label="Filter by status"
+                className={selectClassName}
+            >
+                <option value="">Any status</option>
+                <option value="false">Active</option>
+                <option value="true">Disabled</option>
+            </select>
+        </div>
+    );
+});
+
+UserFilters.displayName = 'UserFilters';
+
+export default UserFilters;
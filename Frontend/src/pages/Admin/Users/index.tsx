@@ -1,16 +1,182 @@
-import { memo, type FC } from 'react';
+import { memo, useCallback, useEffect, useMemo, useRef, useState, type FC } from 'react';
+import { useNavigate } from 'react-router-dom';
+import DataTable, { type DataTableColumn } from '@components/DataTable';
+import Pagination from '@components/Pagination';
+import { useDebounce } from '@hooks/useDebounce';
+import { authService } from '@services/authService';
+import { userService } from '@services/userService';
+import { PERMISSIONS, ROUTES } from '@constants';
+import { formatDate } from '@utils/format';
+import { getErrorMessage } from '@utils/errors';
+import type { PaginatedResponse, PaginationParams, User } from '@types';
+import UserFilters, { type UserFiltersValue } from './_components/UserFilters';
+import UserActions from './_components/UserActions';
+import CreateUserForm from './_components/CreateUserForm';
+
+const PAGE_SIZE = 10;
+
+const EMPTY_FILTERS: UserFiltersValue = { search: '', role: '', isVerified: '', banned: '' };
+
+const toBoolean = (value: '' | 'true' | 'false') => (value === '' ? undefined : value === 'true');
 
 const Users: FC = memo(() => {
+    const navigate = useNavigate();
+    const currentUser = authService.getCurrentUser() as User | null;
+    const canWrite = authService.hasPermission(PERMISSIONS.USERS_WRITE);
+    const canDelete = authService.hasPermission(PERMISSIONS.USERS_DELETE);
+
+    const [filters, setFilters] = useState<UserFiltersValue>(EMPTY_FILTERS);
+    const [pagination, setPagination] = useState<PaginationParams>({
+        page: 1,
+        limit: PAGE_SIZE,
+        sort: 'createdAt',
+        order: 'desc',
+    });
+    const [result, setResult] = useState<PaginatedResponse<User> | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [creating, setCreating] = useState(false);
+
+    const debouncedSearch = useDebounce(filters.search, 400);
+    // Ignore responses that arrive after a newer request was sent
+    const requestRef = useRef(0);
+
+    const loadUsers = useCallback(async () => {
+        const requestId = ++requestRef.current;
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await userService.getUsers({
+                ...pagination,
+                search: debouncedSearch.trim() || undefined,
+                role: filters.role || undefined,
+                isVerified: toBoolean(filters.isVerified),
+                banned: toBoolean(filters.banned),
+            });
+            if (requestId === requestRef.current) setResult(response);
+        } catch (err) {
+            if (requestId === requestRef.current) setError(getErrorMessage(err, 'Could not load users'));
+        } finally {
+            if (requestId === requestRef.current) setLoading(false);
+        }
+    }, [pagination, debouncedSearch, filters.role, filters.isVerified, filters.banned]);
+
+    useEffect(() => {
+        loadUsers();
+    }, [loadUsers]);
+
+    const handleFiltersChange = useCallback((value: UserFiltersValue) => {
+        setFilters(value);
+        setPagination((current) => ({ ...current, page: 1 }));
+    }, []);
+
+    const handleSortChange = useCallback((sort: string, order: 'asc' | 'desc') => {
+        setPagination((current) => ({ ...current, sort, order, page: 1 }));
+    }, []);
+
+    const handlePageChange = useCallback((page: number) => {
+        setPagination((current) => ({ ...current, page }));
+    }, []);
+
+    const columns = useMemo<DataTableColumn<User>[]>(
+        () => [
+            {
+                key: 'name',
+                label: 'Name',
+                sortable: true,
+                render: (user) => <span className="font-medium text-gray-900">{user.name}</span>,
+            },
+            { key: 'email', label: 'Email', sortable: true, render: (user) => user.email },
+            { key: 'role', label: 'Role', sortable: true, render: (user) => user.role },
+            {
+                key: 'status',
+                label: 'Status',
+                render: (user) => (
+                    <div className="flex flex-wrap gap-1">
+                        {user.bannedAt ? (
+                            <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-700 text-xs" title={user.banReason}>
+                                Disabled
+                            </span>
+                        ) : (
+                            <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-700 text-xs">Active</span>
+                        )}
+                        {!user.isVerified && (
+                            <span className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-700 text-xs">Unverified</span>
+                        )}
+                    </div>
+                ),
+            },
+            { key: 'createdAt', label: 'Joined', sortable: true, render: (user) => formatDate(user.createdAt) },
+            {
+                key: 'actions',
+                label: 'Actions',
+                className: 'text-right',
+                render: (user) => (
+                    <UserActions
+                        user={user}
+                        isSelf={user.id === currentUser?.id}
+                        canWrite={canWrite}
+                        canDelete={canDelete}
+                        onChanged={loadUsers}
+                        onError={setError}
+                    />
+                ),
+            },
+        ],
+        [currentUser?.id, canWrite, canDelete, loadUsers]
+    );
+
     return (
         <div className="container mx-auto px-4 py-8">
             <div className="flex justify-between items-center mb-6">
                 <h1 className="text-3xl font-bold text-gray-800">Users Management</h1>
-                <button className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700">
-                    Add User
-                </button>
+                {canWrite && !creating && (
+                    <button
+                        type="button"
+                        onClick={() => setCreating(true)}
+                        className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                    >
+                        Add User
+                    </button>
+                )}
             </div>
+
+            {creating && (
+                <CreateUserForm
+                    onCreated={(user) => navigate(ROUTES.USER_DETAIL(user.id))}
+                    onCancel={() => setCreating(false)}
+                />
+            )}
+
             <div className="bg-white rounded-lg shadow p-6">
-                <p className="text-gray-600">Users list will be displayed here</p>
+                <UserFilters value={filters} onChange={handleFiltersChange} />
+
+                {error && (
+                    <div className="mb-4 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm" role="alert">
+                        {error}
+                    </div>
+                )}
+
+                <DataTable
+                    columns={columns}
+                    rows={result?.data || []}
+                    rowKey={(user) => user.id}
+                    sort={pagination.sort}
+                    order={pagination.order}
+                    onSortChange={handleSortChange}
+                    loading={loading}
+                    emptyMessage="No users match these filters"
+                />
+
+                {result && (
+                    <Pagination
+                        page={result.pagination.page}
+                        totalPages={result.pagination.totalPages}
+                        total={result.pagination.total}
+                        limit={result.pagination.limit}
+                        onPageChange={handlePageChange}
+                    />
+                )}
             </div>
         </div>
     );
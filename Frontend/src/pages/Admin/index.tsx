@@ -3,6 +3,8 @@ import { Routes, Route, Navigate } from 'react-router-dom';
 import AdminHeader from './_components/layout/AdminHeader';
 import AdminFooter from './_components/layout/AdminFooter';
 import Loading from '@components/Loading';
+import ProtectedRoute from '@components/ProtectedRoute';
+import { PERMISSIONS } from '@constants';
 
 // Lazy load admin pages
 const Dashboard = lazy(() => import('./Dashboard'));
@@ -12,6 +14,8 @@ const Products = lazy(() => import('./Products'));
 const ProductDetail = lazy(() => import('./Products/Detail'));
 const Orders = lazy(() => import('./Orders'));
 const OrderDetail = lazy(() => import('./Orders/Detail'));
+const News = lazy(() => import('./News'));
+const NewsDetail = lazy(() => import('./News/Detail'));
 const Settings = lazy(() => import('./Settings'));
 
 const Admin: FC = memo(() => {
@@ -20,15 +24,74 @@ const Admin: FC = memo(() => {
             <AdminHeader />
             <main className="min-h-screen bg-gray-50">
                 <Suspense fallback={<Loading size="lg" fullScreen />}>
+                    {/* Each section also needs the permission its API calls require */}
                     <Routes>
                         <Route path="/" element={<Navigate to="/admin/dashboard" replace />} />
                         <Route path="dashboard" element={<Dashboard />} />
-                        <Route path="users" element={<Users />} />
-                        <Route path="users/:id" element={<UserDetail />} />
-                        <Route path="products" element={<Products />} />
-                        <Route path="products/:id" element={<ProductDetail />} />
-                        <Route path="orders" element={<Orders />} />
-                        <Route path="orders/:id" element={<OrderDetail />} />
+                        <Route
+                            path="users"
+                            element={
+                                <ProtectedRoute requiredPermission={PERMISSIONS.USERS_READ}>
+                                    <Users />
+                                </ProtectedRoute>
+                            }
+                        />
+                        <Route
+                            path="users/:id"
+                            element={
+                                <ProtectedRoute requiredPermission={PERMISSIONS.USERS_READ}>
+                                    <UserDetail />
+                                </ProtectedRoute>
+                            }
+                        />
+                        <Route
+                            path="products"
+                            element={
+                                <ProtectedRoute requiredPermission={PERMISSIONS.PRODUCTS_READ}>
+                                    <Products />
+                                </ProtectedRoute>
+                            }
+                        />
+                        <Route
+                            path="products/:id"
+                            element={
+                                <ProtectedRoute requiredPermission={PERMISSIONS.PRODUCTS_READ}>
+                                    <ProductDetail />
+                                </ProtectedRoute>
+                            }
+                        />
+                        <Route
+                            path="orders"
+                            element={
+                                <ProtectedRoute requiredPermission={PERMISSIONS.ORDERS_READ}>
+                                    <Orders />
+                                </ProtectedRoute>
+                            }
+                        />
+                        <Route
+                            path="orders/:id"
+                            element={
+                                <ProtectedRoute requiredPermission={PERMISSIONS.ORDERS_READ}>
+                                    <OrderDetail />
+                                </ProtectedRoute>
+                            }
+                        />
+                        <Route
+                            path="news"
+                            element={
+                                <ProtectedRoute requiredPermission={PERMISSIONS.NEWS_WRITE}>
+                                    <News />
+                                </ProtectedRoute>
+                            }
+                        />
+                        <Route
+                            path="news/:id"
+                            element={
+                                <ProtectedRoute requiredPermission={PERMISSIONS.NEWS_WRITE}>
+                                    <NewsDetail />
+                                </ProtectedRoute>
+                            }
+                        />
                         <Route path="settings" element={<Settings />} />
                         <Route path="*" element={<Navigate to="/admin/dashboard" replace />} />
                     </Routes>
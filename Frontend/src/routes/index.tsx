@@ -1,6 +1,6 @@
 import React, { lazy, type ReactElement } from "react";
 import { Route } from "react-router-dom";
-import type { UserRole } from "@types";
+import type { Permission, UserRole } from "@types";
 
 // Lazy load components
 const ProtectedRoute = lazy(() => import("@components/ProtectedRoute"));
@@ -10,15 +10,11 @@ const PublicRoute = lazy(() => import("@components/PublicRoute"));
 const Home = lazy(() => import(/* webpackPrefetch: true */ "@pages/Home"));
 const Admin = lazy(() => import(/* webpackPrefetch: true */ "@pages/Admin"));
 const Auth = lazy(() => import(/* webpackPrefetch: true */ "@pages/Admin/Auth"));
+const VerifyEmail = lazy(() => import("@pages/Admin/Auth/VerifyEmail"));
+const ForgotPassword = lazy(() => import("@pages/Admin/Auth/ForgotPassword"));
+const ResetPassword = lazy(() => import("@pages/Admin/Auth/ResetPassword"));
 const NotFound = lazy(() => import("@pages/NotFound"));
 
-// User roles constant
-const USER_ROLES = {
-    ADMIN: 'admin' as const,
-    USER: 'user' as const,
-    GUEST: 'guest' as const,
-};
-
 // Route configuration with proper typing
 interface RouteConfigItem {
     path: string;
@@ -27,6 +23,7 @@ interface RouteConfigItem {
     isProtected?: boolean;
     isRestricted?: boolean;
     requiredRole?: UserRole;
+    requiredPermission?: Permission;
 }
 
 const routesConfig: RouteConfigItem[] = [
@@ -41,7 +38,7 @@ const routesConfig: RouteConfigItem[] = [
         path: "/admin/*",
         component: Admin,
         isProtected: true,
-        requiredRole: USER_ROLES.ADMIN,
+        requiredPermission: 'admin:access',
     },
     {
         path: "/admin/auth",
@@ -49,6 +46,23 @@ const routesConfig: RouteConfigItem[] = [
         isProtected: false,
         isRestricted: true, // Redirect to home if already logged in
     },
+    {
+        path: "/admin/auth/verify-email",
+        component: VerifyEmail,
+        isProtected: false,
+    },
+    {
+        path: "/admin/auth/forgot-password",
+        component: ForgotPassword,
+        isProtected: false,
+        isRestricted: true,
+    },
+    {
+        path: "/admin/auth/reset-password",
+        component: ResetPassword,
+        isProtected: false,
+        isRestricted: true,
+    },
     {
         path: "*",
         component: NotFound,
@@ -57,7 +71,7 @@ const routesConfig: RouteConfigItem[] = [
 ];
 
 // Generate Route components dynamically with memoization
-const routes: ReactElement[] = routesConfig.map(({ path, component, index, isProtected, isRestricted, requiredRole }) => {
+const routes: ReactElement[] = routesConfig.map(({ path, component, index, isProtected, isRestricted, requiredRole, requiredPermission }) => {
     const Component = component;
 
     let element: ReactElement = <Component />;
@@ -65,7 +79,7 @@ const routes: ReactElement[] = routesConfig.map(({ path, component, index, isPro
     // Wrap with ProtectedRoute if needed
     if (isProtected) {
         element = (
-            <ProtectedRoute requiredRole={requiredRole}>
+            <ProtectedRoute requiredRole={requiredRole} requiredPermission={requiredPermission}>
                 {element}
             </ProtectedRoute>
         );
@@ -4,15 +4,16 @@
  * Enhanced with security features
  */
 
-import axios from 'axios';
+import axios, { type AxiosRequestConfig } from 'axios';
 import ENV from '@config/env';
 import { STORAGE_KEYS, HTTP_STATUS, MESSAGES } from '@constants';
 import {
     secureStorage,
     isTokenExpired,
-    generateCSRFToken,
     RateLimiter,
 } from '@utils/security';
+import tokenStorage from './tokenStorage';
+import type { ApiPath, ApiPaths, ApiRequestArgs, ApiRequestOptions, ApiResult, HttpMethod } from '@types';
 
 // Rate limiter instance
 const rateLimiter = new RateLimiter(100, 60000); // 100 requests per minute
@@ -25,14 +26,36 @@ const apiClient = axios.create({
         'Content-Type': 'application/json',
         'X-Requested-With': 'XMLHttpRequest',
     },
-    withCredentials: false, // Set to true if using cookies
-    // Security headers
-    validateStatus: (status) => status < 500, // Don't throw on client errors
+    // Cookie mode needs the httpOnly refresh cookie sent along
+    withCredentials: tokenStorage.isCookieMode,
 });
 
+// CSRF token from GET /csrf, checked by the server on unsafe methods in cookie mode
+let csrfToken: string | null = null;
+let csrfPromise: Promise<string> | null = null;
+
+const UNSAFE_METHODS = ['post', 'put', 'patch', 'delete'];
+
+const getCSRFToken = (): Promise<string> => {
+    if (csrfToken) return Promise.resolve(csrfToken);
+
+    if (!csrfPromise) {
+        csrfPromise = axios
+            .get(`${ENV.API_BASE_URL}/csrf`, { withCredentials: true })
+            .then((response) => {
+                csrfToken = response.data.data.csrfToken as string;
+                return csrfToken;
+            })
+            .finally(() => {
+                csrfPromise = null;
+            });
+    }
+    return csrfPromise;
+};
+
 // Request interceptor with enhanced security
 apiClient.interceptors.request.use(
-    (config) => {
+    async (config) => {
         // Rate limiting check
         const userId = secureStorage.getItem(STORAGE_KEYS.USER_DATA)?.id || 'anonymous';
         if (!rateLimiter.isAllowed(userId)) {
@@ -40,25 +63,22 @@ apiClient.interceptors.request.use(
         }
 
         // Add auth token with validation
-        const token = secureStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
+        const token = tokenStorage.getAccessToken();
         if (token) {
             // Validate token expiry before using
-            if (isTokenExpired(token)) {
+            if (!isTokenExpired(token)) {
+                config.headers.Authorization = `Bearer ${token}`;
+            } else if (!tokenStorage.isCookieMode) {
                 secureStorage.removeItem(STORAGE_KEYS.ACCESS_TOKEN);
                 window.location.href = '/admin/auth';
                 return Promise.reject(new Error('Token expired'));
             }
-            config.headers.Authorization = `Bearer ${token}`;
+            // Cookie mode: send without a token and let the 401 handler refresh
         }
 
-        // Add CSRF token for state-changing operations
-        if (['post', 'put', 'patch', 'delete'].includes(config.method?.toLowerCase())) {
-            let csrfToken = sessionStorage.getItem('csrf_token');
-            if (!csrfToken) {
-                csrfToken = generateCSRFToken();
-                sessionStorage.setItem('csrf_token', csrfToken);
-            }
-            config.headers['X-CSRF-Token'] = csrfToken;
+        // Add CSRF token for state-changing operations (cookie auth only)
+        if (tokenStorage.isCookieMode && UNSAFE_METHODS.includes(config.method?.toLowerCase())) {
+            config.headers['X-CSRF-Token'] = await getCSRFToken();
         }
 
         // Add request timestamp for replay attack prevention
@@ -85,6 +105,48 @@ apiClient.interceptors.request.use(
     }
 );
 
+// Shared in-flight refresh: refresh tokens rotate on every use, so
+// concurrent 401s must not each spend the same refresh token
+let refreshPromise: Promise<string> | null = null;
+
+// A 401 from these means bad credentials, not an expired access token
+const NO_REFRESH_URLS = ['/auth/login', '/auth/refresh', '/auth/mfa/verify'];
+
+const refreshAccessToken = (): Promise<string> => {
+    if (!refreshPromise) {
+        // Cookie mode: the browser attaches the refresh cookie
+        const refreshToken = tokenStorage.getRefreshToken();
+
+        refreshPromise = (tokenStorage.isCookieMode ? getCSRFToken() : Promise.resolve(null))
+            .then((csrf) =>
+                axios.post(
+                    `${ENV.API_BASE_URL}/auth/refresh`,
+                    refreshToken ? { refreshToken } : {},
+                    {
+                        headers: {
+                            'X-Refresh-Request': 'true',
+                            ...(csrf && { 'X-CSRF-Token': csrf }),
+                        },
+                        withCredentials: tokenStorage.isCookieMode,
+                    }
+                )
+            )
+            .then((response) => {
+                const { accessToken, refreshToken: newRefreshToken } = response.data.data;
+
+                tokenStorage.setAccessToken(accessToken);
+                if (newRefreshToken) {
+                    tokenStorage.setRefreshToken(newRefreshToken);
+                }
+                return accessToken;
+            })
+            .finally(() => {
+                refreshPromise = null;
+            });
+    }
+    return refreshPromise;
+};
+
 // Response interceptor with enhanced security
 apiClient.interceptors.response.use(
     (response) => {
@@ -106,31 +168,33 @@ apiClient.interceptors.response.use(
     async (error) => {
         const originalRequest = error.config;
 
+        // CSRF cookie expired or was rotated - fetch a fresh token and retry once
+        if (
+            error.response?.status === HTTP_STATUS.FORBIDDEN &&
+            error.response.data?.message === 'Invalid CSRF token' &&
+            !originalRequest._csrfRetry
+        ) {
+            originalRequest._csrfRetry = true;
+            csrfToken = null;
+            originalRequest.headers['X-CSRF-Token'] = await getCSRFToken();
+            return apiClient(originalRequest);
+        }
+
         // Handle 401 Unauthorized - Token expired
         if (error.response?.status === HTTP_STATUS.UNAUTHORIZED && !originalRequest._retry) {
             originalRequest._retry = true;
 
             try {
                 // Try to refresh token securely
-                const refreshToken = secureStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
-                if (refreshToken && !isTokenExpired(refreshToken)) {
-                    const response = await axios.post(
-                        `${ENV.API_BASE_URL}/auth/refresh`,
-                        { refreshToken },
-                        {
-                            headers: {
-                                'X-Refresh-Request': 'true',
-                            },
-                        }
-                    );
-
-                    const { accessToken, refreshToken: newRefreshToken } = response.data;
-
-                    // Store new tokens securely
-                    secureStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, accessToken);
-                    if (newRefreshToken) {
-                        secureStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, newRefreshToken);
-                    }
+                const refreshToken = tokenStorage.getRefreshToken();
+                const canRefresh = tokenStorage.isCookieMode
+                    ? !!secureStorage.getItem(STORAGE_KEYS.USER_DATA)
+                    : !!refreshToken && !isTokenExpired(refreshToken);
+
+                const isCredentialRequest = NO_REFRESH_URLS.some((url) => originalRequest.url?.includes(url));
+
+                if (canRefresh && !isCredentialRequest) {
+                    const accessToken = await refreshAccessToken();
 
                     // Retry original request with new token
                     originalRequest.headers.Authorization = `Bearer ${accessToken}`;
@@ -138,7 +202,7 @@ apiClient.interceptors.response.use(
                 }
             } catch (refreshError) {
                 // Refresh token failed - clear data and redirect
-                secureStorage.clear();
+                tokenStorage.clear();
                 sessionStorage.clear();
 
                 // Prevent redirect loop
@@ -186,7 +250,7 @@ const handleApiError = (error) => {
 
     switch (error.response.status) {
         case HTTP_STATUS.UNAUTHORIZED:
-            return MESSAGES.ERROR.UNAUTHORIZED;
+            return error.response.data?.message || MESSAGES.ERROR.UNAUTHORIZED;
         case HTTP_STATUS.NOT_FOUND:
             return MESSAGES.ERROR.NOT_FOUND;
         case HTTP_STATUS.BAD_REQUEST:
@@ -198,13 +262,43 @@ const handleApiError = (error) => {
     }
 };
 
-// API Methods with optional config
+// Fill {name} segments of a contract path, e.g. /users/{id}
+const buildUrl = (path: string, params?: Record<string, string | number>) =>
+    path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(String(params?.[name])));
+
+const request = <P extends keyof ApiPaths, M extends HttpMethod>(
+    method: M,
+    path: P,
+    options?: ApiRequestOptions<P, M>
+): Promise<ApiResult<P, M>> => {
+    const { path: params, query, body, config } = (options || {}) as {
+        path?: Record<string, string | number>;
+        query?: object;
+        body?: unknown;
+        config?: AxiosRequestConfig;
+    };
+
+    return apiClient.request({
+        ...config,
+        method,
+        url: buildUrl(path, params),
+        params: query,
+        data: body,
+        // Without this axios would serialise FormData as JSON
+        ...(body instanceof FormData && { headers: { ...config?.headers, 'Content-Type': 'multipart/form-data' } }),
+    }) as unknown as Promise<ApiResult<P, M>>;
+};
+
+// API methods typed by the backend contract: path parameters, query, body and
+// response all come from the generated OpenAPI types
 export const api = {
-    get: (url: string, config?: any) => apiClient.get(url, config),
-    post: (url: string, data?: any, config?: any) => apiClient.post(url, data, config),
-    put: (url: string, data?: any, config?: any) => apiClient.put(url, data, config),
-    patch: (url: string, data?: any, config?: any) => apiClient.patch(url, data, config),
-    delete: (url: string, config?: any) => apiClient.delete(url, config),
+    get: <P extends ApiPath<'get'>>(path: P, ...[options]: ApiRequestArgs<P, 'get'>) => request('get', path, options),
+    post: <P extends ApiPath<'post'>>(path: P, ...[options]: ApiRequestArgs<P, 'post'>) => request('post', path, options),
+    put: <P extends ApiPath<'put'>>(path: P, ...[options]: ApiRequestArgs<P, 'put'>) => request('put', path, options),
+    patch: <P extends ApiPath<'patch'>>(path: P, ...[options]: ApiRequestArgs<P, 'patch'>) =>
+        request('patch', path, options),
+    delete: <P extends ApiPath<'delete'>>(path: P, ...[options]: ApiRequestArgs<P, 'delete'>) =>
+        request('delete', path, options),
 };
 
 export default api;
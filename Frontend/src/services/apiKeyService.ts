@@ -0,0 +1,52 @@
+/**
+ * API Key Service
+ * Manage API keys used by external integrations
+ */
+
+import api from './api';
+import { API_ENDPOINTS } from '@constants';
+import { sanitizeInput } from '@utils/security';
+import type { ApiKey, ApiKeyInput, ApiKeySecret } from '@types';
+
+export const apiKeyService = {
+    /**
+     * List every API key, revoked ones included
+     * @returns {Promise<ApiKey[]>} Keys, newest first
+     */
+    getApiKeys: async (): Promise<ApiKey[]> => {
+        const response = await api.get(API_ENDPOINTS.API_KEYS.LIST);
+        return response.data?.apiKeys || [];
+    },
+
+    /**
+     * Create an API key
+     * @param {ApiKeyInput} input - Name, scopes, rate limit and optional expiry
+     * @returns {Promise<ApiKeySecret>} The new key; the full key is only returned once
+     */
+    createApiKey: async (input: ApiKeyInput): Promise<ApiKeySecret> => {
+        const response = await api.post(API_ENDPOINTS.API_KEYS.CREATE, {
+            body: { ...input, name: sanitizeInput(input.name) },
+        });
+        return response.data;
+    },
+
+    /**
+     * Replace the key material, keeping name and scopes
+     * @param {string} id - API key id
+     * @returns {Promise<ApiKeySecret>} The rotated key; the full key is only returned once
+     */
+    rotateApiKey: async (id: string): Promise<ApiKeySecret> => {
+        const response = await api.post(API_ENDPOINTS.API_KEYS.ROTATE, { path: { id } });
+        return response.data;
+    },
+
+    /**
+     * Revoke an API key immediately
+     * @param {string} id - API key id
+     */
+    revokeApiKey: async (id: string) => {
+        await api.delete(API_ENDPOINTS.API_KEYS.REVOKE, { path: { id } });
+    },
+};
+
+export default apiKeyService;
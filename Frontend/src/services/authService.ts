@@ -7,43 +7,96 @@
 import api from './api';
 import { API_ENDPOINTS, STORAGE_KEYS } from '@constants';
 import { secureStorage, sanitizeInput } from '@utils/security';
+import tokenStorage from './tokenStorage';
+import type { AuthResponse, MfaChallenge, MfaSetup, Permission, Session, User } from '@types';
+
+/**
+ * Store tokens and user data securely (encrypted in sessionStorage)
+ */
+const persistSession = (data: Partial<AuthResponse>) => {
+    if (data?.accessToken) {
+        tokenStorage.setAccessToken(data.accessToken);
+    }
+    if (data?.refreshToken) {
+        tokenStorage.setRefreshToken(data.refreshToken);
+    }
+    if (data?.user) {
+        // Sanitize user data before storing
+        const sanitizedUser = {
+            ...data.user,
+            name: sanitizeInput(data.user.name),
+            email: sanitizeInput(data.user.email),
+        };
+        secureStorage.setItem(STORAGE_KEYS.USER_DATA, sanitizedUser);
+    }
+};
 
 export const authService = {
     /**
      * Login user
      * @param {Object} credentials - User credentials (email, password)
-     * @returns {Promise} User data and tokens
+     * @returns {Promise} User data and tokens, or an MFA challenge for two-factor accounts
      */
-    login: async (credentials) => {
+    login: async (credentials): Promise<AuthResponse | MfaChallenge> => {
         // Sanitize input to prevent injection attacks
         const sanitizedCredentials = {
             email: sanitizeInput(credentials.email?.trim()),
             password: credentials.password, // Don't sanitize password, validate on backend
         };
 
-        const response = await api.post(API_ENDPOINTS.AUTH.LOGIN, sanitizedCredentials);
+        const response = await api.post(API_ENDPOINTS.AUTH.LOGIN, { body: sanitizedCredentials });
         const data = response.data;
 
-        // Store tokens and user data securely (encrypted in sessionStorage)
-        if (data?.accessToken) {
-            secureStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, data.accessToken);
-        }
-        if (data?.refreshToken) {
-            secureStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, data.refreshToken);
-        }
-        if (data?.user) {
-            // Sanitize user data before storing
-            const sanitizedUser = {
-                ...data.user,
-                name: sanitizeInput(data.user.name),
-                email: sanitizeInput(data.user.email),
-            };
-            secureStorage.setItem(STORAGE_KEYS.USER_DATA, sanitizedUser);
+        if (!('mfaRequired' in data)) {
+            persistSession(data);
         }
 
         return data;
     },
 
+    /**
+     * Complete a two-factor login
+     * @param {string} mfaToken - Challenge token returned by login
+     * @param {string} code - Authenticator or recovery code
+     * @returns {Promise} User data and tokens
+     */
+    verifyMfa: async (mfaToken: string, code: string): Promise<AuthResponse> => {
+        const response = await api.post(API_ENDPOINTS.AUTH.MFA_VERIFY, {
+            body: { mfaToken, code: code.trim() },
+        });
+        const data = response.data;
+        persistSession(data);
+        return data;
+    },
+
+    /**
+     * Start two-factor enrolment
+     * @returns {Promise} Secret and otpauth:// provisioning URI
+     */
+    setupMfa: async (): Promise<MfaSetup> => {
+        const response = await api.post(API_ENDPOINTS.AUTH.MFA_SETUP);
+        return response.data;
+    },
+
+    /**
+     * Confirm two-factor enrolment
+     * @param {string} code - Code from the authenticator app
+     * @returns {Promise} Recovery codes (shown only once)
+     */
+    enableMfa: async (code: string): Promise<{ recoveryCodes: string[] }> => {
+        const response = await api.post(API_ENDPOINTS.AUTH.MFA_ENABLE, { body: { code: code.trim() } });
+        return response.data;
+    },
+
+    /**
+     * Turn off two-factor authentication
+     * @param {string} password - Current password
+     * @param {string} code - Authenticator or recovery code
+     */
+    disableMfa: async (password: string, code: string) => {
+        await api.post(API_ENDPOINTS.AUTH.MFA_DISABLE, { body: { password, code: code.trim() } });
+    },
+
     /**
      * Register new user
      * @param {Object} userData - User registration data
@@ -58,7 +111,7 @@ export const authService = {
             // Don't sanitize password, let backend handle validation
         };
 
-        const response = await api.post(API_ENDPOINTS.AUTH.REGISTER, sanitizedData);
+        const response = await api.post(API_ENDPOINTS.AUTH.REGISTER, { body: sanitizedData });
         return response.data;
     },
 
@@ -68,10 +121,12 @@ export const authService = {
      */
     logout: async () => {
         try {
-            await api.post(API_ENDPOINTS.AUTH.LOGOUT);
+            // Cookie mode: the server reads the refresh cookie
+            const refreshToken = tokenStorage.getRefreshToken();
+            await api.post(API_ENDPOINTS.AUTH.LOGOUT, { body: refreshToken ? { refreshToken } : {} });
         } finally {
             // Clear all storage securely regardless of API response
-            secureStorage.clear();
+            tokenStorage.clear();
             sessionStorage.clear();
 
             // Clear any cached data
@@ -83,6 +138,91 @@ export const authService = {
         }
     },
 
+    /**
+     * Logout user from every device
+     * @returns {Promise} Logout response
+     */
+    logoutAll: async () => {
+        try {
+            await api.post(API_ENDPOINTS.AUTH.LOGOUT_ALL);
+        } finally {
+            tokenStorage.clear();
+            sessionStorage.clear();
+        }
+    },
+
+    /**
+     * Confirm an email address with the emailed token
+     * @param {string} token - Verification token from the link
+     * @returns {Promise} Verified user
+     */
+    verifyEmail: async (token: string) => {
+        const response = await api.post(API_ENDPOINTS.AUTH.VERIFY_EMAIL, { body: { token } });
+        return response.data;
+    },
+
+    /**
+     * Request a new verification email
+     * @param {string} email - Account email
+     * @returns {Promise} Empty response (does not reveal whether the account exists)
+     */
+    resendVerification: async (email: string) => {
+        const response = await api.post(API_ENDPOINTS.AUTH.RESEND_VERIFICATION, {
+            body: { email: sanitizeInput(email?.trim()) },
+        });
+        return response.data;
+    },
+
+    /**
+     * Request a password reset email
+     * @param {string} email - Account email
+     * @returns {Promise} Empty response (does not reveal whether the account exists)
+     */
+    forgotPassword: async (email: string) => {
+        const response = await api.post(API_ENDPOINTS.AUTH.FORGOT_PASSWORD, {
+            body: { email: sanitizeInput(email?.trim()) },
+        });
+        return response.data;
+    },
+
+    /**
+     * Set a new password with the emailed token; every session is signed out
+     * @param {string} token - Reset token from the link
+     * @param {string} password - New password
+     * @returns {Promise} Empty response
+     */
+    resetPassword: async (token: string, password: string) => {
+        const response = await api.post(API_ENDPOINTS.AUTH.RESET_PASSWORD, { body: { token, password } });
+        tokenStorage.clear();
+        return response.data;
+    },
+
+    /**
+     * List active sessions of the current user
+     * @returns {Promise<Session[]>} Sessions, most recently used first
+     */
+    getSessions: async (): Promise<Session[]> => {
+        const response = await api.get(API_ENDPOINTS.AUTH.SESSIONS);
+        return response.data?.sessions || [];
+    },
+
+    /**
+     * Revoke one session (e.g. a lost device)
+     * @param {string} id - Session id
+     */
+    revokeSession: async (id: string) => {
+        await api.delete(API_ENDPOINTS.AUTH.SESSION, { path: { id } });
+    },
+
+    /**
+     * Revoke every session except the current one
+     * @returns {Promise<number>} Number of revoked sessions
+     */
+    revokeOtherSessions: async (): Promise<number> => {
+        const response = await api.delete(API_ENDPOINTS.AUTH.SESSIONS);
+        return response.data?.revoked ?? 0;
+    },
+
     /**
      * Get current user profile
      * @returns {Promise} User profile data
@@ -90,15 +230,7 @@ export const authService = {
     getProfile: async () => {
         const response = await api.get(API_ENDPOINTS.AUTH.PROFILE);
         const data = response.data;
-        if (data?.user) {
-            // Sanitize user data
-            const sanitizedUser = {
-                ...data.user,
-                name: sanitizeInput(data.user.name),
-                email: sanitizeInput(data.user.email),
-            };
-            secureStorage.setItem(STORAGE_KEYS.USER_DATA, sanitizedUser);
-        }
+        persistSession(data);
         return data;
     },
 
@@ -107,22 +239,16 @@ export const authService = {
      * @returns {Promise} New access token
      */
     refreshToken: async () => {
-        const refreshToken = secureStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
-        if (!refreshToken) {
+        const refreshToken = tokenStorage.getRefreshToken();
+        if (!refreshToken && !tokenStorage.isCookieMode) {
             throw new Error('No refresh token available');
         }
 
         const response = await api.post(API_ENDPOINTS.AUTH.REFRESH_TOKEN, {
-            refreshToken,
+            body: refreshToken ? { refreshToken } : {},
         });
         const data = response.data;
-
-        if (data?.accessToken) {
-            secureStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, data.accessToken);
-        }
-        if (data?.refreshToken) {
-            secureStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, data.refreshToken);
-        }
+        persistSession(data);
 
         return data;
     },
@@ -132,8 +258,22 @@ export const authService = {
      * @returns {boolean} Authentication status
      */
     isAuthenticated: () => {
-        const token = secureStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN);
-        return !!token;
+        // Cookie mode keeps the access token in memory, so after a reload the
+        // stored user is the session hint and the first request refreshes it
+        if (tokenStorage.isCookieMode) {
+            return !!tokenStorage.getAccessToken() || !!secureStorage.getItem(STORAGE_KEYS.USER_DATA);
+        }
+        return !!tokenStorage.getAccessToken();
+    },
+
+    /**
+     * Check if the current user's role grants a permission
+     * @param {Permission} permission - Permission to check
+     * @returns {boolean} Has permission
+     */
+    hasPermission: (permission: Permission) => {
+        const user = secureStorage.getItem(STORAGE_KEYS.USER_DATA) as User | null;
+        return !!user?.permissions?.includes(permission);
     },
 
     /**
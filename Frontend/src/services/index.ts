@@ -5,7 +5,12 @@
 
 export { default as api } from './api';
 export { default as authService } from './authService';
+export { default as apiKeyService } from './apiKeyService';
+export { default as userService } from './userService';
+export { default as uploadService } from './uploadService';
+export { default as productService } from './productService';
+export { default as orderService } from './orderService';
+export { default as newsService } from './newsService';
+export { default as statsService } from './statsService';
 
 // Add more service exports as needed
-// export { default as userService } from './userService';
-// export { default as productService } from './productService';
@@ -0,0 +1,114 @@
+/**
+ * News Service
+ * Article, preview and revision API calls
+ */
+
+import api from './api';
+import { API_ENDPOINTS } from '@constants';
+import type {
+    NewsArticle,
+    NewsFilters,
+    NewsInput,
+    NewsRevision,
+    NewsRevisionDiff,
+    PaginatedResponse,
+    PaginationParams,
+} from '@types';
+
+export const newsService = {
+    /**
+     * List articles page by page (any status)
+     * @param {PaginationParams & NewsFilters} params - Page, sort and filters
+     * @returns {Promise<PaginatedResponse<NewsArticle>>} One page of articles
+     */
+    getArticles: async (params: PaginationParams & NewsFilters): Promise<PaginatedResponse<NewsArticle>> => {
+        return api.get(API_ENDPOINTS.NEWS.LIST, { query: params });
+    },
+
+    /**
+     * Get an article
+     * @param {string} id - Article id
+     * @returns {Promise<NewsArticle>} Article
+     */
+    getArticle: async (id: string): Promise<NewsArticle> => {
+        const response = await api.get(API_ENDPOINTS.NEWS.DETAIL, { path: { id } });
+        return response.data.article;
+    },
+
+    /**
+     * Create an article; anything but a draft needs news:publish
+     * @param {NewsInput} input - Article fields
+     * @returns {Promise<NewsArticle>} Created article
+     */
+    createArticle: async (input: NewsInput): Promise<NewsArticle> => {
+        const response = await api.post(API_ENDPOINTS.NEWS.CREATE, { body: input });
+        return response.data.article;
+    },
+
+    /**
+     * Update an article; content changes are kept as a new revision
+     * @param {string} id - Article id
+     * @param {Partial<NewsInput>} changes - Fields to change
+     * @returns {Promise<NewsArticle>} Updated article
+     */
+    updateArticle: async (id: string, changes: Partial<NewsInput>): Promise<NewsArticle> => {
+        const response = await api.put(API_ENDPOINTS.NEWS.UPDATE, { path: { id }, body: changes });
+        return response.data.article;
+    },
+
+    /**
+     * Delete an article and its revisions
+     * @param {string} id - Article id
+     */
+    deleteArticle: async (id: string) => {
+        await api.delete(API_ENDPOINTS.NEWS.DELETE, { path: { id } });
+    },
+
+    /**
+     * Sanitize a body with the server's allow-list, without saving it
+     * @param {string} body - Editor HTML
+     * @returns {Promise<string>} HTML as it would be stored
+     */
+    previewBody: async (body: string): Promise<string> => {
+        const response = await api.post(API_ENDPOINTS.NEWS.PREVIEW, { body: { body } });
+        return response.data?.html || '';
+    },
+
+    /**
+     * Saved revisions of an article
+     * @param {string} id - Article id
+     * @returns {Promise<NewsRevision[]>} Revisions, newest first
+     */
+    getRevisions: async (id: string): Promise<NewsRevision[]> => {
+        const response = await api.get(API_ENDPOINTS.NEWS.REVISIONS, { path: { id } });
+        return response.data?.revisions || [];
+    },
+
+    /**
+     * Compare a revision with another one
+     * @param {string} id - Article id
+     * @param {number} revision - Older revision
+     * @param {number} [against] - Newer revision; the latest when omitted
+     * @returns {Promise<NewsRevisionDiff>} Line changes per field
+     */
+    getRevisionDiff: async (id: string, revision: number, against?: number): Promise<NewsRevisionDiff> => {
+        const response = await api.get(API_ENDPOINTS.NEWS.REVISION_DIFF, {
+            path: { id, revision },
+            query: against === undefined ? undefined : { against },
+        });
+        return response.data.diff;
+    },
+
+    /**
+     * Bring back the content of a revision; it is saved as a new revision
+     * @param {string} id - Article id
+     * @param {number} revision - Revision to restore
+     * @returns {Promise<NewsArticle>} Updated article
+     */
+    restoreRevision: async (id: string, revision: number): Promise<NewsArticle> => {
+        const response = await api.post(API_ENDPOINTS.NEWS.RESTORE_REVISION, { path: { id, revision } });
+        return response.data.article;
+    },
+};
+
+export default newsService;
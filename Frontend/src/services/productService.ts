@@ -0,0 +1,99 @@
+/**
+ * Product Service
+ * Product catalog, category and inventory API calls
+ */
+
+import api from './api';
+import { API_ENDPOINTS } from '@constants';
+import type {
+    Category,
+    InventoryAdjustment,
+    InventoryMovement,
+    PaginatedResponse,
+    PaginationParams,
+    Product,
+    ProductFilters,
+    ProductInput,
+} from '@types';
+
+export const productService = {
+    /**
+     * List products page by page (any status)
+     * @param {PaginationParams & ProductFilters} params - Page, sort and filters
+     * @returns {Promise<PaginatedResponse<Product>>} One page of products
+     */
+    getProducts: async (params: PaginationParams & ProductFilters): Promise<PaginatedResponse<Product>> => {
+        return api.get(API_ENDPOINTS.PRODUCTS.LIST, { query: params });
+    },
+
+    /**
+     * Get a product
+     * @param {string} id - Product id
+     * @returns {Promise<Product>} Product
+     */
+    getProduct: async (id: string): Promise<Product> => {
+        const response = await api.get(API_ENDPOINTS.PRODUCTS.DETAIL, { path: { id } });
+        return response.data.product;
+    },
+
+    /**
+     * Create a product
+     * @param {ProductInput} input - Product fields; stock starts at zero
+     * @returns {Promise<Product>} Created product
+     */
+    createProduct: async (input: ProductInput): Promise<Product> => {
+        const response = await api.post(API_ENDPOINTS.PRODUCTS.CREATE, { body: input });
+        return response.data.product;
+    },
+
+    /**
+     * Update a product; stock is only changed through adjustInventory
+     * @param {string} id - Product id
+     * @param {Partial<ProductInput>} changes - Fields to change
+     * @returns {Promise<Product>} Updated product
+     */
+    updateProduct: async (id: string, changes: Partial<ProductInput>): Promise<Product> => {
+        const response = await api.put(API_ENDPOINTS.PRODUCTS.UPDATE, { path: { id }, body: changes });
+        return response.data.product;
+    },
+
+    /**
+     * Delete a product
+     * @param {string} id - Product id
+     */
+    deleteProduct: async (id: string) => {
+        await api.delete(API_ENDPOINTS.PRODUCTS.DELETE, { path: { id } });
+    },
+
+    /**
+     * Stock movement history of a product
+     * @param {string} id - Product id
+     * @returns {Promise<InventoryMovement[]>} Movements, newest first
+     */
+    getInventoryMovements: async (id: string): Promise<InventoryMovement[]> => {
+        const response = await api.get(API_ENDPOINTS.PRODUCTS.INVENTORY, { path: { id } });
+        return response.data?.movements || [];
+    },
+
+    /**
+     * Change the stock of one variant
+     * @param {string} id - Product id
+     * @param {InventoryAdjustment} adjustment - SKU, delta or absolute count, and reason
+     * @returns {Promise<Product>} Product with new stock levels
+     */
+    adjustInventory: async (id: string, adjustment: InventoryAdjustment): Promise<Product> => {
+        const response = await api.post(API_ENDPOINTS.PRODUCTS.INVENTORY, { path: { id }, body: adjustment });
+        return response.data.product;
+    },
+
+    /**
+     * List product categories
+     * @returns {Promise<Category[]>} Categories, alphabetical
+     */
+    getCategories: async (): Promise<Category[]> => {
+        const response = await api.get(API_ENDPOINTS.CATEGORIES.LIST);
+        return response.data?.categories || [];
+    },
+};
+
+export default productService;
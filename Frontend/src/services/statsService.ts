@@ -0,0 +1,22 @@
+/**
+ * Stats Service
+ * Dashboard figures API calls
+ */
+
+import api from './api';
+import { API_ENDPOINTS } from '@constants';
+import type { DashboardStats, StatsParams } from '@types';
+
+export const statsService = {
+    /**
+     * Counts, revenue series and top products for a date range
+     * @param {StatsParams} params - Range, bucket size and time zone offset
+     * @returns {Promise<DashboardStats>} Dashboard figures
+     */
+    getDashboard: async (params: StatsParams): Promise<DashboardStats> => {
+        const response = await api.get(API_ENDPOINTS.ADMIN.STATS, { query: params });
+        return response.data.stats;
+    },
+};
+
+export default statsService;
@@ -0,0 +1,52 @@
+/**
+ * Token Storage
+ * Keeps auth tokens where the configured auth mode expects them
+ * - cookie: access token in memory only; the refresh token is an httpOnly cookie
+ *   the browser sends to /api/auth and scripts cannot read
+ * - header: both tokens in encrypted sessionStorage
+ */
+
+import ENV from '@config/env';
+import { STORAGE_KEYS } from '@constants';
+import { secureStorage } from '@utils/security';
+
+const isCookieMode = ENV.AUTH_MODE === 'cookie';
+
+let memoryAccessToken: string | null = null;
+
+export const tokenStorage = {
+    /**
+     * Whether the refresh token lives in an httpOnly cookie
+     */
+    isCookieMode,
+
+    getAccessToken: (): string | null =>
+        isCookieMode ? memoryAccessToken : secureStorage.getItem(STORAGE_KEYS.ACCESS_TOKEN),
+
+    setAccessToken: (token: string) => {
+        if (isCookieMode) {
+            memoryAccessToken = token;
+        } else {
+            secureStorage.setItem(STORAGE_KEYS.ACCESS_TOKEN, token);
+        }
+    },
+
+    /**
+     * Refresh token for header mode; always null in cookie mode
+     */
+    getRefreshToken: (): string | null =>
+        isCookieMode ? null : secureStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN),
+
+    setRefreshToken: (token: string) => {
+        if (!isCookieMode) {
+            secureStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, token);
+        }
+    },
+
+    clear: () => {
+        memoryAccessToken = null;
+        secureStorage.clear();
+    },
+};
+
+export default tokenStorage;
@@ -0,0 +1,49 @@
+/**
+ * Upload Service
+ * File uploads and URLs of uploaded files
+ */
+
+import api from './api';
+import ENV from '@config/env';
+import { API_ENDPOINTS } from '@constants';
+import type { UploadedFile } from '@types';
+
+export const uploadService = {
+    /**
+     * Upload an avatar image
+     * @param {File} file - Image file
+     * @returns {Promise<UploadedFile>} Stored file; url is a server path
+     */
+    uploadAvatar: async (file: File): Promise<UploadedFile> => {
+        const formData = new FormData();
+        formData.append('avatar', file);
+
+        const response = await api.post(API_ENDPOINTS.UPLOADS.AVATAR, { body: formData });
+        return response.data;
+    },
+
+    /**
+     * Upload up to 10 images at once
+     * @param {File[]} files - Image files
+     * @returns {Promise<UploadedFile[]>} Stored files, in upload order
+     */
+    uploadImages: async (files: File[]): Promise<UploadedFile[]> => {
+        const formData = new FormData();
+        files.forEach((file) => formData.append('images', file));
+
+        const response = await api.post(API_ENDPOINTS.UPLOADS.IMAGES, { body: formData });
+        return response.data?.files || [];
+    },
+
+    /**
+     * Absolute URL for a file path served by the API server
+     * @param {string} path - Path such as /uploads/avatars/x.png, or a full URL
+     * @returns {string} URL usable in an img src
+     */
+    getFileUrl: (path?: string): string => {
+        if (!path) return '';
+        return new URL(path, ENV.API_BASE_URL).href;
+    },
+};
+
+export default uploadService;
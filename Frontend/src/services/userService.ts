@@ -0,0 +1,149 @@
+/**
+ * User Service
+ * Administrative user management API calls
+ */
+
+import api from './api';
+import { API_ENDPOINTS } from '@constants';
+import { sanitizeInput } from '@utils/security';
+import type {
+    PaginatedResponse,
+    PaginationParams,
+    Session,
+    User,
+    UserActivity,
+    UserFilters,
+    UserInput,
+    UserRole,
+} from '@types';
+
+export const userService = {
+    /**
+     * List users page by page
+     * @param {PaginationParams & UserFilters} params - Page, sort and filters
+     * @returns {Promise<PaginatedResponse<User>>} One page of users
+     */
+    getUsers: async (params: PaginationParams & UserFilters): Promise<PaginatedResponse<User>> => {
+        // Search is matched literally server-side; encoding it would break matches like O'Brien
+        return api.get(API_ENDPOINTS.USERS.LIST, { query: params });
+    },
+
+    /**
+     * Get a single user
+     * @param {string} id - User id
+     * @returns {Promise<User>} User with role permissions
+     */
+    getUser: async (id: string): Promise<User> => {
+        const response = await api.get(API_ENDPOINTS.USERS.DETAIL, { path: { id } });
+        return response.data.user;
+    },
+
+    /**
+     * Create a user
+     * @param {UserInput} input - Account details
+     * @returns {Promise<User>} Created user
+     */
+    createUser: async (input: UserInput): Promise<User> => {
+        const response = await api.post(API_ENDPOINTS.USERS.CREATE, {
+            body: {
+                ...input,
+                email: sanitizeInput(input.email?.trim()),
+                name: sanitizeInput(input.name?.trim()),
+            },
+        });
+        return response.data.user;
+    },
+
+    /**
+     * Update profile fields (name, email, avatar, verification, password)
+     * @param {string} id - User id
+     * @param {Partial<UserInput>} changes - Fields to change
+     * @returns {Promise<User>} Updated user
+     */
+    updateUser: async (id: string, changes: Partial<Omit<UserInput, 'role'>>): Promise<User> => {
+        const response = await api.put(API_ENDPOINTS.USERS.UPDATE, {
+            path: { id },
+            body: {
+                ...changes,
+                ...(changes.email !== undefined && { email: sanitizeInput(changes.email.trim()) }),
+                ...(changes.name !== undefined && { name: sanitizeInput(changes.name.trim()) }),
+            },
+        });
+        return response.data.user;
+    },
+
+    /**
+     * Move a user to another role (signs them out everywhere)
+     * @param {string} id - User id
+     * @param {UserRole} role - New role
+     * @returns {Promise<User>} Updated user
+     */
+    changeRole: async (id: string, role: UserRole): Promise<User> => {
+        const response = await api.put(API_ENDPOINTS.USERS.ROLE, { path: { id }, body: { role } });
+        return response.data.user;
+    },
+
+    /**
+     * Suspend a user
+     * @param {string} id - User id
+     * @param {string} reason - Optional reason shown to administrators
+     * @returns {Promise<User>} Updated user
+     */
+    banUser: async (id: string, reason?: string): Promise<User> => {
+        const response = await api.post(API_ENDPOINTS.USERS.BAN, {
+            path: { id },
+            body: { reason: reason ? sanitizeInput(reason) : undefined },
+        });
+        return response.data.user;
+    },
+
+    /**
+     * Lift a suspension
+     * @param {string} id - User id
+     * @returns {Promise<User>} Updated user
+     */
+    unbanUser: async (id: string): Promise<User> => {
+        const response = await api.post(API_ENDPOINTS.USERS.UNBAN, { path: { id } });
+        return response.data.user;
+    },
+
+    /**
+     * Delete a user
+     * @param {string} id - User id
+     */
+    deleteUser: async (id: string) => {
+        await api.delete(API_ENDPOINTS.USERS.DELETE, { path: { id } });
+    },
+
+    /**
+     * Active sessions of a user
+     * @param {string} id - User id
+     * @returns {Promise<Session[]>} Sessions, most recently used first
+     */
+    getUserSessions: async (id: string): Promise<Session[]> => {
+        const response = await api.get(API_ENDPOINTS.USERS.SESSIONS, { path: { id } });
+        return response.data?.sessions || [];
+    },
+
+    /**
+     * Sign a user out of every device
+     * @param {string} id - User id
+     * @returns {Promise<number>} Number of revoked sessions
+     */
+    revokeUserSessions: async (id: string): Promise<number> => {
+        const response = await api.delete(API_ENDPOINTS.USERS.SESSIONS, { path: { id } });
+        return response.data?.revoked || 0;
+    },
+
+    /**
+     * Recent account activity of a user
+     * @param {string} id - User id
+     * @returns {Promise<UserActivity[]>} Events, newest first
+     */
+    getUserActivity: async (id: string): Promise<UserActivity[]> => {
+        const response = await api.get(API_ENDPOINTS.USERS.ACTIVITY, { path: { id } });
+        return response.data?.activity || [];
+    },
+};
+
+export default userService;
@@ -1,5 +1,5 @@
 import { createSlice, createAsyncThunk, type PayloadAction } from '@reduxjs/toolkit';
-import type { User, AuthResponse } from '@types';
+import type { User, AuthResponse, MfaChallenge } from '@types';
 import { authService } from '@services';
 
 // ============= Types =============
@@ -35,12 +35,11 @@ const initialState: AuthState = {
 
 // ============= Async Thunks =============
 
-export const login = createAsyncThunk<AuthResponse, LoginCredentials>(
+export const login = createAsyncThunk<AuthResponse | MfaChallenge, LoginCredentials>(
     'auth/login',
     async (credentials, { rejectWithValue }) => {
         try {
-            const response = await authService.login(credentials);
-            return response.data;
+            return await authService.login(credentials);
         } catch (error: unknown) {
             return rejectWithValue(
                 error instanceof Error ? error.message : 'Login failed'
@@ -53,8 +52,7 @@ export const register = createAsyncThunk<AuthResponse, RegisterData>(
     'auth/register',
     async (data, { rejectWithValue }) => {
         try {
-            const response = await authService.register(data);
-            return response.data;
+            return await authService.register(data);
         } catch (error: unknown) {
             return rejectWithValue(
                 error instanceof Error ? error.message : 'Registration failed'
@@ -80,8 +78,8 @@ export const fetchProfile = createAsyncThunk<User, void>(
     'auth/fetchProfile',
     async (_, { rejectWithValue }) => {
         try {
-            const response = await authService.getProfile();
-            return response.data;
+            const { user } = await authService.getProfile();
+            return user;
         } catch (error: unknown) {
             return rejectWithValue(
                 error instanceof Error ? error.message : 'Failed to fetch profile'
@@ -117,6 +115,8 @@ const authSlice = createSlice({
             })
             .addCase(login.fulfilled, (state, action) => {
                 state.isLoading = false;
+                // Two-factor accounts are not signed in until the code is verified
+                if ('mfaRequired' in action.payload) return;
                 state.user = action.payload.user;
                 state.token = action.payload.accessToken;
                 state.isAuthenticated = true;
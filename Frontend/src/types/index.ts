@@ -4,39 +4,121 @@
  */
 
 import React from 'react';
+import type { AxiosRequestConfig } from 'axios';
+import type { components, paths } from './openapi';
+
+// ============= API Contract Types =============
+
+// Generated from Backend/openapi.json by `npm run api:generate`; do not copy
+// backend shapes by hand, alias the contract schemas below instead
+export type { paths as ApiPaths, components as ApiComponents, operations as ApiOperations } from './openapi';
+
+type Schemas = components['schemas'];
 
 // ============= User & Auth Types =============
 
-export interface User {
-    id: string;
-    email: string;
-    name: string;
-    role: UserRole;
-    avatar?: string;
-    createdAt?: string;
-    updatedAt?: string;
+export type User = Schemas['User'];
+export type UserRole = User['role'];
+export type Permission = Schemas['Role']['permissions'][number];
+export type Role = Schemas['Role'];
+export type AuthResponse = Schemas['AuthResponse'];
+export type MfaChallenge = Schemas['MfaChallenge'];
+export type MfaSetup = Schemas['MfaSetup'];
+export type Session = Schemas['Session'];
+
+export interface UserFilters {
+    search?: string;
+    role?: UserRole;
+    isVerified?: boolean;
+    banned?: boolean;
+}
+
+export type UserInput = Schemas['UserInput'];
+export type UserActivity = Schemas['UserActivity'];
+export type UserActivityType = UserActivity['type'];
+export type UploadedFile = Schemas['UploadedFile'];
+
+// ============= Catalog Types =============
+
+export type Category = Schemas['Category'];
+export type ProductOption = Schemas['ProductOption'];
+export type ProductVariant = Schemas['ProductVariant'];
+export type Product = Schemas['Product'];
+export type ProductStatus = Product['status'];
+export type ProductInput = Schemas['ProductInput'];
+
+export interface ProductFilters {
+    search?: string;
+    category?: string;
+    status?: ProductStatus;
+    minPrice?: number;
+    maxPrice?: number;
+    inStock?: boolean;
 }
 
-export type UserRole = 'admin' | 'user' | 'guest';
+export type InventoryAdjustment = Schemas['InventoryAdjustment'];
+export type InventoryMovement = Schemas['InventoryMovement'];
+export type InventoryMovementSource = InventoryMovement['source'];
 
-export interface AuthResponse {
-    user: User;
-    accessToken: string;
-    refreshToken?: string;
+// ============= Order Types =============
+
+export type Order = Schemas['Order'];
+export type OrderStatus = Order['status'];
+export type OrderItem = Schemas['OrderItem'];
+export type ShippingAddress = Schemas['ShippingAddress'];
+export type OrderTransition = Schemas['OrderTransition'];
+export type OrderTransitionResult = Schemas['OrderTransitionResult'];
+
+export interface OrderDetail {
+    order: Order;
+    // Statuses the current user may move the order to
+    transitions: OrderStatus[];
 }
 
-export interface LoginCredentials {
-    email: string;
-    password: string;
+export interface OrderFilters {
+    search?: string;
+    status?: OrderStatus;
+    // ISO timestamps, inclusive
+    from?: string;
+    to?: string;
 }
 
-export interface RegisterData {
-    email: string;
-    password: string;
-    name: string;
-    confirmPassword?: string;
+// ============= News Types =============
+
+export type NewsArticle = Schemas['NewsArticle'];
+export type NewsStatus = NewsArticle['status'];
+export type NewsInput = Schemas['NewsInput'];
+
+export interface NewsFilters {
+    search?: string;
+    status?: NewsStatus;
+    tag?: string;
 }
 
+export type NewsRevision = Schemas['NewsRevision'];
+export type DiffPart = Schemas['DiffPart'];
+export type NewsRevisionDiff = Schemas['NewsRevisionDiff'];
+
+// ============= Dashboard Types =============
+
+export type DashboardStats = Schemas['DashboardStats'];
+export type StatsInterval = DashboardStats['range']['interval'];
+export type StatsBucket = Schemas['StatsBucket'];
+export type TopProduct = Schemas['TopProduct'];
+export type StatsParams = ApiQuery<'/admin/stats', 'get'>;
+
+// ============= API Key Types =============
+
+export type ApiKey = Schemas['ApiKey'];
+export type ApiKeyInput = Schemas['ApiKeyInput'];
+export type ApiKeySecret = Schemas['ApiKeySecret'];
+
+export type LoginCredentials = Schemas['LoginCredentials'];
+
+export type RegisterData = Schemas['RegisterData'] & {
+    confirmPassword?: string;
+};
+
 // ============= API Types =============
 
 export interface ApiError {
@@ -45,11 +127,9 @@ export interface ApiError {
     data?: unknown;
 }
 
-export interface ApiResponse<T = unknown> {
+export type ApiResponse<T = unknown> = Omit<Schemas['ApiResponse'], 'data'> & {
     data: T;
-    message?: string;
-    success?: boolean;
-}
+};
 
 export interface PaginationParams {
     page: number;
@@ -58,13 +138,56 @@ export interface PaginationParams {
     order?: 'asc' | 'desc';
 }
 
-export interface PaginatedResponse<T = unknown> {
+export type PaginatedResponse<T = unknown> = Omit<Schemas['PaginatedResponse'], 'data'> & {
     data: T[];
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-}
+};
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+// Contract paths (e.g. '/users/{id}') that answer the method
+export type ApiPath<M extends HttpMethod> = {
+    [P in keyof paths]: paths[P] extends Record<M, object> ? P : never;
+}[keyof paths];
+
+type ApiOperation<P extends keyof paths, M extends HttpMethod> = paths[P][M];
+
+export type ApiPathParams<P extends keyof paths, M extends HttpMethod> =
+    ApiOperation<P, M> extends { parameters: { path: infer T } } ? T : never;
+
+export type ApiQuery<P extends keyof paths, M extends HttpMethod> =
+    ApiOperation<P, M> extends { parameters: { query?: infer T } } ? T : never;
+
+export type ApiBody<P extends keyof paths, M extends HttpMethod> =
+    ApiOperation<P, M> extends { requestBody: { content: { 'application/json': infer T } } }
+        ? T
+        : ApiOperation<P, M> extends { requestBody: { content: { 'multipart/form-data': unknown } } }
+          ? FormData
+          : never;
+
+type SuccessContent<R> = R extends { content: infer C } ? C[keyof C] : never;
+
+// Body of the 200/201 response, envelope included
+export type ApiResult<P extends keyof paths, M extends HttpMethod> =
+    ApiOperation<P, M> extends { responses: infer R }
+        ? R extends { 200: infer S }
+            ? SuccessContent<S>
+            : R extends { 201: infer S }
+              ? SuccessContent<S>
+              : never
+        : never;
+
+export type ApiRequestOptions<P extends keyof paths, M extends HttpMethod> = ([ApiPathParams<P, M>] extends [never]
+    ? { path?: never }
+    : { path: ApiPathParams<P, M> }) &
+    ([ApiQuery<P, M>] extends [never] ? { query?: never } : { query?: ApiQuery<P, M> }) &
+    ([ApiBody<P, M>] extends [never] ? { body?: never } : { body: ApiBody<P, M> }) & {
+        config?: AxiosRequestConfig;
+    };
+
+// Options may be left out when the route has neither path parameters nor a body
+export type ApiRequestArgs<P extends keyof paths, M extends HttpMethod> = [ApiPathParams<P, M> | ApiBody<P, M>] extends [never]
+    ? [options?: ApiRequestOptions<P, M>]
+    : [options: ApiRequestOptions<P, M>];
 
 // ============= Route Types =============
 
@@ -75,6 +198,7 @@ export interface RouteConfig {
     isProtected?: boolean;
     isRestricted?: boolean;
     requiredRole?: UserRole;
+    requiredPermission?: Permission;
 }
 
 // ============= Hook Types =============
@@ -92,7 +216,8 @@ export interface UseAuthResult {
     loading: boolean;
     error: string | null;
     isAuthenticated: boolean;
-    login: (credentials: LoginCredentials) => Promise<AuthResponse>;
+    login: (credentials: LoginCredentials) => Promise<AuthResponse | MfaChallenge>;
+    verifyMfa: (mfaToken: string, code: string) => Promise<AuthResponse>;
     register: (data: RegisterData) => Promise<ApiResponse>;
     logout: () => Promise<void>;
     refreshProfile: () => Promise<User>;
@@ -104,6 +229,7 @@ export interface UseAuthResult {
 export interface ProtectedRouteProps {
     children: React.ReactNode;
     requiredRole?: UserRole;
+    requiredPermission?: Permission;
 }
 
 export interface PublicRouteProps {
@@ -0,0 +1,33 @@
+/**
+ * Error Utilities
+ * Narrow caught values to the errors the API client rejects with
+ */
+
+import type { ApiError } from '@types';
+
+/**
+ * Whether a caught value is an API client error
+ * @param {unknown} error - Caught value
+ * @returns {boolean} Has a message (and maybe status and response data)
+ */
+export const isApiError = (error: unknown): error is ApiError =>
+    typeof error === 'object' && error !== null && typeof (error as ApiError).message === 'string';
+
+/**
+ * Message of a caught error
+ * @param {unknown} error - Caught value
+ * @param {string} fallback - Message when the error has none
+ * @returns {string} Message to show
+ */
+export const getErrorMessage = (error: unknown, fallback: string): string =>
+    (error instanceof Error || isApiError(error)) && error.message ? error.message : fallback;
+
+/**
+ * Field messages of a validation (422) response
+ * @param {unknown} error - Caught value
+ * @returns {string[]} Messages, empty for other errors
+ */
+export const getValidationErrors = (error: unknown): string[] => {
+    const errors = isApiError(error) ? (error.data as { errors?: unknown } | undefined)?.errors : undefined;
+    return Array.isArray(errors) ? errors.filter((message): message is string => typeof message === 'string') : [];
+};
@@ -132,6 +132,22 @@ export const copyToClipboard = async (text) => {
     }
 };
 
+/**
+ * Save a Blob as a file download
+ * @param {Blob} blob - File contents
+ * @param {string} filename - Suggested file name
+ */
+export const downloadBlob = (blob, filename) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
 export default {
     generateId,
     sleep,
@@ -143,4 +159,5 @@ export default {
     debounce,
     throttle,
     copyToClipboard,
+    downloadBlob,
 };
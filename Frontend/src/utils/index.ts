@@ -7,3 +7,4 @@ export * from './format';
 export * from './validation';
 export * from './helpers';
 export * from './security';
+export * from './errors';
@@ -8,6 +8,7 @@ interface ImportMetaEnv {
     readonly VITE_ENCRYPTION_KEY: string
     readonly VITE_ENABLE_LOGGING: string
     readonly VITE_ENABLE_MOCK_API: string
+    readonly VITE_AUTH_MODE: string
 }
 
 interface ImportMeta {